@@ -18,10 +18,15 @@ import {
   Plane, // Used for Travel Tracker
   History, // Changed from Archive for Data Archive
   Settings, // Used for System Settings
-  CreditCard // Used for Bank Registry
+  CreditCard, // Used for Bank Registry
+  Store, // Used for Merchant Registry
+  Wallet, // Used for Reimbursement Claims
+  Repeat // Used for Subscriptions
 } from 'lucide-react';
-import { Expense, AppTab, ReconciliationResult, ReconciliationReport, TravelLog, AppSettings } from './types'; // Added AppSettings
+import { Expense, AppTab, ReconciliationResult, ReconciliationReport, TravelLog, AppSettings, MerchantAlias, ReconciliationOverride, StatementTemplate, ExtractionJob, ReimbursementClaim, Subscription, HomeBase, Trip } from './types'; // Added AppSettings
 import { reconcileData } from './geminiService';
+import { getExchangeRates, getRatesByMonth, convertAtMonthRate } from './currencyService';
+import { evaluateExpensePolicy, evaluateTravelLogPolicy, openViolations, PolicyContext } from './policyEngine';
 import {
   subscribeToExpenses,
   subscribeToTelegramReceipts,
@@ -30,13 +35,24 @@ import {
   addTravelLogs,
   removeExpense,
   updateExpense,
+  updateTravelLog,
   subscribeToAllExpenses,
   subscribeToAllTelegramReceipts,
   subscribeToAllTravelLogs,
   subscribeToSettings, // Added
   updateSettings, // Added
   logReceiptUsage, // Added
-  subscribeToBankRegistry // Added
+  markAnchorsReconciled,
+  subscribeToBankRegistry, // Added
+  subscribeToMerchantAliases,
+  subscribeToStatementTemplates,
+  subscribeToReconciliationOverrides,
+  subscribeToSubscriptions,
+  subscribeToHomeBases,
+  subscribeToTrips,
+  subscribeToClaims,
+  subscribeToApprovalQueue,
+  runTravelIntegrationSweep
 } from './firebaseService';
 import { getSession, signOut, UserSession } from './authService';
 import { saveReconciliation } from './backendService';
@@ -50,6 +66,9 @@ import TravelTracker from './components/TravelTracker';
 import AccountMaster from './components/AccountMaster';
 import SystemSettings from './components/SystemSettings';
 import BankRegistry from './components/BankRegistry';
+import MerchantRegistry from './components/MerchantRegistry';
+import ClaimsCenter from './components/ClaimsCenter';
+import SubscriptionRegistry from './components/SubscriptionRegistry';
 import { subscribeToAuth } from './authService';
 
 const App: React.FC = () => {
@@ -80,6 +99,13 @@ const App: React.FC = () => {
 
   const [appSettings, setAppSettings] = useState<AppSettings>({ audit_threshold: 10, custom_expense_heads: [] }); // Added appSettings state
   const [bankMappings, setBankMappings] = useState<any[]>([]); // Added bankRegistry state
+  const [merchantAliases, setMerchantAliases] = useState<MerchantAlias[]>([]);
+  const [statementTemplates, setStatementTemplates] = useState<StatementTemplate[]>([]);
+  const [reconciliationOverrides, setReconciliationOverrides] = useState<ReconciliationOverride[]>([]);
+  const [claims, setClaims] = useState<ReimbursementClaim[]>([]);
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [homeBases, setHomeBases] = useState<Record<string, HomeBase[]>>({});
+  const [trips, setTrips] = useState<Trip[]>([]);
 
   useEffect(() => {
     if (darkMode) { document.documentElement.classList.add('dark'); localStorage.setItem('theme', 'dark'); }
@@ -115,6 +141,42 @@ const App: React.FC = () => {
     return () => unsub();
   }, [session]);
 
+  useEffect(() => {
+    if (!session) return;
+    const unsub = subscribeToStatementTemplates(setStatementTemplates);
+    return () => unsub();
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    const unsub = subscribeToMerchantAliases(setMerchantAliases);
+    return () => unsub();
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    const unsub = subscribeToReconciliationOverrides(setReconciliationOverrides);
+    return () => unsub();
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    const unsub = subscribeToSubscriptions(setSubscriptions);
+    return () => unsub();
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    const unsub = subscribeToHomeBases(setHomeBases);
+    return () => unsub();
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    const unsub = subscribeToTrips(setTrips);
+    return () => unsub();
+  }, [session]);
+
   useEffect(() => {
     if (!session) return;
 
@@ -141,6 +203,27 @@ const App: React.FC = () => {
     };
   }, [session]);
 
+  useEffect(() => {
+    if (!session) return;
+    if (session.role === 'admin') {
+      const unsub = subscribeToClaims(setClaims);
+      return () => unsub();
+    }
+    // Employees see their own claims plus whatever is waiting on their approval
+    let own: ReimbursementClaim[] = [];
+    let queue: ReimbursementClaim[] = [];
+    const publish = () => {
+      const merged = new Map([...own, ...queue].map(c => [c.id, c]));
+      setClaims(Array.from(merged.values()).sort((a, b) => b.created_at.localeCompare(a.created_at)));
+    };
+    const unsubOwn = subscribeToClaims((c) => { own = c; publish(); }, session.email);
+    const unsubQueue = subscribeToApprovalQueue((c) => { queue = c; publish(); }, session.email);
+    return () => {
+      unsubOwn();
+      unsubQueue();
+    };
+  }, [session]);
+
   // UNIFIED FILTERING LOGIC
   const currentUserEmail = targetAuditee === "Self" ? session?.email : targetAuditee;
 
@@ -165,6 +248,14 @@ const App: React.FC = () => {
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   }, [internalExpenses, telegramExpenses, targetAuditee, session, activeTab]);
 
+  // Residency windows span twelve months, so the counter needs every log of the traveller
+  const userTravelLogs = useMemo(() => travelLogs.filter(l => {
+    const uId = (l as any).user_id || (l as any).owner_email;
+    return !currentUserEmail || uId === currentUserEmail || uId === 'SHARED_POOL';
+  }), [travelLogs, currentUserEmail]);
+
+  const userTrips = useMemo(() => trips.filter(t => !currentUserEmail || t.user_id === currentUserEmail), [trips, currentUserEmail]);
+
   const filteredTravelLogs = useMemo(() => {
     return travelLogs.filter(l => {
       const uId = (l as any).user_id || (l as any).owner_email;
@@ -189,6 +280,27 @@ const App: React.FC = () => {
     try { await updateExpense(id, updates); } catch (err) { console.error(err); }
   };
 
+  const handleResolveTravelLog = async (id: string, updates: Partial<TravelLog>) => {
+    try { await updateTravelLog(id, updates); } catch (err) { console.error(err); }
+  };
+
+  const handleDiscardDuplicate = async (id: string) => {
+    try { await removeExpense(id); } catch (err) { console.error(err); }
+  };
+
+  // Server-side extraction jobs save their own results; finish the client-side travel sweep afterwards
+  const handleExtractionJobSettled = async (job: ExtractionJob) => {
+    const done = job.documents.filter(d => d.status === 'done');
+    console.log(`🚀 App: extraction job ${job.id} settled (${done.length}/${job.documents.length} documents)`);
+    try {
+      if (done.some(d => (d.travel_count || 0) > 0)) {
+        await runTravelIntegrationSweep();
+      }
+    } catch (err) {
+      console.error("❌ App: Travel sweep after extraction job failed:", err);
+    }
+  };
+
   const handleAddData = async (data: { expenses: Expense[], travelLogs: TravelLog[] }) => {
     console.log("🚀 App: handleAddData received:", data);
     console.log(`   - Expenses: ${data.expenses.length}`);
@@ -215,14 +327,38 @@ const App: React.FC = () => {
         }
       }
 
-      if (data.expenses.length > 0) {
+      // Company policy is checked before anything is written, so violations arrive with the record
+      const incomingExpenses = data.expenses.map(e => ({ ...e, user_id: session.email }));
+      const incomingLogs = data.travelLogs.map(l => ({ ...l, user_id: session.email }));
+      const policyRules = appSettings.policy_rules || [];
+      if (policyRules.length > 0) {
+        // Each record converts at its own month's pinned rate; no rate leaves the limit unchecked
+        const ratesByMonth = await getRatesByMonth([...incomingExpenses.map(e => e.date), ...incomingLogs.flatMap(l => [l.start_date, l.end_date || ''])]);
+        const reportingCurrency = appSettings.reporting_currency || 'USD';
+        const policyContext: PolicyContext = {
+          reportingCurrency,
+          convert: (amount, r) => convertAtMonthRate(amount, r.currency, reportingCurrency, ratesByMonth, r.date),
+          travelLogs: [...travelLogs, ...incomingLogs],
+          expenses: [...internalExpenses, ...telegramExpenses, ...incomingExpenses]
+        };
+        incomingExpenses.forEach(e => {
+          const violations = evaluateExpensePolicy(e, policyRules, policyContext);
+          if (violations.length > 0) e.policy_violations = violations;
+        });
+        incomingLogs.forEach(l => {
+          const violations = evaluateTravelLogPolicy(l, policyRules, policyContext);
+          if (violations.length > 0) l.policy_violations = violations;
+        });
+      }
+
+      if (incomingExpenses.length > 0) {
         console.log("   - Preparing to save to Firebase...");
-        const expensesToInsert = data.expenses.map(({ id, ...rest }) => ({ ...rest, user_id: session.email }));
+        const expensesToInsert = incomingExpenses.map(({ id, ...rest }) => rest);
         await addExpenses(expensesToInsert);
       }
-      if (data.travelLogs.length > 0) {
+      if (incomingLogs.length > 0) {
         console.log("   - Preparing to save Travel Logs...");
-        const logsToInsert = data.travelLogs.map(({ id, ...rest }) => ({ ...rest, user_id: session.email }));
+        const logsToInsert = incomingLogs.map(({ id, ...rest }) => rest);
         await addTravelLogs(logsToInsert);
       }
 
@@ -244,6 +380,7 @@ const App: React.FC = () => {
     setSaveSuccess(false);
     try {
       await saveReconciliation(report);
+      await markAnchorsReconciled(report.matched_transactions, [...report.mandatory_missing, ...report.optional_missing, ...report.standard_missing]);
 
       // Audit Trail Implementation: Log usage for all receipts matched in this period
       const receiptsToLog = report.matched_receipts || [];
@@ -321,8 +458,9 @@ const App: React.FC = () => {
         ...allProofs.map(e => ({ ...e, role: 'PROOF' as const }))
       ];
 
-      // Reconcile anchors with all possible proofs
-      const res = await reconcileData(auditPool);
+      // Reconcile anchors with all possible proofs (rates power the engine's FX parity)
+      const exchange = await getExchangeRates();
+      const res = await reconcileData(auditPool, exchange?.rates || {}, reconciliationOverrides);
       setReconciliation(res);
       setActiveTab(AppTab.RECONCILE);
     } catch (err) {
@@ -365,7 +503,8 @@ const App: React.FC = () => {
     );
   }
 
-  const clarificationCount = filteredExpenses.filter(e => (!e.category || e.category === 'Unknown' || (e.confidence || 0) < 0.7 || e.needs_clarification)).length;
+  const clarificationCount = filteredExpenses.filter(e => (!e.category || e.category === 'Unknown' || (e.confidence || 0) < 0.7 || e.needs_clarification || openViolations(e).length > 0)).length
+    + filteredTravelLogs.filter(l => openViolations(l).length > 0).length;
 
   const NavItem = ({ tab, icon: Icon, label, count }: { tab: AppTab, icon: any, label: string, count?: number }) => (
     <button
@@ -391,6 +530,7 @@ const App: React.FC = () => {
               <NavItem tab={AppTab.EXTRACT} icon={UploadCloud} label="Upload Document" /> {/* Changed icon */}
               <NavItem tab={AppTab.TRAVEL} icon={Plane} label="Travel Tracker" />
               <NavItem tab={AppTab.RESOLVE} icon={HelpCircle} label="Resolutions" count={clarificationCount} /> {/* Changed tab name */}
+              <NavItem tab={AppTab.CLAIMS} icon={Wallet} label="Claims" count={claims.filter(c => c.approval?.status === 'pending' ? c.approval.current_approvers.includes(session.email.toLowerCase()) : session.role === 'admin' && c.status === 'submitted').length} />
 
               <div className="mt-8 mb-4 px-4 text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] opacity-50">Audit & Compliance</div>
               <NavItem tab={AppTab.RECONCILE} icon={FileSearch} label="Compliance Audit" />
@@ -402,6 +542,8 @@ const App: React.FC = () => {
                   <NavItem tab={AppTab.ACCOUNT_MASTER} icon={ShieldCheck} label="Account Master" /> {/* Changed tab name */}
                   <NavItem tab={AppTab.SYSTEM_SETTINGS} icon={Settings} label="System Settings" /> {/* Added */}
                   <NavItem tab={AppTab.BANK_REGISTRY} icon={CreditCard} label="Bank Registry" /> {/* Added */}
+                  <NavItem tab={AppTab.MERCHANT_REGISTRY} icon={Store} label="Merchant Aliases" />
+                  <NavItem tab={AppTab.SUBSCRIPTIONS} icon={Repeat} label="Subscriptions" />
                 </>
               )}
             </div>
@@ -439,12 +581,13 @@ const App: React.FC = () => {
         </header>
         <section className="flex-1 overflow-y-auto p-6 bg-[#f8fafc] dark:bg-[#020617]">
           <div className="max-w-screen-xl mx-auto">
-            {activeTab === AppTab.DASHBOARD && <Dashboard expenses={filteredExpenses} onDelete={removeExpense} onUpdate={updateExpense} period={{ month: selectedMonth, year: selectedYear }} onNavigateToClarify={handleJumpToClarify} filterBank={auditBank} onFilterBankChange={setAuditBank} session={session} customCategories={appSettings.custom_expense_heads} bankMappings={bankMappings} settings={appSettings} />}
-            {activeTab === AppTab.EXTRACT && <Extractor onExtract={handleAddData} bankMappings={bankMappings} />}
-            {activeTab === AppTab.TRAVEL && <TravelTracker logs={filteredTravelLogs} expenses={filteredExpenses} period={{ month: selectedMonth, year: selectedYear }} />}
-            {activeTab === AppTab.RESOLVE && <ClarificationCenter expenses={filteredExpenses} onResolve={handleResolveClarification} initialTargetId={targetClarifyId} onClearTarget={() => setTargetClarifyId(null)} />} {/* Changed tab name */}
-            {activeTab === AppTab.RECONCILE && <Reconciler expenses={filteredExpenses} reconciliation={reconciliation} isProcessing={isProcessing} period={{ month: selectedMonth, year: selectedYear }} onSaveReport={handleSaveReport} isSaving={isSaving} saveSuccess={saveSuccess} auditBank={auditBank} onBankChange={setAuditBank} evidenceThreshold={appSettings.audit_threshold} currentUserEmail={session.email} bankMappings={bankMappings} reportingCurrency={appSettings.reporting_currency || 'USD'} />}
-            {activeTab === AppTab.REPORTS && <Reports period={{ month: selectedMonth, year: selectedYear }} session={session} />}
+            {activeTab === AppTab.DASHBOARD && <Dashboard expenses={filteredExpenses} onDelete={removeExpense} onUpdate={updateExpense} period={{ month: selectedMonth, year: selectedYear }} onNavigateToClarify={handleJumpToClarify} filterBank={auditBank} onFilterBankChange={setAuditBank} session={session} customCategories={appSettings.custom_expense_heads} bankMappings={bankMappings} settings={appSettings} merchantAliases={merchantAliases} claims={claims} allExpenses={[...internalExpenses, ...telegramExpenses]} />}
+            {activeTab === AppTab.EXTRACT && <Extractor onExtract={handleAddData} bankMappings={bankMappings} statementTemplates={statementTemplates} onJobSettled={handleExtractionJobSettled} />}
+            {activeTab === AppTab.TRAVEL && <TravelTracker logs={filteredTravelLogs} expenses={filteredExpenses} period={{ month: selectedMonth, year: selectedYear }} merchantAliases={merchantAliases} allLogs={userTravelLogs} residencySettings={appSettings.residency} travellerEmail={currentUserEmail || session.email} homeBases={homeBases[currentUserEmail || session.email]} trips={userTrips} onRebuildTrips={runTravelIntegrationSweep} perDiemSettings={appSettings.per_diem} isAdmin={session.role === 'admin'} />}
+            {activeTab === AppTab.RESOLVE && <ClarificationCenter expenses={filteredExpenses} onResolve={handleResolveClarification} onDiscard={handleDiscardDuplicate} initialTargetId={targetClarifyId} onClearTarget={() => setTargetClarifyId(null)} travelLogs={filteredTravelLogs} onResolveTravelLog={handleResolveTravelLog} currentUserEmail={session.email} />} {/* Changed tab name */}
+            {activeTab === AppTab.RECONCILE && <Reconciler expenses={filteredExpenses} reconciliation={reconciliation} isProcessing={isProcessing} period={{ month: selectedMonth, year: selectedYear }} onSaveReport={handleSaveReport} isSaving={isSaving} saveSuccess={saveSuccess} auditBank={auditBank} onBankChange={setAuditBank} evidenceThreshold={appSettings.audit_threshold} currentUserEmail={session.email} bankMappings={bankMappings} reportingCurrency={appSettings.reporting_currency || 'USD'} merchantAliases={merchantAliases} overrides={reconciliationOverrides} subscriptions={subscriptions} isAdmin={session.role === 'admin'} />}
+            {activeTab === AppTab.CLAIMS && <ClaimsCenter expenses={[...internalExpenses, ...telegramExpenses]} claims={claims} session={session} settings={appSettings} />}
+            {activeTab === AppTab.REPORTS && <Reports period={{ month: selectedMonth, year: selectedYear }} session={session} expenses={[...internalExpenses, ...telegramExpenses]} settings={appSettings} />}
             {activeTab === AppTab.ACCOUNT_MASTER && (
               <AccountMaster
                 expenses={filteredExpenses}
@@ -467,7 +610,9 @@ const App: React.FC = () => {
                 onUpdate={updateSettings}
               />
             )}
-            {activeTab === AppTab.BANK_REGISTRY && <BankRegistry mappings={bankMappings} />}
+            {activeTab === AppTab.BANK_REGISTRY && <BankRegistry mappings={bankMappings} templates={statementTemplates} />}
+            {activeTab === AppTab.MERCHANT_REGISTRY && <MerchantRegistry aliases={merchantAliases} />}
+            {activeTab === AppTab.SUBSCRIPTIONS && <SubscriptionRegistry expenses={[...internalExpenses, ...telegramExpenses]} subscriptions={subscriptions} aliases={merchantAliases} currentUserEmail={session.email} />}
           </div>
         </section>
       </main>
@@ -0,0 +1,110 @@
+import { Expense, ExpenseAllocation } from './types';
+import { categorySplits } from './lineItems';
+import { isCredit } from './reconciliationEngine';
+
+/**
+ * ALLOCATIONS
+ * Splits one expense across projects, cost centers and categories (a team dinner shared by two
+ * clients, a hotel bill split between cost centers). Reports and exports aggregate over
+ * allocation shares rather than raw expenses; an expense without allocations yields its
+ * line-item category splits, so totals are identical either way.
+ */
+
+export interface AllocationShare {
+  project: string;
+  cost_center: string;
+  category: string;
+  amount: number;   // Expense currency, signed (credits are negative)
+  percent: number;  // Of the gross amount
+  note?: string;
+}
+
+export type AllocationDimension = 'project' | 'cost_center' | 'category';
+
+export const UNALLOCATED = 'Unallocated';
+
+// Amount-based shares are taken first; percent shares apply to the gross amount
+export const allocationAmount = (a: ExpenseAllocation, total: number) =>
+  a.amount !== undefined ? a.amount : (total * (a.percent || 0)) / 100;
+
+/**
+ * Null when the allocations are usable, otherwise a message for the editor.
+ */
+export const validateAllocations = (allocations: ExpenseAllocation[], total: number): string | null => {
+  if (allocations.length === 0) return null;
+  if (allocations.some(a => a.amount === undefined && a.percent === undefined)) return 'Every split needs a percentage or an amount';
+  if (allocations.some(a => (a.amount ?? 0) < 0 || (a.percent ?? 0) < 0)) return 'Splits cannot be negative';
+  if (allocations.some(a => !a.project && !a.cost_center && !a.category)) return 'Every split needs a project, cost center or category';
+  const allocated = allocations.reduce((acc, a) => acc + allocationAmount(a, total), 0);
+  if (Math.abs(allocated - total) > 0.01) {
+    return `Splits add up to ${allocated.toFixed(2)}, expected ${total.toFixed(2)}`;
+  }
+  return null;
+};
+
+export const resolveAllocations = (exp: Expense): AllocationShare[] => {
+  const total = Math.abs(exp.amount);
+  const sign = isCredit(exp) ? -1 : 1;
+  const percentOf = (amount: number) => total > 0 ? Math.round((amount / total) * 10000) / 100 : 0;
+
+  if (exp.allocations?.length && !validateAllocations(exp.allocations, total)) {
+    return exp.allocations.map(a => {
+      const amount = allocationAmount(a, total);
+      return {
+        project: a.project || exp.company_project || UNALLOCATED,
+        cost_center: a.cost_center || UNALLOCATED,
+        category: a.category || exp.category,
+        amount: sign * amount,
+        percent: percentOf(amount),
+        note: a.note
+      };
+    });
+  }
+
+  return categorySplits(exp).map(split => ({
+    project: exp.company_project || UNALLOCATED,
+    cost_center: UNALLOCATED,
+    category: split.category,
+    amount: sign * split.amount,
+    percent: percentOf(split.amount)
+  }));
+};
+
+/**
+ * Sums allocation shares per dimension value. convert maps a share amount (expense currency)
+ * into the reporting currency; identity by default.
+ */
+export const aggregateByAllocation = (
+  expenses: Expense[],
+  dimension: AllocationDimension,
+  convert: (amount: number, exp: Expense) => number = amount => amount
+): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  expenses.forEach(exp => {
+    resolveAllocations(exp).forEach(share => {
+      totals[share[dimension]] = (totals[share[dimension]] || 0) + convert(share.amount, exp);
+    });
+  });
+  return totals;
+};
+
+/**
+ * One export row per allocation share, carrying the expense it came from. amount keeps the
+ * expense's own sign convention so exports read like the raw ledger.
+ */
+export const expandAllocations = <T extends Expense>(expenses: T[]) =>
+  expenses.flatMap(exp => resolveAllocations(exp).map(share => ({
+    expense: exp,
+    share,
+    amount: Math.round((exp.amount < 0 ? -1 : 1) * Math.abs(share.amount) * 100) / 100
+  })));
+
+/**
+ * A statement line usually isn't allocated itself; its matched receipt is. Borrow the first
+ * source allocation that also closes against the target's amount.
+ */
+export const inheritAllocations = <T extends Expense>(target: T, sources: Expense[]): T => {
+  if (target.allocations?.length) return target;
+  const donor = sources.find(s => s.allocations?.length && !validateAllocations(s.allocations, Math.abs(target.amount)));
+  return donor ? { ...target, allocations: donor.allocations } : target;
+};
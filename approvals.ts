@@ -0,0 +1,118 @@
+import { ApprovalStep, ApprovalDelegation, ApprovalState, ApprovalChainStep, ApprovalDecision, ApprovalEvent } from './types';
+
+/**
+ * APPROVAL CHAINS
+ * The company configures an ordered list of steps (line manager → finance above a threshold →
+ * CFO for travel). At submission the steps that apply are frozen onto the record; each step
+ * names one approver, and anyone that approver has delegated to may act in their place. The
+ * record stores who may act right now (current_approvers) so Firestore rules can enforce it.
+ */
+
+export const LINE_MANAGER = 'line_manager';
+
+export interface ApprovalSubject {
+  submitter: string;
+  amount: number;      // Reporting currency
+  travel: boolean;     // Contains mandatory travel spend
+  manager?: string;    // Submitter's line manager from authorized_users
+}
+
+const normalizeEmail = (email?: string) => (email || '').trim().toLowerCase();
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const activeDelegates = (approver: string, delegations: ApprovalDelegation[] = [], on: string = today()) =>
+  delegations
+    .filter(d => normalizeEmail(d.from) === normalizeEmail(approver) && d.start <= on && on <= d.end)
+    .map(d => normalizeEmail(d.to))
+    .filter(Boolean);
+
+// On every step a delegation to the submitter, or to someone who already decided, is left out
+const activate = (state: ApprovalState, index: number, delegations: ApprovalDelegation[]): ApprovalState => {
+  const approver = state.steps[index].approver;
+  const excluded = [normalizeEmail(state.submitter), ...state.history.map(e => e.by)];
+  const delegates = activeDelegates(approver, delegations).filter(d => !excluded.includes(d));
+  return {
+    ...state,
+    steps: state.steps.map((s, i) => i === index ? { ...s, status: 'pending' } : s),
+    current_step: index,
+    current_approvers: Array.from(new Set([approver, ...delegates]))
+  };
+};
+
+/**
+ * Freezes the applicable steps for one submission. Steps below their threshold, travel-only
+ * steps without travel, a missing line manager and self-approval are skipped, as is a second
+ * step for someone already in the chain. Undefined when nothing applies.
+ */
+export const buildApprovalChain = (
+  steps: ApprovalStep[] = [],
+  subject: ApprovalSubject,
+  delegations: ApprovalDelegation[] = []
+): ApprovalState | undefined => {
+  const submitter = normalizeEmail(subject.submitter);
+  const chain: ApprovalChainStep[] = [];
+
+  steps.forEach(step => {
+    if (step.min_amount && subject.amount < step.min_amount) return;
+    if (step.travel_only && !subject.travel) return;
+    const approver = normalizeEmail(step.approver === LINE_MANAGER ? subject.manager : step.approver);
+    if (!approver || approver === submitter || chain.some(c => c.approver === approver)) return;
+    chain.push({ step_id: step.id, label: step.label, approver, status: 'waiting' });
+  });
+
+  if (chain.length === 0) return undefined;
+  return activate({ status: 'pending', submitter, steps: chain, current_step: -1, current_approvers: [], history: [] }, 0, delegations);
+};
+
+export const canActOnApproval = (state: ApprovalState | undefined, email: string) =>
+  !!state && state.status === 'pending' && state.current_approvers.includes(normalizeEmail(email));
+
+export const currentApprovalStep = (state?: ApprovalState): ApprovalChainStep | null =>
+  state && state.status === 'pending' ? state.steps[state.current_step] || null : null;
+
+/**
+ * Records one decision. Rejection ends the chain; approval hands over to the next step or
+ * settles the chain when it was the last one.
+ */
+export const applyApprovalDecision = (
+  state: ApprovalState,
+  actor: string,
+  decision: ApprovalDecision,
+  delegations: ApprovalDelegation[] = [],
+  comment?: string
+): ApprovalState => {
+  const step = currentApprovalStep(state);
+  if (!step) throw new Error("This approval has already been settled");
+  const by = normalizeEmail(actor);
+  if (!state.current_approvers.includes(by)) throw new Error(`Waiting on ${step.approver} (${step.label})`);
+
+  const event: ApprovalEvent = {
+    step_id: step.step_id,
+    label: step.label,
+    decision,
+    by,
+    ...(by !== step.approver ? { on_behalf_of: step.approver } : {}),
+    at: new Date().toISOString(),
+    ...(comment?.trim() ? { comment: comment.trim() } : {})
+  };
+  const decided: ApprovalState = {
+    ...state,
+    steps: state.steps.map((s, i) => i === state.current_step ? { ...s, status: decision } : s),
+    history: [...state.history, event]
+  };
+
+  const next = state.current_step + 1;
+  if (decision === 'rejected' || next >= state.steps.length) {
+    return { ...decided, status: decision, current_step: -1, current_approvers: [] };
+  }
+  return activate(decided, next, delegations);
+};
+
+/**
+ * Re-derives who may act on the current step after delegations change.
+ */
+export const refreshApprovers = (state: ApprovalState, delegations: ApprovalDelegation[] = []): ApprovalState => {
+  const step = currentApprovalStep(state);
+  return step ? activate(state, state.current_step, delegations) : state;
+};
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getStorage } from 'firebase-admin/storage';
+
+/**
+ * BLOB STORE
+ * Keeps the original uploaded documents (receipts, PDFs, statements) so auditors can see the
+ * evidence behind a parsed row. Blobs are keyed by document_id (the SHA-256 of the file bytes).
+ * Server-only: selected with BLOB_STORE=local|firebase.
+ */
+
+export interface StoredBlob {
+    data: Buffer;
+    contentType: string;
+}
+
+export interface BlobStore {
+    name: 'local' | 'firebase';
+    exists(id: string): Promise<boolean>;
+    put(id: string, data: Buffer, contentType: string): Promise<void>;
+    get(id: string): Promise<StoredBlob | null>;
+}
+
+// Ids become file names / object paths, so only allow hash-like values
+export const isValidDocumentId = (id: string) => /^[A-Za-z0-9_-]{8,128}$/.test(id);
+
+const assertId = (id: string) => {
+    if (!isValidDocumentId(id)) throw new Error(`Invalid document id: ${id}`);
+};
+
+export const createLocalBlobStore = (rootDir: string): BlobStore => {
+    const blobPath = (id: string) => path.join(rootDir, id);
+    const metaPath = (id: string) => path.join(rootDir, `${id}.meta.json`);
+
+    return {
+        name: 'local',
+        async exists(id) {
+            assertId(id);
+            return fs.access(blobPath(id)).then(() => true, () => false);
+        },
+        async put(id, data, contentType) {
+            assertId(id);
+            await fs.mkdir(rootDir, { recursive: true });
+            await fs.writeFile(blobPath(id), data);
+            await fs.writeFile(metaPath(id), JSON.stringify({ contentType }));
+        },
+        async get(id) {
+            assertId(id);
+            try {
+                const [data, meta] = await Promise.all([
+                    fs.readFile(blobPath(id)),
+                    fs.readFile(metaPath(id), 'utf8').then(JSON.parse).catch(() => ({}))
+                ]);
+                return { data, contentType: meta.contentType || 'application/octet-stream' };
+            } catch (e: any) {
+                if (e.code === 'ENOENT') return null;
+                throw e;
+            }
+        }
+    };
+};
+
+export const createFirebaseBlobStore = (bucketName?: string): BlobStore => {
+    const bucket = getStorage().bucket(bucketName);
+    const file = (id: string) => bucket.file(`documents/${id}`);
+
+    return {
+        name: 'firebase',
+        async exists(id) {
+            assertId(id);
+            const [exists] = await file(id).exists();
+            return exists;
+        },
+        async put(id, data, contentType) {
+            assertId(id);
+            await file(id).save(data, { contentType, resumable: false });
+        },
+        async get(id) {
+            assertId(id);
+            const [exists] = await file(id).exists();
+            if (!exists) return null;
+            const [[data], [metadata]] = await Promise.all([file(id).download(), file(id).getMetadata()]);
+            return { data, contentType: metadata.contentType || 'application/octet-stream' };
+        }
+    };
+};
+
+/**
+ * Requires the firebase-admin default app to be initialised first when BLOB_STORE=firebase.
+ */
+export const createBlobStore = (kind = process.env.BLOB_STORE || 'local'): BlobStore => {
+    if (kind === 'firebase') {
+        return createFirebaseBlobStore(process.env.VITE_FIREBASE_STORAGE_BUCKET);
+    }
+    return createLocalBlobStore(process.env.BLOB_STORE_DIR || path.resolve('uploads'));
+};
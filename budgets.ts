@@ -0,0 +1,138 @@
+import { Expense, Budget, BudgetPeriod } from './types';
+import { resolveAllocations } from './allocations';
+import { isAnchor, isCredit } from './reconciliationEngine';
+
+/**
+ * BUDGETS
+ * Monthly or quarterly limits per expense head, project or employee, in the reporting currency.
+ * Category and project actuals follow allocation shares so a split dinner burns both budgets;
+ * employee actuals follow the record owner. Callers supply the conversion (pinned monthly rates).
+ */
+
+export const DEFAULT_BUDGET_ALERT_PERCENT = 80;
+
+const MONTH_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface BudgetWindow {
+  key: string;        // '2026-03' or '2026-Q1'
+  label: string;      // 'Mar 2026' or 'Q1 2026'
+  start: string;      // YYYY-MM-DD
+  end: string;        // YYYY-MM-DD, inclusive
+  months: string[];   // YYYY-MM keys covered (for loading pinned rates)
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const lastDayOfMonth = (year: number, monthIndex: number) => new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+export const budgetWindow = (period: BudgetPeriod, year: number, monthIndex: number): BudgetWindow => {
+  const firstMonth = period === 'quarter' ? Math.floor(monthIndex / 3) * 3 : monthIndex;
+  const lastMonth = period === 'quarter' ? firstMonth + 2 : monthIndex;
+  const months = Array.from({ length: lastMonth - firstMonth + 1 }, (_, i) => `${year}-${pad(firstMonth + i + 1)}`);
+  return {
+    key: period === 'quarter' ? `${year}-Q${firstMonth / 3 + 1}` : months[0],
+    label: period === 'quarter' ? `Q${firstMonth / 3 + 1} ${year}` : `${MONTH_SHORT[monthIndex]} ${year}`,
+    start: `${months[0]}-01`,
+    end: `${months[months.length - 1]}-${pad(lastDayOfMonth(year, lastMonth))}`,
+    months
+  };
+};
+
+const eachDay = (start: string, end: string) => {
+  const days: string[] = [];
+  for (let d = new Date(`${start}T00:00:00Z`); d.toISOString().slice(0, 10) <= end; d.setUTCDate(d.getUTCDate() + 1)) {
+    days.push(d.toISOString().slice(0, 10));
+  }
+  return days;
+};
+
+const ownerOf = (e: Expense) => String((e as any).owner_email || e.user_id || '').toLowerCase();
+
+/**
+ * Statement lines are the spend of record; a receipt only counts when no statement line was
+ * matched to it (cash, personal card), so a charge and its proof are never budgeted twice.
+ */
+export const budgetLedger = (expenses: Expense[], matchedProofIds: Set<string>) =>
+  expenses.filter(e => isAnchor(e) || !matchedProofIds.has(e.id));
+
+/**
+ * The part of an expense that burns this budget, in the expense currency. Refunds are negative.
+ */
+export const budgetShare = (budget: Budget, exp: Expense): number => {
+  const target = budget.target.trim().toLowerCase();
+  if (budget.dimension === 'employee') {
+    if (ownerOf(exp) !== target) return 0;
+    return isCredit(exp) ? -Math.abs(exp.amount) : Math.abs(exp.amount);
+  }
+  return resolveAllocations(exp)
+    .filter(share => (budget.dimension === 'category' ? share.category : share.project).toLowerCase() === target)
+    .reduce((acc, share) => acc + share.amount, 0);
+};
+
+export interface BurnPoint {
+  date: string;
+  remaining: number | null;   // Null after the as-of date
+  ideal: number;              // Straight-line remaining budget
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  window: BudgetWindow;
+  actual: number;
+  remaining: number;
+  percent: number;
+  projected: number;          // Run-rate to the end of the window
+  projected_overrun: number;
+  alert: 'ok' | 'threshold' | 'over';
+  burn: BurnPoint[];
+}
+
+export const evaluateBudget = (
+  budget: Budget,
+  window: BudgetWindow,
+  expenses: Expense[],
+  convert: (amount: number, exp: Expense) => number,
+  asOf: string = new Date().toISOString().slice(0, 10)
+): BudgetStatus => {
+  const daily: Record<string, number> = {};
+  expenses
+    .filter(e => e.date >= window.start && e.date <= window.end)
+    .forEach(e => {
+      const share = budgetShare(budget, e);
+      if (share !== 0) daily[e.date] = (daily[e.date] || 0) + convert(share, e);
+    });
+
+  const days = eachDay(window.start, window.end);
+  let cumulative = 0;
+  const burn = days.map((date, i) => {
+    cumulative += daily[date] || 0;
+    return {
+      date,
+      remaining: date <= asOf ? budget.amount - cumulative : null,
+      ideal: budget.amount * (1 - (i + 1) / days.length)
+    };
+  });
+
+  const actual = Object.values(daily).reduce((acc, v) => acc + v, 0);
+  const elapsed = days.filter(d => d <= asOf).length;
+  const projected = elapsed > 0 && elapsed < days.length ? (actual / elapsed) * days.length : actual;
+  const percent = budget.amount > 0 ? (actual / budget.amount) * 100 : 0;
+
+  return {
+    budget,
+    window,
+    actual,
+    remaining: budget.amount - actual,
+    percent,
+    projected,
+    projected_overrun: Math.max(0, projected - budget.amount),
+    alert: percent >= 100 ? 'over' : percent >= (budget.alert_percent ?? DEFAULT_BUDGET_ALERT_PERCENT) ? 'threshold' : 'ok',
+    burn
+  };
+};
+
+export const BUDGET_DIMENSION_LABELS: Record<Budget['dimension'], string> = {
+  category: 'Expense Head',
+  project: 'Project',
+  employee: 'Employee'
+};
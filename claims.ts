@@ -0,0 +1,122 @@
+import { Expense, ReimbursementClaim, ClaimLine, ClaimStatus, ClaimStatusChange, ReimbursementStatus } from './types';
+
+/**
+ * REIMBURSEMENT CLAIMS
+ * Employees bundle out-of-pocket expenses into a claim; an approver decides each line, the
+ * accountant pays the approved total against a payout reference. Every transition is appended
+ * to claim.history. Pure helpers shared by the claims screen and the dashboard.
+ */
+
+// Whole words only, so "Company-owned card" is not read as "own"; company wins when both appear
+const COMPANY_PAID = /\b(company|corporate|business)\b/i;
+const EMPLOYEE_PAID = /\b(employee|personal|own|self|out[\s-]?of[\s-]?pocket)\b/i;
+
+const paidByEmployee = (raw: string) => !COMPANY_PAID.test(raw) && EMPLOYEE_PAID.test(raw);
+
+export const isEmployeePaid = (e: Pick<Expense, 'paid_by' | 'reimbursement_status'>) =>
+  paidByEmployee(e.paid_by || '') || e.reimbursement_status === 'Pending';
+
+/**
+ * Maps whatever the model wrote for paid_by onto the two values the workflow understands.
+ */
+export const normalizePaidBy = (raw?: string): { paid_by?: string; reimbursement_status?: ReimbursementStatus } => {
+  if (!raw) return {};
+  if (COMPANY_PAID.test(raw)) return { paid_by: 'Company', reimbursement_status: 'Not Needed' };
+  if (EMPLOYEE_PAID.test(raw)) return { paid_by: 'Employee', reimbursement_status: 'Pending' };
+  return { paid_by: raw };
+};
+
+// Firestore rules cannot loop, so they check each line of a claim by index up to this many
+export const MAX_CLAIM_LINES = 50;
+
+export const claimableExpenses = (expenses: Expense[], email: string) =>
+  expenses.filter(e => (e.user_id === email || (e as any).owner_email === email) && isEmployeePaid(e) && !e.claim_id && e.amount > 0);
+
+export const buildClaimLines = (expenses: Expense[]): ClaimLine[] => expenses.map(e => ({
+  expense_id: e.id,
+  collection: e.source === 'telegram' ? 'telegram_receipts' : 'expenses',
+  merchant: e.merchant,
+  date: e.date,
+  amount: Math.abs(e.amount),
+  currency: e.currency,
+  category: e.category,
+  status: 'pending'
+}));
+
+/**
+ * Claim status follows its lines until it has been paid.
+ */
+export const deriveClaimStatus = (lines: ClaimLine[]): ClaimStatus => {
+  if (lines.some(l => l.status === 'pending')) return 'submitted';
+  if (lines.every(l => l.status === 'approved')) return 'approved';
+  if (lines.every(l => l.status === 'rejected')) return 'rejected';
+  return 'partially_approved';
+};
+
+export const withStatusChange = (claim: Pick<ReimbursementClaim, 'history'>, status: ClaimStatus, by: string, note?: string): ClaimStatusChange[] => [
+  ...(claim.history || []),
+  { status, at: new Date().toISOString(), by, ...(note ? { note } : {}) }
+];
+
+export const lineReimbursementStatus = (line: ClaimLine, claimStatus: ClaimStatus): ReimbursementStatus =>
+  line.status === 'rejected' ? 'Rejected'
+    : line.status === 'pending' ? 'Claimed'
+      : claimStatus === 'paid' ? 'Paid' : 'Approved';
+
+export const isPayable = (claim: ReimbursementClaim) => claim.status === 'approved' || claim.status === 'partially_approved';
+
+type LineConverter = (amount: number, line: ClaimLine) => number;
+
+export const claimTotals = (claim: ReimbursementClaim, convert: LineConverter = amount => amount) =>
+  claim.lines.reduce((acc, line) => {
+    const value = convert(line.amount, line);
+    acc.claimed += value;
+    if (line.status === 'approved') acc.approved += value;
+    if (line.status === 'pending') acc.pending += value;
+    return acc;
+  }, { claimed: 0, approved: 0, pending: 0 });
+
+export interface EmployeeBalance {
+  employee: string;
+  owed: number;        // Approved, not yet paid
+  in_review: number;   // Submitted lines awaiting a decision
+  unclaimed: number;   // Out-of-pocket expenses not yet put in a claim
+}
+
+/**
+ * What the company owes each employee, in whatever currency convert targets.
+ */
+export const outstandingByEmployee = (
+  claims: ReimbursementClaim[],
+  expenses: Expense[],
+  convertLine: LineConverter,
+  convertExpense: (amount: number, e: Expense) => number
+): EmployeeBalance[] => {
+  const balances: Record<string, EmployeeBalance> = {};
+  const balanceFor = (employee: string) => balances[employee] || (balances[employee] = { employee, owed: 0, in_review: 0, unclaimed: 0 });
+
+  claims.filter(c => c.status !== 'paid').forEach(claim => {
+    const totals = claimTotals(claim, convertLine);
+    const balance = balanceFor(claim.user_id);
+    if (isPayable(claim)) balance.owed += totals.approved;
+    balance.in_review += totals.pending;
+  });
+
+  expenses.filter(e => isEmployeePaid(e) && !e.claim_id && e.amount > 0).forEach(e => {
+    const owner = (e as any).owner_email || e.user_id;
+    if (!owner || owner === 'SHARED_POOL') return;
+    balanceFor(owner).unclaimed += convertExpense(Math.abs(e.amount), e);
+  });
+
+  return Object.values(balances)
+    .filter(b => b.owed > 0.005 || b.in_review > 0.005 || b.unclaimed > 0.005)
+    .sort((a, b) => (b.owed + b.in_review) - (a.owed + a.in_review));
+};
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  submitted: 'Awaiting Approval',
+  approved: 'Approved',
+  partially_approved: 'Partially Approved',
+  rejected: 'Rejected',
+  paid: 'Paid'
+};
@@ -34,9 +34,13 @@ import {
     Database,
     CreditCard,
     MessageCircle,
-    Zap
+    Zap,
+    Split
 } from 'lucide-react';
 import TravelTracker from './TravelTracker';
+import AllocationEditor from './AllocationEditor';
+import { resolveAllocations, aggregateByAllocation, AllocationDimension, UNALLOCATED } from '../allocations';
+import { getExchangeRates, convertToBaseCurrency, getCurrencySymbol, ExchangeRates } from '../currencyService';
 
 interface AccountMasterProps {
     expenses: Expense[];
@@ -79,6 +83,13 @@ const AccountMaster: React.FC<AccountMasterProps> = ({
     const [expandedReportId, setExpandedReportId] = useState<string | null>(null);
 
     const [allAuthorizedUsers, setAllAuthorizedUsers] = useState<string[]>([]);
+    const [allocatingExpense, setAllocatingExpense] = useState<Expense | null>(null);
+    const [allocationDimension, setAllocationDimension] = useState<AllocationDimension>('project');
+    const [exchangeData, setExchangeData] = useState<ExchangeRates | null>(null);
+
+    useEffect(() => {
+        getExchangeRates().then(setExchangeData);
+    }, []);
 
     const monthsList = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
 
@@ -120,6 +131,29 @@ const AccountMaster: React.FC<AccountMasterProps> = ({
         return Array.from(new Set([...STANDARD_CATEGORIES, ...settings.custom_expense_heads]));
     }, [settings.custom_expense_heads]);
 
+    const reportingCurrency = settings.reporting_currency || 'USD';
+
+    // Suggestions for the allocation editor, drawn from everything already booked
+    const { knownProjects, knownCostCenters } = useMemo(() => {
+        const source = allExpenses.length > 0 ? allExpenses : expenses;
+        const projects = new Set<string>();
+        const costCenters = new Set<string>();
+        source.forEach(e => {
+            if (e.company_project) projects.add(e.company_project);
+            (e.allocations || []).forEach(a => {
+                if (a.project) projects.add(a.project);
+                if (a.cost_center) costCenters.add(a.cost_center);
+            });
+        });
+        return { knownProjects: Array.from(projects).sort(), knownCostCenters: Array.from(costCenters).sort() };
+    }, [allExpenses, expenses]);
+
+    const allocationTotals = useMemo(() => {
+        const totals = aggregateByAllocation(filteredExpenses, allocationDimension, (amount, e) =>
+            convertToBaseCurrency(amount, e.currency, reportingCurrency, exchangeData || {}, e.date));
+        return Object.entries(totals).sort((a, b) => b[1] - a[1]);
+    }, [filteredExpenses, allocationDimension, reportingCurrency, exchangeData]);
+
     const handleUpdateIdentity = async (id: string) => {
         if (!tempIdentity.trim()) return;
         try {
@@ -223,6 +257,36 @@ const AccountMaster: React.FC<AccountMasterProps> = ({
                 </div>
             </div>
 
+            {view === 'ledger' && allocationTotals.length > 0 && (
+                <div className="bg-white dark:bg-slate-900 p-8 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-xl">
+                    <div className="flex items-center justify-between mb-6">
+                        <div className="flex items-center gap-3">
+                            <Split size={18} className="text-brand-600" />
+                            <h4 className="text-sm font-black uppercase tracking-widest dark:text-white">Spend by Allocation</h4>
+                        </div>
+                        <div className="flex bg-slate-100 dark:bg-slate-900/60 p-1 rounded-xl">
+                            {(['project', 'cost_center', 'category'] as AllocationDimension[]).map(d => (
+                                <button
+                                    key={d}
+                                    onClick={() => setAllocationDimension(d)}
+                                    className={`px-4 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${allocationDimension === d ? 'bg-white dark:bg-slate-800 text-brand-600 shadow-sm' : 'text-slate-500'}`}
+                                >
+                                    {d === 'cost_center' ? 'Cost Center' : d}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {allocationTotals.map(([key, value]) => (
+                            <div key={key} className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-2xl border border-slate-100 dark:border-slate-800">
+                                <p className={`text-[9px] font-black uppercase tracking-widest truncate ${key === UNALLOCATED ? 'text-slate-300' : 'text-slate-400'}`} title={key}>{key}</p>
+                                <p className="text-lg font-black tracking-tighter dark:text-white">{getCurrencySymbol(reportingCurrency)}{value.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {view === 'ledger' && (
                 <div className="bg-white dark:bg-slate-900 rounded-[3rem] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden">
                     <div className="overflow-x-auto">
@@ -374,6 +438,22 @@ const AccountMaster: React.FC<AccountMasterProps> = ({
                                                     <span className="text-[9px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-400">{expense.category}</span>
                                                 </div>
                                             )}
+                                            {expense.allocations?.length ? (
+                                                <div className="flex flex-col gap-0.5 mt-2">
+                                                    {resolveAllocations(expense).map((share, idx) => (
+                                                        <span key={idx} className="text-[8px] font-black uppercase tracking-widest text-slate-400">
+                                                            {share.percent}% • {[share.project, share.cost_center].filter(v => v !== UNALLOCATED).join(' / ') || share.category}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            ) : null}
+                                            <button
+                                                onClick={() => setAllocatingExpense(expense)}
+                                                className="flex items-center gap-1 mt-2 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-brand-600"
+                                            >
+                                                <Split size={10} />
+                                                {expense.allocations?.length ? `${expense.allocations.length} Splits` : 'Split'}
+                                            </button>
                                         </td>
                                         <td className="px-8 py-6 text-right">
                                             <span className="text-[10px] font-black text-slate-400 mr-1">{expense.currency}</span>
@@ -452,6 +532,17 @@ const AccountMaster: React.FC<AccountMasterProps> = ({
                 </div>
             )}
 
+            {allocatingExpense && (
+                <AllocationEditor
+                    expense={allocatingExpense}
+                    categories={allCategories}
+                    projects={knownProjects}
+                    costCenters={knownCostCenters}
+                    onSave={(allocations) => updateExpense(allocatingExpense.id, { allocations })}
+                    onClose={() => setAllocatingExpense(null)}
+                />
+            )}
+
             {view === 'travel' && (
                 <div className="bg-white dark:bg-slate-900 rounded-[3rem] border border-slate-100 dark:border-slate-800 shadow-xl p-8">
                     <TravelTracker logs={travelLogs} expenses={expenses} period={period} />
@@ -13,11 +13,16 @@ import {
     History,
     CheckSquare,
     Square,
-    Plane
+    Plane,
+    FileSearch,
+    Split
 } from 'lucide-react';
 import { Expense, ReconciliationReport, TravelLog } from '../types';
-import { verifyExpense, fetchReportsFromCloud, subscribeToAllTravelLogs } from '../firebaseService';
+import { verifyExpense, updateExpense, fetchReportsFromCloud, subscribeToAllTravelLogs } from '../firebaseService';
 import TravelTracker from './TravelTracker';
+import EvidenceViewer from './EvidenceViewer';
+import AllocationEditor from './AllocationEditor';
+import { resolveAllocations, UNALLOCATED } from '../allocations';
 
 interface AccountantPanelProps {
     expenses: (Expense & { owner_email?: string })[];
@@ -55,12 +60,16 @@ const AccountantPanel: React.FC<AccountantPanelProps> = ({
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
     const [batchCategory, setBatchCategory] = useState<string>("");
     const [isUpdating, setIsUpdating] = useState<string | null>(null);
+    const [evidenceExpense, setEvidenceExpense] = useState<(Expense & { owner_email?: string }) | null>(null);
+    const [allocatingExpense, setAllocatingExpense] = useState<Expense | null>(null);
 
     useEffect(() => {
         fetchReportsFromCloud().then(setReports);
     }, []);
 
     const allUsers = Array.from(new Set(expenses.map(e => e.owner_email).filter(Boolean))) as string[];
+    const knownProjects = Array.from(new Set(expenses.flatMap(e => [e.company_project, ...(e.allocations || []).map(a => a.project)]).filter(Boolean))) as string[];
+    const knownCostCenters = Array.from(new Set(expenses.flatMap(e => (e.allocations || []).map(a => a.cost_center)).filter(Boolean))) as string[];
 
     const filteredExpenses = expenses.filter(e => {
         const matchesStatus = filter === 'pending' ? !e.is_verified : e.is_verified;
@@ -281,7 +290,12 @@ const AccountantPanel: React.FC<AccountantPanelProps> = ({
                                             </div>
                                         </td>
                                         <td className="px-6 py-6 font-black text-slate-900 dark:text-white text-xs uppercase tracking-tight">
-                                            {expense.merchant}
+                                            <div className="flex items-center gap-2">
+                                                {expense.merchant}
+                                                <button onClick={() => setEvidenceExpense(expense)} className="text-slate-300 hover:text-brand-600 transition-colors" title="View evidence">
+                                                    <FileSearch size={14} />
+                                                </button>
+                                            </div>
                                             <p className="text-[10px] text-slate-400 font-bold tracking-normal mt-0.5 lowercase">{expense.date}</p>
                                         </td>
                                         <td className="px-6 py-6 text-right font-black text-slate-900 dark:text-white">
@@ -303,6 +317,14 @@ const AccountantPanel: React.FC<AccountantPanelProps> = ({
                                                     {expense.accountant_category}
                                                 </span>
                                             )}
+                                            <button
+                                                onClick={() => setAllocatingExpense(expense)}
+                                                className="flex items-center gap-1 mt-2 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-brand-600"
+                                                title={expense.allocations?.length ? resolveAllocations(expense).map(s => `${s.percent}% ${[s.project, s.cost_center].filter(v => v !== UNALLOCATED).join(' / ') || s.category}`).join('\n') : undefined}
+                                            >
+                                                <Split size={10} />
+                                                {expense.allocations?.length ? `${expense.allocations.length} Splits` : 'Allocate'}
+                                            </button>
                                         </td>
                                         <td className="px-6 py-6 text-right">
                                             {filter === 'pending' ? (
@@ -387,6 +409,26 @@ const AccountantPanel: React.FC<AccountantPanelProps> = ({
                     )}
                 </div>
             )}
+
+            {allocatingExpense && (
+                <AllocationEditor
+                    expense={allocatingExpense}
+                    categories={['Transport', 'Meals', 'Lodging', 'Office', 'Utilities', 'Salary', 'Transfer', 'General']}
+                    projects={knownProjects}
+                    costCenters={knownCostCenters}
+                    onSave={(allocations) => updateExpense(allocatingExpense.id, { allocations })}
+                    onClose={() => setAllocatingExpense(null)}
+                />
+            )}
+
+            {evidenceExpense && (
+                <EvidenceViewer
+                    title={`${evidenceExpense.merchant} • ${evidenceExpense.owner_email || ''}`}
+                    expenses={[evidenceExpense]}
+                    travelLogs={travelLogs.filter(l => l.id === evidenceExpense.travel_log_id)}
+                    onClose={() => setEvidenceExpense(null)}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Save, Split, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Expense, ExpenseAllocation } from '../types';
+import { allocationAmount, validateAllocations } from '../allocations';
+
+interface AllocationEditorProps {
+  expense: Expense;
+  categories: string[];
+  projects?: string[];
+  costCenters?: string[];
+  onSave: (allocations: ExpenseAllocation[]) => Promise<void> | void;
+  onClose: () => void;
+}
+
+type SplitMode = 'percent' | 'amount';
+
+interface DraftRow extends ExpenseAllocation {
+  mode: SplitMode;
+}
+
+const fmt = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const toDraft = (a: ExpenseAllocation): DraftRow => ({ ...a, mode: a.amount !== undefined ? 'amount' : 'percent' });
+
+const AllocationEditor: React.FC<AllocationEditorProps> = ({ expense, categories, projects = [], costCenters = [], onSave, onClose }) => {
+  const total = Math.abs(expense.amount);
+  const [rows, setRows] = useState<DraftRow[]>(
+    expense.allocations?.length
+      ? expense.allocations.map(toDraft)
+      : [{ project: expense.company_project, category: expense.category, percent: 100, mode: 'percent' }]
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (idx: number, patch: Partial<DraftRow>) => {
+    setRows(prev => prev.map((r, i) => i === idx ? { ...r, ...patch } : r));
+  };
+
+  const switchMode = (idx: number, mode: SplitMode) => {
+    const row = rows[idx];
+    const value = allocationAmount(row, total);
+    update(idx, mode === 'amount'
+      ? { mode, amount: Math.round(value * 100) / 100, percent: undefined }
+      : { mode, percent: total > 0 ? Math.round((value / total) * 10000) / 100 : 0, amount: undefined });
+  };
+
+  const toAllocations = (): ExpenseAllocation[] => rows.map(({ mode, ...a }) => ({
+    project: a.project?.trim() || undefined,
+    cost_center: a.cost_center?.trim() || undefined,
+    category: a.category || undefined,
+    note: a.note?.trim() || undefined,
+    ...(mode === 'amount' ? { amount: a.amount ?? 0 } : { percent: a.percent ?? 0 })
+  }));
+
+  const allocations = toAllocations();
+  const error = validateAllocations(allocations, total);
+  const allocated = allocations.reduce((acc, a) => acc + allocationAmount(a, total), 0);
+  const remaining = total - allocated;
+
+  // Put whatever is left on the last row so the split closes exactly
+  const fillRemainder = () => {
+    const idx = rows.length - 1;
+    const row = rows[idx];
+    const current = allocationAmount(row, total);
+    if (row.mode === 'amount') update(idx, { amount: Math.round((current + remaining) * 100) / 100 });
+    else update(idx, { percent: Math.round(((current + remaining) / total) * 10000) / 100 });
+  };
+
+  const handleSave = async (next: ExpenseAllocation[]) => {
+    setIsSaving(true);
+    try {
+      await onSave(next);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      alert("Failed to save allocation");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-[11px] font-bold outline-none focus:ring-2 ring-brand-500/20 dark:text-white";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-md" onClick={onClose} />
+      <div className="relative w-full max-w-4xl bg-white dark:bg-slate-900 rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-10 py-6 flex items-center justify-between border-b border-slate-100 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl bg-brand-600 flex items-center justify-center text-white">
+              <Split size={22} />
+            </div>
+            <div>
+              <h3 className="text-xl font-black uppercase tracking-tighter dark:text-white">Allocate {expense.merchant}</h3>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{expense.date} • {expense.currency} {fmt(total)} across projects, cost centers and heads</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-10 space-y-3 max-h-[60vh] overflow-y-auto">
+          <datalist id="allocation-projects">
+            {projects.map(p => <option key={p} value={p} />)}
+          </datalist>
+          <datalist id="allocation-cost-centers">
+            {costCenters.map(c => <option key={c} value={c} />)}
+          </datalist>
+
+          {rows.map((row, idx) => (
+            <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+              <input className={`${inputClass} col-span-3`} list="allocation-projects" placeholder="Project / client" value={row.project || ''} onChange={(e) => update(idx, { project: e.target.value })} />
+              <input className={`${inputClass} col-span-2`} list="allocation-cost-centers" placeholder="Cost center" value={row.cost_center || ''} onChange={(e) => update(idx, { cost_center: e.target.value })} />
+              <select className={`${inputClass} col-span-2 uppercase`} value={row.category || ''} onChange={(e) => update(idx, { category: e.target.value || undefined })}>
+                <option value="">{expense.category}</option>
+                {categories.filter(c => c !== expense.category).map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <div className="col-span-1 flex bg-slate-100 dark:bg-slate-800 rounded-xl p-0.5">
+                {(['percent', 'amount'] as SplitMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => row.mode !== mode && switchMode(idx, mode)}
+                    className={`flex-1 py-1.5 rounded-lg text-[9px] font-black uppercase ${row.mode === mode ? 'bg-white dark:bg-slate-900 text-brand-600 shadow-sm' : 'text-slate-400'}`}
+                  >
+                    {mode === 'percent' ? '%' : expense.currency}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                className={`${inputClass} col-span-2`}
+                value={(row.mode === 'amount' ? row.amount : row.percent) ?? ''}
+                onChange={(e) => {
+                  const value = e.target.value === '' ? undefined : Number(e.target.value);
+                  update(idx, row.mode === 'amount' ? { amount: value } : { percent: value });
+                }}
+              />
+              <span className="col-span-1 text-right text-[10px] font-black text-slate-400">{fmt(allocationAmount(allocations[idx], total))}</span>
+              <button onClick={() => setRows(prev => prev.filter((_, i) => i !== idx))} className="col-span-1 p-2 text-slate-300 hover:text-red-500 justify-self-center">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => setRows(prev => [...prev, { category: expense.category, percent: total > 0 ? Math.max(0, Math.round((remaining / total) * 10000) / 100) : 0, mode: 'percent' }])}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-600"
+          >
+            <Plus size={14} /> Add Split
+          </button>
+        </div>
+
+        <div className="px-10 py-6 flex flex-wrap items-center justify-between gap-4 border-t border-slate-100 dark:border-slate-800">
+          <div className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest ${error ? 'text-amber-600' : 'text-emerald-600'}`}>
+            {error ? <AlertTriangle size={14} /> : <CheckCircle2 size={14} />}
+            {error || `Fully allocated • ${expense.currency} ${fmt(total)}`}
+            {error && rows.length > 0 && Math.abs(remaining) > 0.01 && (
+              <button onClick={fillRemainder} className="ml-2 underline underline-offset-2 hover:text-brand-600">
+                Put {fmt(remaining)} on last split
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {expense.allocations?.length ? (
+              <button onClick={() => handleSave([])} disabled={isSaving} className="px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500">
+                Remove Split
+              </button>
+            ) : null}
+            <button
+              onClick={() => handleSave(allocations)}
+              disabled={!!error || rows.length === 0 || isSaving}
+              className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-brand-600 text-white text-[10px] font-black uppercase tracking-widest shadow-lg disabled:opacity-40 active:scale-95 transition-all"
+            >
+              <Save size={14} /> {isSaving ? 'Saving...' : 'Save Allocation'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AllocationEditor;
@@ -6,19 +6,46 @@ import {
     Shield,
     Save,
     AlertCircle,
-    Trash2
+    Trash2,
+    Table
 } from 'lucide-react';
-import { saveBankMapping, deleteBankMapping } from '../firebaseService';
+import { saveBankMapping, deleteBankMapping, saveStatementTemplate, deleteStatementTemplate } from '../firebaseService';
+import { StatementTemplate } from '../types';
 
 interface BankRegistryProps {
     mappings: any[];
+    templates?: StatementTemplate[];
 }
 
-const BankRegistry: React.FC<BankRegistryProps> = ({ mappings }) => {
+const EMPTY_TEMPLATE = {
+    bank_name: '',
+    delimiter: '',
+    skip_rows: 0,
+    columns: { date: '', description: '', amount: '', debit: '', credit: '', currency: '', card: '', reference: '' },
+    date_format: 'DD/MM/YYYY' as StatementTemplate['date_format'],
+    decimal_separator: '.' as StatementTemplate['decimal_separator'],
+    debit_sign: 'negative' as StatementTemplate['debit_sign'],
+    default_currency: 'AED'
+};
+
+const COLUMN_FIELDS: Array<{ key: keyof StatementTemplate['columns']; label: string; required?: boolean }> = [
+    { key: 'date', label: 'Date', required: true },
+    { key: 'description', label: 'Description', required: true },
+    { key: 'amount', label: 'Amount (signed)' },
+    { key: 'debit', label: 'Debit' },
+    { key: 'credit', label: 'Credit' },
+    { key: 'currency', label: 'Currency' },
+    { key: 'card', label: 'Card Number' },
+    { key: 'reference', label: 'Reference' }
+];
+
+const BankRegistry: React.FC<BankRegistryProps> = ({ mappings, templates = [] }) => {
     const [isAdding, setIsAdding] = useState(false);
     const [newMapping, setNewMapping] = useState({ card_digits: '', bank_name: '' });
     const [isSaving, setIsSaving] = useState(false);
     const [isCustomBank, setIsCustomBank] = useState(false);
+    const [isAddingTemplate, setIsAddingTemplate] = useState(false);
+    const [newTemplate, setNewTemplate] = useState(EMPTY_TEMPLATE);
 
     const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -39,6 +66,42 @@ const BankRegistry: React.FC<BankRegistryProps> = ({ mappings }) => {
         }
     };
 
+    const handleSaveTemplate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const { columns } = newTemplate;
+        if (!columns.amount && !columns.debit) {
+            alert("Map either a signed Amount column or a Debit column.");
+            return;
+        }
+        setIsSaving(true);
+        try {
+            // Drop unmapped columns so the importer does not look for empty headers
+            const mapped = Object.fromEntries(Object.entries(columns).filter(([, v]) => v.trim())) as StatementTemplate['columns'];
+            await saveStatementTemplate({
+                ...newTemplate,
+                bank_name: newTemplate.bank_name.trim(),
+                delimiter: newTemplate.delimiter === '\\t' ? '\t' : newTemplate.delimiter,
+                columns: mapped
+            });
+            setNewTemplate(EMPTY_TEMPLATE);
+            setIsAddingTemplate(false);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDeleteTemplate = async (id: string) => {
+        if (window.confirm("Are you sure you want to delete this statement template?")) {
+            try {
+                await deleteStatementTemplate(id);
+            } catch (err) {
+                console.error(err);
+            }
+        }
+    };
+
     const handleDelete = async (id: string) => {
         if (window.confirm("Are you sure you want to delete this mapping?")) {
             try {
@@ -120,6 +183,191 @@ const BankRegistry: React.FC<BankRegistryProps> = ({ mappings }) => {
                 )}
             </div>
 
+            {/* CSV STATEMENT TEMPLATES */}
+            <div className="bg-white dark:bg-slate-900 p-10 rounded-[3.5rem] border border-slate-100 dark:border-slate-800 shadow-xl">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 mb-8">
+                    <div className="flex items-center gap-5">
+                        <div className="w-12 h-12 rounded-2xl bg-amber-500 flex items-center justify-center text-white">
+                            <Table size={24} />
+                        </div>
+                        <div>
+                            <h3 className="text-xl font-black tracking-tighter dark:text-white uppercase">CSV Statement Templates</h3>
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mt-1">Native import without AI (OFX, MT940 & CAMT.053 need no template)</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => setIsAddingTemplate(true)}
+                        className="bg-slate-900 dark:bg-white text-white dark:text-slate-900 px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2 transition-all active:scale-95"
+                    >
+                        <Plus size={14} />
+                        Add Template
+                    </button>
+                </div>
+
+                {templates.length === 0 ? (
+                    <p className="text-sm font-medium text-slate-500 text-center py-6">
+                        No templates yet. CSVs with standard headers (Date, Description, Amount / Debit, Credit) import automatically; anything else falls back to AI extraction.
+                    </p>
+                ) : (
+                    <div className="divide-y divide-slate-100 dark:divide-slate-800">
+                        {templates.map(t => (
+                            <div key={t.id} className="group py-5 flex items-center justify-between gap-6">
+                                <div>
+                                    <p className="text-sm font-black dark:text-white uppercase tracking-tight">{t.bank_name}</p>
+                                    <p className="text-[10px] font-bold text-slate-400 mt-1">
+                                        {Object.entries(t.columns).map(([k, v]) => `${k}: "${v}"`).join(' • ')}
+                                    </p>
+                                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">
+                                        {t.date_format || 'DD/MM/YYYY'} • Decimal "{t.decimal_separator || '.'}" • {t.default_currency || 'AED'}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleDeleteTemplate(t.id)}
+                                    className="p-2 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                                >
+                                    <Trash2 size={18} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* ADD TEMPLATE MODAL */}
+            {isAddingTemplate && (
+                <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
+                    <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-md" onClick={() => setIsAddingTemplate(false)} />
+
+                    <form onSubmit={handleSaveTemplate} className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-slate-900 rounded-[3.5rem] shadow-2xl animate-in zoom-in-95 duration-200">
+                        <div className="p-10">
+                            <div className="flex items-center justify-between mb-8">
+                                <h3 className="text-2xl font-black tracking-tighter uppercase dark:text-white">CSV Template</h3>
+                                <button type="button" onClick={() => setIsAddingTemplate(false)} className="p-3 bg-slate-50 dark:bg-slate-800 rounded-full text-slate-400 hover:text-slate-600 dark:hover:text-white transition-all">
+                                    <X size={20} />
+                                </button>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="col-span-2">
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Bank Name</label>
+                                    <input
+                                        type="text"
+                                        required
+                                        placeholder="e.g. Emirates NBD"
+                                        className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-5 py-3 text-sm font-bold outline-none focus:border-brand-500 dark:text-white"
+                                        value={newTemplate.bank_name}
+                                        onChange={(e) => setNewTemplate({ ...newTemplate, bank_name: e.target.value })}
+                                    />
+                                </div>
+                                {COLUMN_FIELDS.map(f => (
+                                    <div key={f.key}>
+                                        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">{f.label} Header</label>
+                                        <input
+                                            type="text"
+                                            required={f.required}
+                                            placeholder="Column header"
+                                            className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-5 py-3 text-sm font-bold outline-none focus:border-brand-500 dark:text-white"
+                                            value={newTemplate.columns[f.key] || ''}
+                                            onChange={(e) => setNewTemplate({ ...newTemplate, columns: { ...newTemplate.columns, [f.key]: e.target.value } })}
+                                        />
+                                    </div>
+                                ))}
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Date Format</label>
+                                    <select
+                                        className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-5 py-3 text-sm font-bold outline-none dark:text-white"
+                                        value={newTemplate.date_format}
+                                        onChange={(e) => setNewTemplate({ ...newTemplate, date_format: e.target.value as StatementTemplate['date_format'] })}
+                                    >
+                                        <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                                        <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                                        <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Decimal Separator</label>
+                                    <select
+                                        className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-5 py-3 text-sm font-bold outline-none dark:text-white"
+                                        value={newTemplate.decimal_separator}
+                                        onChange={(e) => setNewTemplate({ ...newTemplate, decimal_separator: e.target.value as StatementTemplate['decimal_separator'] })}
+                                    >
+                                        <option value=".">Dot (1,234.56)</option>
+                                        <option value=",">Comma (1.234,56)</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Spend In Amount Column</label>
+                                    <select
+                                        className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-5 py-3 text-sm font-bold outline-none dark:text-white"
+                                        value={newTemplate.debit_sign}
+                                        onChange={(e) => setNewTemplate({ ...newTemplate, debit_sign: e.target.value as StatementTemplate['debit_sign'] })}
+                                    >
+                                        <option value="negative">Negative (-120.00)</option>
+                                        <option value="positive">Positive (120.00)</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Default Currency</label>
+                                    <input
+                                        type="text"
+                                        maxLength={3}
+                                        className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-5 py-3 text-sm font-bold uppercase outline-none focus:border-brand-500 dark:text-white"
+                                        value={newTemplate.default_currency}
+                                        onChange={(e) => setNewTemplate({ ...newTemplate, default_currency: e.target.value.toUpperCase() })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Delimiter (blank = auto)</label>
+                                    <input
+                                        type="text"
+                                        maxLength={2}
+                                        placeholder=", ; \t"
+                                        className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-5 py-3 text-sm font-mono font-bold outline-none focus:border-brand-500 dark:text-white"
+                                        value={newTemplate.delimiter}
+                                        onChange={(e) => setNewTemplate({ ...newTemplate, delimiter: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Preamble Rows To Skip</label>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-5 py-3 text-sm font-bold outline-none focus:border-brand-500 dark:text-white"
+                                        value={newTemplate.skip_rows}
+                                        onChange={(e) => setNewTemplate({ ...newTemplate, skip_rows: Math.max(0, parseInt(e.target.value) || 0) })}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="bg-amber-50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30 p-5 rounded-2xl mt-8 flex gap-3">
+                                <AlertCircle size={18} className="text-amber-600 shrink-0" />
+                                <p className="text-[10px] font-medium text-amber-700 dark:text-amber-500 leading-relaxed">
+                                    Headers are matched case-insensitively. Use either a signed Amount column or separate Debit/Credit columns. The template applies to uploads where this bank is selected.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="bg-slate-50 dark:bg-slate-800/50 p-6 flex gap-4">
+                            <button
+                                type="button"
+                                onClick={() => setIsAddingTemplate(false)}
+                                className="flex-1 px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 hover:bg-slate-50 transition-all"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving}
+                                className="flex-1 px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-white bg-brand-600 hover:bg-brand-700 shadow-lg shadow-brand-500/20 active:scale-95 transition-all flex items-center justify-center gap-3"
+                            >
+                                <Save size={18} />
+                                {isSaving ? 'Processing...' : 'Save Template'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+
             {/* ADD MODAL */}
             {isAdding && (
                 <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Target, AlertTriangle, TrendingUp } from 'lucide-react';
+import { Expense, AppSettings } from '../types';
+import { getExchangeRates, convertToBaseCurrency, getCurrencySymbol, ExchangeRates } from '../currencyService';
+import { matchExpenses, matchProofIds } from '../reconciliationEngine';
+import { budgetWindow, budgetLedger, evaluateBudget, BudgetStatus, BUDGET_DIMENSION_LABELS, DEFAULT_BUDGET_ALERT_PERCENT } from '../budgets';
+import { UserSession } from '../authService';
+
+interface BudgetPanelProps {
+  expenses: Expense[];
+  settings: AppSettings;
+  period: { month: string; year: number };
+  session: UserSession | null;
+}
+
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+const ALERT_STYLES: Record<BudgetStatus['alert'], { bar: string; text: string; label: string }> = {
+  ok: { bar: 'bg-emerald-500', text: 'text-emerald-500', label: 'On Track' },
+  threshold: { bar: 'bg-amber-500', text: 'text-amber-500', label: 'Threshold' },
+  over: { bar: 'bg-rose-500', text: 'text-rose-500', label: 'Over Budget' }
+};
+
+// Remaining budget per day against the straight-line ideal; no chart library needed for two lines
+const BurnDown: React.FC<{ status: BudgetStatus }> = ({ status }) => {
+  const width = 300;
+  const height = 70;
+  const points = status.burn;
+  const low = Math.min(0, ...points.map(p => p.remaining ?? 0));
+  const high = Math.max(status.budget.amount, 1);
+  const x = (i: number) => (points.length > 1 ? (i / (points.length - 1)) * width : 0);
+  const y = (v: number) => height - ((v - low) / (high - low)) * height;
+  const path = (values: Array<number | null>) => values
+    .map((v, i) => (v === null ? null : `${x(i).toFixed(1)},${y(v).toFixed(1)}`))
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-20" preserveAspectRatio="none">
+      {low < 0 && <line x1={0} x2={width} y1={y(0)} y2={y(0)} className="stroke-slate-200 dark:stroke-slate-700" strokeWidth={1} />}
+      <polyline points={path(points.map(p => p.ideal))} fill="none" className="stroke-slate-300 dark:stroke-slate-600" strokeWidth={1.5} strokeDasharray="4 4" />
+      <polyline points={path(points.map(p => p.remaining))} fill="none" className={status.alert === 'ok' ? 'stroke-brand-500' : status.alert === 'threshold' ? 'stroke-amber-500' : 'stroke-rose-500'} strokeWidth={2.5} />
+    </svg>
+  );
+};
+
+const BudgetPanel: React.FC<BudgetPanelProps> = ({ expenses, settings, period, session }) => {
+  const [ratesByMonth, setRatesByMonth] = useState<Record<string, ExchangeRates>>({});
+  const baseCurrency = settings?.reporting_currency || 'USD';
+  const symbol = getCurrencySymbol(baseCurrency);
+
+  // "All Months" follows the calendar: the current month (or quarter) of the selected year
+  const anchorMonth = period.month === "All Months" ? new Date().getMonth() : MONTHS.indexOf(period.month);
+
+  const visibleBudgets = useMemo(() => {
+    const budgets = settings?.budgets || [];
+    if (session?.role === 'admin') return budgets;
+    const email = (session?.email || '').toLowerCase();
+    return budgets.filter(b => b.dimension === 'employee' && b.target.toLowerCase() === email);
+  }, [settings, session]);
+
+  const windows = useMemo(() => {
+    const map: Record<string, ReturnType<typeof budgetWindow>> = {};
+    visibleBudgets.forEach(b => {
+      const w = budgetWindow(b.period, period.year, anchorMonth);
+      map[w.key] = w;
+    });
+    return map;
+  }, [visibleBudgets, period.year, anchorMonth]);
+
+  // Actuals use the organization's pinned rates of the month each expense falls in
+  useEffect(() => {
+    const months = Array.from(new Set(Object.values(windows).flatMap(w => w.months)));
+    Promise.all(months.map(async m => [m, await getExchangeRates(`${m}-01`)] as const)).then(entries => {
+      const map: Record<string, ExchangeRates> = {};
+      entries.forEach(([m, rates]) => { if (rates) map[m] = rates; });
+      setRatesByMonth(map);
+    });
+  }, [windows]);
+
+  const statuses = useMemo(() => {
+    if (visibleBudgets.length === 0) return [];
+    const latest = Object.keys(ratesByMonth).sort().pop();
+    const matched = matchExpenses(expenses, { rates: latest ? ratesByMonth[latest].rates : {}, dateWindowDays: 14 });
+    const matchedProofs = new Set(matched.matched.flatMap(matchProofIds));
+    const ledger = budgetLedger(expenses, matchedProofs);
+    const convert = (amount: number, e: Expense) => convertToBaseCurrency(amount, e.currency, baseCurrency, ratesByMonth, e.date);
+
+    return visibleBudgets.map(b => evaluateBudget(b, budgetWindow(b.period, period.year, anchorMonth), ledger, convert));
+  }, [visibleBudgets, expenses, ratesByMonth, baseCurrency, period.year, anchorMonth]);
+
+  if (statuses.length === 0) return null;
+
+  const alerts = statuses.filter(s => s.alert !== 'ok' || s.projected_overrun > 0);
+
+  return (
+    <div className="bg-white dark:bg-[#0b1120] p-8 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-brand-50 dark:bg-brand-500/10 rounded-2xl flex items-center justify-center text-brand-600"><Target size={20} /></div>
+          <div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Budgets · {baseCurrency}</p>
+            <h4 className="text-lg font-black tracking-tighter uppercase">Burn-Down</h4>
+          </div>
+        </div>
+        {alerts.length > 0 && (
+          <div className="flex items-center gap-2 px-4 py-2 bg-amber-50 dark:bg-amber-500/10 text-amber-600 rounded-2xl text-[10px] font-black uppercase tracking-widest">
+            <AlertTriangle size={14} /> {alerts.length} Alert{alerts.length === 1 ? '' : 's'}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {statuses.map(s => {
+          const style = ALERT_STYLES[s.alert];
+          return (
+            <div key={s.budget.id} className="p-6 bg-slate-50 dark:bg-slate-800/40 rounded-[2rem] border border-slate-100 dark:border-slate-800 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{BUDGET_DIMENSION_LABELS[s.budget.dimension]} · {s.window.label}</p>
+                  <h5 className="text-sm font-black truncate dark:text-white">{s.budget.target}</h5>
+                </div>
+                <span className={`text-[9px] font-black uppercase tracking-widest ${style.text}`}>{style.label}</span>
+              </div>
+
+              <div>
+                <div className="flex justify-between text-[11px] font-bold mb-2">
+                  <span>{symbol}{s.actual.toLocaleString(undefined, { maximumFractionDigits: 0 })} <span className="text-slate-400">of {symbol}{s.budget.amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></span>
+                  <span className={style.text}>{s.percent.toFixed(0)}%</span>
+                </div>
+                <div className="relative w-full h-2 bg-white dark:bg-slate-900 rounded-full overflow-hidden">
+                  <div className={`h-full ${style.bar}`} style={{ width: `${Math.min(100, Math.max(0, s.percent))}%` }}></div>
+                  <div className="absolute top-0 h-full w-px bg-slate-400" style={{ left: `${s.budget.alert_percent ?? DEFAULT_BUDGET_ALERT_PERCENT}%` }}></div>
+                </div>
+              </div>
+
+              <BurnDown status={s} />
+
+              <div className="flex justify-between text-[10px] font-bold text-slate-500">
+                <span>Remaining {symbol}{s.remaining.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                {s.projected_overrun > 0 ? (
+                  <span className="flex items-center gap-1 text-rose-500"><TrendingUp size={12} /> Projected overrun {symbol}{s.projected_overrun.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                ) : (
+                  <span>Projected {symbol}{s.projected.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BudgetPanel;
@@ -0,0 +1,433 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Wallet,
+  Send,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  ChevronDown,
+  Banknote,
+  History,
+  Square,
+  CheckSquare,
+  Loader2,
+  ArrowRight,
+  UserCheck
+} from 'lucide-react';
+import { Expense, ReimbursementClaim, ClaimLine, ClaimStatus, AppSettings, ApprovalDecision } from '../types';
+import { UserSession } from '../authService';
+import { submitClaim, reviewClaim, markClaimPaid, decideClaimApproval } from '../firebaseService';
+import { claimableExpenses, claimTotals, isPayable, CLAIM_STATUS_LABELS } from '../claims';
+import { canActOnApproval, currentApprovalStep } from '../approvals';
+import { getExchangeRates, convertToBaseCurrency, getCurrencySymbol, ExchangeRates } from '../currencyService';
+
+interface ClaimsCenterProps {
+  expenses: Expense[];
+  claims: ReimbursementClaim[];
+  session: UserSession;
+  settings: AppSettings;
+}
+
+const STATUS_STYLES: Record<ClaimStatus, string> = {
+  submitted: 'bg-amber-50 dark:bg-amber-500/10 text-amber-600 border-amber-100 dark:border-amber-500/20',
+  approved: 'bg-emerald-50 dark:bg-emerald-500/10 text-emerald-600 border-emerald-100 dark:border-emerald-500/20',
+  partially_approved: 'bg-sky-50 dark:bg-sky-500/10 text-sky-600 border-sky-100 dark:border-sky-500/20',
+  rejected: 'bg-red-50 dark:bg-red-500/10 text-red-600 border-red-100 dark:border-red-500/20',
+  paid: 'bg-brand-50 dark:bg-brand-500/10 text-brand-600 border-brand-100 dark:border-brand-500/20'
+};
+
+const STEP_STYLES: Record<string, string> = {
+  waiting: 'bg-slate-50 dark:bg-slate-800 text-slate-400 border-slate-100 dark:border-slate-700',
+  pending: 'bg-amber-50 dark:bg-amber-500/10 text-amber-600 border-amber-200 dark:border-amber-500/30',
+  approved: 'bg-emerald-50 dark:bg-emerald-500/10 text-emerald-600 border-emerald-100 dark:border-emerald-500/20',
+  rejected: 'bg-red-50 dark:bg-red-500/10 text-red-600 border-red-100 dark:border-red-500/20'
+};
+
+const ClaimsCenter: React.FC<ClaimsCenterProps> = ({ expenses, claims, session, settings }) => {
+  const isAdmin = session.role === 'admin';
+  const reportingCurrency = settings.reporting_currency || 'USD';
+  const [exchangeData, setExchangeData] = useState<ExchangeRates | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [title, setTitle] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [draftLines, setDraftLines] = useState<Record<string, ClaimLine[]>>({});
+  const [payoutRefs, setPayoutRefs] = useState<Record<string, string>>({});
+  const [stepComments, setStepComments] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<'open' | 'all'>('open');
+
+  useEffect(() => {
+    getExchangeRates().then(setExchangeData);
+  }, []);
+
+  const symbol = getCurrencySymbol(reportingCurrency);
+  const convertLine = (amount: number, line: ClaimLine) => convertToBaseCurrency(amount, line.currency, reportingCurrency, exchangeData || {}, line.date);
+  const format = (n: number) => `${symbol}${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const claimable = useMemo(() => claimableExpenses(expenses, session.email)
+    .sort((a, b) => b.date.localeCompare(a.date)), [expenses, session.email]);
+
+  const selected = claimable.filter(e => selectedIds.has(e.id));
+  const selectedTotal = selected.reduce((acc, e) => acc + convertToBaseCurrency(Math.abs(e.amount), e.currency, reportingCurrency, exchangeData || {}, e.date), 0);
+
+  const visibleClaims = claims.filter(c => filter === 'all' || c.status !== 'paid' && c.status !== 'rejected');
+
+  const toggle = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const handleSubmit = async () => {
+    if (selected.length === 0) return;
+    setIsSubmitting(true);
+    try {
+      await submitClaim(
+        title.trim() || `Claim ${new Date().toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}`,
+        selected,
+        { steps: settings.approval_steps, delegations: settings.approval_delegations, amount: selectedTotal }
+      );
+      setSelectedIds(new Set());
+      setTitle('');
+    } catch (e: any) {
+      console.error(e);
+      alert(`Failed to submit claim: ${e.message || e}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const linesFor = (claim: ReimbursementClaim) => draftLines[claim.id] || claim.lines;
+
+  const updateLine = (claim: ReimbursementClaim, idx: number, patch: Partial<ClaimLine>) => {
+    const lines = linesFor(claim).map((l, i) => i === idx ? { ...l, ...patch, reviewed_by: session.email, reviewed_at: new Date().toISOString() } : l);
+    setDraftLines(prev => ({ ...prev, [claim.id]: lines }));
+  };
+
+  const handleReview = async (claim: ReimbursementClaim) => {
+    const lines = draftLines[claim.id];
+    if (!lines) return;
+    if (lines.some(l => l.status === 'rejected' && !l.comment?.trim())) {
+      alert("Add a comment to every rejected line");
+      return;
+    }
+    setBusyId(claim.id);
+    try {
+      await reviewClaim(claim, lines);
+      setDraftLines(prev => {
+        const next = { ...prev };
+        delete next[claim.id];
+        return next;
+      });
+    } catch (e: any) {
+      console.error(e);
+      alert(`Failed to save review: ${e.message || e}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDecision = async (claim: ReimbursementClaim, decision: ApprovalDecision) => {
+    const comment = stepComments[claim.id] || '';
+    if (decision === 'rejected' && !comment.trim()) {
+      alert("Add a comment explaining the rejection");
+      return;
+    }
+    setBusyId(claim.id);
+    try {
+      await decideClaimApproval(claim, linesFor(claim), decision, settings.approval_delegations, comment);
+      setDraftLines(prev => {
+        const next = { ...prev };
+        delete next[claim.id];
+        return next;
+      });
+      setStepComments(prev => ({ ...prev, [claim.id]: '' }));
+    } catch (e: any) {
+      console.error(e);
+      alert(`Failed to record decision: ${e.message || e}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePaid = async (claim: ReimbursementClaim) => {
+    const ref = payoutRefs[claim.id] || '';
+    if (!ref.trim()) {
+      alert("Enter the payout reference (bank transfer / payroll run)");
+      return;
+    }
+    setBusyId(claim.id);
+    try {
+      await markClaimPaid(claim, ref);
+    } catch (e: any) {
+      console.error(e);
+      alert(`Failed to mark paid: ${e.message || e}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-10 pb-32 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div>
+          <h3 className="text-2xl font-black tracking-tighter uppercase">Reimbursement Claims</h3>
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.3em] mt-1">Out-of-pocket spend owed back to employees</p>
+        </div>
+        <div className="flex bg-slate-100 dark:bg-slate-900/60 p-1.5 rounded-2xl w-fit">
+          {(['open', 'all'] as const).map(f => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${filter === f ? 'bg-white dark:bg-slate-800 text-brand-600 shadow-md' : 'text-slate-500'}`}
+            >
+              {f === 'open' ? 'Open Claims' : 'All Claims'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* NEW CLAIM */}
+      <section className="bg-white dark:bg-[#0b1120] rounded-[3rem] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden">
+        <div className="px-10 py-6 flex items-center justify-between border-b border-slate-100 dark:border-slate-800/60">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-brand-600 rounded-2xl text-white"><Wallet size={20} /></div>
+            <div>
+              <h4 className="text-sm font-black uppercase tracking-widest dark:text-white">Unclaimed Out-of-Pocket</h4>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-0.5">Expenses you paid personally (paid by Employee)</p>
+            </div>
+          </div>
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{claimable.length} Available</span>
+        </div>
+
+        {claimable.length === 0 ? (
+          <div className="py-14 text-center text-[10px] font-black uppercase tracking-widest text-slate-400">Nothing to claim</div>
+        ) : (
+          <>
+            <div className="divide-y divide-slate-50 dark:divide-slate-800/60 max-h-80 overflow-y-auto">
+              {claimable.map(e => (
+                <button key={e.id} onClick={() => toggle(e.id)} className={`w-full px-10 py-4 flex items-center justify-between text-left transition-colors ${selectedIds.has(e.id) ? 'bg-brand-50/40 dark:bg-brand-900/10' : 'hover:bg-slate-50 dark:hover:bg-slate-800/20'}`}>
+                  <div className="flex items-center gap-4">
+                    <span className={selectedIds.has(e.id) ? 'text-brand-600' : 'text-slate-300'}>
+                      {selectedIds.has(e.id) ? <CheckSquare size={18} /> : <Square size={18} />}
+                    </span>
+                    <div>
+                      <div className="text-[12px] font-black uppercase tracking-tight dark:text-white">{e.merchant}</div>
+                      <div className="text-[10px] font-bold uppercase text-slate-400">{e.date} • {e.category}{e.payment_method ? ` • ${e.payment_method}` : ''}</div>
+                    </div>
+                  </div>
+                  <div className="text-sm font-black dark:text-white">{e.currency} {Math.abs(e.amount).toFixed(2)}</div>
+                </button>
+              ))}
+            </div>
+            <div className="px-10 py-6 flex flex-wrap items-center justify-between gap-4 border-t border-slate-100 dark:border-slate-800/60">
+              <input
+                className="flex-1 min-w-[240px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl px-5 py-3 text-xs font-bold outline-none focus:ring-2 ring-brand-500/20 dark:text-white"
+                placeholder="Claim title (e.g. Riyadh client visit)"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+              <div className="flex items-center gap-4">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{selected.length} Selected • {format(selectedTotal)}</span>
+                <button
+                  onClick={handleSubmit}
+                  disabled={selected.length === 0 || isSubmitting}
+                  className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-brand-600 text-white text-[10px] font-black uppercase tracking-widest shadow-lg disabled:opacity-40 active:scale-95 transition-all"
+                >
+                  {isSubmitting ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+                  Submit Claim
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </section>
+
+      {/* CLAIMS */}
+      <div className="space-y-6">
+        {visibleClaims.length === 0 && (
+          <div className="py-20 text-center bg-white dark:bg-slate-900/50 rounded-[3rem] border border-dashed border-slate-200 dark:border-slate-800/60 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            No claims to show
+          </div>
+        )}
+        {visibleClaims.map(claim => {
+          const isExpanded = expandedId === claim.id;
+          const lines = linesFor(claim);
+          const totals = claimTotals({ ...claim, lines }, convertLine);
+          const inChain = claim.approval?.status === 'pending';
+          const step = currentApprovalStep(claim.approval);
+          const canReview = inChain ? canActOnApproval(claim.approval, session.email) : isAdmin && claim.status !== 'paid';
+          const isDirty = !!draftLines[claim.id];
+          return (
+            <div key={claim.id} className={`bg-white dark:bg-[#0b1120] rounded-[3rem] border shadow-sm overflow-hidden transition-all ${isExpanded ? 'border-brand-500 shadow-2xl' : 'border-slate-100 dark:border-slate-800'}`}>
+              <div className="px-10 py-6 flex flex-wrap items-center justify-between gap-6 cursor-pointer" onClick={() => setExpandedId(isExpanded ? null : claim.id)}>
+                <div>
+                  <div className="flex items-center gap-3">
+                    <h4 className="text-lg font-black uppercase tracking-tighter dark:text-white">{claim.title}</h4>
+                    <span className={`px-3 py-1 rounded-xl border text-[8px] font-black uppercase tracking-widest ${STATUS_STYLES[claim.status]}`}>{CLAIM_STATUS_LABELS[claim.status]}</span>
+                  </div>
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">
+                    {claim.user_id} • {claim.lines.length} Lines • Submitted {new Date(claim.created_at).toLocaleDateString()}
+                    {claim.payout_reference && ` • Payout ${claim.payout_reference}`}
+                  </p>
+                  {step && (
+                    <p className={`text-[10px] font-black uppercase tracking-widest mt-1 flex items-center gap-1.5 ${canReview ? 'text-amber-600' : 'text-slate-400'}`}>
+                      <UserCheck size={12} /> {canReview ? 'Your decision' : 'Waiting on'} • {step.label}{!canReview && ` (${step.approver})`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-8">
+                  <div className="text-right">
+                    <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Claimed / Approved</div>
+                    <div className="text-lg font-black tracking-tighter dark:text-white">{format(totals.claimed)} / <span className="text-emerald-600">{format(totals.approved)}</span></div>
+                  </div>
+                  <ChevronDown size={20} className={`text-slate-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                </div>
+              </div>
+
+              {isExpanded && (
+                <div className="border-t border-slate-100 dark:border-slate-800/60">
+                  <div className="divide-y divide-slate-50 dark:divide-slate-800/60">
+                    {lines.map((line, idx) => (
+                      <div key={line.expense_id} className="px-10 py-4 grid grid-cols-12 gap-4 items-center">
+                        <div className="col-span-4">
+                          <div className="text-[12px] font-black uppercase tracking-tight dark:text-white">{line.merchant}</div>
+                          <div className="text-[10px] font-bold uppercase text-slate-400">{line.date} • {line.category}</div>
+                        </div>
+                        <div className="col-span-2 text-right text-sm font-black dark:text-white">{line.currency} {line.amount.toFixed(2)}</div>
+                        <div className="col-span-6 flex items-center gap-2">
+                          {canReview ? (
+                            <>
+                              <button
+                                onClick={() => updateLine(claim, idx, { status: 'approved' })}
+                                className={`p-2 rounded-xl transition-all ${line.status === 'approved' ? 'bg-emerald-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-emerald-600'}`}
+                                title="Approve"
+                              >
+                                <CheckCircle2 size={16} />
+                              </button>
+                              <button
+                                onClick={() => updateLine(claim, idx, { status: 'rejected' })}
+                                className={`p-2 rounded-xl transition-all ${line.status === 'rejected' ? 'bg-red-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-red-600'}`}
+                                title="Reject"
+                              >
+                                <XCircle size={16} />
+                              </button>
+                              <input
+                                className="flex-1 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl px-3 py-2 text-[11px] font-bold outline-none dark:text-white"
+                                placeholder={line.status === 'rejected' ? 'Reason (required)' : 'Comment'}
+                                value={line.comment || ''}
+                                onChange={(e) => updateLine(claim, idx, { comment: e.target.value })}
+                              />
+                            </>
+                          ) : (
+                            <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest">
+                              {line.status === 'approved' ? <CheckCircle2 size={14} className="text-emerald-600" /> : line.status === 'rejected' ? <XCircle size={14} className="text-red-600" /> : <Clock size={14} className="text-amber-500" />}
+                              <span className={line.status === 'approved' ? 'text-emerald-600' : line.status === 'rejected' ? 'text-red-600' : 'text-amber-500'}>{line.status}</span>
+                              {line.comment && <span className="normal-case font-bold text-slate-500 tracking-normal">— {line.comment}</span>}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {claim.approval && (
+                    <div className="px-10 py-5 border-t border-slate-100 dark:border-slate-800/60 flex flex-wrap items-center gap-2">
+                      {claim.approval.steps.map((s, i) => (
+                        <React.Fragment key={s.step_id}>
+                          {i > 0 && <ArrowRight size={12} className="text-slate-300" />}
+                          <span className={`px-3 py-1.5 rounded-xl border text-[9px] font-black uppercase tracking-widest ${STEP_STYLES[s.status]}`} title={s.approver}>
+                            {s.label} • {s.status}
+                          </span>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="px-10 py-6 bg-slate-50/50 dark:bg-slate-950/20 flex flex-wrap items-start justify-between gap-6">
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400"><History size={12} /> Status History</div>
+                      {(claim.history || []).map((h, i) => (
+                        <div key={i} className="text-[10px] font-bold text-slate-500">
+                          <span className="font-black uppercase">{CLAIM_STATUS_LABELS[h.status]}</span> • {new Date(h.at).toLocaleString()} • {h.by}{h.note ? ` • ${h.note}` : ''}
+                        </div>
+                      ))}
+                      {(claim.approval?.history || []).map((h, i) => (
+                        <div key={`a${i}`} className="text-[10px] font-bold text-slate-500">
+                          <span className={`font-black uppercase ${h.decision === 'approved' ? 'text-emerald-600' : 'text-red-600'}`}>{h.label} {h.decision}</span> • {new Date(h.at).toLocaleString()} • {h.by}{h.on_behalf_of ? ` for ${h.on_behalf_of}` : ''}{h.comment ? ` • ${h.comment}` : ''}
+                        </div>
+                      ))}
+                    </div>
+
+                    {canReview && inChain && (
+                      <div className="flex items-center gap-2">
+                        <input
+                          className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl px-4 py-3 text-[11px] font-bold outline-none dark:text-white w-56"
+                          placeholder="Comment for this step"
+                          value={stepComments[claim.id] || ''}
+                          onChange={(e) => setStepComments(prev => ({ ...prev, [claim.id]: e.target.value }))}
+                        />
+                        <button
+                          onClick={() => handleDecision(claim, 'rejected')}
+                          disabled={busyId === claim.id}
+                          className="flex items-center gap-2 px-5 py-3 rounded-2xl bg-red-50 dark:bg-red-500/10 text-red-600 text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+                        >
+                          <XCircle size={14} /> Reject
+                        </button>
+                        <button
+                          onClick={() => handleDecision(claim, 'approved')}
+                          disabled={busyId === claim.id}
+                          className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+                        >
+                          {busyId === claim.id ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle2 size={14} />}
+                          {claim.approval!.current_step < claim.approval!.steps.length - 1 ? 'Approve & Forward' : 'Final Approval'}
+                        </button>
+                      </div>
+                    )}
+
+                    {canReview && !inChain && (
+                      <div className="flex flex-col items-end gap-3">
+                        {isDirty && (
+                          <button
+                            onClick={() => handleReview(claim)}
+                            disabled={busyId === claim.id}
+                            className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-slate-900 dark:bg-white text-white dark:text-slate-950 text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+                          >
+                            {busyId === claim.id ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle2 size={14} />}
+                            Save Review
+                          </button>
+                        )}
+                        {!isDirty && isPayable(claim) && (
+                          <div className="flex items-center gap-2">
+                            <input
+                              className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl px-4 py-3 text-[11px] font-bold outline-none dark:text-white w-56"
+                              placeholder="Payout reference"
+                              value={payoutRefs[claim.id] || ''}
+                              onChange={(e) => setPayoutRefs(prev => ({ ...prev, [claim.id]: e.target.value }))}
+                            />
+                            <button
+                              onClick={() => handlePaid(claim)}
+                              disabled={busyId === claim.id}
+                              className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+                            >
+                              {busyId === claim.id ? <Loader2 size={14} className="animate-spin" /> : <Banknote size={14} />}
+                              Mark Paid {format(totals.approved)}
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ClaimsCenter;
@@ -1,18 +1,47 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { HelpCircle, Search, CheckCircle2, Sparkles, AlertCircle, Save, ArrowRight, CornerDownRight, Zap, AlertTriangle, Clock } from 'lucide-react';
-import { Expense } from '../types';
+import { HelpCircle, Search, CheckCircle2, Sparkles, AlertCircle, Save, ArrowRight, CornerDownRight, Zap, AlertTriangle, Clock, ShieldAlert, Plane } from 'lucide-react';
+import { Expense, ProvenanceField, FieldProvenance, TravelLog, PolicyViolation, PolicySeverity } from '../types';
+import { LOW_CONFIDENCE_THRESHOLD, PROVENANCE_LABELS, describeProvenance } from '../extractionMapper';
+import { openViolations, justifyViolations } from '../policyEngine';
 
 interface ClarificationCenterProps {
   expenses: Expense[];
   onResolve: (expenseId: string, updates: Partial<Expense>) => void;
+  onDiscard?: (expenseId: string) => void;
   initialTargetId?: string | null;
   onClearTarget?: () => void;
+  travelLogs?: TravelLog[];
+  onResolveTravelLog?: (logId: string, updates: Partial<TravelLog>) => void;
+  currentUserEmail?: string;
 }
 
-const ClarificationCenter: React.FC<ClarificationCenterProps> = ({ expenses, onResolve, initialTargetId, onClearTarget }) => {
+const SEVERITY_STYLES: Record<PolicySeverity, string> = {
+  info: 'bg-sky-50 dark:bg-sky-500/10 text-sky-700 border-sky-100 dark:border-sky-500/20',
+  warning: 'bg-amber-50 dark:bg-amber-500/10 text-amber-700 border-amber-200 dark:border-amber-500/20',
+  critical: 'bg-red-50 dark:bg-red-500/10 text-red-700 border-red-200 dark:border-red-500/20'
+};
+
+const ViolationList = ({ violations }: { violations: PolicyViolation[] }) => (
+  <div className="space-y-2">
+    {violations.map(v => (
+      <div key={v.rule_id} className={`px-4 py-3 rounded-xl border text-[11px] ${SEVERITY_STYLES[v.severity]}`}>
+        <div className="flex items-center justify-between gap-4">
+          <span className="font-black uppercase tracking-widest text-[9px]">{v.rule_name} • {v.severity}</span>
+          {v.justification && <span className="text-[8px] font-black uppercase tracking-widest text-emerald-600">Justified</span>}
+        </div>
+        <div className="font-bold mt-1">{v.message}</div>
+        {v.justification && <div className="mt-1 text-slate-500 font-medium">“{v.justification}” — {v.justified_by}</div>}
+      </div>
+    ))}
+  </div>
+);
+
+const ClarificationCenter: React.FC<ClarificationCenterProps> = ({ expenses, onResolve, onDiscard, initialTargetId, onClearTarget, travelLogs = [], onResolveTravelLog, currentUserEmail = '' }) => {
   const [userInput, setUserInput] = useState('');
   const [categoryInput, setCategoryInput] = useState('');
+  const [justification, setJustification] = useState('');
+  const [logJustifications, setLogJustifications] = useState<Record<string, string>>({});
 
   const duplicateClusters = useMemo(() => {
     const map = new Map<string, Expense[]>();
@@ -21,11 +50,19 @@ const ClarificationCenter: React.FC<ClarificationCenterProps> = ({ expenses, onR
       const existing = map.get(key) || [];
       map.set(key, [...existing, e]);
     });
-    return Array.from(map.values()).filter(cluster => cluster.length > 1);
+    // Rows flagged at import as suspected duplicates pair up with the record they resemble
+    const suspected = expenses
+      .filter(e => e.duplicate_of && e.needs_clarification)
+      .map(e => {
+        const original = expenses.find(o => o.id === e.duplicate_of);
+        return original ? [original, e] : null;
+      })
+      .filter((cluster): cluster is Expense[] => cluster !== null);
+    return [...Array.from(map.values()).filter(cluster => cluster.length > 1), ...suspected];
   }, [expenses]);
 
   const itemsToClarify = useMemo(() => {
-    const standard = expenses.filter(e => (!e.category || e.category === 'Unknown' || (e.confidence || 0) < 0.7 || e.needs_clarification));
+    const standard = expenses.filter(e => (!e.category || e.category === 'Unknown' || (e.confidence || 0) < LOW_CONFIDENCE_THRESHOLD || e.needs_clarification || openViolations(e).length > 0));
     const dupes = duplicateClusters.flat();
     const combined = [...standard];
     dupes.forEach(d => { if (!combined.find(c => c.id === d.id)) combined.push(d); });
@@ -38,6 +75,12 @@ const ClarificationCenter: React.FC<ClarificationCenterProps> = ({ expenses, onR
 
   const activeItem = itemsToClarify.find(e => e.id === selectedId);
   const activeCluster = activeItem ? duplicateClusters.find(c => c.some(dupe => dupe.id === activeItem.id)) : null;
+  const activeSuspect = activeCluster?.find(dupe => dupe.duplicate_of && dupe.needs_clarification);
+  const activeOpenViolations = activeItem ? openViolations(activeItem) : [];
+  const policyOnly = !!activeItem && activeOpenViolations.length > 0 && !activeItem.needs_clarification
+    && !!activeItem.category && activeItem.category !== 'Unknown' && (activeItem.confidence || 0) >= LOW_CONFIDENCE_THRESHOLD;
+
+  const flaggedLogs = useMemo(() => travelLogs.filter(l => openViolations(l).length > 0), [travelLogs]);
 
   const handleKeep = (id: string) => {
     // In a real app, you'd delete the others. For this prototype, we'll "resolve" it.
@@ -46,15 +89,40 @@ const ClarificationCenter: React.FC<ClarificationCenterProps> = ({ expenses, onR
     setSelectedId(remaining[0]?.id || null);
   };
 
+  const handleSuspectDecision = (isDuplicate: boolean) => {
+    if (!activeSuspect) return;
+    if (isDuplicate && onDiscard) onDiscard(activeSuspect.id);
+    else onResolve(activeSuspect.id, { needs_clarification: false, clarification_reason: 'Confirmed not a duplicate', confidence: 1.0 });
+    const remaining = itemsToClarify.filter(e => !activeCluster?.some(dupe => dupe.id === e.id));
+    setSelectedId(remaining[0]?.id || null);
+  };
+
   const handleStandardResolve = () => {
     if (!activeItem) return;
-    onResolve(activeItem.id, { merchant: userInput || activeItem.merchant, category: categoryInput || activeItem.category, needs_clarification: false, confidence: 1.0 });
-    setUserInput(''); setCategoryInput('');
+    if (activeOpenViolations.length > 0 && !justification.trim()) {
+      alert("Explain why this spend is outside policy before closing it");
+      return;
+    }
+    onResolve(activeItem.id, {
+      merchant: userInput || activeItem.merchant,
+      category: categoryInput || activeItem.category,
+      needs_clarification: false,
+      confidence: 1.0,
+      ...(activeOpenViolations.length > 0 ? { policy_violations: justifyViolations(activeItem.policy_violations, justification.trim(), currentUserEmail) } : {})
+    });
+    setUserInput(''); setCategoryInput(''); setJustification('');
     const remaining = itemsToClarify.filter(e => e.id !== activeItem.id);
     setSelectedId(remaining[0]?.id || null);
   };
 
-  if (itemsToClarify.length === 0) return (
+  const handleJustifyLog = (log: TravelLog) => {
+    const note = (logJustifications[log.id] || '').trim();
+    if (!note || !onResolveTravelLog) return;
+    onResolveTravelLog(log.id, { policy_violations: justifyViolations(log.policy_violations, note, currentUserEmail) });
+    setLogJustifications(prev => ({ ...prev, [log.id]: '' }));
+  };
+
+  if (itemsToClarify.length === 0 && flaggedLogs.length === 0) return (
     <div className="flex flex-col items-center justify-center py-40 text-center">
       <div className="bg-emerald-500/10 p-10 rounded-[3rem] mb-8 text-emerald-500"><CheckCircle2 size={80} /></div>
       <h3 className="text-3xl font-black uppercase tracking-tighter">Audit Clear</h3>
@@ -76,6 +144,7 @@ const ClarificationCenter: React.FC<ClarificationCenterProps> = ({ expenses, onR
               <div className="text-sm font-black dark:text-white uppercase truncate flex items-center gap-2">
                 {item.merchant}
                 {duplicateClusters.some(c => c.some(d => d.id === item.id)) && <AlertTriangle size={12} className="text-amber-500" />}
+                {openViolations(item).length > 0 && <ShieldAlert size={12} className={openViolations(item).some(v => v.severity === 'critical') ? 'text-red-500' : 'text-amber-500'} />}
                 {(item.user_id === 'SHARED_POOL' || (item as any).owner_email === 'SHARED_POOL') && (
                   <span className="px-1.5 py-0.5 bg-brand-100 dark:bg-brand-900/30 text-brand-600 dark:text-brand-400 text-[7px] font-black rounded uppercase">Pool</span>
                 )}
@@ -83,6 +152,35 @@ const ClarificationCenter: React.FC<ClarificationCenterProps> = ({ expenses, onR
             </button>
           ))}
         </div>
+
+        {flaggedLogs.length > 0 && (
+          <div className="pt-6 space-y-3">
+            <div className="flex items-center justify-between px-2">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Travel Policy ({flaggedLogs.length})</span>
+              <Plane size={14} className="text-amber-500" />
+            </div>
+            {flaggedLogs.map(log => (
+              <div key={log.id} className="p-5 rounded-[2rem] border bg-white/50 dark:bg-slate-900/50 border-slate-200 dark:border-slate-800 space-y-3">
+                <div>
+                  <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{log.start_date}{log.end_date ? ` → ${log.end_date}` : ''}</div>
+                  <div className="text-sm font-black dark:text-white uppercase truncate">{log.provider_name} • {log.destination_city}</div>
+                </div>
+                <ViolationList violations={openViolations(log)} />
+                {onResolveTravelLog && (
+                  <div className="flex gap-2">
+                    <input
+                      value={logJustifications[log.id] || ''}
+                      onChange={(e) => setLogJustifications(prev => ({ ...prev, [log.id]: e.target.value }))}
+                      placeholder="Justification"
+                      className="flex-1 min-w-0 px-4 py-2 bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-slate-800 rounded-xl text-[11px] font-bold outline-none dark:text-white"
+                    />
+                    <button onClick={() => handleJustifyLog(log)} disabled={!(logJustifications[log.id] || '').trim()} className="px-4 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-40">Justify</button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="flex-1 w-full">
@@ -90,13 +188,13 @@ const ClarificationCenter: React.FC<ClarificationCenterProps> = ({ expenses, onR
           <div className="bg-white dark:bg-slate-900 rounded-[3rem] border border-slate-200 dark:border-slate-800 shadow-2xl overflow-hidden">
             <div className={`p-10 ${activeCluster ? 'bg-amber-50/50 dark:bg-amber-500/5' : 'bg-slate-50/50 dark:bg-slate-800/30'}`}>
               <div className="flex items-center gap-5 mb-8">
-                <div className={`${activeCluster ? 'bg-amber-500' : 'bg-brand-600'} p-4 rounded-3xl text-white`}>
-                  {activeCluster ? <AlertTriangle size={32} /> : <HelpCircle size={32} />}
+                <div className={`${activeCluster ? 'bg-amber-500' : policyOnly ? 'bg-red-500' : 'bg-brand-600'} p-4 rounded-3xl text-white`}>
+                  {activeCluster ? <AlertTriangle size={32} /> : policyOnly ? <ShieldAlert size={32} /> : <HelpCircle size={32} />}
                 </div>
                 <div>
-                  <h3 className="text-2xl font-black dark:text-white uppercase tracking-tighter">{activeCluster ? 'Redundant Evidence' : 'Clarification Needed'}</h3>
+                  <h3 className="text-2xl font-black dark:text-white uppercase tracking-tighter">{activeCluster ? 'Redundant Evidence' : policyOnly ? 'Policy Review' : 'Clarification Needed'}</h3>
                   <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mt-1">
-                    {activeItem.clarification_reason || 'Manual Review'}
+                    {policyOnly ? `${activeOpenViolations.length} open violation${activeOpenViolations.length === 1 ? '' : 's'}` : activeItem.clarification_reason || 'Manual Review'}
                     {(activeItem.user_id === 'SHARED_POOL' || (activeItem as any).owner_email === 'SHARED_POOL') && ' • Shared Pool Entry'}
                   </p>
                 </div>
@@ -104,7 +202,11 @@ const ClarificationCenter: React.FC<ClarificationCenterProps> = ({ expenses, onR
 
               {activeCluster ? (
                 <div className="space-y-6">
-                  <div className="p-6 bg-amber-50 border border-amber-200 rounded-[2rem] text-amber-800 text-xs font-medium">Duplicate Cluster: Choose the primary record to keep for audit history.</div>
+                  <div className="p-6 bg-amber-50 border border-amber-200 rounded-[2rem] text-amber-800 text-xs font-medium">
+                    {activeSuspect
+                      ? 'Suspected Duplicate: A newly imported row matches an existing record on date, amount and card or descriptor.'
+                      : 'Duplicate Cluster: Choose the primary record to keep for audit history.'}
+                  </div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     {activeCluster.map((dupe, i) => (
                       <div key={dupe.id} className="p-6 bg-white border border-slate-200 rounded-[2rem] shadow-sm flex flex-col justify-between h-full">
@@ -115,16 +217,48 @@ const ClarificationCenter: React.FC<ClarificationCenterProps> = ({ expenses, onR
                           </div>
                           <div className="text-sm font-black dark:text-white uppercase mb-2">{dupe.merchant}</div>
                           <div className="text-[10px] text-slate-500 font-bold uppercase mb-4">{dupe.currency} {dupe.amount} • {dupe.date}</div>
+                          {activeSuspect && (
+                            <div className="text-[9px] text-slate-400 font-bold uppercase mb-4">
+                              {dupe.id === activeSuspect.id ? 'New Import' : 'Existing Record'} • {dupe.bank || dupe.source}{dupe.card_digits ? ` •••• ${dupe.card_digits}` : ''}
+                            </div>
+                          )}
                         </div>
-                        <button onClick={() => handleKeep(dupe.id)} className="w-full py-3 bg-amber-600 text-white rounded-2xl text-[9px] font-black uppercase tracking-widest hover:bg-amber-700 transition-all">Keep Record {i + 1}</button>
+                        {!activeSuspect && (
+                          <button onClick={() => handleKeep(dupe.id)} className="w-full py-3 bg-amber-600 text-white rounded-2xl text-[9px] font-black uppercase tracking-widest hover:bg-amber-700 transition-all">Keep Record {i + 1}</button>
+                        )}
                       </div>
                     ))}
                   </div>
+                  {activeSuspect && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <button onClick={() => handleSuspectDecision(false)} className="py-4 bg-white border border-slate-200 text-slate-700 rounded-2xl text-[9px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all">Not a Duplicate • Keep Both</button>
+                      <button onClick={() => handleSuspectDecision(true)} disabled={!onDiscard} className="py-4 bg-amber-600 text-white rounded-2xl text-[9px] font-black uppercase tracking-widest hover:bg-amber-700 transition-all disabled:opacity-50">Duplicate • Discard New Import</button>
+                    </div>
+                  )}
                 </div>
               ) : (
-                <div className="grid grid-cols-2 gap-8 bg-white dark:bg-slate-800/50 p-8 rounded-[2rem] border border-slate-100 dark:border-slate-800">
-                  <div><div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Billing Label</div><div className="text-xl font-black dark:text-white uppercase">{activeItem.merchant}</div></div>
-                  <div className="text-right"><div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Value</div><div className="text-3xl font-black dark:text-white">{activeItem.currency} {activeItem.amount}</div></div>
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-8 bg-white dark:bg-slate-800/50 p-8 rounded-[2rem] border border-slate-100 dark:border-slate-800">
+                    <div><div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Billing Label</div><div className="text-xl font-black dark:text-white uppercase">{activeItem.merchant}</div></div>
+                    <div className="text-right"><div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Value</div><div className="text-3xl font-black dark:text-white">{activeItem.currency} {activeItem.amount}</div></div>
+                  </div>
+                  {activeItem.field_provenance && Object.keys(activeItem.field_provenance).length > 0 && (
+                    <div className="bg-white dark:bg-slate-800/50 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 space-y-2">
+                      <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">Extraction Provenance</div>
+                      {(Object.entries(activeItem.field_provenance) as Array<[ProvenanceField, FieldProvenance]>).map(([field, p]) => (
+                        <div key={field} className={`flex items-center justify-between gap-4 px-4 py-2 rounded-xl text-[10px] ${p.confidence < LOW_CONFIDENCE_THRESHOLD ? 'bg-amber-50 dark:bg-amber-500/10 text-amber-700' : 'text-slate-500'}`}>
+                          <span className="font-black uppercase tracking-widest shrink-0">{PROVENANCE_LABELS[field]}</span>
+                          <span className="font-bold truncate" title={describeProvenance(p)}>{describeProvenance(p)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {(activeItem.policy_violations || []).length > 0 && (
+                    <div className="bg-white dark:bg-slate-800/50 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800">
+                      <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-3">Policy Violations</div>
+                      <ViolationList violations={activeItem.policy_violations!} />
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -136,6 +270,9 @@ const ClarificationCenter: React.FC<ClarificationCenterProps> = ({ expenses, onR
                   <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase ml-2">Category</label><input type="text" value={categoryInput} onChange={(e) => setCategoryInput(e.target.value)} placeholder="e.g. Meals & Dining" className="w-full px-6 py-4 bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-slate-800 rounded-3xl text-sm font-bold focus:ring-4 focus:ring-brand-500/10 outline-none transition-all dark:text-white" /></div>
                 </div>
               )}
+              {!activeCluster && activeOpenViolations.length > 0 && (
+                <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase ml-2">Policy Justification</label><textarea value={justification} onChange={(e) => setJustification(e.target.value)} rows={2} placeholder="e.g. Client dinner agreed with the CFO in advance" className="w-full px-6 py-4 bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-slate-800 rounded-3xl text-sm font-bold focus:ring-4 focus:ring-brand-500/10 outline-none transition-all dark:text-white resize-none" /></div>
+              )}
               {!activeCluster && <button onClick={handleStandardResolve} className="w-full bg-slate-900 dark:bg-white text-white dark:text-slate-900 py-6 rounded-[2rem] font-black text-[10px] uppercase tracking-[0.3em] shadow-2xl flex items-center justify-center gap-4 transition-all hover:scale-[1.01] active:scale-[0.98]"><Save size={18} /> Update & Verify Record</button>}
             </div>
           </div>
@@ -0,0 +1,271 @@
+import React, { useMemo, useState } from 'react';
+import { Table, X, Save, Sparkles, AlertCircle, ArrowRight } from 'lucide-react';
+import { StatementTemplate } from '../types';
+import { readCsv, guessCsvTemplate, parseCSV } from '../statementImporters';
+
+type ColumnRole = keyof StatementTemplate['columns'];
+
+interface CsvMappingWizardProps {
+  fileName: string;
+  csvText: string;
+  bankName: string;
+  isSaving?: boolean;
+  onSave: (template: Omit<StatementTemplate, 'id' | 'user_id' | 'created_at'>) => void;
+  onUseAI: () => void;
+  onCancel: () => void;
+}
+
+const ROLES: Array<{ value: ColumnRole; label: string }> = [
+  { value: 'date', label: 'Date' },
+  { value: 'description', label: 'Description' },
+  { value: 'amount', label: 'Amount (signed)' },
+  { value: 'debit', label: 'Debit' },
+  { value: 'credit', label: 'Credit' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'card', label: 'Card Number' },
+  { value: 'reference', label: 'Reference' }
+];
+
+const PREVIEW_ROWS = 6;
+
+const CsvMappingWizard: React.FC<CsvMappingWizardProps> = ({ fileName, csvText, bankName, isSaving, onSave, onUseAI, onCancel }) => {
+  const [bank, setBank] = useState(bankName);
+  const [skipRows, setSkipRows] = useState(0);
+  const [dateFormat, setDateFormat] = useState<StatementTemplate['date_format']>('DD/MM/YYYY');
+  const [decimalSeparator, setDecimalSeparator] = useState<StatementTemplate['decimal_separator']>('.');
+  // Pre-filled from common header names and the sign of the amounts
+  const [initialGuess] = useState(() => {
+    const { header, rows } = readCsv(csvText);
+    return { header, template: guessCsvTemplate(header, bankName, rows) };
+  });
+  const [debitSign, setDebitSign] = useState<StatementTemplate['debit_sign']>(initialGuess.template?.debit_sign || 'negative');
+  const [defaultCurrency, setDefaultCurrency] = useState('AED');
+
+  const csv = useMemo(() => readCsv(csvText, { skip_rows: skipRows }), [csvText, skipRows]);
+
+  // Column index -> role
+  const [roles, setRoles] = useState<Record<number, ColumnRole | ''>>(() => {
+    const { header, template } = initialGuess;
+    const initial: Record<number, ColumnRole | ''> = {};
+    (Object.entries(template?.columns || {}) as Array<[ColumnRole, string | undefined]>).forEach(([role, name]) => {
+      const idx = header.indexOf(name || '');
+      if (idx > -1) initial[idx] = role;
+    });
+    return initial;
+  });
+
+  const setRole = (idx: number, role: ColumnRole | '') => {
+    const next = { ...roles };
+    // A role can only point at one column
+    Object.keys(next).forEach(k => { if (role && next[+k] === role) next[+k] = ''; });
+    next[idx] = role;
+    setRoles(next);
+  };
+
+  const template = useMemo(() => {
+    const columns: Partial<StatementTemplate['columns']> = {};
+    Object.entries(roles).forEach(([idx, role]) => {
+      if (role && csv.header[+idx]) columns[role] = csv.header[+idx];
+    });
+    return {
+      bank_name: bank.trim(),
+      delimiter: csv.delimiter,
+      skip_rows: skipRows,
+      columns: columns as StatementTemplate['columns'],
+      date_format: dateFormat,
+      decimal_separator: decimalSeparator,
+      debit_sign: debitSign,
+      default_currency: defaultCurrency
+    };
+  }, [roles, csv, bank, skipRows, dateFormat, decimalSeparator, debitSign, defaultCurrency]);
+
+  const mappedRoles = Object.values(roles).filter(Boolean);
+  const missing = [
+    !mappedRoles.includes('date') && 'Date',
+    !mappedRoles.includes('description') && 'Description',
+    !mappedRoles.includes('amount') && !mappedRoles.includes('debit') && 'Amount or Debit'
+  ].filter(Boolean) as string[];
+
+  const parsedPreview = useMemo(
+    () => (missing.length === 0 ? parseCSV(csvText, { id: 'preview', ...template }).slice(0, PREVIEW_ROWS) : []),
+    [csvText, template, missing.length]
+  );
+
+  const handleSave = () => {
+    if (!template.bank_name) {
+      alert("Enter the bank this layout belongs to.");
+      return;
+    }
+    if (missing.length > 0) {
+      alert(`Map the following columns first: ${missing.join(', ')}`);
+      return;
+    }
+    if (parsedPreview.length === 0) {
+      alert("No rows could be read with this mapping. Check the date format and decimal separator.");
+      return;
+    }
+    onSave(template);
+  };
+
+  const selectClass = "w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest outline-none dark:text-white";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-md" onClick={onCancel} />
+      <div className="relative w-full max-w-5xl max-h-[90vh] overflow-y-auto bg-white dark:bg-slate-900 rounded-[3.5rem] shadow-2xl animate-in zoom-in-95 duration-200">
+        <div className="p-10 space-y-8">
+          <div className="flex items-start justify-between gap-6">
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 rounded-2xl bg-amber-500 flex items-center justify-center text-white">
+                <Table size={24} />
+              </div>
+              <div>
+                <h3 className="text-2xl font-black tracking-tighter uppercase dark:text-white">Map CSV Columns</h3>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mt-1">{fileName} • First upload from this bank</p>
+              </div>
+            </div>
+            <button onClick={onCancel} className="p-3 bg-slate-50 dark:bg-slate-800 rounded-full text-slate-400 hover:text-slate-600 dark:hover:text-white transition-all">
+              <X size={20} />
+            </button>
+          </div>
+
+          {/* FORMAT OPTIONS */}
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            <div className="col-span-2">
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Bank</label>
+              <input
+                type="text"
+                value={bank}
+                placeholder="e.g. Emirates NBD"
+                onChange={(e) => setBank(e.target.value)}
+                className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-xl px-4 py-2 text-sm font-bold outline-none focus:border-brand-500 dark:text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Dates</label>
+              <select className={selectClass} value={dateFormat} onChange={(e) => setDateFormat(e.target.value as StatementTemplate['date_format'])}>
+                <option value="DD/MM/YYYY">DD/MM</option>
+                <option value="MM/DD/YYYY">MM/DD</option>
+                <option value="YYYY-MM-DD">ISO</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Decimal</label>
+              <select className={selectClass} value={decimalSeparator} onChange={(e) => setDecimalSeparator(e.target.value as StatementTemplate['decimal_separator'])}>
+                <option value=".">1,234.56</option>
+                <option value=",">1.234,56</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Spend Sign</label>
+              <select className={selectClass} value={debitSign} onChange={(e) => setDebitSign(e.target.value as StatementTemplate['debit_sign'])}>
+                <option value="negative">Negative</option>
+                <option value="positive">Positive</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Ccy</label>
+                <input
+                  type="text"
+                  maxLength={3}
+                  value={defaultCurrency}
+                  onChange={(e) => setDefaultCurrency(e.target.value.toUpperCase())}
+                  className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-xl px-2 py-2 text-[10px] font-black uppercase outline-none dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Skip</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={skipRows}
+                  onChange={(e) => { setSkipRows(Math.max(0, parseInt(e.target.value) || 0)); setRoles({}); }}
+                  className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-xl px-2 py-2 text-[10px] font-black outline-none dark:text-white"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* RAW PREVIEW WITH COLUMN ROLES */}
+          <div className="overflow-x-auto rounded-[2rem] border border-slate-100 dark:border-slate-800">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 dark:bg-slate-800/50">
+                <tr>
+                  {csv.header.map((h, idx) => (
+                    <th key={idx} className="px-4 py-3 align-top min-w-[140px]">
+                      <select className={selectClass} value={roles[idx] || ''} onChange={(e) => setRole(idx, e.target.value as ColumnRole | '')}>
+                        <option value="">Ignore</option>
+                        {ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                      </select>
+                      <div className="text-[10px] font-black text-slate-500 uppercase tracking-tight mt-2 truncate" title={h}>{h || `Column ${idx + 1}`}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                {csv.rows.slice(0, PREVIEW_ROWS).map((row, rIdx) => (
+                  <tr key={rIdx}>
+                    {csv.header.map((_, cIdx) => (
+                      <td key={cIdx} className={`px-4 py-2 text-[11px] font-medium truncate max-w-[200px] ${roles[cIdx] ? 'text-slate-900 dark:text-white' : 'text-slate-400'}`}>{row[cIdx]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* PARSED RESULT */}
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Parsed Result</p>
+            {missing.length > 0 ? (
+              <div className="bg-amber-50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30 p-4 rounded-2xl flex gap-3">
+                <AlertCircle size={16} className="text-amber-600 shrink-0" />
+                <p className="text-[10px] font-bold text-amber-700 dark:text-amber-500 uppercase tracking-widest">Still to map: {missing.join(', ')}</p>
+              </div>
+            ) : parsedPreview.length === 0 ? (
+              <div className="bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/30 p-4 rounded-2xl flex gap-3">
+                <AlertCircle size={16} className="text-red-600 shrink-0" />
+                <p className="text-[10px] font-bold text-red-700 uppercase tracking-widest">No rows parsed. Check the date format, decimal separator or preamble rows.</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {parsedPreview.map((r, idx) => (
+                  <div key={idx} className="flex items-center justify-between px-5 py-3 bg-slate-50 dark:bg-slate-800/40 rounded-2xl">
+                    <div className="flex items-center gap-4">
+                      <span className="text-[10px] font-black text-slate-400 w-20">{r.date}</span>
+                      <span className="text-xs font-black text-slate-900 dark:text-white uppercase tracking-tight truncate max-w-md">{r.description}</span>
+                    </div>
+                    <span className={`text-xs font-black ${r.direction === 'credit' ? 'text-teal-600' : 'text-slate-900 dark:text-white'}`}>
+                      {r.direction === 'credit' ? '− ' : ''}{r.currency} {r.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                      {r.direction === 'credit' && <span className="ml-1 text-[8px] uppercase tracking-widest">CR</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-slate-50 dark:bg-slate-800/50 p-6 flex gap-4">
+          <button
+            onClick={onUseAI}
+            className="flex-1 px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 hover:bg-slate-50 transition-all flex items-center justify-center gap-3"
+          >
+            <Sparkles size={16} /> Use AI Extraction Instead
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex-1 px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-white bg-brand-600 hover:bg-brand-700 shadow-lg shadow-brand-500/20 active:scale-95 transition-all flex items-center justify-center gap-3"
+          >
+            <Save size={18} />
+            {isSaving ? 'Processing...' : <>Save Mapping & Import <ArrowRight size={16} /></>}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvMappingWizard;
@@ -1,10 +1,11 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import { Expense, AppSettings } from '../types';
-import { convertToUSD } from '../currencyService';
+import { Expense, AppSettings, MerchantAlias, ProvenanceField, ReimbursementClaim } from '../types';
+import { matchExpenses, matchAnchorIds, matchProofIds, resolveMerchant, isCredit } from '../reconciliationEngine';
 import {
   Receipt,
   CreditCard,
   Trash2,
+  FileSearch,
   Clock,
   Database,
   Search,
@@ -24,10 +25,18 @@ import {
   Edit3,
   Check,
   MessageCircle,
-  Zap
+  Zap,
+  ListTree,
+  Wallet
 } from 'lucide-react';
 import { getExchangeRates, convertToBaseCurrency, getCurrencySymbol, ExchangeRates } from '../currencyService';
 import { UserSession } from '../authService';
+import EvidenceViewer from './EvidenceViewer';
+import LineItemEditor from './LineItemEditor';
+import { resolveAllocations, aggregateByAllocation } from '../allocations';
+import { outstandingByEmployee } from '../claims';
+import BudgetPanel from './BudgetPanel';
+import { LOW_CONFIDENCE_THRESHOLD, describeProvenance } from '../extractionMapper';
 
 interface DashboardProps {
   expenses: Expense[];
@@ -41,8 +50,19 @@ interface DashboardProps {
   customCategories?: string[];
   bankMappings?: any[];
   settings: AppSettings;
+  merchantAliases?: MerchantAlias[];
+  claims?: ReimbursementClaim[];
+  allExpenses?: Expense[];  // Budgets burn on every visible record, not just the admin's own
 }
 
+const LOW_CONFIDENCE_CLASS = 'bg-amber-100 dark:bg-amber-500/20 ring-1 ring-amber-300 dark:ring-amber-500/40 rounded px-1';
+
+// Provenance of a field the extractor was unsure about, or null when it read cleanly
+const lowConfidence = (e: Expense, field: ProvenanceField) => {
+  const p = e.field_provenance?.[field];
+  return p && p.confidence < LOW_CONFIDENCE_THRESHOLD ? p : null;
+};
+
 const Dashboard: React.FC<DashboardProps> = ({
   expenses,
   onDelete,
@@ -54,11 +74,16 @@ const Dashboard: React.FC<DashboardProps> = ({
   onUpdate,
   customCategories = [],
   bankMappings = [],
-  settings
+  settings,
+  merchantAliases = [],
+  claims = [],
+  allExpenses
 }) => {
   const [exchangeData, setExchangeData] = useState<ExchangeRates | null>(null);
   const [selectedTypeFilter, setSelectedTypeFilter] = useState<string>("All Types");
   const [searchQuery, setSearchQuery] = useState("");
+  const [evidenceExpense, setEvidenceExpense] = useState<Expense | null>(null);
+  const [itemsExpenseId, setItemsExpenseId] = useState<string | null>(null);
   const [filterCategory, setFilterCategory] = useState("All Categories");
   const [filterStatus, setFilterStatus] = useState("All Status");
   const [filterSource, setFilterSource] = useState("All Sources");
@@ -73,62 +98,31 @@ const Dashboard: React.FC<DashboardProps> = ({
 
   const monthsList = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
 
-  const isAnchor = (exp: Expense) => {
-    const src = String(exp.source || '').toLowerCase().trim();
-    return src === 'bank_statement' || src === 'credit_card_statement';
-  };
-
-  // REACTIVE FORENSIC AUDIT: Identifies "Verified" matches in real-time
+  // REACTIVE FORENSIC AUDIT: Identifies "Verified" matches in real-time (shared engine)
   const verifiedIds = useMemo(() => {
     const ids = new Set<string>();
     if (!exchangeData) return ids;
 
-    const anchors = expenses.filter(isAnchor);
-    const proofs = expenses.filter(e => !isAnchor(e));
-    const rates = exchangeData.rates || {};
-
-    anchors.forEach(bankTx => {
-      const bUSD = convertToUSD(bankTx.amount, bankTx.currency, rates);
-      const bDate = new Date(bankTx.date).getTime();
-
-      const match = proofs.find(rec => {
-        const rUSD = convertToUSD(rec.amount, rec.currency, rates);
-        const rDate = new Date(rec.date).getTime();
-
-        // Window Parity
-        const diffDays = Math.abs(bDate - rDate) / (1000 * 60 * 60 * 24);
-        if (diffDays > 14) return false;
-
-        // Merchant Parity
-        const bMerc = bankTx.merchant.toLowerCase();
-        const rMerc = rec.merchant.toLowerCase();
-        const isTele = (m: string) => m.includes('e&') || m.includes('etisalat');
-        const mercMatch = (isTele(bMerc) && isTele(rMerc)) || rMerc.includes(bMerc.substring(0, 4)) || bMerc.includes(rMerc.substring(0, 4));
-        if (!mercMatch) return false;
-
-        // Amount Parity
-        const sameCurrency = bankTx.currency === rec.currency;
-        const sameAmt = sameCurrency ? Math.abs(bankTx.amount - rec.amount) < 0.10 : Math.abs(bUSD - rUSD) < (bUSD * 0.05);
-        return sameAmt;
-      });
-
-      if (match) {
-        ids.add(bankTx.id);
-        ids.add(match.id);
-      }
+    const result = matchExpenses(expenses, { rates: exchangeData.rates || {}, aliases: merchantAliases, dateWindowDays: 14 });
+    result.matched.forEach(m => {
+      matchAnchorIds(m).forEach(id => ids.add(id));
+      matchProofIds(m).forEach(id => ids.add(id));
     });
     return ids;
-  }, [expenses, exchangeData]);
+  }, [expenses, exchangeData, merchantAliases]);
+
+  // Canonical merchant grouping (alias registry aware)
+  const merchantKey = (e: Expense) => (resolveMerchant(e.merchant, merchantAliases) || e.merchant).toLowerCase();
 
   const duplicateMap = useMemo(() => {
     const map = new Map<string, string[]>();
     expenses.filter(e => e.source === 'telegram').forEach(e => {
-      const key = `${e.merchant.toLowerCase()}-${e.amount}-${e.date}`;
+      const key = `${merchantKey(e)}-${e.amount}-${e.date}`;
       const existing = map.get(key) || [];
       map.set(key, [...existing, e.id]);
     });
     return map;
-  }, [expenses]);
+  }, [expenses, merchantAliases]);
 
   const filteredExpenses = useMemo(() => {
     const filtered = expenses.filter(e => {
@@ -143,11 +137,13 @@ const Dashboard: React.FC<DashboardProps> = ({
       // 2. Search Query (Merchant or Description)
       const matchesSearch = searchQuery === "" ||
         e.merchant.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        merchantKey(e).includes(searchQuery.toLowerCase()) ||
         (e.description || "").toLowerCase().includes(searchQuery.toLowerCase());
       if (!matchesSearch) return false;
 
-      // 3. Category Filter
-      const matchesCategory = filterCategory === "All Categories" || e.category === filterCategory;
+      // 3. Category Filter (split rows also match on their allocated / line-item categories, e.g. minibar on a folio)
+      const matchesCategory = filterCategory === "All Categories" || e.category === filterCategory ||
+        resolveAllocations(e).some(s => s.category === filterCategory);
       if (!matchesCategory) return false;
 
       // 4. Status Filter (Checking if verified in real-time pool)
@@ -187,7 +183,11 @@ const Dashboard: React.FC<DashboardProps> = ({
   const stats = useMemo(() => {
     const rates = exchangeData || {};
     const baseCurrency = settings?.reporting_currency || 'USD';
-    const totalConverted = filteredExpenses.reduce((acc, curr) => acc + convertToBaseCurrency(curr.amount, curr.currency, baseCurrency, rates, curr.date), 0);
+    // Refunds/reversals reduce spend rather than add to it
+    const totalConverted = filteredExpenses.reduce((acc, curr) => {
+      const value = convertToBaseCurrency(Math.abs(curr.amount), curr.currency, baseCurrency, rates, curr.date);
+      return isCredit(curr) ? acc - value : acc + value;
+    }, 0);
     const count = filteredExpenses.length;
     const sources = filteredExpenses.reduce((acc: any, curr) => {
       acc[curr.source] = (acc[curr.source] || 0) + 1;
@@ -196,6 +196,18 @@ const Dashboard: React.FC<DashboardProps> = ({
     return { totalConverted, count, sources };
   }, [filteredExpenses, exchangeData, settings]);
 
+  // Reimbursement liability per employee, independent of the ledger filters
+  const employeeBalances = useMemo(() => {
+    const rates = exchangeData || {};
+    const baseCurrency = settings?.reporting_currency || 'USD';
+    return outstandingByEmployee(
+      claims,
+      expenses,
+      (amount, line) => convertToBaseCurrency(amount, line.currency, baseCurrency, rates, line.date),
+      (amount, e) => convertToBaseCurrency(amount, e.currency, baseCurrency, rates, e.date)
+    );
+  }, [claims, expenses, exchangeData, settings]);
+
   const formatTime = (isoString?: string) => {
     if (!isoString) return '';
     return new Date(isoString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
@@ -223,6 +235,10 @@ const Dashboard: React.FC<DashboardProps> = ({
   const getReimbursementText = (status?: string) => {
     if (status === 'Pending') return 'Reimbursable (Paid by Employee)';
     if (status === 'Not Needed') return 'Company Paid';
+    if (status === 'Claimed') return 'Claimed (Awaiting Approval)';
+    if (status === 'Approved') return 'Approved (Awaiting Payout)';
+    if (status === 'Rejected') return 'Claim Rejected';
+    if (status === 'Paid') return 'Reimbursed';
     return null;
   };
 
@@ -304,6 +320,33 @@ const Dashboard: React.FC<DashboardProps> = ({
         </div>
       </div>
 
+      <BudgetPanel expenses={allExpenses || expenses} settings={settings} period={period} session={session} />
+
+      {employeeBalances.length > 0 && (
+        <div className="bg-white dark:bg-[#0b1120] p-8 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-amber-50 dark:bg-amber-500/10 rounded-2xl flex items-center justify-center text-amber-500"><Wallet size={20} /></div>
+              <div>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Reimbursements</p>
+                <h4 className="text-lg font-black tracking-tighter uppercase">Owed to Employees</h4>
+              </div>
+            </div>
+            <h4 className="text-2xl font-black tracking-tighter">{getCurrencySymbol(settings?.reporting_currency || 'USD')}{employeeBalances.reduce((acc, b) => acc + b.owed, 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}</h4>
+          </div>
+          <div className="divide-y divide-slate-50 dark:divide-slate-800/60">
+            {employeeBalances.map(b => (
+              <div key={b.employee} className="py-3 grid grid-cols-4 gap-4 items-center text-[11px] font-bold">
+                <span className="font-black truncate dark:text-white">{b.employee}</span>
+                <span className="text-right"><span className="text-[9px] font-black text-slate-400 uppercase tracking-widest mr-2">Owed</span>{getCurrencySymbol(settings?.reporting_currency || 'USD')}{b.owed.toFixed(2)}</span>
+                <span className="text-right"><span className="text-[9px] font-black text-slate-400 uppercase tracking-widest mr-2">In Review</span>{getCurrencySymbol(settings?.reporting_currency || 'USD')}{b.in_review.toFixed(2)}</span>
+                <span className="text-right"><span className="text-[9px] font-black text-slate-400 uppercase tracking-widest mr-2">Unclaimed</span>{getCurrencySymbol(settings?.reporting_currency || 'USD')}{b.unclaimed.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Ledger Section */}
       <div className="bg-white dark:bg-[#0b1120] rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden">
         <div className="px-8 py-6 flex items-center justify-between border-b border-slate-50 dark:border-slate-800">
@@ -340,7 +383,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                 label: 'ALL CATEGORIES',
                 value: filterCategory,
                 setter: setFilterCategory,
-                options: ['All Categories', ...Array.from(new Set([...expenses.map(e => e.category), ...customCategories]))]
+                options: ['All Categories', ...Array.from(new Set([...expenses.flatMap(e => resolveAllocations(e).map(s => s.category)), ...customCategories]))]
               },
               {
                 label: 'ALL STATUS',
@@ -411,254 +454,314 @@ const Dashboard: React.FC<DashboardProps> = ({
                   </td>
                 </tr>
               ) : filteredExpenses.map((e) => {
-                const dupeIds = duplicateMap.get(`${e.merchant.toLowerCase()}-${e.amount}-${e.date}`) || [];
+                const dupeIds = duplicateMap.get(`${merchantKey(e)}-${e.amount}-${e.date}`) || [];
                 const isDuplicate = e.source === 'telegram' && dupeIds.length > 1;
                 const isVerified = verifiedIds.has(e.id);
+                const canEdit = (session?.role === 'admin') || (e.user_id === session?.email) || ((e as any).owner_email === session?.email) || (e.user_id === 'SHARED_POOL');
+                const splits = Object.entries(aggregateByAllocation([e], 'category')).map(([category, amount]) => ({ category, amount: Math.abs(amount) }));
 
                 return (
-                  <tr key={e.id} className="hover:bg-slate-50/50 dark:hover:bg-slate-800/20 group transition-all">
-                    <td className="px-8 py-6">
-                      <div className="flex flex-col gap-1">
-                        <div className="flex items-center gap-2">
-                          {session?.role === 'admin' && editingIdentityId === e.id ? (
-                            <div className="flex items-center gap-2">
-                              <input
-                                autoFocus
-                                className="bg-slate-50 dark:bg-slate-800 border-2 border-brand-500 rounded-xl px-3 py-1.5 text-xs font-bold w-48 focus:outline-none dark:text-white"
-                                value={tempIdentity}
-                                onChange={(evt) => setTempIdentity(evt.target.value)}
-                                onKeyDown={(evt) => {
-                                  if (evt.key === 'Enter') {
+                  <React.Fragment key={e.id}>
+                    <tr className="hover:bg-slate-50/50 dark:hover:bg-slate-800/20 group transition-all">
+                      <td className="px-8 py-6">
+                        <div className="flex flex-col gap-1">
+                          <div className="flex items-center gap-2">
+                            {session?.role === 'admin' && editingIdentityId === e.id ? (
+                              <div className="flex items-center gap-2">
+                                <input
+                                  autoFocus
+                                  className="bg-slate-50 dark:bg-slate-800 border-2 border-brand-500 rounded-xl px-3 py-1.5 text-xs font-bold w-48 focus:outline-none dark:text-white"
+                                  value={tempIdentity}
+                                  onChange={(evt) => setTempIdentity(evt.target.value)}
+                                  onKeyDown={(evt) => {
+                                    if (evt.key === 'Enter') {
+                                      onUpdate?.(e.id, { merchant: tempIdentity });
+                                      setEditingIdentityId(null);
+                                    }
+                                  }}
+                                />
+                                <button
+                                  onClick={() => {
                                     onUpdate?.(e.id, { merchant: tempIdentity });
                                     setEditingIdentityId(null);
-                                  }
-                                }}
-                              />
-                              <button
-                                onClick={() => {
-                                  onUpdate?.(e.id, { merchant: tempIdentity });
-                                  setEditingIdentityId(null);
-                                }}
-                                className="p-2 bg-brand-600 text-white rounded-xl"
-                              >
-                                <Check size={14} />
-                              </button>
+                                  }}
+                                  className="p-2 bg-brand-600 text-white rounded-xl"
+                                >
+                                  <Check size={14} />
+                                </button>
+                              </div>
+                            ) : (
+                              <div className="flex flex-col">
+                                <span
+                                  className={`text-[13px] font-black text-slate-900 dark:text-white uppercase tracking-tight ${session?.role === 'admin' ? 'cursor-pointer hover:text-brand-600 transition-colors' : ''}`}
+                                  title={lowConfidence(e, 'merchant') ? `Merchant: ${describeProvenance(lowConfidence(e, 'merchant')!)}` : undefined}
+                                  onClick={() => {
+                                    if (session?.role === 'admin') {
+                                      setEditingIdentityId(e.id);
+                                      setTempIdentity(e.merchant);
+                                    }
+                                  }}
+                                >
+                                  <span className={lowConfidence(e, 'merchant') ? LOW_CONFIDENCE_CLASS : ''}>{e.merchant}</span>
+                                  {session?.role === 'admin' && <Edit3 size={10} className="inline ml-2 opacity-0 group-hover:opacity-40" />}
+                                  {(() => {
+                                    const mDigits = e.card_digits?.replace(/\D/g, '').slice(-4);
+                                    const registryMatch = mDigits ? bankMappings.find(m => m.card_digits.replace(/\D/g, '').slice(-4) === mDigits) : null;
+
+                                    // Priority 1: Bank Registry (Verified Proof)
+                                    if (registryMatch) {
+                                      return (
+                                        <span className="ml-2 inline-flex items-center gap-1.5 px-2 py-0.5 bg-brand-50 dark:bg-brand-900/30 text-brand-600 dark:text-brand-400 rounded-lg text-[10px] font-black border border-brand-100 dark:border-brand-500/20 shadow-sm align-middle">
+                                          <Zap size={10} className="fill-brand-600" />
+                                          {registryMatch.bank_name}
+                                        </span>
+                                      );
+                                    }
+
+                                    // Priority 2: Manual Selection (Intent)
+                                    if (e.bank) {
+                                      return <span className="ml-2 text-[11px] text-slate-500 font-bold uppercase tracking-tight italic">({e.bank})</span>;
+                                    }
+
+                                    return null;
+                                  })()}
+                                </span>
+                                {e.forwarded_from && (
+                                  <span className="text-[10px] font-bold text-pink-600/70 dark:text-pink-400/70 uppercase tracking-widest mt-0.5 flex items-center gap-1">
+                                    <Mail size={10} /> Via: {e.forwarded_from}
+                                  </span>
+                                )}
+                              </div>
+                            )}
+                            {isVerified && (
+                              <span className="px-2 py-0.5 rounded-lg text-[8px] font-black uppercase tracking-widest bg-emerald-50 dark:bg-emerald-500/10 text-emerald-600 border border-emerald-100 dark:border-emerald-500/20">
+                                <ShieldCheck size={8} className="inline mr-1" /> Verified
+                              </span>
+                            )}
+                            {isDuplicate && (
+                              <span className="px-2 py-0.5 rounded-lg text-[8px] font-black uppercase tracking-widest bg-amber-100 text-amber-700 border border-amber-200">
+                                ⚠️ DUPLICATE
+                              </span>
+                            )}
+                          </div>
+
+                          {/* Telegram/WhatsApp Bot Specific Data View */}
+                          {(e.source === 'telegram' || e.source === 'whatsapp') ? (
+                            <div className="text-[11px] text-slate-400 font-medium italic space-y-0.5">
+                              <div>Category: {e.main_category || 'Personal'}</div>
+                              {e.main_category === 'Business' && (
+                                <>
+                                  <div>Company/Project: {e.company_project || 'Not Specified'}</div>
+                                  {getReimbursementText(e.reimbursement_status) && (
+                                    <div>Reimbursement: {getReimbursementText(e.reimbursement_status)}</div>
+                                  )}
+                                </>
+                              )}
+                              <div>Notes: {e.notes || 'None provided'}</div>
+                              {e.travel_log_id && (
+                                <div className="flex items-center gap-2 text-brand-500 font-black not-italic text-[10px] mt-2">
+                                  <Plane size={12} /> Related Travel Document Attached
+                                </div>
+                              )}
+                              <div className="not-italic text-[10px] mt-1 text-slate-400 font-bold uppercase tracking-wider">
+                                Uploaded: {formatDateLabel(e.created_at)} at {formatTime(e.created_at)}
+                              </div>
                             </div>
                           ) : (
-                            <div className="flex flex-col">
-                              <span
-                                className={`text-[13px] font-black text-slate-900 dark:text-white uppercase tracking-tight ${session?.role === 'admin' ? 'cursor-pointer hover:text-brand-600 transition-colors' : ''}`}
-                                onClick={() => {
-                                  if (session?.role === 'admin') {
-                                    setEditingIdentityId(e.id);
-                                    setTempIdentity(e.merchant);
-                                  }
-                                }}
-                              >
-                                {e.merchant}
-                                {session?.role === 'admin' && <Edit3 size={10} className="inline ml-2 opacity-0 group-hover:opacity-40" />}
-                                {(() => {
-                                  const mDigits = e.card_digits?.replace(/\D/g, '').slice(-4);
-                                  const registryMatch = mDigits ? bankMappings.find(m => m.card_digits.replace(/\D/g, '').slice(-4) === mDigits) : null;
-
-                                  // Priority 1: Bank Registry (Verified Proof)
-                                  if (registryMatch) {
-                                    return (
-                                      <span className="ml-2 inline-flex items-center gap-1.5 px-2 py-0.5 bg-brand-50 dark:bg-brand-900/30 text-brand-600 dark:text-brand-400 rounded-lg text-[10px] font-black border border-brand-100 dark:border-brand-500/20 shadow-sm align-middle">
-                                        <Zap size={10} className="fill-brand-600" />
-                                        {registryMatch.bank_name}
-                                      </span>
-                                    );
-                                  }
-
-                                  // Priority 2: Manual Selection (Intent)
-                                  if (e.bank) {
-                                    return <span className="ml-2 text-[11px] text-slate-500 font-bold uppercase tracking-tight italic">({e.bank})</span>;
-                                  }
-
-                                  return null;
-                                })()}
-                              </span>
-                              {e.forwarded_from && (
-                                <span className="text-[10px] font-bold text-pink-600/70 dark:text-pink-400/70 uppercase tracking-widest mt-0.5 flex items-center gap-1">
-                                  <Mail size={10} /> Via: {e.forwarded_from}
-                                </span>
+                            /* Web, Bank, Email Data View - Cleaner, hides bot-specific fields */
+                            <div className="text-[11px] text-slate-400 font-medium italic space-y-0.5">
+                              {e.source === 'web_upload' ? (
+                                <div>Classification: {e.category}</div>
+                              ) : (
+                                <div>{e.description || "No supplemental details provided"}</div>
+                              )}
+
+                              {e.travel_log_id && (
+                                <div className="flex items-center gap-2 text-brand-500 font-black not-italic text-[10px] mt-2">
+                                  <Plane size={12} /> Related Travel Document Attached
+                                </div>
                               )}
+
+                              <div className="not-italic text-[10px] mt-1 text-slate-400 font-bold uppercase tracking-wider">
+                                Uploaded: {formatDateLabel(e.created_at)} at {formatTime(e.created_at)}
+                              </div>
                             </div>
                           )}
-                          {isVerified && (
-                            <span className="px-2 py-0.5 rounded-lg text-[8px] font-black uppercase tracking-widest bg-emerald-50 dark:bg-emerald-500/10 text-emerald-600 border border-emerald-100 dark:border-emerald-500/20">
-                              <ShieldCheck size={8} className="inline mr-1" /> Verified
-                            </span>
-                          )}
-                          {isDuplicate && (
-                            <span className="px-2 py-0.5 rounded-lg text-[8px] font-black uppercase tracking-widest bg-amber-100 text-amber-700 border border-amber-200">
-                              ⚠️ DUPLICATE
-                            </span>
-                          )}
                         </div>
-
-                        {/* Telegram/WhatsApp Bot Specific Data View */}
-                        {(e.source === 'telegram' || e.source === 'whatsapp') ? (
-                          <div className="text-[11px] text-slate-400 font-medium italic space-y-0.5">
-                            <div>Category: {e.main_category || 'Personal'}</div>
-                            {e.main_category === 'Business' && (
-                              <>
-                                <div>Company/Project: {e.company_project || 'Not Specified'}</div>
-                                {getReimbursementText(e.reimbursement_status) && (
-                                  <div>Reimbursement: {getReimbursementText(e.reimbursement_status)}</div>
-                                )}
-                              </>
-                            )}
-                            <div>Notes: {e.notes || 'None provided'}</div>
-                            {e.travel_log_id && (
-                              <div className="flex items-center gap-2 text-brand-500 font-black not-italic text-[10px] mt-2">
-                                <Plane size={12} /> Related Travel Document Attached
+                      </td>
+                      <td className="px-8 py-6">
+                        <div className="flex flex-col gap-1 text-[11px] font-bold text-slate-500 uppercase tracking-widest">
+                          <div className="flex items-center gap-2">
+                            <Clock size={14} className="opacity-30" />
+                            <span className={lowConfidence(e, 'date') ? LOW_CONFIDENCE_CLASS : ''} title={lowConfidence(e, 'date') ? `Date: ${describeProvenance(lowConfidence(e, 'date')!)}` : undefined}>{e.date}</span>
+                          </div>
+                          <div className="ml-5 opacity-60">{e.time || formatTime(e.created_at)}</div>
+                        </div>
+                      </td>
+                      <td className="px-8 py-6">
+                        {canEdit ? (
+                          <div className="flex flex-col gap-2">
+                            <select
+                              value={customCategory && editingClassificationId === e.id ? 'Other' : e.category}
+                              onChange={(evt) => {
+                                const val = evt.target.value;
+                                if (val === 'Other') {
+                                  setEditingClassificationId(e.id);
+                                  setCustomCategory("");
+                                } else {
+                                  onUpdate?.(e.id, { category: val });
+                                  setEditingClassificationId(null);
+                                }
+                              }}
+                              className="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-brand-600 outline-none focus:ring-2 ring-brand-500/20 w-40"
+                            >
+                              {/* Standard and Custom categories */}
+                              {Array.from(new Set(['Transport', 'Meals', 'Lodging', 'Office', 'Utilities', 'Salary', 'Transfer', 'General', ...customCategories, e.category])).map(cat => (
+                                <option key={cat} value={cat}>{cat}</option>
+                              ))}
+                              <option value="Other">+ Other / Custom</option>
+                            </select>
+
+                            {editingClassificationId === e.id && (
+                              <div className="flex items-center gap-2">
+                                <input
+                                  autoFocus
+                                  className="bg-slate-50 dark:bg-slate-800 border-2 border-brand-500 rounded-xl px-3 py-1.5 text-[10px] font-bold w-full focus:outline-none dark:text-white uppercase"
+                                  value={customCategory}
+                                  placeholder="Add category..."
+                                  onChange={(evt) => setCustomCategory(evt.target.value)}
+                                  onKeyDown={(evt) => {
+                                    if (evt.key === 'Enter' && customCategory.trim()) {
+                                      onUpdate?.(e.id, { category: customCategory.trim() });
+                                      setEditingClassificationId(null);
+                                      setCustomCategory("");
+                                    }
+                                  }}
+                                />
+                                <button
+                                  onClick={() => {
+                                    if (customCategory.trim()) {
+                                      onUpdate?.(e.id, { category: customCategory.trim() });
+                                      setEditingClassificationId(null);
+                                      setCustomCategory("");
+                                    }
+                                  }}
+                                  className="p-1.5 bg-brand-600 text-white rounded-lg shadow-lg"
+                                >
+                                  <Check size={12} />
+                                </button>
                               </div>
                             )}
-                            <div className="not-italic text-[10px] mt-1 text-slate-400 font-bold uppercase tracking-wider">
-                              Uploaded: {formatDateLabel(e.created_at)} at {formatTime(e.created_at)}
-                            </div>
                           </div>
                         ) : (
-                          /* Web, Bank, Email Data View - Cleaner, hides bot-specific fields */
-                          <div className="text-[11px] text-slate-400 font-medium italic space-y-0.5">
-                            {e.source === 'web_upload' ? (
-                              <div>Classification: {e.category}</div>
-                            ) : (
-                              <div>{e.description || "No supplemental details provided"}</div>
-                            )}
-
-                            {e.travel_log_id && (
-                              <div className="flex items-center gap-2 text-brand-500 font-black not-italic text-[10px] mt-2">
-                                <Plane size={12} /> Related Travel Document Attached
-                              </div>
-                            )}
-
-                            <div className="not-italic text-[10px] mt-1 text-slate-400 font-bold uppercase tracking-wider">
-                              Uploaded: {formatDateLabel(e.created_at)} at {formatTime(e.created_at)}
-                            </div>
+                          <span className="px-4 py-2 rounded-2xl bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">
+                            {e.category}
+                          </span>
+                        )}
+                        {splits.length > 1 && (
+                          <div className="flex flex-wrap gap-1 mt-2 max-w-[10rem]">
+                            {splits.map(s => (
+                              <span key={s.category} className="px-2 py-0.5 rounded-full bg-brand-50 dark:bg-brand-500/10 text-[8px] font-black uppercase tracking-widest text-brand-600">
+                                {s.category} {s.amount.toFixed(2)}
+                              </span>
+                            ))}
                           </div>
                         )}
-                      </div>
-                    </td>
-                    <td className="px-8 py-6">
-                      <div className="flex flex-col gap-1 text-[11px] font-bold text-slate-500 uppercase tracking-widest">
-                        <div className="flex items-center gap-2"><Clock size={14} className="opacity-30" /> {e.date}</div>
-                        <div className="ml-5 opacity-60">{e.time || formatTime(e.created_at)}</div>
-                      </div>
-                    </td>
-                    <td className="px-8 py-6">
-                      {((session?.role === 'admin') || (e.user_id === session?.email) || ((e as any).owner_email === session?.email) || (e.user_id === 'SHARED_POOL')) ? (
-                        <div className="flex flex-col gap-2">
-                          <select
-                            value={customCategory && editingClassificationId === e.id ? 'Other' : e.category}
-                            onChange={(evt) => {
-                              const val = evt.target.value;
-                              if (val === 'Other') {
-                                setEditingClassificationId(e.id);
-                                setCustomCategory("");
-                              } else {
-                                onUpdate?.(e.id, { category: val });
-                                setEditingClassificationId(null);
-                              }
-                            }}
-                            className="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-brand-600 outline-none focus:ring-2 ring-brand-500/20 w-40"
+                        {(canEdit || (e.items?.length || 0) > 0) && (
+                          <button
+                            onClick={() => setItemsExpenseId(itemsExpenseId === e.id ? null : e.id)}
+                            className="flex items-center gap-1 mt-2 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-brand-600"
                           >
-                            {/* Standard and Custom categories */}
-                            {Array.from(new Set(['Transport', 'Meals', 'Lodging', 'Office', 'Utilities', 'Salary', 'Transfer', 'General', ...customCategories, e.category])).map(cat => (
-                              <option key={cat} value={cat}>{cat}</option>
-                            ))}
-                            <option value="Other">+ Other / Custom</option>
-                          </select>
-
-                          {editingClassificationId === e.id && (
-                            <div className="flex items-center gap-2">
-                              <input
-                                autoFocus
-                                className="bg-slate-50 dark:bg-slate-800 border-2 border-brand-500 rounded-xl px-3 py-1.5 text-[10px] font-bold w-full focus:outline-none dark:text-white uppercase"
-                                value={customCategory}
-                                placeholder="Add category..."
-                                onChange={(evt) => setCustomCategory(evt.target.value)}
-                                onKeyDown={(evt) => {
-                                  if (evt.key === 'Enter' && customCategory.trim()) {
-                                    onUpdate?.(e.id, { category: customCategory.trim() });
-                                    setEditingClassificationId(null);
-                                    setCustomCategory("");
-                                  }
-                                }}
-                              />
-                              <button
-                                onClick={() => {
-                                  if (customCategory.trim()) {
-                                    onUpdate?.(e.id, { category: customCategory.trim() });
-                                    setEditingClassificationId(null);
-                                    setCustomCategory("");
-                                  }
-                                }}
-                                className="p-1.5 bg-brand-600 text-white rounded-lg shadow-lg"
-                              >
-                                <Check size={12} />
-                              </button>
-                            </div>
+                            <ListTree size={12} />
+                            {e.items?.length ? `${e.items.length} Line Item${e.items.length > 1 ? 's' : ''}` : 'Itemise'}
+                            {e.tax_amount ? ` • Tax ${e.tax_amount.toFixed(2)}` : ''}
+                          </button>
+                        )}
+                      </td>
+                      <td className="px-8 py-6">
+                        <div className="flex flex-col">
+                          <span
+                            className={`text-[10px] font-black text-slate-400 uppercase tracking-widest w-fit ${lowConfidence(e, 'currency') ? LOW_CONFIDENCE_CLASS : ''}`}
+                            title={lowConfidence(e, 'currency') ? `Currency: ${describeProvenance(lowConfidence(e, 'currency')!)}` : undefined}
+                          >
+                            {e.currency}
+                          </span>
+                          <span
+                            className={`text-sm font-black w-fit ${isCredit(e) ? 'text-teal-600' : 'text-slate-900 dark:text-white'} ${lowConfidence(e, 'amount') ? LOW_CONFIDENCE_CLASS : ''}`}
+                            title={lowConfidence(e, 'amount') ? `Amount: ${describeProvenance(lowConfidence(e, 'amount')!)}` : undefined}
+                          >
+                            {isCredit(e) && '− '}{Math.abs(e.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                            {isCredit(e) && <span className="ml-1 text-[8px] uppercase tracking-widest">{e.transaction_type && e.transaction_type !== 'credit' ? e.transaction_type : 'CR'}</span>}
+                          </span>
+                          {e.currency !== (settings?.reporting_currency || 'USD') && (
+                            <span className="text-[10px] font-black text-brand-600 dark:text-brand-400 uppercase tracking-widest mt-0.5">
+                              ≈ {getCurrencySymbol(settings?.reporting_currency || 'USD')}{convertToBaseCurrency(e.amount, e.currency, settings?.reporting_currency || 'USD', exchangeData || {}, e.date).toFixed(2)}
+                            </span>
                           )}
+                          <span className="text-[10px] font-black text-slate-300 dark:text-slate-600 uppercase tracking-widest mt-0.5">Gross Value</span>
                         </div>
-                      ) : (
-                        <span className="px-4 py-2 rounded-2xl bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">
-                          {e.category}
-                        </span>
-                      )}
-                    </td>
-                    <td className="px-8 py-6">
-                      <div className="flex flex-col">
-                        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{e.currency}</span>
-                        <span className="text-sm font-black text-slate-900 dark:text-white">{e.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
-                        {e.currency !== (settings?.reporting_currency || 'USD') && (
-                          <span className="text-[10px] font-black text-brand-600 dark:text-brand-400 uppercase tracking-widest mt-0.5">
-                            ≈ {getCurrencySymbol(settings?.reporting_currency || 'USD')}{convertToBaseCurrency(e.amount, e.currency, settings?.reporting_currency || 'USD', exchangeData || {}, e.date).toFixed(2)}
+                      </td>
+                      <td className="px-8 py-6">
+                        <div className="flex items-center gap-3">
+                          <div className={`p-2.5 rounded-xl ${e.source === 'telegram' ? 'bg-sky-50 dark:bg-sky-500/10' :
+                            e.source === 'whatsapp' ? 'bg-emerald-50 dark:bg-emerald-500/10' :
+                              (e.source === 'email' || e.source === 'forwarded_email') ? 'bg-pink-50 dark:bg-pink-500/10' :
+                                e.source === 'web_upload' ? 'bg-brand-50 dark:bg-brand-500/10' :
+                                  'bg-slate-50 dark:bg-slate-800'
+                            }`}>
+                            <SourceIcon source={e.source} />
+                          </div>
+                          <span className={`text-[10px] font-black uppercase tracking-widest ${e.source === 'telegram' ? 'text-sky-600' :
+                            e.source === 'whatsapp' ? 'text-emerald-600' :
+                              (e.source === 'email' || e.source === 'forwarded_email') ? 'text-pink-600' :
+                                e.source === 'web_upload' ? 'text-brand-600' :
+                                  'text-slate-400'
+                            }`}>
+                            {e.source === 'telegram' ? 'Telegram Bot' : e.source === 'whatsapp' ? 'WhatsApp Bot' : e.source === 'email' ? 'Email Alert' : e.source === 'forwarded_email' ? 'Forwarded Email' : e.source === 'web_upload' ? 'Web Document' : e.source.replace('_', ' ')}
                           </span>
-                        )}
-                        <span className="text-[10px] font-black text-slate-300 dark:text-slate-600 uppercase tracking-widest mt-0.5">Gross Value</span>
-                      </div>
-                    </td>
-                    <td className="px-8 py-6">
-                      <div className="flex items-center gap-3">
-                        <div className={`p-2.5 rounded-xl ${e.source === 'telegram' ? 'bg-sky-50 dark:bg-sky-500/10' :
-                          e.source === 'whatsapp' ? 'bg-emerald-50 dark:bg-emerald-500/10' :
-                            (e.source === 'email' || e.source === 'forwarded_email') ? 'bg-pink-50 dark:bg-pink-500/10' :
-                              e.source === 'web_upload' ? 'bg-brand-50 dark:bg-brand-500/10' :
-                                'bg-slate-50 dark:bg-slate-800'
-                          }`}>
-                          <SourceIcon source={e.source} />
                         </div>
-                        <span className={`text-[10px] font-black uppercase tracking-widest ${e.source === 'telegram' ? 'text-sky-600' :
-                          e.source === 'whatsapp' ? 'text-emerald-600' :
-                            (e.source === 'email' || e.source === 'forwarded_email') ? 'text-pink-600' :
-                              e.source === 'web_upload' ? 'text-brand-600' :
-                                'text-slate-400'
-                          }`}>
-                          {e.source === 'telegram' ? 'Telegram Bot' : e.source === 'whatsapp' ? 'WhatsApp Bot' : e.source === 'email' ? 'Email Alert' : e.source === 'forwarded_email' ? 'Forwarded Email' : e.source === 'web_upload' ? 'Web Document' : e.source.replace('_', ' ')}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="px-12 py-6 text-right">
-                      {e.is_verified && !session?.isAdmin ? (
-                        <div className="p-3 text-slate-300 cursor-not-allowed">
-                          <Lock size={18} />
+                      </td>
+                      <td className="px-12 py-6 text-right">
+                        <div className="flex items-center justify-end">
+                          <button onClick={() => setEvidenceExpense(e)} className="p-3 text-slate-200 hover:text-brand-600 opacity-0 group-hover:opacity-100 transition-all active:scale-95" title="View evidence">
+                            <FileSearch size={20} />
+                          </button>
+                          {e.is_verified && !session?.isAdmin ? (
+                            <div className="p-3 text-slate-300 cursor-not-allowed">
+                              <Lock size={18} />
+                            </div>
+                          ) : (
+                            <button onClick={() => onDelete(e.id)} className="p-3 text-slate-200 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all active:scale-95">
+                              <Trash2 size={20} />
+                            </button>
+                          )}
                         </div>
-                      ) : (
-                        <button onClick={() => onDelete(e.id)} className="p-3 text-slate-200 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all active:scale-95">
-                          <Trash2 size={20} />
-                        </button>
-                      )}
-                    </td>
-                  </tr>
+                      </td>
+                    </tr>
+                    {itemsExpenseId === e.id && (
+                      <tr>
+                        <td colSpan={6} className="px-8 pb-6">
+                          <LineItemEditor
+                            expense={e}
+                            categories={Array.from(new Set(['Transport', 'Meals', 'Lodging', 'Office', 'Utilities', 'Salary', 'Transfer', 'General', ...customCategories]))}
+                            readOnly={!canEdit || !onUpdate}
+                            onSave={(updates) => onUpdate?.(e.id, updates)}
+                            onClose={() => setItemsExpenseId(null)}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
                 );
               })}
             </tbody>
           </table>
         </div>
       </div>
+
+      {evidenceExpense && (
+        <EvidenceViewer title={evidenceExpense.merchant} expenses={[evidenceExpense]} onClose={() => setEvidenceExpense(null)} />
+      )}
     </div>
   );
 };
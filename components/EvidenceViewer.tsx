@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { X, FileSearch, FileX, ExternalLink, Receipt, Database, Plane } from 'lucide-react';
+import { Expense, TravelLog, FieldProvenance } from '../types';
+import { isAnchor } from '../reconciliationEngine';
+import { LOW_CONFIDENCE_THRESHOLD, describeProvenance } from '../extractionMapper';
+import { getDocumentUrls } from '../geminiService';
+
+interface EvidenceViewerProps {
+  title?: string;
+  expenses?: Expense[];
+  travelLogs?: TravelLog[];
+  onClose: () => void;
+}
+
+interface EvidenceRecord {
+  id: string;
+  label: string;
+  kind: 'anchor' | 'proof' | 'travel';
+  document_id?: string;
+  fields: Array<[string, string, FieldProvenance?]>;
+}
+
+const toRecords = (expenses: Expense[], travelLogs: TravelLog[]): EvidenceRecord[] => [
+  ...expenses.map(e => ({
+    id: e.id,
+    label: e.merchant,
+    kind: isAnchor(e) ? 'anchor' as const : 'proof' as const,
+    document_id: e.document_id,
+    fields: [
+      ['Merchant', e.merchant, e.field_provenance?.merchant],
+      ['Amount', `${e.currency} ${Number(e.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}`, e.field_provenance?.amount],
+      ['Date', e.date, e.field_provenance?.date],
+      ['Category', e.category],
+      ['Bank', e.bank || '—'],
+      ['Card', e.card_digits ? `•••• ${e.card_digits}` : '—', e.field_provenance?.card_digits],
+      ['Direction', e.transaction_type || 'debit'],
+      ...(e.vat || e.tax_amount ? [
+        ['VAT', `${e.currency} ${Number(e.vat?.vat_amount ?? e.tax_amount ?? 0).toFixed(2)}${e.vat?.vat_rate !== undefined ? ` @ ${e.vat.vat_rate}%` : ''}`],
+        ['TRN', e.vat?.supplier_trn || '—'],
+        ['Tax Invoice', e.vat?.is_tax_invoice ? 'Yes' : 'No']
+      ] : []),
+      ['Source', e.source.replace(/_/g, ' ')],
+      ['Confidence', `${Math.round((e.confidence || 0) * 100)}%`]
+    ] as Array<[string, string, FieldProvenance?]>
+  })),
+  ...travelLogs.map(l => ({
+    id: l.id,
+    label: l.provider_name || l.destination_city,
+    kind: 'travel' as const,
+    document_id: l.document_id,
+    fields: [
+      ['Provider', l.provider_name || '—'],
+      ['Type', l.travel_type],
+      ['Route', `${l.origin_city || '?'} → ${l.destination_city}, ${l.destination_country}`],
+      ['Dates', `${l.start_date}${l.end_date && l.end_date !== l.start_date ? ` → ${l.end_date}` : ''}`],
+      ['Reference', l.reference_number || '—'],
+      ['Guest', l.guest_name || '—']
+    ] as Array<[string, string, FieldProvenance?]>
+  }))
+];
+
+// Only ids minted by the blob store (content hashes) resolve; legacy generated ids do not
+const isStoredDocument = (id?: string) => !!id && /^[a-f0-9]{64}$/.test(id);
+
+const EvidenceViewer: React.FC<EvidenceViewerProps> = ({ title = 'Evidence', expenses = [], travelLogs = [], onClose }) => {
+  const records = toRecords(expenses, travelLogs);
+  const [selectedId, setSelectedId] = useState<string | null>(
+    (records.find(r => isStoredDocument(r.document_id)) || records[0])?.id || null
+  );
+  const [failed, setFailed] = useState<Record<string, boolean>>({});
+  const [documentUrls, setDocumentUrls] = useState<Record<string, string>>({});
+  const selected = records.find(r => r.id === selectedId);
+  const documentUrl = selected && isStoredDocument(selected.document_id) ? documentUrls[selected.document_id!] || null : null;
+
+  // Signed links are fetched once for every original on show
+  const documentIds = Array.from(new Set(records.map(r => r.document_id).filter(isStoredDocument))) as string[];
+  const documentIdsKey = documentIds.join(',');
+  useEffect(() => {
+    getDocumentUrls(documentIds).then(setDocumentUrls).catch(() => setDocumentUrls({}));
+  }, [documentIdsKey]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-md" onClick={onClose} />
+      <div className="relative w-full max-w-6xl h-[85vh] flex flex-col bg-white dark:bg-slate-900 rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-10 py-6 flex items-center justify-between border-b border-slate-100 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl bg-brand-600 flex items-center justify-center text-white">
+              <FileSearch size={22} />
+            </div>
+            <div>
+              <h3 className="text-xl font-black uppercase tracking-tighter dark:text-white">{title}</h3>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Original document beside the extracted fields</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 bg-slate-100 dark:bg-slate-950 flex items-center justify-center min-w-0">
+            {documentUrl && !failed[documentUrl] ? (
+              <iframe
+                key={documentUrl}
+                src={documentUrl}
+                title={selected?.label}
+                className="w-full h-full bg-white"
+                onError={() => setFailed(prev => ({ ...prev, [documentUrl]: true }))}
+              />
+            ) : (
+              <div className="text-center text-slate-400 p-10">
+                <FileX size={48} className="mx-auto mb-4 opacity-40" />
+                <p className="text-[10px] font-black uppercase tracking-widest">No original retained for this record</p>
+                <p className="text-[9px] font-bold uppercase mt-1 opacity-60">Uploaded before document retention, or imported from a bot</p>
+              </div>
+            )}
+          </div>
+
+          <div className="w-96 shrink-0 overflow-y-auto border-l border-slate-100 dark:border-slate-800 p-6 space-y-4">
+            {records.map(r => (
+              <button
+                key={r.id}
+                onClick={() => setSelectedId(r.id)}
+                className={`w-full text-left p-5 rounded-[2rem] border transition-all ${selectedId === r.id ? 'border-brand-500 ring-4 ring-brand-500/5 bg-white dark:bg-slate-900' : 'border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/30'}`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <span className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                    {r.kind === 'anchor' ? <Database size={12} /> : r.kind === 'travel' ? <Plane size={12} /> : <Receipt size={12} />}
+                    {r.kind === 'anchor' ? 'Statement Line' : r.kind === 'travel' ? 'Travel Record' : 'Proof'}
+                  </span>
+                  {isStoredDocument(r.document_id) && documentUrls[r.document_id!] ? (
+                    <a
+                      href={documentUrls[r.document_id!]}
+                      target="_blank"
+                      rel="noreferrer"
+                      onClick={(evt) => evt.stopPropagation()}
+                      className="text-slate-400 hover:text-brand-600"
+                      title="Open original in a new tab"
+                    >
+                      <ExternalLink size={12} />
+                    </a>
+                  ) : (
+                    <span className="text-[8px] font-black uppercase text-slate-300">No File</span>
+                  )}
+                </div>
+                <div className="space-y-1.5">
+                  {r.fields.map(([label, value, provenance]) => (
+                    <div key={label}>
+                      <div className="flex justify-between gap-4 text-[10px]">
+                        <span className="font-black uppercase tracking-widest text-slate-400">{label}</span>
+                        <span
+                          className={`font-bold text-right truncate ${provenance && provenance.confidence < LOW_CONFIDENCE_THRESHOLD ? 'text-amber-600' : 'text-slate-900 dark:text-white'}`}
+                          title={value}
+                        >
+                          {value}
+                        </span>
+                      </div>
+                      {provenance && (
+                        <p className={`text-[8px] font-bold text-right truncate ${provenance.confidence < LOW_CONFIDENCE_THRESHOLD ? 'text-amber-500' : 'text-slate-400'}`} title={describeProvenance(provenance)}>
+                          {describeProvenance(provenance)}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EvidenceViewer;
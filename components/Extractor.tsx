@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   UploadCloud,
   Loader2,
@@ -17,15 +17,21 @@ import {
   X,
   CreditCard,
   Clock,
-  AlertCircle
+  AlertCircle,
+  RotateCcw
 } from 'lucide-react';
-import { batchExtractAllData } from '../geminiService';
-import { auth } from '../firebaseService';
-import { Expense, ExpenseSource, TravelLog } from '../types';
+import { createExtractionJob, getExtractionJob, listExtractionJobs, retryExtractionJob, subscribeToExtractionJob, uploadDocument } from '../geminiService';
+import { saveStatementTemplate, getDocumentFingerprints, saveDocumentFingerprint } from '../firebaseService';
+import { getSession } from '../authService';
+import { importStatement, statementRowsToExpenses, isStructuredStatementFile, detectStatementFormat } from '../statementImporters';
+import { Expense, ExpenseSource, TravelLog, StatementTemplate, StatementFormat, DocumentFingerprint, ExtractionJob, ExtractionJobEvent, ExtractionDocumentStatus } from '../types';
+import CsvMappingWizard from './CsvMappingWizard';
 
 interface ExtractorProps {
   onExtract: (data: { expenses: Expense[], travelLogs: TravelLog[] }) => void;
   bankMappings: any[];
+  statementTemplates?: StatementTemplate[];
+  onJobSettled?: (job: ExtractionJob) => void;
 }
 
 interface FilePreview {
@@ -34,15 +40,45 @@ interface FilePreview {
   type: string;
   data: string;
   rawFile: File;
+  hash: string; // SHA-256 of the original bytes (before image compression)
   isEmail: boolean;
   isCsv: boolean;
+  isStructured: boolean;
+  statementFormat?: StatementFormat | null;
   rowCount?: number;
   sizeLabel: string;
 }
 
 const MAX_IMAGE_WIDTH = 800; // Reduced from 1024 for tighter token optimization
+const ACTIVE_JOB_KEY = 'extraction_active_job';
 
-const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
+const isJobActive = (job: ExtractionJob) => job.status === 'queued' || job.status === 'running';
+
+const DOC_STATUS_STYLES: Record<ExtractionDocumentStatus, { label: string, className: string }> = {
+  queued: { label: 'Queued', className: 'text-slate-400' },
+  running: { label: 'Extracting', className: 'text-brand-600' },
+  retrying: { label: 'Quota Backoff', className: 'text-amber-600' },
+  done: { label: 'Done', className: 'text-emerald-600' },
+  failed: { label: 'Failed', className: 'text-rose-600' }
+};
+
+const hashFile = async (file: File) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const describeEvent = (event: ExtractionJobEvent) => {
+  switch (event.type) {
+    case 'received': return event.attempt ? 'Re-queued for retry' : 'Received by server';
+    case 'model_call_started': return `AI extraction started${event.attempt && event.attempt > 1 ? ` (attempt ${event.attempt})` : ''}`;
+    case 'retry_scheduled': return `Quota hit • retrying in ${Math.round((event.delay_ms || 0) / 1000)}s`;
+    case 'parsed': return `Parsed ${event.expense_count || 0} entries, ${event.travel_count || 0} travel${event.duplicate_count ? ` • ${event.duplicate_count} duplicates merged` : ''}${event.suspected_count ? ` • ${event.suspected_count} sent to clarification` : ''}`;
+    case 'skipped_duplicate': return `Already processed${event.document.duplicate_of_document ? ` as ${event.document.duplicate_of_document}` : ''} • AI skipped`;
+    case 'failed': return `Failed: ${event.error || 'unknown error'}`;
+  }
+};
+
+const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings, statementTemplates = [], onJobSettled }) => {
   const [activeMode, setActiveMode] = useState<ExpenseSource>('receipt');
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStatus, setProcessingStatus] = useState<string>('');
@@ -51,6 +87,64 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
   const [selectedBank, setSelectedBank] = useState<string>('');
   const [customBankName, setCustomBankName] = useState<string>('');
   const [successCount, setSuccessCount] = useState<{ expenses: number, travel: number } | null>(null);
+  const [mappingPreview, setMappingPreview] = useState<FilePreview | null>(null);
+  const [aiFallbackIds, setAiFallbackIds] = useState<string[]>([]);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [activeJob, setActiveJob] = useState<ExtractionJob | null>(null);
+  const [jobError, setJobError] = useState<string | null>(null);
+  const [skippedDocs, setSkippedDocs] = useState<string[]>([]);
+  const [docEvents, setDocEvents] = useState<Record<string, ExtractionJobEvent[]>>({});
+  const wasJobLive = useRef(false);
+  const isActiveJobLive = !!activeJob && isJobActive(activeJob);
+
+  // Reconnect to a job started earlier (tab closed, page reloaded) so progress and retries survive
+  useEffect(() => {
+    const storedId = localStorage.getItem(ACTIVE_JOB_KEY);
+    const email = getSession()?.email;
+    const reconnect = storedId
+      ? getExtractionJob(storedId)
+      : email
+        ? listExtractionJobs().then(jobs => jobs.find(j => isJobActive(j) || j.documents.some(d => d.status === 'failed')) || null)
+        : Promise.resolve(null);
+
+    reconnect
+      .then(job => {
+        if (job) {
+          localStorage.setItem(ACTIVE_JOB_KEY, job.id);
+          setActiveJob(job);
+        }
+      })
+      .catch(err => {
+        console.warn("[Jobs] Could not reconnect to extraction job:", err.message);
+        localStorage.removeItem(ACTIVE_JOB_KEY);
+      });
+  }, []);
+
+  // Stream per-document events while the job is live (a fresh stream replays the full history)
+  useEffect(() => {
+    if (!activeJob || !isActiveJobLive) return;
+    setDocEvents({});
+    return subscribeToExtractionJob(activeJob.id, event => {
+      setDocEvents(prev => ({ ...prev, [event.doc_id]: [...(prev[event.doc_id] || []), event] }));
+      setActiveJob(prev => prev && prev.id === event.job_id ? {
+        ...prev,
+        status: event.job_status,
+        updated_at: event.at,
+        documents: prev.documents.map(d => d.id === event.doc_id ? event.document : d)
+      } : prev);
+    }, err => {
+      console.error("[Jobs] Event stream closed:", err);
+      setJobError(err.message);
+      localStorage.removeItem(ACTIVE_JOB_KEY);
+      setActiveJob(null);
+    });
+  }, [activeJob?.id, isActiveJobLive]);
+
+  // Notify once when a job we watched running has settled
+  useEffect(() => {
+    if (wasJobLive.current && !isActiveJobLive && activeJob) onJobSettled?.(activeJob);
+    wasJobLive.current = isActiveJobLive;
+  }, [activeJob, isActiveJobLive]);
 
   const formatSize = (bytes: number) => {
     if (bytes < 1024) return bytes + ' B';
@@ -89,11 +183,13 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
     selectedFiles.forEach(file => {
       const isEmail = file.name.endsWith('.eml') || file.name.endsWith('.msg') || file.type === 'message/rfc822';
       const isCsv = file.name.endsWith('.csv') || file.type === 'text/csv';
+      const isStructured = isStructuredStatementFile(file.name);
       const reader = new FileReader();
 
       reader.onloadend = async () => {
         let processedData = reader.result as string;
         let rowCount = 0;
+        const hash = await hashFile(file);
 
         if (file.type.startsWith('image/')) {
           processedData = await compressImage(processedData);
@@ -102,6 +198,7 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
         if (isCsv) {
           rowCount = processedData.split('\n').filter(line => line.trim()).length;
         }
+        const statementFormat = isCsv || isStructured ? detectStatementFormat(processedData, file.name) : null;
 
         setPreviews(prev => [
           ...prev,
@@ -111,15 +208,18 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
             type: file.type,
             data: processedData,
             rawFile: file,
+            hash,
             isEmail: isEmail,
             isCsv: isCsv,
+            isStructured,
+            statementFormat,
             rowCount,
             sizeLabel: formatSize(file.size)
           }
         ]);
       };
 
-      if (isEmail || isCsv) {
+      if (isEmail || isCsv || isStructured) {
         reader.readAsText(file);
       } else {
         reader.readAsDataURL(file);
@@ -132,21 +232,82 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
     setPreviews(prev => prev.filter(p => p.id !== id));
   };
 
-  const processContent = async () => {
+  /**
+   * extra.templates / extra.aiFallback carry wizard decisions made just before this call,
+   * before the template subscription or state update has landed.
+   */
+  const processContent = async (extra: { templates?: StatementTemplate[]; aiFallback?: string[]; bankName?: string } = {}) => {
     if (previews.length === 0) return;
+    const bankName = extra.bankName ?? (selectedBank === 'Other' ? customBankName : selectedBank);
+    const templates = [...(extra.templates || []), ...statementTemplates];
+    const aiOnly = [...aiFallbackIds, ...(extra.aiFallback || [])];
+
+    // CSV MAPPING WIZARD: the first CSV from a bank without a saved layout is mapped by the user
+    const unmapped = previews.find(p =>
+      p.statementFormat === 'csv' &&
+      !aiOnly.includes(p.id) &&
+      !templates.some(t => t.bank_name.toLowerCase() === bankName.toLowerCase())
+    );
+    if (unmapped) {
+      setMappingPreview(unmapped);
+      return;
+    }
+
     setIsProcessing(true);
     setSuccessCount(null);
+    setSkippedDocs([]);
     setCurrentFileIndex(0);
 
     const inputs = [];
-    const userId = auth.currentUser?.uid || 'anonymous';
+    const nativeExpenses: Expense[] = [];
+    const nativeFingerprints: Omit<DocumentFingerprint, 'id' | 'user_id' | 'created_at'>[] = [];
+    const skipped: string[] = [];
+    const seenHashes = new Set<string>();
+    const email = getSession()?.email;
+
+    // CONTENT-HASH DEDUP: files this user already processed never reach the importers or the AI
+    setProcessingStatus('Checking upload history...');
+    const known = await getDocumentFingerprints(previews.map(p => p.hash)).catch(err => {
+      console.warn("[Dedup] Could not load document fingerprints:", err);
+      return [] as DocumentFingerprint[];
+    });
 
     for (let i = 0; i < previews.length; i++) {
       const p = previews[i];
       setProcessingStatus(`Analyzing ${p.name}...`);
+      setCurrentFileIndex(i + 1);
+
+      const prior = known.find(f => f.hash === p.hash);
+      if (prior || seenHashes.has(p.hash)) {
+        console.log(`[Dedup] ${p.name}: already uploaded, skipping`);
+        skipped.push(prior ? `${p.name} (uploaded ${prior.created_at.split('T')[0]} as ${prior.file_name})` : `${p.name} (same file twice in this batch)`);
+        continue;
+      }
+      seenHashes.add(p.hash);
+
+      // Retain the original for the evidence viewer; extraction still proceeds if storage fails
+      const documentId = email
+        ? await uploadDocument(p.rawFile).catch(err => {
+          console.warn(`[Evidence] Could not retain ${p.name}:`, err.message);
+          return undefined;
+        })
+        : undefined;
+
+      // NATIVE IMPORT: structured statements never go through the AI
+      if (p.statementFormat && !aiOnly.includes(p.id)) {
+        const imported = importStatement(p.data, p.name, bankName, templates);
+        if (imported && imported.rows.length > 0) {
+          console.log(`[Importer] ${p.name}: ${imported.rows.length} rows parsed natively (${imported.format})`);
+          const rows = statementRowsToExpenses(imported.rows, bankName).map(exp => ({ ...exp, document_hash: p.hash, document_id: documentId }));
+          nativeExpenses.push(...rows);
+          nativeFingerprints.push({ hash: p.hash, file_name: p.name, source: 'bank_statement', expense_count: rows.length });
+          continue;
+        }
+        console.log(`[Importer] ${p.name}: no native parse, falling back to AI extraction`);
+      }
 
       let extractionInput: string | { data: string; mimeType: string };
-      if (p.isEmail || p.isCsv) {
+      if (p.isEmail || p.isCsv || p.isStructured) {
         extractionInput = p.data;
       } else {
         const base64Data = p.data.split(',')[1] || '';
@@ -154,75 +315,110 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
       }
 
       inputs.push({
+        name: p.name,
+        hash: p.hash,
+        document_id: documentId,
         content: extractionInput,
-        source: activeMode === 'receipt' ? 'web_upload' : activeMode,
-        bank: (selectedBank === 'Other' ? customBankName : selectedBank),
+        source: (activeMode === 'receipt' ? 'web_upload' : activeMode) as ExpenseSource,
       });
     }
 
     console.log("Extractor Inputs built with Source URLs:", inputs);
 
-    try {
-      const CHUNK_SIZE = 1; // Sequential processing to guarantee 1M token limit per request
-      const allExpenses: Expense[] = [];
-      const allTravelLogs: TravelLog[] = [];
-
-      for (let i = 0; i < inputs.length; i += CHUNK_SIZE) {
-        const chunk = inputs.slice(i, i + CHUNK_SIZE);
-        const chunkNum = Math.floor(i / CHUNK_SIZE) + 1;
-        const totalChunks = Math.ceil(inputs.length / CHUNK_SIZE);
-
-        setProcessingStatus(`Processing Batch ${chunkNum}/${totalChunks} (${chunk.length} documents)...`);
-        setCurrentFileIndex(i);
-
-        if (i > 0) {
-          setProcessingStatus('Cooling down for next document set...');
-          await new Promise(resolve => setTimeout(resolve, 3000));
+    // --- AUTO-PILOT MAPPING LOGIC ---
+    const applyBankMapping = (exp: Expense): Expense => {
+      if (exp.card_digits) {
+        const cleanDigits = exp.card_digits.replace(/\D/g, '').slice(-4);
+        const match = bankMappings.find(m => m.card_digits.replace(/\D/g, '').slice(-4) === cleanDigits);
+
+        if (match) {
+          console.log(`[Auto-Pilot] SUCCESS: Mapped card ${cleanDigits} to ${match.bank_name}`);
+          return { ...exp, bank: match.bank_name, card_digits: cleanDigits };
+        } else {
+          console.log(`[Auto-Pilot] NO MATCH in registry for card digits: ${cleanDigits}`);
         }
-
-        const res = await batchExtractAllData(chunk, selectedBank === 'Other' ? customBankName : selectedBank);
-
-        // --- AUTO-PILOT MAPPING LOGIC ---
-        const mappedExpenses = res.expenses.map(exp => {
-          if (exp.card_digits) {
-            const cleanDigits = exp.card_digits.replace(/\D/g, '').slice(-4);
-            const match = bankMappings.find(m => m.card_digits.replace(/\D/g, '').slice(-4) === cleanDigits);
-
-            if (match) {
-              console.log(`[Auto-Pilot] SUCCESS: Mapped card ${cleanDigits} to ${match.bank_name}`);
-              return { ...exp, bank: match.bank_name, card_digits: cleanDigits };
-            } else {
-              console.log(`[Auto-Pilot] NO MATCH in registry for card digits: ${cleanDigits}`);
-            }
-          }
-          return exp;
-        });
-
-        allExpenses.push(...mappedExpenses);
-        allTravelLogs.push(...res.travelLogs);
       }
+      return exp;
+    };
 
-      onExtract({ expenses: allExpenses, travelLogs: allTravelLogs });
-      setSuccessCount({
-        expenses: allExpenses.length,
-        travel: allTravelLogs.length
-      });
+    try {
+      const nativeMapped = nativeExpenses.map(applyBankMapping);
+      if (nativeMapped.length > 0) {
+        onExtract({ expenses: nativeMapped, travelLogs: [] });
+        await Promise.all(nativeFingerprints.map(f => saveDocumentFingerprint(f)));
+      }
+      setSkippedDocs(skipped);
+
+      // AI documents are extracted by the server job queue, which writes results to the ledger itself
+      if (inputs.length > 0) {
+        if (!email) throw new Error("No session");
+        setProcessingStatus(`Queuing ${inputs.length} documents for extraction...`);
+        const job = await createExtractionJob(inputs, bankName);
+        localStorage.setItem(ACTIVE_JOB_KEY, job.id);
+        setActiveJob(job);
+        setJobError(null);
+      } else if (nativeMapped.length > 0) {
+        setSuccessCount({ expenses: nativeMapped.length, travel: 0 });
+      }
 
-      setTimeout(() => {
-        setPreviews([]);
-        setCurrentFileIndex(0);
-        setProcessingStatus('');
-      }, 3000);
+      setPreviews([]);
+      setAiFallbackIds([]);
+      setCurrentFileIndex(0);
+      setProcessingStatus('');
 
     } catch (e: any) {
       console.error("Extraction error:", e);
-      const isRateLimit = e.message?.includes('429') || e.message?.includes('RESOURCE_EXHAUSTED');
-      alert(isRateLimit ? "AI Quota limit reached despite retries. Please wait 60 seconds." : "Batch extraction failed. Please try again.");
+      setJobError(e.message || "Could not queue the extraction.");
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleRetryFailed = async () => {
+    if (!activeJob) return;
+    try {
+      const job = await retryExtractionJob(activeJob.id);
+      setActiveJob(job);
+      setJobError(null);
+    } catch (err: any) {
+      console.error("[Jobs] Retry failed:", err);
+      setJobError(err.message);
+    }
+  };
+
+  const dismissJob = () => {
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+    setActiveJob(null);
+    setJobError(null);
+  };
+
+  const handleSaveMapping = async (template: Omit<StatementTemplate, 'id' | 'user_id' | 'created_at'>) => {
+    setIsSavingTemplate(true);
+    try {
+      await saveStatementTemplate(template);
+      setMappingPreview(null);
+      // The wizard may have named the bank; keep the upload tagged with it
+      if (template.bank_name.toLowerCase() !== (selectedBank === 'Other' ? customBankName : selectedBank).toLowerCase()) {
+        setSelectedBank('Other');
+        setCustomBankName(template.bank_name);
+      }
+      await processContent({ templates: [{ id: 'pending', ...template }], bankName: template.bank_name });
+    } catch (err) {
+      console.error(err);
+      alert("Could not save the column mapping.");
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const handleMappingUseAI = () => {
+    if (!mappingPreview) return;
+    const ids = [...aiFallbackIds, mappingPreview.id];
+    setAiFallbackIds(ids);
+    setMappingPreview(null);
+    processContent({ aiFallback: ids });
+  };
+
   const ModeCard = ({ mode, icon: Icon, label, desc, colorClass }: { mode: ExpenseSource, icon: any, label: string, desc: string, colorClass: string }) => (
     <button
       onClick={() => { setActiveMode(mode); setPreviews([]); setSuccessCount(null); }}
@@ -301,7 +497,7 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
           <input
             type="file"
             multiple
-            accept="image/*,application/pdf,.eml,.msg,.csv"
+            accept="image/*,application/pdf,.eml,.msg,.csv,.ofx,.qfx,.sta,.mt940,.940,.xml"
             onChange={handleFileChange}
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
           />
@@ -325,7 +521,7 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
                           <img src={p.data} alt="Preview" className="h-full w-full object-cover rounded-2xl" />
                         ) : p.isEmail ? (
                           <div className="bg-sky-50 dark:bg-sky-900/40 p-4 rounded-2xl text-sky-500"><Mail size={32} /></div>
-                        ) : p.isCsv ? (
+                        ) : p.isCsv || p.isStructured ? (
                           <div className="bg-amber-50 dark:bg-amber-900/40 p-4 rounded-2xl text-amber-500"><Database size={32} /></div>
                         ) : (
                           <div className="bg-slate-100 p-4 rounded-2xl text-slate-400"><FileText size={32} /></div>
@@ -333,6 +529,11 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
                       </div>
                       <p className="text-[9px] font-black uppercase tracking-tight truncate px-1 text-slate-900 dark:text-white" title={p.name}>{p.name}</p>
                       <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mt-0.5">{p.sizeLabel}</p>
+                      {p.statementFormat && p.statementFormat !== 'csv' && (
+                        <div className="mt-2 text-[8px] font-bold text-emerald-600 uppercase flex items-center justify-center gap-1">
+                          <Zap size={10} /> Native {p.statementFormat === 'camt053' ? 'CAMT.053' : p.statementFormat.toUpperCase()}
+                        </div>
+                      )}
                       {p.rowCount !== undefined && p.rowCount > 50 && (
                         <div className="mt-2 text-[8px] font-bold text-amber-600 uppercase flex items-center justify-center gap-1">
                           <AlertCircle size={10} /> Large Ledger ({p.rowCount} rows)
@@ -350,12 +551,24 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
               <>
                 <div className="bg-slate-100 dark:bg-slate-800 p-8 rounded-[2.5rem] mb-8 text-slate-400 transition-all"><UploadCloud size={64} strokeWidth={1} /></div>
                 <p className="font-black text-2xl tracking-tight dark:text-white">Batch Upload Ready</p>
-                <p className="text-slate-400 text-[10px] mt-3 uppercase tracking-[0.2em] font-bold">Supports Receipts, PDFs, CSVs & Email Alerts</p>
+                <p className="text-slate-400 text-[10px] mt-3 uppercase tracking-[0.2em] font-bold">Supports Receipts, PDFs, CSVs, OFX/QFX, MT940, CAMT.053 & Email Alerts</p>
               </>
             )}
           </div>
         </div>
 
+        {mappingPreview && (
+          <CsvMappingWizard
+            fileName={mappingPreview.name}
+            csvText={mappingPreview.data}
+            bankName={selectedBank === 'Other' ? customBankName : selectedBank}
+            isSaving={isSavingTemplate}
+            onSave={handleSaveMapping}
+            onUseAI={handleMappingUseAI}
+            onCancel={() => setMappingPreview(null)}
+          />
+        )}
+
         {isProcessing && (
           <div className="mt-8 p-6 bg-brand-50 dark:bg-brand-500/10 border border-brand-100 rounded-[2rem] flex items-center gap-5 text-brand-700 animate-pulse">
             <div className="bg-brand-500 p-3 rounded-2xl text-white shadow-xl"><Clock size={24} /></div>
@@ -366,6 +579,96 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
           </div>
         )}
 
+        {activeJob && (() => {
+          const done = activeJob.documents.filter(d => d.status === 'done');
+          const failedCount = activeJob.documents.filter(d => d.status === 'failed').length;
+          const entries = done.reduce((sum, d) => sum + (d.expense_count || 0), 0);
+          const trips = done.reduce((sum, d) => sum + (d.travel_count || 0), 0);
+          return (
+            <div className="mt-8 p-6 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-[2rem] shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <div className="text-[10px] font-black uppercase tracking-widest text-slate-900 dark:text-white">
+                    Extraction Job • {done.length} / {activeJob.documents.length} documents
+                  </div>
+                  <div className="text-[9px] font-bold uppercase text-slate-400 mt-1">
+                    {isJobActive(activeJob) ? 'Processing on server — safe to leave this page' : `${entries} entries • ${trips} travel records saved`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {!isJobActive(activeJob) && failedCount > 0 && (
+                    <button onClick={handleRetryFailed} className="flex items-center gap-2 px-4 py-2 bg-rose-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest">
+                      <RotateCcw size={12} /> Retry Failed ({failedCount})
+                    </button>
+                  )}
+                  {!isJobActive(activeJob) && (
+                    <button onClick={dismissJob} className="p-2 text-slate-400 hover:text-slate-600"><X size={16} /></button>
+                  )}
+                </div>
+              </div>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {activeJob.documents.map(d => (
+                  <div key={d.id} className="flex items-center justify-between gap-4 px-4 py-2 bg-slate-50 dark:bg-slate-800/50 rounded-xl">
+                    <div className="min-w-0">
+                      <p className="text-[10px] font-black uppercase truncate text-slate-900 dark:text-white" title={d.name}>{d.name}</p>
+                      {(docEvents[d.id] || []).length > 0 ? (
+                        <div className="mt-1 space-y-0.5">
+                          {docEvents[d.id].slice(-4).map(event => (
+                            <p key={event.seq} className={`text-[9px] font-bold truncate ${event.type === 'failed' ? 'text-rose-500' : event.type === 'retry_scheduled' ? 'text-amber-500' : 'text-slate-400'}`} title={describeEvent(event)}>
+                              {new Date(event.at).toLocaleTimeString()} • {describeEvent(event)}
+                            </p>
+                          ))}
+                        </div>
+                      ) : (
+                        <>
+                          {d.status === 'failed' && d.error && <p className="text-[9px] font-bold text-rose-500 truncate" title={d.error}>{d.error}</p>}
+                          {d.status === 'retrying' && d.next_attempt_at && (
+                            <p className="text-[9px] font-bold text-amber-500">Retrying at {new Date(d.next_attempt_at).toLocaleTimeString()}</p>
+                          )}
+                          {d.status === 'done' && d.duplicate_of_document && (
+                            <p className="text-[9px] font-bold text-amber-500">Already processed as {d.duplicate_of_document}</p>
+                          )}
+                          {d.status === 'done' && !d.duplicate_of_document && (
+                            <p className="text-[9px] font-bold text-slate-400">
+                              {d.expense_count || 0} entries • {d.travel_count || 0} travel{d.duplicate_count ? ` • ${d.duplicate_count} duplicates merged` : ''}{d.suspected_count ? ` • ${d.suspected_count} to clarify` : ''}
+                            </p>
+                          )}
+                        </>
+                      )}
+                    </div>
+                    <span className={`flex items-center gap-1 text-[9px] font-black uppercase tracking-widest shrink-0 ${DOC_STATUS_STYLES[d.status].className}`}>
+                      {d.status === 'running' && <Loader2 size={12} className="animate-spin" />}
+                      {d.status === 'retrying' && <RotateCcw size={12} />}
+                      {d.status === 'done' && <CheckCircle2 size={12} />}
+                      {d.status === 'failed' && <AlertCircle size={12} />}
+                      {d.status === 'queued' && <Clock size={12} />}
+                      {DOC_STATUS_STYLES[d.status].label}
+                      {d.attempts > 1 && ` (${d.attempts})`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })()}
+
+        {skippedDocs.length > 0 && (
+          <div className="mt-8 p-6 bg-amber-50 dark:bg-amber-500/10 border border-amber-100 rounded-[2rem] flex items-start gap-5 text-amber-700">
+            <div className="bg-amber-500 p-3 rounded-2xl text-white shadow-xl"><AlertCircle size={24} /></div>
+            <div>
+              <div className="text-xs font-black uppercase tracking-widest">{skippedDocs.length} already-uploaded documents skipped</div>
+              {skippedDocs.map(name => <p key={name} className="text-[9px] font-bold uppercase opacity-70 mt-1">{name}</p>)}
+            </div>
+          </div>
+        )}
+
+        {jobError && (
+          <div className="mt-8 p-6 bg-rose-50 dark:bg-rose-500/10 border border-rose-100 rounded-[2rem] flex items-center gap-5 text-rose-700">
+            <div className="bg-rose-500 p-3 rounded-2xl text-white shadow-xl"><AlertCircle size={24} /></div>
+            <div className="text-xs font-black uppercase tracking-widest">{jobError}</div>
+          </div>
+        )}
+
         {successCount !== null && (
           <div className="mt-8 p-6 bg-emerald-50 dark:bg-emerald-500/10 border border-emerald-100 rounded-[2rem] flex items-center gap-5 text-emerald-700 animate-in zoom-in duration-300">
             <div className="bg-emerald-500 p-3 rounded-2xl text-white shadow-xl"><CheckCircle2 size={24} /></div>
@@ -375,8 +678,8 @@ const Extractor: React.FC<ExtractorProps> = ({ onExtract, bankMappings }) => {
 
         <div className="mt-12">
           <button
-            onClick={processContent}
-            disabled={isProcessing || previews.length === 0}
+            onClick={() => processContent()}
+            disabled={isProcessing || previews.length === 0 || (!!activeJob && isJobActive(activeJob))}
             className="w-full bg-slate-950 dark:bg-white text-white dark:text-slate-950 py-6 rounded-[2.5rem] font-black text-xs uppercase tracking-[0.4em] transition-all disabled:opacity-50 flex items-center justify-center gap-5 shadow-2xl active:scale-[0.98]"
           >
             {isProcessing ? <><Loader2 className="animate-spin" size={28} /> Ingesting Data...</> : <><Sparkles size={28} /> Start Batch Extraction <ArrowRight size={28} /></>}
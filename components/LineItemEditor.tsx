@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Save, X, AlertTriangle } from 'lucide-react';
+import { Expense, ExpenseLineItem } from '../types';
+import { lineItemTax, lineItemTotal, sumLineItems, sumLineItemTax, categorySplits } from '../lineItems';
+
+interface LineItemEditorProps {
+  expense: Expense;
+  categories: string[];
+  readOnly?: boolean;
+  onSave: (updates: Partial<Expense>) => void;
+  onClose: () => void;
+}
+
+const emptyItem = (): ExpenseLineItem => ({ description: '', quantity: 1, unit_price: 0 });
+
+const fmt = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const LineItemEditor: React.FC<LineItemEditorProps> = ({ expense, categories, readOnly, onSave, onClose }) => {
+  const [items, setItems] = useState<ExpenseLineItem[]>(expense.items?.length ? expense.items : [emptyItem()]);
+  const [supplierTrn, setSupplierTrn] = useState(expense.vat?.supplier_trn || '');
+  const [invoiceNumber, setInvoiceNumber] = useState(expense.vat?.invoice_number || '');
+  const [isTaxInvoice, setIsTaxInvoice] = useState(!!expense.vat?.is_tax_invoice);
+
+  const update = (idx: number, patch: Partial<ExpenseLineItem>) => {
+    setItems(prev => prev.map((item, i) => i === idx ? { ...item, ...patch } : item));
+  };
+
+  const numberOrUndefined = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+  const kept = items.filter(item => item.description.trim() || item.unit_price);
+  const total = sumLineItems(kept);
+  const tax = sumLineItemTax(kept);
+  const gap = Math.abs(expense.amount) - total;
+  const splits = categorySplits({ ...expense, items: kept });
+
+  const handleSave = () => {
+    const cleaned = kept.map(item => ({
+      ...item,
+      description: item.description.trim() || 'Item',
+      category: item.category || undefined
+    }));
+    const taxAmount = cleaned.length > 0 ? Number(sumLineItemTax(cleaned).toFixed(2)) : expense.tax_amount;
+    onSave({
+      items: cleaned,
+      tax_amount: taxAmount,
+      vat: {
+        ...expense.vat,
+        supplier_trn: supplierTrn.trim() || undefined,
+        invoice_number: invoiceNumber.trim() || undefined,
+        is_tax_invoice: isTaxInvoice,
+        // Edited lines supersede the extracted totals
+        vat_amount: cleaned.length > 0 ? taxAmount : expense.vat?.vat_amount,
+        taxable_amount: cleaned.length > 0 ? Number((total - tax).toFixed(2)) : expense.vat?.taxable_amount
+      }
+    });
+    onClose();
+  };
+
+  const inputClass = "bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl px-3 py-1.5 text-[11px] font-bold outline-none focus:ring-2 ring-brand-500/20 dark:text-white disabled:opacity-60";
+
+  return (
+    <div className="bg-slate-50/60 dark:bg-slate-900/40 rounded-[2rem] border border-slate-100 dark:border-slate-800 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Line Items & Tax</p>
+          <p className="text-[9px] font-bold uppercase text-slate-400 mt-0.5">Unit price excludes tax • line category overrides {expense.category}</p>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600"><X size={16} /></button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input className={`${inputClass} w-56`} disabled={readOnly} value={supplierTrn} placeholder="Supplier TRN / VAT No." onChange={(evt) => setSupplierTrn(evt.target.value)} />
+        <input className={`${inputClass} w-40`} disabled={readOnly} value={invoiceNumber} placeholder="Invoice No." onChange={(evt) => setInvoiceNumber(evt.target.value)} />
+        <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-500">
+          <input type="checkbox" disabled={readOnly} checked={isTaxInvoice} onChange={(evt) => setIsTaxInvoice(evt.target.checked)} />
+          Titled "Tax Invoice"
+        </label>
+      </div>
+
+      <table className="w-full text-left">
+        <thead>
+          <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+            <th className="pb-2 pr-2">Description</th>
+            <th className="pb-2 pr-2 w-20">Qty</th>
+            <th className="pb-2 pr-2 w-28">Unit Price</th>
+            <th className="pb-2 pr-2 w-20">Tax %</th>
+            <th className="pb-2 pr-2 w-28">Tax</th>
+            <th className="pb-2 pr-2 w-36">Category</th>
+            <th className="pb-2 pr-2 w-28 text-right">Line Total</th>
+            <th className="pb-2 w-10"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item, idx) => (
+            <tr key={idx}>
+              <td className="py-1 pr-2">
+                <input className={`${inputClass} w-full`} disabled={readOnly} value={item.description} placeholder="e.g. Minibar" onChange={(evt) => update(idx, { description: evt.target.value })} />
+              </td>
+              <td className="py-1 pr-2">
+                <input type="number" min="0" step="any" className={`${inputClass} w-full`} disabled={readOnly} value={item.quantity} onChange={(evt) => update(idx, { quantity: Number(evt.target.value) || 0 })} />
+              </td>
+              <td className="py-1 pr-2">
+                <input type="number" step="any" className={`${inputClass} w-full`} disabled={readOnly} value={item.unit_price} onChange={(evt) => update(idx, { unit_price: Number(evt.target.value) || 0 })} />
+              </td>
+              <td className="py-1 pr-2">
+                <input type="number" min="0" step="any" className={`${inputClass} w-full`} disabled={readOnly} value={item.tax_rate ?? ''} placeholder="—" onChange={(evt) => update(idx, { tax_rate: numberOrUndefined(evt.target.value) })} />
+              </td>
+              <td className="py-1 pr-2">
+                <input type="number" min="0" step="any" className={`${inputClass} w-full`} disabled={readOnly} value={item.tax_amount ?? ''} placeholder={fmt(lineItemTax(item))} onChange={(evt) => update(idx, { tax_amount: numberOrUndefined(evt.target.value) })} />
+              </td>
+              <td className="py-1 pr-2">
+                <select className={`${inputClass} w-full uppercase`} disabled={readOnly} value={item.category || ''} onChange={(evt) => update(idx, { category: evt.target.value || undefined })}>
+                  <option value="">{expense.category}</option>
+                  {categories.filter(cat => cat !== expense.category).map(cat => (
+                    <option key={cat} value={cat}>{cat}</option>
+                  ))}
+                </select>
+              </td>
+              <td className="py-1 pr-2 text-right text-[11px] font-black dark:text-white">{fmt(lineItemTotal(item))}</td>
+              <td className="py-1 text-right">
+                {!readOnly && (
+                  <button onClick={() => setItems(prev => prev.filter((_, i) => i !== idx))} className="p-1.5 text-slate-300 hover:text-red-500">
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {!readOnly && (
+            <button onClick={() => setItems(prev => [...prev, emptyItem()])} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-600">
+              <Plus size={12} /> Add Line
+            </button>
+          )}
+          {splits.map(s => (
+            <span key={s.category} className="px-3 py-1 rounded-full bg-brand-50 dark:bg-brand-500/10 text-[9px] font-black uppercase tracking-widest text-brand-600">
+              {s.category} {expense.currency} {fmt(s.amount)}
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-6">
+          <div className="text-right text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <div>Tax {expense.currency} {fmt(tax)}</div>
+            <div className="text-slate-900 dark:text-white">Itemised {expense.currency} {fmt(total)} / {fmt(Math.abs(expense.amount))}</div>
+            {kept.length > 0 && Math.abs(gap) > 0.01 && (
+              <div className="flex items-center justify-end gap-1 text-amber-600 mt-0.5">
+                <AlertTriangle size={10} />
+                {gap > 0 ? `${fmt(gap)} unitemised (kept in ${expense.category})` : `Lines exceed charge by ${fmt(-gap)} (scaled down)`}
+              </div>
+            )}
+          </div>
+          {!readOnly && (
+            <button onClick={handleSave} className="flex items-center gap-2 px-5 py-2.5 rounded-2xl bg-brand-600 text-white text-[10px] font-black uppercase tracking-widest shadow-lg active:scale-95 transition-all">
+              <Save size={14} /> Save Items
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LineItemEditor;
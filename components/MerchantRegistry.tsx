@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import {
+    Store,
+    Plus,
+    X,
+    Shield,
+    Save,
+    AlertCircle,
+    Trash2,
+    Sparkles
+} from 'lucide-react';
+import { MerchantAlias } from '../types';
+import { saveMerchantAlias, deleteMerchantAlias } from '../firebaseService';
+import { DEFAULT_MERCHANT_ALIASES, MAX_ALIAS_PATTERN_LENGTH, compileAliasPattern } from '../reconciliationEngine';
+
+interface MerchantRegistryProps {
+    aliases: MerchantAlias[];
+}
+
+const splitList = (value: string) => value.split(/[,\n]/).map(v => v.trim()).filter(Boolean);
+
+const MerchantRegistry: React.FC<MerchantRegistryProps> = ({ aliases }) => {
+    const [isAdding, setIsAdding] = useState(false);
+    const [newAlias, setNewAlias] = useState({ canonical_name: '', descriptors: '', patterns: '' });
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const descriptors = splitList(newAlias.descriptors);
+        const patterns = splitList(newAlias.patterns);
+
+        if (descriptors.length === 0 && patterns.length === 0) {
+            alert("Add at least one statement descriptor or regex pattern.");
+            return;
+        }
+        const invalid = patterns.find(p => !compileAliasPattern(p));
+        if (invalid) {
+            alert(`Invalid regex pattern: ${invalid}\nPatterns must compile, stay under ${MAX_ALIAS_PATTERN_LENGTH} characters and not repeat a repeated group.`);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await saveMerchantAlias({ canonical_name: newAlias.canonical_name.trim(), descriptors, patterns });
+            setNewAlias({ canonical_name: '', descriptors: '', patterns: '' });
+            setIsAdding(false);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSeed = async () => {
+        setIsSaving(true);
+        try {
+            await Promise.all(DEFAULT_MERCHANT_ALIASES.map(a => saveMerchantAlias(a)));
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (window.confirm("Are you sure you want to delete this merchant alias?")) {
+            try {
+                await deleteMerchantAlias(id);
+            } catch (err) {
+                console.error(err);
+            }
+        }
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-8 animate-in slide-in-from-bottom-4 duration-500 pb-20">
+            {/* HEADER SECTION */}
+            <div className="bg-white dark:bg-slate-900 p-10 rounded-[3.5rem] border border-slate-100 dark:border-slate-800 shadow-xl relative overflow-hidden">
+                <div className="absolute top-0 right-0 w-64 h-64 bg-brand-500/5 rounded-full blur-3xl -mr-32 -mt-32" />
+
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 relative z-10">
+                    <div className="flex items-center gap-5">
+                        <div className="w-16 h-16 rounded-[2rem] bg-brand-600 flex items-center justify-center text-white shadow-lg shadow-brand-500/30">
+                            <Store size={32} />
+                        </div>
+                        <div>
+                            <h2 className="text-3xl font-black tracking-tighter dark:text-white uppercase">Merchant Alias Registry</h2>
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mt-1">Statement Descriptor Normalization</p>
+                        </div>
+                    </div>
+
+                    <button
+                        onClick={() => setIsAdding(true)}
+                        className="bg-brand-600 hover:bg-brand-700 text-white px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest flex items-center justify-center gap-3 transition-all active:scale-95 shadow-xl shadow-brand-500/20"
+                    >
+                        <Plus size={18} />
+                        Add Merchant
+                    </button>
+                </div>
+            </div>
+
+            {/* GRID OF ALIASES */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {aliases.length === 0 ? (
+                    <div className="col-span-full bg-slate-50 dark:bg-slate-900/40 border-2 border-dashed border-slate-200 dark:border-slate-800 rounded-[3rem] p-20 text-center">
+                        <div className="w-20 h-20 bg-slate-100 dark:bg-slate-800 rounded-full flex items-center justify-center mx-auto mb-6 text-slate-300">
+                            <Shield size={40} />
+                        </div>
+                        <h4 className="text-xl font-black text-slate-900 dark:text-white uppercase mb-2">No Aliases Found</h4>
+                        <p className="text-sm font-medium text-slate-500 max-w-xs mx-auto leading-relaxed mb-8">
+                            Map bank statement descriptors to the brand names printed on receipts so the auditor can pair them.
+                        </p>
+                        <button
+                            onClick={handleSeed}
+                            disabled={isSaving}
+                            className="inline-flex items-center gap-2 px-6 py-3 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-brand-600 hover:border-brand-500 transition-all"
+                        >
+                            <Sparkles size={14} />
+                            {isSaving ? 'Processing...' : 'Load Starter Set'}
+                        </button>
+                    </div>
+                ) : (
+                    aliases.map((a) => (
+                        <div key={a.id} className="group bg-white dark:bg-slate-900 p-8 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-sm hover:shadow-xl hover:-translate-y-1 transition-all duration-300">
+                            <div className="flex items-start justify-between mb-6">
+                                <div>
+                                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Canonical Merchant</p>
+                                    <p className="text-xl font-black dark:text-white tracking-tight uppercase">{a.canonical_name}</p>
+                                </div>
+                                <button
+                                    onClick={() => handleDelete(a.id)}
+                                    className="p-2 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                                >
+                                    <Trash2 size={18} />
+                                </button>
+                            </div>
+
+                            <div className="pt-4 border-t border-slate-50 dark:border-slate-800">
+                                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Descriptors & Patterns</p>
+                                <div className="flex flex-wrap gap-2">
+                                    {(a.descriptors || []).map(d => (
+                                        <span key={d} className="px-3 py-1 bg-brand-50 dark:bg-brand-900/20 text-brand-600 dark:text-brand-400 rounded-lg text-[10px] font-black uppercase tracking-wider">{d}</span>
+                                    ))}
+                                    {(a.patterns || []).map(p => (
+                                        <span key={p} className="px-3 py-1 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg text-[10px] font-mono font-bold">/{p}/i</span>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    ))
+                )}
+            </div>
+
+            {/* ADD MODAL */}
+            {isAdding && (
+                <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
+                    <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-md" onClick={() => setIsAdding(false)} />
+
+                    <form onSubmit={handleSave} className="relative w-full max-w-lg bg-white dark:bg-slate-900 rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+                        <div className="p-10">
+                            <div className="flex items-center justify-between mb-10">
+                                <div className="flex items-center gap-4">
+                                    <div className="w-12 h-12 rounded-2xl bg-brand-600 flex items-center justify-center text-white">
+                                        <Plus size={24} />
+                                    </div>
+                                    <h3 className="text-2xl font-black tracking-tighter uppercase dark:text-white">Create Alias</h3>
+                                </div>
+                                <button type="button" onClick={() => setIsAdding(false)} className="p-3 bg-slate-50 dark:bg-slate-800 rounded-full text-slate-400 hover:text-slate-600 dark:hover:text-white transition-all">
+                                    <X size={20} />
+                                </button>
+                            </div>
+
+                            <div className="space-y-6">
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Canonical Merchant</label>
+                                    <input
+                                        type="text"
+                                        required
+                                        placeholder="e.g. Careem"
+                                        className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-6 py-4 text-sm font-bold focus:ring-4 focus:ring-brand-500/10 focus:border-brand-500 outline-none transition-all dark:text-white"
+                                        value={newAlias.canonical_name}
+                                        onChange={(e) => setNewAlias({ ...newAlias, canonical_name: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Statement Descriptors (comma separated)</label>
+                                    <textarea
+                                        rows={2}
+                                        placeholder="e.g. CAREEM HALA, CAREEM NETWORKS"
+                                        className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-6 py-4 text-sm font-bold focus:ring-4 focus:ring-brand-500/10 focus:border-brand-500 outline-none transition-all dark:text-white resize-none"
+                                        value={newAlias.descriptors}
+                                        onChange={(e) => setNewAlias({ ...newAlias, descriptors: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Regex Patterns (optional)</label>
+                                    <input
+                                        type="text"
+                                        placeholder="e.g. ^CAREEM\s"
+                                        className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-6 py-4 text-sm font-mono font-bold focus:ring-4 focus:ring-brand-500/10 focus:border-brand-500 outline-none transition-all dark:text-white"
+                                        value={newAlias.patterns}
+                                        onChange={(e) => setNewAlias({ ...newAlias, patterns: e.target.value })}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="bg-amber-50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30 p-5 rounded-2xl mt-8 flex gap-3">
+                                <AlertCircle size={18} className="text-amber-600 shrink-0" />
+                                <p className="text-[10px] font-medium text-amber-700 dark:text-amber-500 leading-relaxed">
+                                    Descriptors are matched case-insensitively as whole words in the merchant text. Both the matching engine and the AI auditor use this registry.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="bg-slate-50 dark:bg-slate-800/50 p-6 flex gap-4">
+                            <button
+                                type="button"
+                                onClick={() => setIsAdding(false)}
+                                className="flex-1 px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 hover:bg-slate-50 transition-all"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving}
+                                className="flex-1 px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-white bg-brand-600 hover:bg-brand-700 shadow-lg shadow-brand-500/20 active:scale-95 transition-all flex items-center justify-center gap-3"
+                            >
+                                <Save size={18} />
+                                {isSaving ? 'Processing...' : 'Save Alias'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MerchantRegistry;
@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { X, Save, Utensils, ShieldCheck, ShieldAlert, RotateCcw, AlertCircle } from 'lucide-react';
+import { Expense, PerDiemMeal, PerDiemSettings, Trip } from '../types';
+import { PER_DIEM_DAY_LABELS, PER_DIEM_MEALS, formatPerDiemTotals, perDiemTotals, tripPerDiemDays } from '../perDiem';
+import { tripRoute } from '../trips';
+import { decideTripPerDiem, setTripProvidedMeals } from '../firebaseService';
+
+interface PerDiemEditorProps {
+  trip: Trip;
+  settings?: PerDiemSettings;
+  mealExpenses: Expense[];
+  mealSpend: { amount: number; currency: string };  // mealExpenses converted to the entitlement currency
+  isAdmin?: boolean;
+  onClose: () => void;
+}
+
+const MEAL_SHORT: Record<PerDiemMeal, string> = { breakfast: 'B', lunch: 'L', dinner: 'D' };
+
+// Dates with no meals left are the same as dates never touched
+const compactMeals = (meals: Record<string, PerDiemMeal[]>) =>
+  JSON.stringify(Object.entries(meals).filter(([, list]) => list.length > 0).sort(([a], [b]) => a.localeCompare(b)));
+
+const PerDiemEditor: React.FC<PerDiemEditorProps> = ({ trip, settings, mealExpenses, mealSpend, isAdmin, onClose }) => {
+  const [meals, setMeals] = useState<Record<string, PerDiemMeal[]>>(trip.provided_meals || {});
+  const [note, setNote] = useState(trip.per_diem?.note || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const days = useMemo(() => tripPerDiemDays({ ...trip, provided_meals: meals }, settings), [trip, meals, settings]);
+  const totals = perDiemTotals(days);
+  const missingRates = days.filter(d => d.rate === undefined);
+  const decision = trip.per_diem;
+  const decidedTotals = decision ? perDiemTotals(decision.days) : null;
+  const changedSinceDecision = !!decidedTotals && formatPerDiemTotals(decidedTotals) !== formatPerDiemTotals(totals);
+  const mealsChanged = compactMeals(meals) !== compactMeals(trip.provided_meals || {});
+
+  const toggleMeal = (date: string, meal: PerDiemMeal) => {
+    setMeals(prev => {
+      const current = prev[date] || [];
+      const next = current.includes(meal) ? current.filter(m => m !== meal) : PER_DIEM_MEALS.filter(m => m === meal || current.includes(m));
+      return { ...prev, [date]: next };
+    });
+  };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onClose();
+    } catch (e) {
+      console.error(e);
+      alert(failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveMeals = () => run(() => setTripProvidedMeals(trip.id, meals), "Failed to save provided meals");
+
+  const handleDecide = (status: 'approved' | 'rejected') => run(async () => {
+    if (mealsChanged) await setTripProvidedMeals(trip.id, meals);
+    await decideTripPerDiem(trip.id, { status, days, note: note.trim() || undefined });
+  }, "Failed to record the per diem decision");
+
+  const handleReopen = () => run(() => decideTripPerDiem(trip.id, null), "Failed to reopen the per diem");
+
+  const sectionLabel = "text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-md" onClick={onClose} />
+      <div className="relative w-full max-w-4xl bg-white dark:bg-slate-900 rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-10 py-6 flex items-center justify-between border-b border-slate-100 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl bg-brand-600 flex items-center justify-center text-white">
+              <Utensils size={22} />
+            </div>
+            <div>
+              <h3 className="text-xl font-black uppercase tracking-tighter dark:text-white">Per Diem • {trip.title || tripRoute(trip)}</h3>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{trip.start_date} – {trip.end_date || 'open'} • {days.length} days</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-10 space-y-8 max-h-[60vh] overflow-y-auto">
+          {decision && (
+            <div className={`flex items-center gap-3 p-5 rounded-2xl text-[11px] font-bold ${decision.status === 'approved' ? 'bg-emerald-50 dark:bg-emerald-500/10 text-emerald-600' : 'bg-red-50 dark:bg-red-500/10 text-red-600'}`}>
+              {decision.status === 'approved' ? <ShieldCheck size={18} /> : <ShieldAlert size={18} />}
+              {decision.status === 'approved' ? 'Approved' : 'Rejected'} by {decision.decided_by} on {decision.decided_at.slice(0, 10)} at {formatPerDiemTotals(decidedTotals!)}
+              {decision.note ? ` • ${decision.note}` : ''}
+              {changedSinceDecision && <span className="ml-auto text-orange-500">Entitlement has changed since</span>}
+            </div>
+          )}
+
+          {missingRates.length > 0 && (
+            <div className="flex items-center gap-3 p-5 rounded-2xl bg-orange-50 dark:bg-orange-500/10 text-orange-600 text-[11px] font-bold">
+              <AlertCircle size={18} />
+              No per diem rate for {Array.from(new Set(missingRates.map(d => d.city || d.country))).join(', ')}; those days pay nothing until an admin adds the rate.
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-12 gap-2 px-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+              <span className="col-span-2">Date</span>
+              <span className="col-span-3">Place</span>
+              <span className="col-span-2">Day</span>
+              <span className="col-span-2">Meals Provided</span>
+              <span className="col-span-1 text-right">Deduct</span>
+              <span className="col-span-2 text-right">Allowance</span>
+            </div>
+            {days.map(day => (
+              <div key={day.date} className="grid grid-cols-12 gap-2 items-center text-[11px] font-bold dark:text-white">
+                <span className="col-span-2">{day.date}</span>
+                <span className="col-span-3 truncate">{day.city || day.country}{day.city ? <span className="text-slate-400"> • {day.country}</span> : null}</span>
+                <span className="col-span-2 text-[10px] text-slate-500">{PER_DIEM_DAY_LABELS[day.day_type]}{day.percent !== 100 ? ` ${day.percent}%` : ''}</span>
+                <div className="col-span-2 flex gap-1">
+                  {PER_DIEM_MEALS.map(meal => (
+                    <button
+                      key={meal}
+                      onClick={() => toggleMeal(day.date, meal)}
+                      title={`${meal.charAt(0).toUpperCase() + meal.slice(1)} provided`}
+                      className={`w-7 h-7 rounded-lg text-[10px] font-black transition-all ${day.meals_provided.includes(meal) ? 'bg-brand-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-slate-600'}`}
+                    >
+                      {MEAL_SHORT[meal]}
+                    </button>
+                  ))}
+                </div>
+                <span className="col-span-1 text-right text-slate-400">{day.deduction > 0 ? `-${day.deduction.toLocaleString()}` : '-'}</span>
+                <span className={`col-span-2 text-right ${day.rate === undefined ? 'text-orange-500' : ''}`}>
+                  {day.rate === undefined ? 'No rate' : `${day.currency} ${day.amount.toLocaleString()}`}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-6">
+            <div className="p-6 bg-slate-50 dark:bg-slate-800/40 rounded-[2rem]">
+              <p className={sectionLabel}>Entitlement</p>
+              <h4 className="text-2xl font-black tracking-tighter dark:text-white">{formatPerDiemTotals(totals)}</h4>
+            </div>
+            <div className="p-6 bg-slate-50 dark:bg-slate-800/40 rounded-[2rem]">
+              <p className={sectionLabel}>Actual Meal Spend</p>
+              <h4 className="text-2xl font-black tracking-tighter dark:text-white">{mealSpend.currency} {(Math.round(mealSpend.amount * 100) / 100).toLocaleString()}</h4>
+              <p className="text-[10px] font-bold text-slate-400">{mealExpenses.length} meal expense{mealExpenses.length === 1 ? '' : 's'} during the trip</p>
+            </div>
+          </div>
+
+          {isAdmin && (
+            <input
+              className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-[11px] font-bold outline-none focus:ring-2 ring-brand-500/20 dark:text-white"
+              placeholder="Decision note (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          )}
+        </div>
+
+        <div className="px-10 py-6 flex flex-wrap items-center justify-between gap-4 border-t border-slate-100 dark:border-slate-800">
+          <button
+            onClick={handleSaveMeals}
+            disabled={isSaving || !mealsChanged}
+            title={decision ? 'Saving meals sends the per diem back to review' : undefined}
+            className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 text-[10px] font-black uppercase tracking-widest disabled:opacity-40 active:scale-95 transition-all"
+          >
+            <Save size={14} /> Save Meals
+          </button>
+          {isAdmin && (
+            <div className="flex items-center gap-3">
+              {decision ? (
+                <button
+                  onClick={handleReopen}
+                  disabled={isSaving}
+                  className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-slate-900 dark:bg-slate-700 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-40 active:scale-95 transition-all"
+                >
+                  <RotateCcw size={14} /> Reopen
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={() => handleDecide('rejected')}
+                    disabled={isSaving}
+                    className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-red-50 dark:bg-red-500/10 text-red-600 text-[10px] font-black uppercase tracking-widest disabled:opacity-40 active:scale-95 transition-all"
+                  >
+                    <ShieldAlert size={14} /> Reject
+                  </button>
+                  <button
+                    onClick={() => handleDecide('approved')}
+                    disabled={isSaving || trip.status === 'open' || days.length === 0}
+                    title={trip.status === 'open' ? 'The trip has no return yet' : undefined}
+                    className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-emerald-500 text-white text-[10px] font-black uppercase tracking-widest shadow-lg disabled:opacity-40 active:scale-95 transition-all"
+                  >
+                    <ShieldCheck size={14} /> Approve
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PerDiemEditor;
@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Expense, ReconciliationResult, ReconciliationReport } from '../types';
+import { Expense, ReconciliationResult, ReconciliationReport, MerchantAlias, ReconciliationOverride, Subscription } from '../types';
 import {
   CheckCircle2,
   AlertTriangle,
@@ -25,9 +25,21 @@ import {
   ChevronRight,
   ShieldCheck as AuditShield,
   Calendar as AuditCalendar,
-  MessageCircle
+  MessageCircle,
+  Link2,
+  Unlink,
+  Ban,
+  Undo2,
+  RotateCcw,
+  Repeat,
+  X
 } from 'lucide-react';
-import { getExchangeRates, convertToUSD, convertToBaseCurrency, getCurrencySymbol, ExchangeRates } from '../currencyService';
+import { getExchangeRates, convertToBaseCurrency, getCurrencySymbol, ExchangeRates } from '../currencyService';
+import { isAnchor, isCredit, findReversals, scorePair, scoreGroup, runMatchingEngine, describeMatch, merchantSimilarity, resolveMerchant, resolveOverrides, matchAnchorIds, matchProofIds, isMandatoryTravel } from '../reconciliationEngine';
+import { learnMerchantAlias, saveReconciliationOverride, deleteReconciliationOverride } from '../firebaseService';
+import EvidenceViewer from './EvidenceViewer';
+import { expandAllocations, inheritAllocations } from '../allocations';
+import { subscriptionCoverage } from '../subscriptions';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import * as XLSX from 'xlsx';
@@ -46,8 +58,22 @@ interface ReconcilerProps {
   currentUserEmail: string;
   bankMappings?: any[];
   reportingCurrency?: string;
+  merchantAliases?: MerchantAlias[];
+  overrides?: ReconciliationOverride[];
+  subscriptions?: Subscription[];
+  isAdmin?: boolean;               // Manual matches, unmatches and exemptions are admin decisions
 }
 
+type MatchedPair = {
+  bank: Expense;           // Primary anchor
+  banks: Expense[];        // All anchors (deposit + final charge groups)
+  receipt: Expense;        // Primary proof
+  proofs: Expense[];       // All linked proofs (manual links may attach several)
+  label: string;
+  summary: string;
+  manual?: ReconciliationOverride;
+};
+
 const Reconciler: React.FC<ReconcilerProps> = ({
   expenses,
   reconciliation,
@@ -61,7 +87,11 @@ const Reconciler: React.FC<ReconcilerProps> = ({
   evidenceThreshold,
   currentUserEmail,
   bankMappings = [],
-  reportingCurrency = 'USD'
+  reportingCurrency = 'USD',
+  merchantAliases = [],
+  overrides = [],
+  subscriptions = [],
+  isAdmin = false
 }) => {
   const [exchangeData, setExchangeData] = useState<ExchangeRates | null>(null);
 
@@ -79,10 +109,10 @@ const Reconciler: React.FC<ReconcilerProps> = ({
 
     const tableData = filteredData.matched.map(p => [
       p.bank?.date || '',
-      p.bank?.merchant || '',
+      p.banks.map(b => b.merchant).join(' + '),
       p.bank?.category || '',
-      `${p.bank?.currency} ${p.bank?.amount.toLocaleString()}`,
-      p.label || 'Verified'
+      p.banks.map(b => `${b.currency} ${b.amount.toLocaleString()}`).join(' + '),
+      p.manual ? `MANUAL (${formatOverrideStamp(p.manual)})` : isGroupPair(p) ? groupLabel(p) : (p.label || 'Verified')
     ]);
 
     autoTable(doc, {
@@ -95,6 +125,27 @@ const Reconciler: React.FC<ReconcilerProps> = ({
 
     let currentY = (doc as any).lastAutoTable.finalY + 15;
 
+    const groupPairs = filteredData.matched.filter(isGroupPair);
+    if (groupPairs.length > 0) {
+      doc.setFontSize(14);
+      doc.setTextColor(26, 39, 255);
+      doc.text("SPLIT PAYMENT / GROUP MATCHES", 14, currentY);
+
+      const groupData = groupPairs.flatMap((p, gIdx) => [
+        ...p.banks.map(b => [`G${gIdx + 1}`, 'BANK', b.date, b.merchant, `${b.currency} ${b.amount.toLocaleString()}`]),
+        ...p.proofs.map(r => [`G${gIdx + 1}`, 'PROOF', r.date, r.merchant, `${r.currency} ${r.amount.toLocaleString()}`])
+      ]);
+
+      autoTable(doc, {
+        startY: currentY + 5,
+        head: [['Group', 'Side', 'Date', 'Merchant', 'Amount']],
+        body: groupData,
+        theme: 'grid',
+        headStyles: { fillColor: [26, 39, 255] }
+      });
+      currentY = (doc as any).lastAutoTable.finalY + 15;
+    }
+
     if (filteredData.mandatoryMissing.length > 0) {
       doc.setFontSize(14);
       doc.setTextColor(220, 38, 38);
@@ -130,6 +181,88 @@ const Reconciler: React.FC<ReconcilerProps> = ({
         theme: 'grid',
         headStyles: { fillColor: [217, 119, 6] }
       });
+      currentY = (doc as any).lastAutoTable.finalY + 15;
+    }
+
+    if (filteredData.exempt.length > 0) {
+      doc.setFontSize(14);
+      doc.setTextColor(71, 85, 105);
+      doc.text("NO RECEIPT EXPECTED (MANUAL)", 14, currentY);
+
+      autoTable(doc, {
+        startY: currentY + 5,
+        head: [['Date', 'Merchant', 'Amount', 'Reason', 'Approved']],
+        body: filteredData.exempt.map(x => [
+          x.exp.date, x.exp.merchant, `${x.exp.currency} ${x.exp.amount.toLocaleString()}`, x.override.reason || '', formatOverrideStamp(x.override)
+        ]),
+        theme: 'grid',
+        headStyles: { fillColor: [71, 85, 105] }
+      });
+      currentY = (doc as any).lastAutoTable.finalY + 15;
+    }
+
+    if (filteredData.subscriptionCovered.length > 0) {
+      doc.setFontSize(14);
+      doc.setTextColor(79, 70, 229);
+      doc.text("COVERED BY SUBSCRIPTION", 14, currentY);
+
+      autoTable(doc, {
+        startY: currentY + 5,
+        head: [['Date', 'Merchant', 'Amount', 'Subscription', 'Contract']],
+        body: filteredData.subscriptionCovered.map(x => [
+          x.exp.date, x.exp.merchant, `${x.exp.currency} ${x.exp.amount.toLocaleString()}`,
+          `${x.subscription.merchant} (${x.subscription.currency} ${x.subscription.amount.toLocaleString()} ${x.subscription.cadence})`,
+          x.subscription.contract?.file_name || '-'
+        ]),
+        theme: 'grid',
+        headStyles: { fillColor: [79, 70, 229] }
+      });
+      currentY = (doc as any).lastAutoTable.finalY + 15;
+    }
+
+    if (filteredData.reversedPairs.length > 0) {
+      doc.setFontSize(14);
+      doc.setTextColor(13, 148, 136);
+      doc.text("REFUNDS & REVERSALS (EXCLUDED FROM SCORE WHEN FULL)", 14, currentY);
+
+      autoTable(doc, {
+        startY: currentY + 5,
+        head: [['Charge Date', 'Merchant', 'Charged', 'Credits', 'Reversed', 'Status']],
+        body: filteredData.reversedPairs.map(r => [
+          r.debit.date,
+          r.debit.merchant,
+          `${r.debit.currency} ${r.debit.amount.toLocaleString()}`,
+          r.credits.map(c => `${c.date} ${c.transaction_type?.toUpperCase() || 'CREDIT'}`).join(', '),
+          `${r.debit.currency} ${r.amountReversed.toLocaleString(undefined, { maximumFractionDigits: 2 })}`,
+          r.full ? 'FULLY REVERSED' : 'PARTIAL REFUND'
+        ]),
+        theme: 'grid',
+        headStyles: { fillColor: [13, 148, 136] }
+      });
+      currentY = (doc as any).lastAutoTable.finalY + 15;
+    }
+
+    if (filteredData.policyFlagged.length > 0) {
+      doc.setFontSize(14);
+      doc.setTextColor(190, 18, 60);
+      doc.text("POLICY VIOLATIONS", 14, currentY);
+
+      autoTable(doc, {
+        startY: currentY + 5,
+        head: [['Date', 'Merchant', 'Amount', 'Rule', 'Severity', 'Finding', 'Justification']],
+        body: filteredData.policyFlagged.flatMap(e => (e.policy_violations || []).map(v => [
+          e.date,
+          e.merchant,
+          `${e.currency} ${e.amount.toLocaleString()}`,
+          v.rule_name,
+          v.severity.toUpperCase(),
+          v.message,
+          v.justification ? `${v.justification} (${v.justified_by || ''})` : 'OPEN'
+        ])),
+        theme: 'grid',
+        headStyles: { fillColor: [190, 18, 60] },
+        styles: { fontSize: 8 }
+      });
     }
 
     doc.save(`Audit_${period.month}_${period.year}_${auditBank.replace(/\s+/g, '_')}.pdf`);
@@ -139,24 +272,42 @@ const Reconciler: React.FC<ReconcilerProps> = ({
     const workbook = XLSX.utils.book_new();
 
     // 1. Verified Ledger
-    const verifiedData = filteredData.matched.map(p => ({
-      Date: p.bank?.date,
-      Merchant: p.bank?.merchant,
-      Category: p.bank?.category,
-      Amount: p.bank?.amount,
-      Currency: p.bank?.currency,
-      Status: p.label,
-      Bank: p.bank?.bank || auditBank
-    }));
+    const groupPairs = filteredData.matched.filter(isGroupPair);
+    // One row per allocation share; receipts lend their split to the statement line they prove
+    const verifiedData = filteredData.matched.flatMap(p => expandAllocations(p.banks.map(b => inheritAllocations(b, p.proofs))).map(({ expense: b, share, amount }) => ({
+      Date: b.date,
+      Merchant: b.merchant,
+      Project: share.project,
+      Cost_Center: share.cost_center,
+      Category: share.category,
+      Amount: amount,
+      Currency: b.currency,
+      Status: p.manual ? 'MANUAL' : isGroupPair(p) ? groupLabel(p) : p.label,
+      Group: isGroupPair(p) ? `G${groupPairs.indexOf(p) + 1}` : '',
+      Receipts: p.proofs.map(r => r.merchant).join(' + '),
+      Matched_By: p.manual?.created_by || 'System',
+      Matched_At: p.manual?.created_at || '',
+      Bank: b.bank || auditBank
+    })));
     const verifiedSheet = XLSX.utils.json_to_sheet(verifiedData);
     XLSX.utils.book_append_sheet(workbook, verifiedSheet, "Verified Ledger");
 
+    // 1b. Group Matches (every member of each split-payment group)
+    const groupData = groupPairs.flatMap((p, gIdx) => [
+      ...p.banks.map(b => ({ Group: `G${gIdx + 1}`, Side: 'BANK', Date: b.date, Merchant: b.merchant, Amount: b.amount, Currency: b.currency })),
+      ...p.proofs.map(r => ({ Group: `G${gIdx + 1}`, Side: 'PROOF', Date: r.date, Merchant: r.merchant, Amount: r.amount, Currency: r.currency }))
+    ]);
+    const groupSheet = XLSX.utils.json_to_sheet(groupData);
+    XLSX.utils.book_append_sheet(workbook, groupSheet, "Match Groups");
+
     // 2. Mandatory Proof Required
-    const mandatoryData = filteredData.mandatoryMissing.map(e => ({
+    const mandatoryData = expandAllocations(filteredData.mandatoryMissing).map(({ expense: e, share, amount }) => ({
       Date: e.date,
       Merchant: e.merchant,
-      Category: e.category,
-      Amount: e.amount,
+      Project: share.project,
+      Cost_Center: share.cost_center,
+      Category: share.category,
+      Amount: amount,
       Currency: e.currency,
       Status: "MISSING",
       Bank: e.bank || auditBank
@@ -165,11 +316,13 @@ const Reconciler: React.FC<ReconcilerProps> = ({
     XLSX.utils.book_append_sheet(workbook, mandatorySheet, "Mandatory Proof");
 
     // 3. General Evidence
-    const generalData = filteredData.standardMissing.map(e => ({
+    const generalData = expandAllocations(filteredData.standardMissing).map(({ expense: e, share, amount }) => ({
       Date: e.date,
       Merchant: e.merchant,
-      Category: e.category,
-      Amount: e.amount,
+      Project: share.project,
+      Cost_Center: share.cost_center,
+      Category: share.category,
+      Amount: amount,
       Currency: e.currency,
       Status: "UNMATCHED",
       Bank: e.bank || auditBank
@@ -177,6 +330,48 @@ const Reconciler: React.FC<ReconcilerProps> = ({
     const generalSheet = XLSX.utils.json_to_sheet(generalData);
     XLSX.utils.book_append_sheet(workbook, generalSheet, "General Evidence");
 
+    // 4. No Receipt Expected (Manual Exemptions)
+    const exemptData = filteredData.exempt.map(x => ({
+      Date: x.exp.date,
+      Merchant: x.exp.merchant,
+      Amount: x.exp.amount,
+      Currency: x.exp.currency,
+      Reason: x.override.reason || '',
+      Approved_By: x.override.created_by,
+      Approved_At: x.override.created_at
+    }));
+    const exemptSheet = XLSX.utils.json_to_sheet(exemptData);
+    XLSX.utils.book_append_sheet(workbook, exemptSheet, "No Receipt Expected");
+
+    // 4b. Covered by a confirmed subscription
+    const subscriptionData = filteredData.subscriptionCovered.map(x => ({
+      Date: x.exp.date,
+      Merchant: x.exp.merchant,
+      Amount: x.exp.amount,
+      Currency: x.exp.currency,
+      Subscription: x.subscription.merchant,
+      Cadence: x.subscription.cadence,
+      Contract: x.subscription.contract?.file_name || ''
+    }));
+    const subscriptionSheet = XLSX.utils.json_to_sheet(subscriptionData);
+    XLSX.utils.book_append_sheet(workbook, subscriptionSheet, "Subscriptions");
+
+    // 5. Refunds & Reversals (one row per credit, netted against its original charge)
+    const reversalData = filteredData.reversedPairs.flatMap(r => r.credits.map(c => ({
+      Charge_Date: r.debit.date,
+      Merchant: r.debit.merchant,
+      Charged: r.debit.amount,
+      Currency: r.debit.currency,
+      Credit_Date: c.date,
+      Credit_Type: (c.transaction_type || 'credit').toUpperCase(),
+      Credit_Amount: Math.abs(c.amount),
+      Credit_Currency: c.currency,
+      Status: r.full ? 'FULLY REVERSED' : 'PARTIAL REFUND',
+      Bank: r.debit.bank || auditBank
+    })));
+    const reversalSheet = XLSX.utils.json_to_sheet(reversalData);
+    XLSX.utils.book_append_sheet(workbook, reversalSheet, "Refunds & Reversals");
+
     XLSX.writeFile(workbook, `Audit_${period.month}_${period.year}_${auditBank.replace(/\s+/g, '_')}.xlsx`);
   };
 
@@ -184,6 +379,105 @@ const Reconciler: React.FC<ReconcilerProps> = ({
     getExchangeRates().then(setExchangeData);
   }, []);
 
+  /**
+   * ALIAS LEARNING: When a confirmed pair only matched on amount/date, offer to
+   * record the statement descriptor as an alias of the receipt's merchant.
+   */
+  const handleLearnAlias = async (bankMerchant: string, receiptMerchant: string) => {
+    const canonical = resolveMerchant(receiptMerchant, merchantAliases) || receiptMerchant;
+    if (!window.confirm(`Learn alias: treat statement descriptor "${bankMerchant}" as "${canonical}" in future audits?`)) return;
+    try {
+      await learnMerchantAlias(canonical, bankMerchant, merchantAliases);
+    } catch (err) {
+      console.error("Alias learning failed:", err);
+      alert("Could not save the merchant alias. Only admins can edit the registry.");
+    }
+  };
+
+  const isGroupPair = (p: MatchedPair) => p.banks.length > 1 || p.proofs.length > 1;
+  const groupLabel = (p: MatchedPair) => `GROUP (${p.banks.length} BANK ↔ ${p.proofs.length} PROOF)`;
+
+  // --- MANUAL OVERRIDES ---
+  const reconciliationKey = `${period.year}-${period.month}`;
+  const [linkingAnchor, setLinkingAnchor] = useState<Expense | null>(null);
+  const [selectedProofIds, setSelectedProofIds] = useState<string[]>([]);
+  const [proofSearch, setProofSearch] = useState('');
+  const [evidencePair, setEvidencePair] = useState<{ title: string; records: Expense[] } | null>(null);
+
+  const closeLinkModal = () => {
+    setLinkingAnchor(null);
+    setSelectedProofIds([]);
+    setProofSearch('');
+  };
+
+  const handleConfirmLink = async () => {
+    if (!linkingAnchor || selectedProofIds.length === 0) return;
+    const anchor = linkingAnchor;
+    const primary = expenses.find(e => e.id === selectedProofIds[0]);
+    try {
+      await saveReconciliationOverride({
+        reconciliation_key: reconciliationKey,
+        type: 'match',
+        anchor_id: anchor.id,
+        proof_ids: selectedProofIds
+      });
+      closeLinkModal();
+      if (primary && merchantSimilarity(anchor.merchant, primary.merchant, merchantAliases) < 0.85) {
+        await handleLearnAlias(anchor.merchant, primary.merchant);
+      }
+    } catch (err) {
+      console.error("Manual match failed:", err);
+      alert("Could not save the manual match.");
+    }
+  };
+
+  const handleUnmatch = async (pair: MatchedPair) => {
+    if (!window.confirm(`Break the match between "${pair.bank.merchant}" and "${pair.receipt.merchant}"?`)) return;
+    try {
+      if (pair.manual) {
+        await deleteReconciliationOverride(pair.manual.id);
+      } else {
+        // One rejection per anchor so every member of a group stays apart on later runs
+        await Promise.all(pair.banks.map(b => saveReconciliationOverride({
+          reconciliation_key: reconciliationKey,
+          type: 'unmatch',
+          anchor_id: b.id,
+          proof_ids: pair.proofs.map(p => p.id)
+        })));
+      }
+    } catch (err) {
+      console.error("Unmatch failed:", err);
+      alert("Could not break the match.");
+    }
+  };
+
+  const handleNoReceipt = async (exp: Expense) => {
+    const reason = window.prompt(`Why is no receipt expected for "${exp.merchant}" (${exp.currency} ${exp.amount})?`);
+    if (!reason || !reason.trim()) return;
+    try {
+      await saveReconciliationOverride({
+        reconciliation_key: reconciliationKey,
+        type: 'no_receipt',
+        anchor_id: exp.id,
+        reason: reason.trim()
+      });
+    } catch (err) {
+      console.error("No-receipt override failed:", err);
+      alert("Could not save the exemption.");
+    }
+  };
+
+  const handleUndoOverride = async (id: string) => {
+    try {
+      await deleteReconciliationOverride(id);
+    } catch (err) {
+      console.error("Override removal failed:", err);
+    }
+  };
+
+  const formatOverrideStamp = (o: ReconciliationOverride) =>
+    `${o.created_by.split('@')[0]} • ${(o.created_at || '').split('T')[0]}`;
+
   const monthsList = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
 
   const filteredData = useMemo(() => {
@@ -206,14 +500,6 @@ const Reconciler: React.FC<ReconcilerProps> = ({
       return yearMatch && monthMatch;
     };
 
-    /**
-     * AUDIT ANCHOR ENGINE
-     */
-    const isAnchor = (e: Expense) => {
-      const src = String(e.source || '').toLowerCase().trim();
-      return src === 'bank_statement' || src === 'credit_card_statement';
-    };
-
     const allAnchorsInPeriod = expenses.filter(e =>
       isAnchor(e) &&
       isTargetPeriod(e.date) &&
@@ -228,114 +514,152 @@ const Reconciler: React.FC<ReconcilerProps> = ({
     const expenseMap = new Map<string, Expense>();
     expenses.forEach(e => { if (e.id) expenseMap.set(String(e.id), e); });
 
-    // 1. Initial Matcher (AI Results)
-    let matchedPairs = (reconciliation?.matched || []).map(m => {
-      const bank = m.bankId ? expenseMap.get(String(m.bankId)) : null;
-      const receipt = (m.receiptId || m.emailId) ? expenseMap.get(String(m.receiptId || m.emailId || '')) : null;
+    const proofPool = expenses.filter(e => !isAnchor(e));
+    // Policy findings travel with the audit, whichever side of the match they sit on
+    const policyFlagged = expenses.filter(e =>
+      (e.policy_violations || []).length > 0 &&
+      isTargetPeriod(e.date) &&
+      (auditBank === "All Accounts" || !isAnchor(e) || e.bank === auditBank)
+    );
 
-      /**
-       * FORENSIC AIR-GAP GUARD
-       * 1. Unique IDs: Never match an item to itself.
-       * 2. Source Integrity: Bank records can only match non-bank records.
-       */
-      if (!bank || !receipt || bank.id === receipt.id || isAnchor(receipt)) return null;
+    // 0. Manual Overrides (applied before any automatic matching)
+    const manualResult = resolveOverrides(allAnchorsInPeriod, proofPool, overrides);
+    const overrideMap = new Map(overrides.map(o => [o.id, o]));
+    const matchedPairs: MatchedPair[] = [];
+
+    manualResult.manual.forEach(m => {
+      const bank = expenseMap.get(m.anchorId);
+      const linked = matchProofIds(m).map(id => expenseMap.get(id)).filter(Boolean) as Expense[];
+      const override = m.overrideId ? overrideMap.get(m.overrideId) : undefined;
+      if (!bank || linked.length === 0) return;
+      matchedPairs.push({
+        bank,
+        banks: [bank],
+        receipt: linked[0],
+        proofs: linked,
+        label: 'MANUAL MATCH',
+        summary: describeMatch(m),
+        manual: override
+      });
+    });
+
+    const exempt = allAnchorsInPeriod
+      .filter(b => manualResult.exempt.has(b.id))
+      .map(exp => ({
+        exp,
+        override: overrides.find(o => o.anchor_id === exp.id && o.type === 'no_receipt')!
+      }))
+      .filter(x => x.override);
+
+    /**
+     * REFUND NETTING: credits are paired with their original charge across the whole vault
+     * (a refund often posts in a later month). Credits and fully reversed charges need no receipt.
+     */
+    const netting = findReversals(
+      totalVaultAnchors.filter(b => !manualResult.exempt.has(b.id) && !matchedPairs.some(p => p.bank.id === b.id)),
+      { rates, aliases: merchantAliases }
+    );
+    const reversedIds = new Set(netting.reversedAnchors);
+    const periodIds = new Set(allAnchorsInPeriod.map(b => b.id));
+    const reversedPairs = Array.from(new Set(netting.reversals.map(r => r.debitId)))
+      .map(debitId => {
+        const links = netting.reversals.filter(r => r.debitId === debitId);
+        return {
+          debit: expenseMap.get(debitId)!,
+          credits: links.map(r => expenseMap.get(r.creditId)!).filter(Boolean),
+          amountReversed: links.reduce((acc, r) => acc + r.amount, 0),
+          full: reversedIds.has(debitId)
+        };
+      })
+      .filter(r => r.debit && (periodIds.has(r.debit.id) || r.credits.some(c => periodIds.has(c.id))));
+    const periodCredits = allAnchorsInPeriod.filter(isCredit);
+    const noReceiptNeeded = (b: Expense) => isCredit(b) || reversedIds.has(b.id);
+
+    const lockedBankIds = new Set([...matchedPairs.map(p => p.bank.id), ...Array.from(manualResult.exempt)]);
+    const lockedReceiptIds = new Set(matchedPairs.flatMap(p => p.proofs.map(r => r.id)));
+
+    // 1. Server Matches (Deterministic Engine + AI Leftovers, incl. split-payment groups)
+    (reconciliation?.matched || []).forEach(m => {
+      if (m.method === 'manual') return;
+      const bankIds = m.bankIds || (m.bankId ? [m.bankId] : []);
+      const receiptIds = m.receiptIds || ((m.receiptId || m.emailId) ? [String(m.receiptId || m.emailId)] : []);
+      const banks = bankIds.map(id => expenseMap.get(String(id))).filter(Boolean) as Expense[];
+      const receipts = receiptIds.map(id => expenseMap.get(String(id))).filter(Boolean) as Expense[];
+      if (banks.length === 0 || receipts.length === 0 || banks.length !== bankIds.length || receipts.length !== receiptIds.length) return;
+      if (banks.some(b => lockedBankIds.has(b.id)) || receipts.some(r => lockedReceiptIds.has(r.id))) return;
+      if (banks.some(b => receipts.some(r => manualResult.rejected.has(`${b.id}::${r.id}`)))) return;
 
       /**
        * FORENSIC VALIDATION LAYER (Hard Guardrail)
-       * Use INR as Common Denominator for cross-currency parity.
+       * Re-score with the shared engine so stale or edited records cannot stay matched.
        */
-      const bDate = new Date(bank.date).getTime();
-      const rDate = new Date(receipt.date).getTime();
-      const diffDays = Math.abs(bDate - rDate) / (1000 * 60 * 60 * 24);
-
-      const bUSD = convertToUSD(bank.amount, bank.currency, rates, bank.date);
-      const rUSD = convertToUSD(receipt.amount, receipt.currency, rates, receipt.date);
-
-      // FOR CROSS-CURRENCY: Allow 5% margin if AI suggested it
-      const sameCurrency = bank.currency === receipt.currency;
-      const sameAmt = sameCurrency ? Math.abs(bank.amount - receipt.amount) < 0.10 : Math.abs(bUSD - rUSD) < (bUSD * 0.05);
-
-      // MERCHANT SYNONYM CHECK
-      const bMerc = bank.merchant.toLowerCase();
-      const rMerc = receipt.merchant.toLowerCase();
-      const isTele = (m: string) => m.includes('e&') || m.includes('etisalat');
-      const isRTA = (m: string) => m.includes('rta') || m.includes('road & transport') || m.includes('dubai metro') || m.includes('hala taxi');
-      const mercMatch = (isTele(bMerc) && isTele(rMerc)) ||
-        (isRTA(bMerc) && isRTA(rMerc)) ||
-        rMerc.includes(bMerc.substring(0, 4)) ||
-        bMerc.includes(rMerc.substring(0, 4));
-
-      const isHotel = bank.category.toLowerCase().includes('lodging') || bank.category.toLowerCase().includes('hotel') || receipt.category.toLowerCase().includes('lodging') || receipt.category.toLowerCase().includes('hotel');
-      const maxDays = isHotel ? 14 : 7;
-
-      if (diffDays > maxDays || !sameAmt || !mercMatch) return null;
-
-      return { bank, receipt, label: m.proofLabel, summary: m.summary };
-    }).filter((pair): pair is { bank: Expense, receipt: Expense, label: string, summary: string } => {
-      if (!pair) return false;
-      const rDigits = pair.receipt.card_digits?.replace(/\D/g, '').slice(-4);
-      const rMatch = bankMappings.find(m => m.card_digits.replace(/\D/g, '').slice(-4) === rDigits);
-      const receiptBank = rMatch?.bank_name || pair.receipt.bank;
-
-      return isTargetPeriod(pair.bank.date) &&
-        (auditBank === "All Accounts" || pair.bank.bank === auditBank || receiptBank === auditBank);
+      const isGroup = banks.length > 1 || receipts.length > 1;
+      const check = isGroup
+        ? scoreGroup(banks, receipts, { rates, aliases: merchantAliases })
+        : scorePair(banks[0], receipts[0], { rates, aliases: merchantAliases });
+      if (!check) return;
+
+      const receiptBanks = receipts.map(r => {
+        const rDigits = r.card_digits?.replace(/\D/g, '').slice(-4);
+        const rMatch = bankMappings.find(bm => bm.card_digits.replace(/\D/g, '').slice(-4) === rDigits);
+        return rMatch?.bank_name || r.bank;
+      });
+      if (!banks.some(b => isTargetPeriod(b.date))) return;
+      if (!(auditBank === "All Accounts" || banks.some(b => b.bank === auditBank) || receiptBanks.includes(auditBank))) return;
+
+      matchedPairs.push({
+        bank: banks[0],
+        banks,
+        receipt: receipts[0],
+        proofs: receipts,
+        label: isGroup ? 'GROUP MATCH' : (m.proofLabel || 'Verified'),
+        summary: m.summary || describeMatch(check)
+      });
+      banks.forEach(b => lockedBankIds.add(b.id));
+      receipts.forEach(r => lockedReceiptIds.add(r.id));
     });
 
-    // 2. Heuristic Fallback Matcher (±3 Day Clearance Window)
-    const matchedBankIds = new Set(matchedPairs.map(p => p.bank?.id).filter(Boolean));
-    const unmatchedAnchors = allAnchorsInPeriod.filter(b => !matchedBankIds.has(b.id));
-    const availableReceipts = expenses.filter(e => !isAnchor(e) && !matchedPairs.some(p => p.receipt?.id === e.id));
-
-    unmatchedAnchors.forEach(bankTx => {
-      // Find a forensic match: same amount + 3-day window + fuzzy merchant
-      const autoMatch = availableReceipts.find(rec => {
-        const bUSD = convertToUSD(bankTx.amount, bankTx.currency, rates, bankTx.date);
-        const rUSD = convertToUSD(rec.amount, rec.currency, rates, rec.date);
-
-        // Date Clearance Window Logic
-        const bDate = new Date(bankTx.date).getTime();
-        const rDate = new Date(rec.date).getTime();
-        const diffDays = Math.abs(bDate - rDate) / (1000 * 60 * 60 * 24);
-
-        const isHotel = (bankTx.category || '').toLowerCase().includes('hotel') || (bankTx.category || '').toLowerCase().includes('lodging') ||
-          (rec.category || '').toLowerCase().includes('hotel') || (rec.category || '').toLowerCase().includes('lodging');
-        const maxDays = isHotel ? 14 : 3;
-        const withinWindow = diffDays <= maxDays;
-
-        // MERCHANT SYNONYM MATCHING
-        const bMerc = bankTx.merchant.toLowerCase();
-        const rMerc = rec.merchant.toLowerCase();
-        const isTele = (m: string) => m.includes('e&') || m.includes('etisalat');
-        const isRTA = (m: string) => m.includes('rta') || m.includes('road & transport') || m.includes('dubai metro') || m.includes('hala taxi');
-        const mercMatch = (isTele(bMerc) && isTele(rMerc)) ||
-          (isRTA(bMerc) && isRTA(rMerc)) ||
-          rMerc.includes(bMerc.substring(0, 4)) ||
-          bMerc.includes(rMerc.substring(0, 4));
-
-        // CURRENCY-AWARE PARITY
-        const sameCurrency = bankTx.currency === rec.currency;
-        const sameAmtVal = sameCurrency ? Math.abs(bankTx.amount - rec.amount) < 0.10 : Math.abs(bUSD - rUSD) < (bUSD * 0.05);
-
-        // SOURCE INTEGRITY: Heuristic receipt must NOT be from a bank source
-        const validSource = !isAnchor(rec);
-
-        return sameAmtVal && withinWindow && mercMatch && validSource;
-      });
+    // 2. Local Engine Pass (anchors not covered by the last server run)
+    const matchedBankIds = new Set(matchedPairs.flatMap(p => p.banks.map(b => b.id)));
+    const localResult = runMatchingEngine(
+      allAnchorsInPeriod.filter(b => !matchedBankIds.has(b.id) && !manualResult.exempt.has(b.id) && !noReceiptNeeded(b)),
+      proofPool.filter(e => !lockedReceiptIds.has(e.id)),
+      { rates, aliases: merchantAliases, overrides }
+    );
 
-      if (autoMatch) {
-        matchedPairs.push({
-          bank: bankTx,
-          receipt: autoMatch,
-          label: 'AUTO-VERIFIED (Forensic Match)',
-          summary: 'Verified via ±3 day clearance window heuristic match.'
-        });
-        matchedBankIds.add(bankTx.id);
-        const idx = availableReceipts.indexOf(autoMatch);
-        if (idx > -1) availableReceipts.splice(idx, 1);
-      }
+    localResult.matched.forEach(m => {
+      const banks = matchAnchorIds(m).map(id => expenseMap.get(id)).filter(Boolean) as Expense[];
+      const receipts = matchProofIds(m).map(id => expenseMap.get(id)).filter(Boolean) as Expense[];
+      if (banks.length === 0 || receipts.length === 0) return;
+      const isGroup = banks.length > 1 || receipts.length > 1;
+      matchedPairs.push({
+        bank: banks[0],
+        banks,
+        receipt: receipts[0],
+        proofs: receipts,
+        label: isGroup ? 'GROUP MATCH' : 'AUTO-VERIFIED (Forensic Match)',
+        summary: describeMatch(m)
+      });
+      banks.forEach(b => matchedBankIds.add(b.id));
+      receipts.forEach(r => lockedReceiptIds.add(r.id));
     });
 
-    const finalUnmatchedBankTx = allAnchorsInPeriod.filter(b => !matchedBankIds.has(b.id));
+    const availableProofs = proofPool.filter(p => !lockedReceiptIds.has(p.id));
+
+    /**
+     * SUBSCRIPTION COVERAGE: a regular charge of a confirmed subscription needs no receipt of its
+     * own. Graded across the whole vault so a charge is judged against its neighbours.
+     */
+    const vaultDates = totalVaultAnchors.map(b => b.date).filter(Boolean).sort();
+    const coverage = vaultDates.length > 0
+      ? subscriptionCoverage(subscriptions, totalVaultAnchors, merchantAliases, vaultDates[0], vaultDates[vaultDates.length - 1])
+      : new Map<string, Subscription>();
+    const subscriptionCovered = allAnchorsInPeriod
+      .filter(b => !matchedBankIds.has(b.id) && !manualResult.exempt.has(b.id) && coverage.has(b.id))
+      .map(exp => ({ exp, subscription: coverage.get(exp.id)! }));
+    const coveredIds = new Set(subscriptionCovered.map(x => x.exp.id));
+
+    const finalUnmatchedBankTx = allAnchorsInPeriod.filter(b => !matchedBankIds.has(b.id) && !manualResult.exempt.has(b.id) && !noReceiptNeeded(b) && !coveredIds.has(b.id));
 
     const mandatoryMissing: Expense[] = [];
     const standardMissing: Expense[] = [];
@@ -347,8 +671,7 @@ const Reconciler: React.FC<ReconcilerProps> = ({
       const cat = (exp.category || '').toLowerCase();
 
       // 1. MANDATORY LOGIC
-      const isMandatory = ['travel', 'hotel', 'flight', 'airline', 'stay', 'flydubai', 'ibis', 'accommodation']
-        .some(k => merc.includes(k) || cat.includes(k));
+      const isMandatory = isMandatoryTravel(exp);
 
       // 2. OPTIONAL LOGIC (Dynamic Threshold in base currency)
       // Use exact word boundaries for sensitive words like 'tax' so it doesn't match 'taxi'
@@ -361,34 +684,71 @@ const Reconciler: React.FC<ReconcilerProps> = ({
       else standardMissing.push(exp);
     });
 
-    const scoreDenominator = matchedPairs.length + mandatoryMissing.length + standardMissing.length;
-    const score = scoreDenominator > 0 ? Math.round((matchedPairs.length / scoreDenominator) * 100) : 100;
+    // Score counts bank lines, so a 2-anchor group contributes two verified lines.
+    // Credits and fully reversed charges are never in the denominator.
+    const matchedAnchors = matchedPairs.flatMap(p => p.banks.map(b => ({ ...b, reconciledId: p.receipt.id })));
+    const scoreDenominator = matchedAnchors.length + mandatoryMissing.length + standardMissing.length;
+    const score = scoreDenominator > 0 ? Math.round((matchedAnchors.length / scoreDenominator) * 100) : 100;
 
     return {
       matched: matchedPairs,
       mandatoryMissing, standardMissing, optionalMissing,
-      stats: { matchedCount: matchedPairs.length, score, totalBankTx: allAnchorsInPeriod.length, totalVault: totalVaultAnchors.length },
+      exempt, subscriptionCovered, availableProofs, reversedPairs, periodCredits, policyFlagged,
+      stats: { matchedCount: matchedAnchors.length, score, totalBankTx: allAnchorsInPeriod.length, totalVault: totalVaultAnchors.length },
       fullReport: {
         month: period.month,
         year: period.year,
-        matched_transactions: matchedPairs.map(p => p.bank).filter(Boolean) as Expense[],
-        matched_receipts: matchedPairs.map(p => p.receipt).filter(Boolean) as Expense[],
+        matched_transactions: matchedAnchors,
+        matched_receipts: matchedPairs.flatMap(p => p.proofs),
         mandatory_missing: mandatoryMissing,
         optional_missing: optionalMissing,
         standard_missing: standardMissing,
+        manual_matches: matchedPairs.filter(p => p.manual).map(p => ({
+          anchor_id: p.bank.id,
+          proof_ids: p.proofs.map(r => r.id),
+          created_by: p.manual!.created_by,
+          created_at: p.manual!.created_at
+        })),
+        no_receipt_expected: exempt.map(x => ({
+          anchor_id: x.exp.id,
+          reason: x.override.reason || '',
+          created_by: x.override.created_by,
+          created_at: x.override.created_at
+        })),
+        exempt_transactions: exempt.map(x => x.exp),
+        subscription_covered: subscriptionCovered.map(x => ({
+          anchor_id: x.exp.id,
+          subscription_id: x.subscription.id,
+          merchant: x.subscription.merchant
+        })),
+        match_groups: matchedPairs.filter(p => p.banks.length > 1 || p.proofs.length > 1).map(p => ({
+          anchor_ids: p.banks.map(b => b.id),
+          proof_ids: p.proofs.map(r => r.id),
+          summary: p.summary
+        })),
+        reversed_pairs: reversedPairs.map(r => ({
+          debit_id: r.debit.id,
+          credit_ids: r.credits.map(c => c.id),
+          amount_reversed: r.amountReversed,
+          full: r.full
+        })),
+        credit_transactions: periodCredits,
         summary: {
-          total_matched: matchedPairs.length,
+          total_matched: matchedAnchors.length,
           total_unmatched: finalUnmatchedBankTx.length,
-          matched_amount: matchedPairs.reduce((acc, p) => acc + (p.bank?.amount || 0), 0),
+          matched_amount: matchedAnchors.reduce((acc, b) => acc + (b.amount || 0), 0),
           unmatched_amount: finalUnmatchedBankTx.reduce((acc, b) => acc + (b.amount || 0), 0),
           compliance_score: score,
           mandatory_error_count: mandatoryMissing.length,
           warning_count: standardMissing.length,
-          optional_count: optionalMissing.length
+          optional_count: optionalMissing.length,
+          manual_count: matchedPairs.filter(p => p.manual).length,
+          reversed_count: reversedPairs.filter(r => r.full).length,
+          credit_count: periodCredits.length
         }
       } as ReconciliationReport
     };
-  }, [reconciliation, expenses, exchangeData, period, auditBank]);
+  }, [reconciliation, expenses, exchangeData, period, auditBank, merchantAliases, overrides, subscriptions]);
 
   if (isProcessing) return (
     <div className="flex flex-col items-center justify-center py-24 text-center">
@@ -420,6 +780,32 @@ const Reconciler: React.FC<ReconcilerProps> = ({
     </div>
   );
 
+  const linkCandidates = linkingAnchor ? filteredData.availableProofs
+    .filter(p => !proofSearch || p.merchant.toLowerCase().includes(proofSearch.toLowerCase()))
+    .map(proof => ({
+      proof,
+      score: scorePair(linkingAnchor, proof, { rates: exchangeData?.rates || {}, aliases: merchantAliases, dateWindowDays: 60, lodgingWindowDays: 60, minScore: 0 })?.score || 0
+    }))
+    .sort((a, b) => b.score - a.score || Math.abs(a.proof.amount - linkingAnchor.amount) - Math.abs(b.proof.amount - linkingAnchor.amount))
+    .slice(0, 50) : [];
+
+  const renderOverrideActions = (exp: Expense) => isAdmin && (
+    <div className="flex flex-col items-end gap-1.5">
+      <button
+        onClick={() => setLinkingAnchor(exp)}
+        className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-brand-600 hover:text-brand-700"
+      >
+        <Link2 size={12} /> Link Receipt
+      </button>
+      <button
+        onClick={() => handleNoReceipt(exp)}
+        className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-600"
+      >
+        <Ban size={12} /> No Receipt Expected
+      </button>
+    </div>
+  );
+
   const complianceScore = filteredData.stats.score;
 
   return (
@@ -515,6 +901,9 @@ const Reconciler: React.FC<ReconcilerProps> = ({
                           {pair.bank?.bank && <span className="ml-2 text-[9px] text-brand-500 font-bold">({pair.bank.bank})</span>}
                         </div>
                         <div className="text-[10px] text-slate-400 font-bold uppercase mt-1">{pair.bank?.date} • {pair.bank?.category}</div>
+                        {pair.banks.slice(1).map(b => (
+                          <div key={b.id} className="text-[10px] text-brand-500 font-bold uppercase mt-1">+ {b.date} • {b.currency} {b.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                        ))}
                       </div>
                     </div>
                   </td>
@@ -552,6 +941,9 @@ const Reconciler: React.FC<ReconcilerProps> = ({
                             <span className="bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 text-[8px] px-2 py-0.5 rounded-full font-black">POOL</span>
                           )}
                         </div>
+                        {pair.proofs.slice(1).map(r => (
+                          <div key={r.id} className="text-[10px] text-brand-500 font-bold uppercase mt-1">+ {r.merchant} • {r.currency} {r.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                        ))}
                         <div className="mt-1.5">
                           {(() => {
                             const history = pair.receipt?.usage_history || [];
@@ -589,12 +981,43 @@ const Reconciler: React.FC<ReconcilerProps> = ({
                     </div>
                   </td>
                   <td className="px-12 py-8 text-center">
-                    <span className="inline-flex items-center gap-2 px-4 py-1.5 rounded-xl text-[8px] font-black uppercase tracking-widest bg-emerald-50 dark:bg-emerald-500/10 text-emerald-600 border border-emerald-100 dark:border-emerald-500/20">
-                      PROOF VERIFIED
-                    </span>
+                    {pair.manual ? (
+                      <div className="flex flex-col items-center gap-1">
+                        <span className="inline-flex items-center gap-2 px-4 py-1.5 rounded-xl text-[8px] font-black uppercase tracking-widest bg-brand-50 dark:bg-brand-500/10 text-brand-600 border border-brand-100 dark:border-brand-500/20">
+                          <Link2 size={10} /> MANUAL MATCH{pair.proofs.length > 1 ? ` (${pair.proofs.length} PROOFS)` : ''}
+                        </span>
+                        <span className="text-[8px] text-slate-400 font-bold uppercase">{formatOverrideStamp(pair.manual)}</span>
+                      </div>
+                    ) : (
+                      <span className="inline-flex items-center gap-2 px-4 py-1.5 rounded-xl text-[8px] font-black uppercase tracking-widest bg-emerald-50 dark:bg-emerald-500/10 text-emerald-600 border border-emerald-100 dark:border-emerald-500/20">
+                        {isGroupPair(pair) ? groupLabel(pair) : 'PROOF VERIFIED'}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => setEvidencePair({ title: pair.bank?.merchant || 'Matched Pair', records: [...pair.banks, ...pair.proofs] })}
+                      className="flex items-center gap-1 mx-auto mt-2 text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-brand-600"
+                    >
+                      <FileSearch size={10} /> Evidence
+                    </button>
+                    {isAdmin && (
+                      <button
+                        onClick={() => handleUnmatch(pair)}
+                        className="flex items-center gap-1 mx-auto mt-2 text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500"
+                      >
+                        <Unlink size={10} /> Unmatch
+                      </button>
+                    )}
+                    {isAdmin && pair.bank && pair.receipt && merchantSimilarity(pair.bank.merchant, pair.receipt.merchant, merchantAliases) < 0.85 && (
+                      <button
+                        onClick={() => handleLearnAlias(pair.bank.merchant, pair.receipt.merchant)}
+                        className="block mx-auto mt-2 text-[8px] font-black uppercase tracking-widest text-brand-600 hover:text-brand-700"
+                      >
+                        + Learn Alias
+                      </button>
+                    )}
                   </td>
                   <td className="px-12 py-8 text-right font-black text-slate-900 dark:text-white uppercase text-sm">
-                    {pair.bank?.currency} {pair.bank?.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                    {pair.bank?.currency} {pair.banks.reduce((acc, b) => acc + b.amount, 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}
                   </td>
                 </tr>
               ))}
@@ -641,7 +1064,10 @@ const Reconciler: React.FC<ReconcilerProps> = ({
                       <div className="text-[10px] text-red-600 font-bold uppercase mt-1">{exp.category} • {exp.date}</div>
                     </div>
                   </div>
-                  <div className="text-right text-sm font-black text-red-700 dark:text-red-400 uppercase">{exp.currency} {exp.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                  <div className="flex items-center gap-6">
+                    {renderOverrideActions(exp)}
+                    <div className="text-right text-sm font-black text-red-700 dark:text-red-400 uppercase">{exp.currency} {exp.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                  </div>
                 </div>
               ))}
             </div>
@@ -689,13 +1115,174 @@ const Reconciler: React.FC<ReconcilerProps> = ({
                       </div>
                     </div>
                   </div>
-                  <div className="text-right text-sm font-black text-slate-900 dark:text-white uppercase">{exp.currency} {exp.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                  <div className="flex items-center gap-6">
+                    {renderOverrideActions(exp)}
+                    <div className="text-right text-sm font-black text-slate-900 dark:text-white uppercase">{exp.currency} {exp.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )
+      }
+
+      {
+        filteredData.exempt.length > 0 && (
+          <section className="bg-white dark:bg-[#0b1120] rounded-[3.5rem] border border-slate-200 dark:border-slate-800 overflow-hidden shadow-sm">
+            <div className="px-10 py-6 bg-slate-600 text-white flex items-center gap-4">
+              <Ban size={24} />
+              <h4 className="text-[12px] font-black uppercase tracking-[0.2em]">No Receipt Expected (Manual)</h4>
+            </div>
+            <div className="divide-y divide-slate-100 dark:divide-slate-800/60">
+              {filteredData.exempt.map(({ exp, override }) => (
+                <div key={exp.id} className="px-10 py-6 flex items-center justify-between hover:bg-slate-50/50 transition-colors">
+                  <div>
+                    <div className="font-black text-slate-900 dark:text-white uppercase tracking-tight text-sm">{exp.merchant}</div>
+                    <div className="text-[10px] font-bold text-slate-400">{exp.date} • {override.reason}</div>
+                    <div className="text-[8px] font-black text-slate-400 uppercase tracking-widest mt-1">{formatOverrideStamp(override)}</div>
+                  </div>
+                  <div className="flex items-center gap-6">
+                    {isAdmin && (
+                      <button
+                        onClick={() => handleUndoOverride(override.id)}
+                        className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-brand-600"
+                      >
+                        <Undo2 size={12} /> Undo
+                      </button>
+                    )}
+                    <div className="text-right text-sm font-black text-slate-500 uppercase">{exp.currency} {exp.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )
+      }
+
+      {
+        filteredData.subscriptionCovered.length > 0 && (
+          <section className="bg-white dark:bg-[#0b1120] rounded-[3.5rem] border border-slate-200 dark:border-slate-800 overflow-hidden shadow-sm">
+            <div className="px-10 py-6 bg-indigo-600 text-white flex items-center gap-4">
+              <Repeat size={24} />
+              <h4 className="text-[12px] font-black uppercase tracking-[0.2em]">Covered by Subscription</h4>
+            </div>
+            <div className="divide-y divide-slate-100 dark:divide-slate-800/60">
+              {filteredData.subscriptionCovered.map(({ exp, subscription }) => (
+                <div key={exp.id} className="px-10 py-6 flex items-center justify-between hover:bg-slate-50/50 transition-colors">
+                  <div>
+                    <div className="font-black text-slate-900 dark:text-white uppercase tracking-tight text-sm">{exp.merchant}</div>
+                    <div className="text-[10px] font-bold text-slate-400">{exp.date} • {subscription.merchant} • {subscription.currency} {subscription.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })} {subscription.cadence}</div>
+                    <div className="text-[8px] font-black text-slate-400 uppercase tracking-widest mt-1">{subscription.contract ? `Contract: ${subscription.contract.file_name}` : `Confirmed by ${subscription.confirmed_by.split('@')[0]}`}</div>
+                  </div>
+                  <div className="text-right text-sm font-black text-slate-500 uppercase">{exp.currency} {exp.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )
+      }
+
+      {
+        filteredData.reversedPairs.length > 0 && (
+          <section className="bg-white dark:bg-[#0b1120] rounded-[3.5rem] border border-slate-200 dark:border-slate-800 overflow-hidden shadow-sm">
+            <div className="px-10 py-6 bg-teal-600 text-white flex items-center gap-4">
+              <RotateCcw size={24} />
+              <h4 className="text-[12px] font-black uppercase tracking-[0.2em]">Refunds & Reversals (Netted)</h4>
+            </div>
+            <div className="divide-y divide-slate-100 dark:divide-slate-800/60">
+              {filteredData.reversedPairs.map(({ debit, credits, amountReversed, full }) => (
+                <div key={debit.id} className="px-10 py-6 flex items-center justify-between hover:bg-slate-50/50 transition-colors">
+                  <div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-black text-slate-900 dark:text-white uppercase tracking-tight text-sm">{debit.merchant}</span>
+                      <span className={`px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest ${full ? 'bg-teal-50 text-teal-600' : 'bg-amber-50 text-amber-600'}`}>
+                        {full ? 'Fully Reversed' : 'Partial Refund'}
+                      </span>
+                    </div>
+                    <div className="text-[10px] font-bold text-slate-400">Charged {debit.date}</div>
+                    {credits.map(c => (
+                      <div key={c.id} className="text-[9px] font-black text-teal-600 uppercase tracking-widest mt-1">
+                        {(c.transaction_type || 'credit')} {c.date} • {c.currency} {Math.abs(c.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm font-black text-slate-500 uppercase">{debit.currency} {debit.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                    <div className="text-[10px] font-black text-teal-600 uppercase">− {amountReversed.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                  </div>
                 </div>
               ))}
             </div>
           </section>
         )
       }
+
+      {/* MANUAL LINK MODAL */}
+      {evidencePair && (
+        <EvidenceViewer title={evidencePair.title} expenses={evidencePair.records} onClose={() => setEvidencePair(null)} />
+      )}
+
+      {linkingAnchor && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
+          <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-md" onClick={closeLinkModal} />
+          <div className="relative w-full max-w-2xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+            <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex items-start justify-between gap-6">
+              <div>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-1">Link Proof To</p>
+                <h3 className="text-xl font-black tracking-tight uppercase dark:text-white">{linkingAnchor.merchant}</h3>
+                <p className="text-[11px] font-bold text-slate-500 mt-1">{linkingAnchor.date} • {linkingAnchor.currency} {linkingAnchor.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+              </div>
+              <button onClick={closeLinkModal} className="p-3 bg-slate-50 dark:bg-slate-800 rounded-full text-slate-400 hover:text-slate-600 dark:hover:text-white transition-all">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-8 space-y-4">
+              <input
+                type="text"
+                placeholder="Search receipts by merchant..."
+                className="w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-6 py-3 text-sm font-bold outline-none focus:border-brand-500 dark:text-white"
+                value={proofSearch}
+                onChange={(e) => setProofSearch(e.target.value)}
+              />
+              <div className="max-h-80 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-800 rounded-2xl border border-slate-100 dark:border-slate-800">
+                {linkCandidates.length === 0 ? (
+                  <div className="p-8 text-center text-slate-400 text-sm italic">No unlinked receipts available.</div>
+                ) : linkCandidates.map(({ proof, score }) => (
+                  <label key={proof.id} className="flex items-center gap-4 px-5 py-4 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/40">
+                    <input
+                      type="checkbox"
+                      checked={selectedProofIds.includes(proof.id)}
+                      onChange={(e) => setSelectedProofIds(prev => e.target.checked ? [...prev, proof.id] : prev.filter(id => id !== proof.id))}
+                    />
+                    <div className="flex-1">
+                      <div className="text-[12px] font-black uppercase tracking-tight dark:text-white">{proof.merchant}</div>
+                      <div className="text-[10px] font-bold text-slate-400">{proof.date} • {proof.source}</div>
+                    </div>
+                    {score > 0 && <span className="text-[9px] font-black text-emerald-600 uppercase">Score {score}</span>}
+                    <div className="text-[12px] font-black dark:text-white">{proof.currency} {proof.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="bg-slate-50 dark:bg-slate-800/50 p-6 flex gap-4">
+              <button
+                onClick={closeLinkModal}
+                className="flex-1 px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 hover:bg-slate-50 transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmLink}
+                disabled={selectedProofIds.length === 0}
+                className="flex-1 px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-white bg-brand-600 hover:bg-brand-700 shadow-lg shadow-brand-500/20 active:scale-95 transition-all flex items-center justify-center gap-3 disabled:opacity-50"
+              >
+                <Link2 size={18} />
+                Confirm Match ({selectedProofIds.length})
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div >
   );
 };
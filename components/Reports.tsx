@@ -21,15 +21,19 @@ import {
   FileText,
   Info
 } from 'lucide-react';
-import { ReconciliationReport, Expense } from '../types';
+import { ReconciliationReport, Expense, AppSettings } from '../types';
 import { subscribeToReports } from '../firebaseService';
+import VatReturn from './VatReturn';
+import { expandAllocations } from '../allocations';
 
 interface ReportsProps {
   period: { month: string; year: number };
   session: any;
+  expenses?: Expense[];
+  settings?: AppSettings;
 }
 
-const Reports: React.FC<ReportsProps> = ({ period, session }) => {
+const Reports: React.FC<ReportsProps> = ({ period, session, expenses = [], settings }) => {
   const [reports, setReports] = useState<(ReconciliationReport & { is_local?: boolean })[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedReportId, setExpandedReportId] = useState<string | null>(null);
@@ -46,12 +50,25 @@ const Reports: React.FC<ReportsProps> = ({ period, session }) => {
   }, [selectedYear, session?.email]);
 
   const handleDownloadCSV = (report: ReconciliationReport) => {
-    const headers = ['Type', 'Date', 'Merchant', 'Category', 'Amount', 'Currency', 'Audit_Status'];
+    // One row per allocation share, so project / cost center totals can be pivoted directly
+    const headers = ['Type', 'Date', 'Merchant', 'Project', 'Cost_Center', 'Category', 'Amount', 'Currency', 'Audit_Status'];
+    const manualById = new Map((report.manual_matches || []).map(m => [m.anchor_id, m]));
+    const exemptById = new Map((report.no_receipt_expected || []).map(n => [n.anchor_id, n]));
+    const allocationRows = (list: Expense[] | undefined, type: (t: Expense) => string, status: (t: Expense) => string) =>
+      expandAllocations(list || []).map(({ expense: t, share, amount }) =>
+        [type(t), t.date, t.merchant, share.project, share.cost_center, share.category, amount.toString(), t.currency, status(t)]);
     const rows = [
-      ...(report.matched_transactions || []).map(t => ['MATCHED', t.date, t.merchant, t.category, t.amount.toString(), t.currency, 'Verified']),
-      ...(report.mandatory_missing || []).map(t => ['MANDATORY_MISSING', t.date, t.merchant, t.category, t.amount.toString(), t.currency, 'High Priority Violation']),
-      ...(report.standard_missing || []).map(t => ['GENERAL_MISSING', t.date, t.merchant, t.category, t.amount.toString(), t.currency, 'Pending Receipt']),
-      ...(report.optional_missing || []).map(t => ['OPTIONAL_MISSING', t.date, t.merchant, t.category, t.amount.toString(), t.currency, 'Threshold Exempt'])
+      ...allocationRows(report.matched_transactions, t => manualById.has(t.id) ? 'MANUAL_MATCH' : 'MATCHED', t => {
+        const manual = manualById.get(t.id);
+        return manual ? `Manual by ${manual.created_by} on ${manual.created_at.split('T')[0]}` : 'Verified';
+      }),
+      ...allocationRows(report.exempt_transactions, () => 'NO_RECEIPT_EXPECTED', t => {
+        const note = exemptById.get(t.id);
+        return note ? `"${note.reason.replace(/"/g, "'")}" (${note.created_by} on ${note.created_at.split('T')[0]})` : 'Exempt';
+      }),
+      ...allocationRows(report.mandatory_missing, () => 'MANDATORY_MISSING', () => 'High Priority Violation'),
+      ...allocationRows(report.standard_missing, () => 'GENERAL_MISSING', () => 'Pending Receipt'),
+      ...allocationRows(report.optional_missing, () => 'OPTIONAL_MISSING', () => 'Threshold Exempt')
     ];
     const csvContent = [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -81,6 +98,8 @@ const Reports: React.FC<ReportsProps> = ({ period, session }) => {
         </select>
       </div>
 
+      {session?.role === 'admin' && <VatReturn expenses={expenses} settings={settings} year={selectedYear} />}
+
       {reports.length === 0 ? (
         <div className="max-w-3xl mx-auto py-32 text-center bg-white dark:bg-slate-900/50 rounded-[3.5rem] border border-dashed border-slate-200 dark:border-slate-800/60">
           <div className="w-24 h-24 bg-slate-50 dark:bg-slate-900 rounded-[2.5rem] flex items-center justify-center mx-auto mb-8 text-slate-300 dark:text-slate-700 shadow-inner"><History size={48} /></div>
@@ -0,0 +1,214 @@
+
+import React, { useMemo, useState } from 'react';
+import { TravelLog, Trip, ResidencySettings, ResidencyWindowType, HomeBase } from '../types';
+import {
+  DEFAULT_RESIDENCY_SETTINGS,
+  DEFAULT_RESIDENCY_THRESHOLD,
+  DEFAULT_HOME_BASE,
+  PARTIAL_DAY_RULE_LABELS,
+  RESIDENCY_WINDOW_LABELS,
+  normalizeCountry,
+  homeBaseOn,
+  residencyWindow,
+  buildResidencyTimeline,
+  countDaysByCountry,
+  presencePeriods
+} from '../residency';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Landmark, FileText, ShieldAlert, ShieldCheck, Plane, Hotel } from 'lucide-react';
+
+interface ResidencyCounterProps {
+  trips: Trip[];                   // Every trip of the traveller, not only the selected period
+  logs: TravelLog[];               // The documents those trips point at
+  settings?: ResidencySettings;
+  period: { month: string; year: number };
+  travellerEmail?: string;
+  homeBases?: HomeBase[];
+}
+
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+// The window is anchored on the last day of the selected period, never in the future
+const referenceDate = (period: { month: string; year: number }) => {
+  const today = new Date().toISOString().slice(0, 10);
+  const monthIndex = MONTHS.indexOf(period.month);
+  const end = monthIndex >= 0
+    ? new Date(Date.UTC(period.year, monthIndex + 1, 0)).toISOString().slice(0, 10)
+    : `${period.year}-12-31`;
+  return end < today ? end : today;
+};
+
+const ResidencyCounter: React.FC<ResidencyCounterProps> = ({ trips, logs, settings, period, travellerEmail, homeBases }) => {
+  const config = { ...DEFAULT_RESIDENCY_SETTINGS, ...(settings || {}) };
+  const [windowType, setWindowType] = useState<ResidencyWindowType>(config.window);
+
+  const threshold = config.threshold_days || DEFAULT_RESIDENCY_THRESHOLD;
+  const span = useMemo(
+    () => residencyWindow(windowType, referenceDate(period), config.fiscal_start_month || 1),
+    [windowType, period, config.fiscal_start_month]
+  );
+  // The test is counted for the base the traveller held at the end of the window
+  const home = normalizeCountry(homeBaseOn(homeBases, span.end, { ...DEFAULT_HOME_BASE, country: config.home_country, cities: [] }).country);
+
+  const timeline = useMemo(
+    () => buildResidencyTimeline(trips, logs, span, { home_country: home, partial_day_rule: config.partial_day_rule }),
+    [trips, logs, span, home, config.partial_day_rule]
+  );
+  const presence = useMemo(() => countDaysByCountry(timeline), [timeline]);
+  const schedule = useMemo(() => presencePeriods(timeline), [timeline]);
+
+  const homeDays = presence.find(p => p.country === home)?.days || 0;
+  const abroad = presence.filter(p => p.country !== home);
+  const hostExposure = abroad.filter(p => p.days >= threshold);
+  const inferredDays = timeline.filter(d => d.inferred).length;
+  const travelDays = timeline.filter(d => d.travel).length;
+  const homePercent = Math.min(100, Math.round((homeDays / threshold) * 100));
+
+  const downloadCertificate = () => {
+    const doc = new jsPDF('p', 'mm', 'a4');
+    doc.setFontSize(20);
+    doc.setTextColor(15, 23, 42);
+    doc.text("STATEMENT OF PHYSICAL PRESENCE", 14, 20);
+
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(`Traveller: ${travellerEmail || '-'}`, 14, 28);
+    doc.text(`Window: ${RESIDENCY_WINDOW_LABELS[windowType]} ${span.label} (${span.start} to ${span.end}, ${timeline.length} days)`, 14, 33);
+    doc.text(`Partial-day rule: ${PARTIAL_DAY_RULE_LABELS[config.partial_day_rule]}`, 14, 38);
+    doc.text(`Generated on: ${new Date().toLocaleString()}`, 14, 43);
+
+    doc.setFontSize(12);
+    doc.setTextColor(15, 23, 42);
+    doc.text(`Days in ${home}: ${homeDays} of ${threshold} required`, 14, 53);
+
+    autoTable(doc, {
+      startY: 58,
+      head: [['Country', 'Days', 'Of which travel days', 'Documented days']],
+      body: presence.map(p => [p.country, p.days, p.travel_days, p.evidenced_days]),
+      theme: 'grid',
+      headStyles: { fillColor: [15, 23, 42], textColor: [255, 255, 255], fontStyle: 'bold' }
+    });
+
+    doc.setFontSize(12);
+    doc.setTextColor(15, 23, 42);
+    doc.text("DAY SCHEDULE", 14, (doc as any).lastAutoTable.finalY + 12);
+
+    autoTable(doc, {
+      startY: (doc as any).lastAutoTable.finalY + 16,
+      head: [['From', 'To', 'Days', 'Location', 'Evidence']],
+      body: schedule.map(p => [
+        p.start,
+        p.end,
+        p.days,
+        p.country.replace(/→/g, '->'), // Standard PDF fonts have no arrow glyph
+        p.evidence.length > 0
+          ? p.evidence.map(e => `${e.provider_name}${e.reference_number ? ` #${e.reference_number}` : ''}`).join(', ')
+          : 'No document (carried over)'
+      ]),
+      theme: 'grid',
+      headStyles: { fillColor: [15, 23, 42], textColor: [255, 255, 255], fontStyle: 'bold' },
+      columnStyles: { 4: { cellWidth: 70 } },
+      didParseCell: (data) => {
+        if (data.section === 'body' && schedule[data.row.index]?.travel) data.cell.styles.fontStyle = 'bold';
+      }
+    });
+
+    let y = (doc as any).lastAutoTable.finalY + 14;
+    if (y > 250) { doc.addPage(); y = 20; }
+    doc.setFontSize(9);
+    doc.setTextColor(60);
+    const declaration = doc.splitTextToSize(
+      `I declare that the schedule above is a true record of my physical presence between ${span.start} and ${span.end}, compiled from the flight and accommodation documents listed. Days without a document are attributed to the last documented location.`,
+      180
+    );
+    doc.text(declaration, 14, y);
+    y += declaration.length * 5 + 16;
+    doc.line(14, y, 84, y);
+    doc.line(120, y, 190, y);
+    doc.text("Signature", 14, y + 5);
+    doc.text("Date", 120, y + 5);
+
+    doc.save(`Residency_Schedule_${span.start}_${span.end}.pdf`);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[3.5rem] border border-slate-100 dark:border-slate-800 p-12 shadow-xl">
+      <div className="flex flex-wrap items-center justify-between gap-6 mb-10">
+        <div className="flex items-center gap-5">
+          <div className="w-14 h-14 rounded-2xl bg-brand-50 dark:bg-brand-500/10 flex items-center justify-center text-brand-600">
+            <Landmark size={24} />
+          </div>
+          <div>
+            <h4 className="text-xl font-black tracking-tighter dark:text-white uppercase">Tax Residency</h4>
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{RESIDENCY_WINDOW_LABELS[windowType]} {span.label} · {span.start} to {span.end}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex bg-slate-50 dark:bg-slate-800/50 p-1.5 rounded-2xl border border-slate-100 dark:border-slate-700">
+            {(Object.keys(RESIDENCY_WINDOW_LABELS) as ResidencyWindowType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => setWindowType(type)}
+                className={`px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${windowType === type ? 'bg-white dark:bg-slate-700 text-brand-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                {RESIDENCY_WINDOW_LABELS[type]}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={downloadCertificate}
+            className="flex items-center gap-3 px-6 py-3 bg-slate-900 dark:bg-slate-800 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 dark:hover:bg-slate-700 shadow-xl transition-all"
+          >
+            <FileText size={16} /> Certificate PDF
+          </button>
+        </div>
+      </div>
+
+      {/* Home-country test */}
+      <div className="p-6 bg-slate-50 dark:bg-slate-800/40 rounded-[2rem] mb-8">
+        <div className="flex justify-between items-end mb-3">
+          <div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Days in {home}</p>
+            <h4 className="text-3xl font-black tracking-tighter dark:text-white">{homeDays} <span className="text-xs opacity-50 uppercase">of {threshold} required</span></h4>
+          </div>
+          <div className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest ${homeDays >= threshold ? 'text-emerald-500' : 'text-orange-500'}`}>
+            {homeDays >= threshold ? <ShieldCheck size={16} /> : <ShieldAlert size={16} />}
+            {homeDays >= threshold ? 'Test Met' : `${threshold - homeDays} Days Short`}
+          </div>
+        </div>
+        <div className="h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+          <div className={`h-full rounded-full ${homeDays >= threshold ? 'bg-emerald-500' : 'bg-orange-500'}`} style={{ width: `${homePercent}%` }}></div>
+        </div>
+      </div>
+
+      {hostExposure.length > 0 && (
+        <div className="flex items-center gap-3 p-5 mb-8 rounded-2xl bg-red-50 dark:bg-red-500/10 text-red-600 text-[11px] font-bold">
+          <ShieldAlert size={18} />
+          Host-country exposure: {hostExposure.map(p => `${p.country} (${p.days} days)`).join(', ')} reached the {threshold}-day threshold.
+        </div>
+      )}
+
+      {/* Days per country */}
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 mb-8">
+        {presence.map(p => (
+          <div key={p.country} className="p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest truncate">{p.country}</p>
+            <div className="text-4xl font-black text-slate-900 dark:text-white tracking-tighter">{p.days}</div>
+            <div className="flex gap-4 mt-2 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+              <span className="flex items-center gap-1"><Plane size={10} /> {p.travel_days} travel</span>
+              <span className="flex items-center gap-1"><Hotel size={10} /> {p.evidenced_days} documented</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[11px] font-medium text-slate-500 dark:text-slate-400 leading-relaxed">
+        {PARTIAL_DAY_RULE_LABELS[config.partial_day_rule]}. {travelDays} travel days in the window; {inferredDays} of {timeline.length} days have no flight or hotel document and are carried over from the last documented location.
+      </p>
+    </div>
+  );
+};
+
+export default ResidencyCounter;
@@ -0,0 +1,387 @@
+import React, { useMemo, useState } from 'react';
+import {
+    Repeat,
+    Plus,
+    X,
+    Save,
+    Trash2,
+    FileText,
+    ExternalLink,
+    Upload,
+    Ban,
+    AlertTriangle,
+    CheckCircle2,
+    Sparkles
+} from 'lucide-react';
+import { Expense, MerchantAlias, Subscription, SubscriptionCadence } from '../types';
+import { saveSubscription, updateSubscription, deleteSubscription } from '../firebaseService';
+import { uploadDocument, getDocumentUrls } from '../geminiService';
+import { detectRecurring, auditSubscription, isFlagged, RecurringCandidate, CADENCE_LABELS, DEFAULT_SUBSCRIPTION_TOLERANCE, OccurrenceStatus } from '../subscriptions';
+
+interface SubscriptionRegistryProps {
+    expenses: Expense[];
+    subscriptions: Subscription[];
+    aliases: MerchantAlias[];
+    currentUserEmail: string;
+}
+
+const STATUS_STYLES: Record<OccurrenceStatus, string> = {
+    ok: 'bg-emerald-500',
+    upcoming: 'bg-slate-200 dark:bg-slate-700',
+    missed: 'bg-rose-500',
+    duplicated: 'bg-amber-500',
+    price_changed: 'bg-indigo-500'
+};
+
+const STATUS_LABELS: Record<OccurrenceStatus, string> = {
+    ok: 'Charged',
+    upcoming: 'Upcoming',
+    missed: 'Missed',
+    duplicated: 'Duplicated',
+    price_changed: 'Price Changed'
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Occurrences are graded over the trailing year
+const auditWindowStart = () => {
+    const d = new Date();
+    d.setUTCFullYear(d.getUTCFullYear() - 1);
+    return d.toISOString().slice(0, 10);
+};
+
+type Draft = Omit<Subscription, 'id' | 'confirmed_by' | 'confirmed_at'>;
+
+const toDraft = (c: RecurringCandidate): Draft => ({
+    merchant: c.merchant,
+    amount: Math.round(c.amount * 100) / 100,
+    currency: c.currency,
+    cadence: c.cadence,
+    start_date: c.first_date,
+    tolerance_percent: c.variable ? 15 : DEFAULT_SUBSCRIPTION_TOLERANCE,
+    card_digits: c.card_digits,
+    category: c.category
+});
+
+const SubscriptionRegistry: React.FC<SubscriptionRegistryProps> = ({ expenses, subscriptions, aliases, currentUserEmail }) => {
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [uploadingId, setUploadingId] = useState<string | null>(null);
+
+    const candidates = useMemo(() => detectRecurring(expenses, subscriptions, aliases), [expenses, subscriptions, aliases]);
+
+    const audits = useMemo(() => {
+        const from = auditWindowStart();
+        const to = today();
+        return new Map(subscriptions.map(s => [s.id, auditSubscription(s, expenses, aliases, from, s.end_date && s.end_date < to ? s.end_date : to)]));
+    }, [subscriptions, expenses, aliases]);
+
+    const handleConfirm = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+        if (!draft.merchant.trim() || !(draft.amount > 0)) {
+            alert("A subscription needs a merchant and an expected amount.");
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await saveSubscription({ ...draft, merchant: draft.merchant.trim(), currency: draft.currency.trim().toUpperCase() });
+            setDraft(null);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleContract = async (sub: Subscription, file?: File) => {
+        if (!file) return;
+        setUploadingId(sub.id);
+        try {
+            const documentId = await uploadDocument(file);
+            const validUntil = window.prompt("Contract valid until (YYYY-MM-DD, leave blank if open-ended)") || '';
+            await updateSubscription(sub.id, {
+                contract: {
+                    document_id: documentId,
+                    file_name: file.name,
+                    uploaded_by: currentUserEmail,
+                    uploaded_at: new Date().toISOString(),
+                    ...(/^\d{4}-\d{2}-\d{2}$/.test(validUntil.trim()) ? { valid_until: validUntil.trim() } : {})
+                }
+            });
+        } catch (err) {
+            console.error(err);
+            alert("Could not attach the contract.");
+        } finally {
+            setUploadingId(null);
+        }
+    };
+
+    // Contract links are signed for a few minutes, so one is fetched per click; the tab opens
+    // first so the browser does not block it as a popup
+    const handleOpenContract = async (documentId: string) => {
+        const tab = window.open('', '_blank');
+        try {
+            const url = (await getDocumentUrls([documentId]))[documentId];
+            if (!url) throw new Error("Contract not available to this user");
+            if (tab) tab.location.href = url;
+        } catch (err) {
+            console.error(err);
+            tab?.close();
+            alert("Could not open the contract.");
+        }
+    };
+
+    const handleCancel = async (sub: Subscription) => {
+        if (!window.confirm(`Stop expecting ${sub.merchant} charges from today?`)) return;
+        try {
+            await updateSubscription(sub.id, { end_date: today() });
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (window.confirm("Are you sure you want to delete this subscription? Its charges will need receipts again.")) {
+            try {
+                await deleteSubscription(id);
+            } catch (err) {
+                console.error(err);
+            }
+        }
+    };
+
+    const inputClass = "w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-2xl px-6 py-4 text-sm font-bold focus:ring-4 focus:ring-brand-500/10 focus:border-brand-500 outline-none transition-all dark:text-white";
+
+    return (
+        <div className="max-w-5xl mx-auto space-y-8 animate-in slide-in-from-bottom-4 duration-500 pb-20">
+            {/* HEADER SECTION */}
+            <div className="bg-white dark:bg-slate-900 p-10 rounded-[3.5rem] border border-slate-100 dark:border-slate-800 shadow-xl relative overflow-hidden">
+                <div className="absolute top-0 right-0 w-64 h-64 bg-brand-500/5 rounded-full blur-3xl -mr-32 -mt-32" />
+
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 relative z-10">
+                    <div className="flex items-center gap-5">
+                        <div className="w-16 h-16 rounded-[2rem] bg-brand-600 flex items-center justify-center text-white shadow-lg shadow-brand-500/30">
+                            <Repeat size={32} />
+                        </div>
+                        <div>
+                            <h2 className="text-3xl font-black tracking-tighter dark:text-white uppercase">Subscriptions</h2>
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mt-1">Recurring Charges & Standing Contracts</p>
+                        </div>
+                    </div>
+
+                    <button
+                        onClick={() => setDraft({ merchant: '', amount: 0, currency: 'AED', cadence: 'monthly', start_date: today(), tolerance_percent: DEFAULT_SUBSCRIPTION_TOLERANCE })}
+                        className="bg-brand-600 hover:bg-brand-700 text-white px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest flex items-center justify-center gap-3 transition-all active:scale-95 shadow-xl shadow-brand-500/20"
+                    >
+                        <Plus size={18} />
+                        Add Subscription
+                    </button>
+                </div>
+            </div>
+
+            {/* DETECTED PATTERNS */}
+            {candidates.length > 0 && (
+                <div className="bg-white dark:bg-slate-900 p-8 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+                    <div className="flex items-center gap-3 mb-6">
+                        <Sparkles size={18} className="text-brand-500" />
+                        <h3 className="text-lg font-black tracking-tighter uppercase dark:text-white">Detected Recurring Charges</h3>
+                    </div>
+                    <div className="divide-y divide-slate-50 dark:divide-slate-800/60">
+                        {candidates.map(c => (
+                            <div key={c.key} className="py-4 flex items-center justify-between gap-4">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-black dark:text-white uppercase truncate">{c.merchant}</p>
+                                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                                        {CADENCE_LABELS[c.cadence]} · {c.occurrences.length} charges · {c.first_date} → {c.last_date}{c.card_digits ? ` · •••• ${c.card_digits}` : ''}{c.variable ? ' · Variable amount' : ''}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-4 shrink-0">
+                                    <span className="text-sm font-black dark:text-white">{c.currency} {c.amount.toFixed(2)}</span>
+                                    <button
+                                        onClick={() => setDraft(toDraft(c))}
+                                        className="px-5 py-2 rounded-xl bg-brand-50 dark:bg-brand-900/20 text-brand-600 dark:text-brand-400 text-[10px] font-black uppercase tracking-widest hover:bg-brand-100"
+                                    >
+                                        Confirm
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* CONFIRMED SUBSCRIPTIONS */}
+            <div className="grid grid-cols-1 gap-6">
+                {subscriptions.length === 0 ? (
+                    <div className="bg-slate-50 dark:bg-slate-900/40 border-2 border-dashed border-slate-200 dark:border-slate-800 rounded-[3rem] p-20 text-center">
+                        <div className="w-20 h-20 bg-slate-100 dark:bg-slate-800 rounded-full flex items-center justify-center mx-auto mb-6 text-slate-300">
+                            <Repeat size={40} />
+                        </div>
+                        <h4 className="text-xl font-black text-slate-900 dark:text-white uppercase mb-2">No Confirmed Subscriptions</h4>
+                        <p className="text-sm font-medium text-slate-500 max-w-xs mx-auto leading-relaxed">
+                            Confirm a recurring charge so the auditor stops asking for a receipt every period.
+                        </p>
+                    </div>
+                ) : (
+                    subscriptions.map(sub => {
+                        const occurrences = audits.get(sub.id) || [];
+                        const flagged = occurrences.filter(isFlagged);
+                        const contractExpired = !!sub.contract?.valid_until && sub.contract.valid_until < today();
+                        return (
+                            <div key={sub.id} className={`group bg-white dark:bg-slate-900 p-8 rounded-[2.5rem] border shadow-sm ${sub.end_date ? 'border-dashed border-slate-200 dark:border-slate-800 opacity-70' : 'border-slate-100 dark:border-slate-800'}`}>
+                                <div className="flex items-start justify-between gap-4 mb-6">
+                                    <div>
+                                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">
+                                            {CADENCE_LABELS[sub.cadence]} since {sub.start_date}{sub.end_date ? ` · Cancelled ${sub.end_date}` : ''}{sub.card_digits ? ` · •••• ${sub.card_digits}` : ''}
+                                        </p>
+                                        <p className="text-xl font-black dark:text-white tracking-tight uppercase">{sub.merchant}</p>
+                                    </div>
+                                    <div className="text-right">
+                                        <p className="text-xl font-black dark:text-white">{sub.currency} {sub.amount.toFixed(2)}</p>
+                                        <p className="text-[10px] font-bold text-slate-400">± {sub.tolerance_percent ?? DEFAULT_SUBSCRIPTION_TOLERANCE}%</p>
+                                    </div>
+                                </div>
+
+                                <div className="flex flex-wrap gap-1.5 mb-4">
+                                    {occurrences.map(o => (
+                                        <span
+                                            key={o.due_date}
+                                            title={`${o.due_date} · ${STATUS_LABELS[o.status]}${o.message ? ` · ${o.message}` : ''}`}
+                                            className={`w-6 h-6 rounded-lg ${STATUS_STYLES[o.status]}`}
+                                        />
+                                    ))}
+                                </div>
+
+                                {flagged.length > 0 ? (
+                                    <div className="space-y-2 mb-6">
+                                        {flagged.map(o => (
+                                            <div key={o.due_date} className="flex items-center gap-3 text-[11px] font-bold text-rose-600 dark:text-rose-400">
+                                                <AlertTriangle size={14} className="shrink-0" />
+                                                <span className="uppercase tracking-widest text-[9px] font-black">{STATUS_LABELS[o.status]}</span>
+                                                <span className="text-slate-500">{o.message}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <div className="flex items-center gap-2 text-[11px] font-bold text-emerald-600 mb-6">
+                                        <CheckCircle2 size={14} /> Every charge in the last 12 months as expected
+                                    </div>
+                                )}
+
+                                <div className="pt-4 border-t border-slate-50 dark:border-slate-800 flex flex-wrap items-center justify-between gap-4">
+                                    {sub.contract ? (
+                                        <button
+                                            onClick={() => handleOpenContract(sub.contract!.document_id)}
+                                            className={`flex items-center gap-2 text-[11px] font-bold ${contractExpired ? 'text-rose-500' : 'text-brand-600'}`}
+                                        >
+                                            <FileText size={14} /> {sub.contract.file_name}
+                                            {sub.contract.valid_until && <span className="text-[9px] font-black uppercase tracking-widest">{contractExpired ? 'Expired' : 'Valid until'} {sub.contract.valid_until}</span>}
+                                            <ExternalLink size={12} />
+                                        </button>
+                                    ) : (
+                                        <span className="text-[11px] font-bold text-slate-400">No contract on file</span>
+                                    )}
+                                    <div className="flex items-center gap-2">
+                                        <label className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-600 cursor-pointer">
+                                            <Upload size={14} /> {uploadingId === sub.id ? 'Uploading...' : sub.contract ? 'Replace Contract' : 'Attach Contract'}
+                                            <input type="file" className="hidden" accept="application/pdf,image/*" disabled={uploadingId === sub.id} onChange={(e) => handleContract(sub, e.target.files?.[0])} />
+                                        </label>
+                                        {!sub.end_date && (
+                                            <button onClick={() => handleCancel(sub)} className="p-2 text-slate-300 hover:text-amber-500" title="Cancel Subscription">
+                                                <Ban size={18} />
+                                            </button>
+                                        )}
+                                        <button onClick={() => handleDelete(sub.id)} className="p-2 text-slate-300 hover:text-red-500" title="Delete">
+                                            <Trash2 size={18} />
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+
+            {/* CONFIRM MODAL */}
+            {draft && (
+                <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
+                    <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-md" onClick={() => setDraft(null)} />
+
+                    <form onSubmit={handleConfirm} className="relative w-full max-w-lg bg-white dark:bg-slate-900 rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+                        <div className="p-10">
+                            <div className="flex items-center justify-between mb-10">
+                                <div className="flex items-center gap-4">
+                                    <div className="w-12 h-12 rounded-2xl bg-brand-600 flex items-center justify-center text-white">
+                                        <Repeat size={24} />
+                                    </div>
+                                    <h3 className="text-2xl font-black tracking-tighter uppercase dark:text-white">Confirm Subscription</h3>
+                                </div>
+                                <button type="button" onClick={() => setDraft(null)} className="p-3 bg-slate-50 dark:bg-slate-800 rounded-full text-slate-400 hover:text-slate-600 dark:hover:text-white transition-all">
+                                    <X size={20} />
+                                </button>
+                            </div>
+
+                            <div className="space-y-6">
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Merchant</label>
+                                    <input type="text" required className={inputClass} value={draft.merchant} onChange={(e) => setDraft({ ...draft, merchant: e.target.value })} />
+                                </div>
+                                <div className="grid grid-cols-3 gap-4">
+                                    <div className="col-span-2">
+                                        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Expected Amount</label>
+                                        <input type="number" step="0.01" required className={inputClass} value={draft.amount || ''} onChange={(e) => setDraft({ ...draft, amount: parseFloat(e.target.value) || 0 })} />
+                                    </div>
+                                    <div>
+                                        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Currency</label>
+                                        <input type="text" required maxLength={3} className={`${inputClass} uppercase`} value={draft.currency} onChange={(e) => setDraft({ ...draft, currency: e.target.value })} />
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-3 gap-4">
+                                    <div>
+                                        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Cadence</label>
+                                        <select className={inputClass} value={draft.cadence} onChange={(e) => setDraft({ ...draft, cadence: e.target.value as SubscriptionCadence })}>
+                                            {(Object.keys(CADENCE_LABELS) as SubscriptionCadence[]).map(c => <option key={c} value={c}>{CADENCE_LABELS[c]}</option>)}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">First Charge</label>
+                                        <input type="date" required className={inputClass} value={draft.start_date} onChange={(e) => setDraft({ ...draft, start_date: e.target.value })} />
+                                    </div>
+                                    <div>
+                                        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Tolerance %</label>
+                                        <input type="number" className={inputClass} value={draft.tolerance_percent ?? ''} onChange={(e) => setDraft({ ...draft, tolerance_percent: e.target.value ? parseFloat(e.target.value) : undefined })} />
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Card (last 4, optional)</label>
+                                    <input type="text" maxLength={4} className={inputClass} value={draft.card_digits || ''} onChange={(e) => setDraft({ ...draft, card_digits: e.target.value.replace(/\D/g, '') || undefined })} />
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="bg-slate-50 dark:bg-slate-800/50 p-6 flex gap-4">
+                            <button
+                                type="button"
+                                onClick={() => setDraft(null)}
+                                className="flex-1 px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 hover:bg-slate-50 transition-all"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving}
+                                className="flex-1 px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-white bg-brand-600 hover:bg-brand-700 shadow-lg shadow-brand-500/20 active:scale-95 transition-all flex items-center justify-center gap-3"
+                            >
+                                <Save size={18} />
+                                {isSaving ? 'Processing...' : 'Confirm'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SubscriptionRegistry;
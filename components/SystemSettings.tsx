@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { AppSettings } from '../types';
+import { AppSettings, VatJurisdiction, ApprovalStep, ApprovalDelegation, PolicyRule, PolicyRuleType, PolicySeverity, Budget, BudgetDimension, BudgetPeriod, ResidencySettings, PartialDayRule, ResidencyWindowType, HomeBase, AuthorizedUser, PerDiemSettings, PerDiemRate } from '../types';
 import {
     Shield,
     Save,
@@ -8,10 +8,35 @@ import {
     Users,
     CheckCircle,
     XCircle,
-    Clock
+    Clock,
+    Landmark,
+    Plus,
+    Trash2,
+    GitBranch,
+    ArrowRight,
+    Gavel,
+    Target,
+    Globe,
+    MapPin,
+    Utensils,
+    Upload
 } from 'lucide-react';
-import { subscribeToFullUserList, updateUserRole } from '../firebaseService';
+import { subscribeToFullUserList, updateUserRole, updateUserManager, addUserHomeBase, refreshPendingApprovals } from '../firebaseService';
 import { getCurrencySymbol, getSupportedCurrencies } from '../currencyService';
+import { resolveVatJurisdictions } from '../vatEngine';
+import { LINE_MANAGER } from '../approvals';
+import { POLICY_RULE_LABELS, DEFAULT_POLICY_SEVERITY, DEFAULT_WEEKEND_DAYS } from '../policyEngine';
+import { BUDGET_DIMENSION_LABELS, DEFAULT_BUDGET_ALERT_PERCENT } from '../budgets';
+import { DEFAULT_RESIDENCY_SETTINGS, DEFAULT_RESIDENCY_THRESHOLD, PARTIAL_DAY_RULE_LABELS, RESIDENCY_WINDOW_LABELS, homeBaseOn } from '../residency';
+import { DEFAULT_PER_DIEM_SETTINGS, PER_DIEM_MEALS, mergePerDiemRates, parsePerDiemCsv } from '../perDiem';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const describeHomeBase = (base: HomeBase) => `${base.country}${base.cities.length ? ` · ${base.cities.join(', ')}` : ''}`;
+
+const STANDARD_CATEGORIES = ['Transport', 'Meals', 'Lodging', 'Office', 'Utilities', 'Salary', 'Transfer', 'General'];
 
 interface SystemSettingsProps {
     settings: AppSettings;
@@ -23,13 +48,43 @@ const SystemSettings: React.FC<SystemSettingsProps> = ({ settings, onUpdate }) =
     const [reportingCurrency, setReportingCurrency] = useState(settings.reporting_currency || 'USD');
     const [isSaving, setIsSaving] = useState(false);
     const [lastUpdate, setLastUpdate] = useState(() => new Date().toLocaleString());
-    const [users, setUsers] = useState<any[]>([]);
+    const [users, setUsers] = useState<AuthorizedUser[]>([]);
+    const [vatJurisdictions, setVatJurisdictions] = useState<VatJurisdiction[]>(resolveVatJurisdictions(settings));
+    const [vatHome, setVatHome] = useState(settings.vat_home_jurisdiction || 'AE');
+    const [isSavingVat, setIsSavingVat] = useState(false);
+    const [approvalSteps, setApprovalSteps] = useState<ApprovalStep[]>(settings.approval_steps || []);
+    const [delegations, setDelegations] = useState<ApprovalDelegation[]>(settings.approval_delegations || []);
+    const [isSavingApprovals, setIsSavingApprovals] = useState(false);
+    const [policyRules, setPolicyRules] = useState<PolicyRule[]>(settings.policy_rules || []);
+    const [isSavingPolicy, setIsSavingPolicy] = useState(false);
+    const [budgets, setBudgets] = useState<Budget[]>(settings.budgets || []);
+    const [isSavingBudgets, setIsSavingBudgets] = useState(false);
+    const [residency, setResidency] = useState<ResidencySettings>({ ...DEFAULT_RESIDENCY_SETTINGS, ...(settings.residency || {}) });
+    const [isSavingResidency, setIsSavingResidency] = useState(false);
+    const [perDiem, setPerDiem] = useState<PerDiemSettings>({ ...DEFAULT_PER_DIEM_SETTINGS, ...(settings.per_diem || {}) });
+    const [isSavingPerDiem, setIsSavingPerDiem] = useState(false);
+    const [editingBaseUid, setEditingBaseUid] = useState<string | null>(null);
+    const [baseDraft, setBaseDraft] = useState({ country: '', cities: '', effective_from: '' });
 
     useEffect(() => {
         setThreshold(settings.audit_threshold);
         setReportingCurrency(settings.reporting_currency || 'USD');
     }, [settings.audit_threshold, settings.reporting_currency]);
 
+    useEffect(() => {
+        setVatJurisdictions(resolveVatJurisdictions(settings));
+        setVatHome(settings.vat_home_jurisdiction || 'AE');
+    }, [settings.vat_jurisdictions, settings.vat_home_jurisdiction]);
+
+    useEffect(() => {
+        setApprovalSteps(settings.approval_steps || []);
+        setDelegations(settings.approval_delegations || []);
+    }, [settings.approval_steps, settings.approval_delegations]);
+
+    useEffect(() => {
+        setPolicyRules(settings.policy_rules || []);
+    }, [settings.policy_rules]);
+
     useEffect(() => {
         const unsub = subscribeToFullUserList(setUsers);
         return () => unsub();
@@ -50,6 +105,212 @@ const SystemSettings: React.FC<SystemSettingsProps> = ({ settings, onUpdate }) =
         }
     };
 
+    const updateJurisdiction = (idx: number, patch: Partial<VatJurisdiction>) => {
+        setVatJurisdictions(prev => prev.map((j, i) => i === idx ? { ...j, ...patch } : j));
+    };
+
+    const handleSaveVat = async () => {
+        const cleaned = vatJurisdictions
+            .filter(j => j.code.trim())
+            .map(j => ({ ...j, code: j.code.trim().toUpperCase(), currency: j.currency.trim().toUpperCase() }));
+        const invalidPattern = cleaned.find(j => {
+            try {
+                new RegExp(j.trn_pattern || '');
+                return false;
+            } catch {
+                return true;
+            }
+        });
+        if (invalidPattern) {
+            alert(`The ${invalidPattern.trn_label} pattern for ${invalidPattern.name} is not a valid regular expression.`);
+            return;
+        }
+        setIsSavingVat(true);
+        try {
+            await onUpdate({ vat_jurisdictions: cleaned, vat_home_jurisdiction: vatHome });
+            setLastUpdate(new Date().toLocaleString());
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setIsSavingVat(false);
+        }
+    };
+
+    const updateStep = (idx: number, patch: Partial<ApprovalStep>) => {
+        setApprovalSteps(prev => prev.map((s, i) => i === idx ? { ...s, ...patch } : s));
+    };
+
+    const updateDelegation = (idx: number, patch: Partial<ApprovalDelegation>) => {
+        setDelegations(prev => prev.map((d, i) => i === idx ? { ...d, ...patch } : d));
+    };
+
+    const handleSaveApprovals = async () => {
+        const steps = approvalSteps
+            .filter(s => s.approver.trim())
+            .map(s => ({ ...s, label: s.label.trim() || 'Approver', approver: s.approver === LINE_MANAGER ? s.approver : s.approver.trim().toLowerCase() }));
+        const cleanedDelegations = delegations
+            .filter(d => d.from.trim() && d.to.trim())
+            .map(d => ({ ...d, from: d.from.trim().toLowerCase(), to: d.to.trim().toLowerCase() }));
+        const invalid = cleanedDelegations.find(d => !d.start || !d.end || d.start > d.end || d.from === d.to);
+        if (invalid) {
+            alert(`The delegation from ${invalid.from} needs a valid date range and a different delegate.`);
+            return;
+        }
+        setIsSavingApprovals(true);
+        try {
+            await onUpdate({ approval_steps: steps, approval_delegations: cleanedDelegations });
+            await refreshPendingApprovals(cleanedDelegations);
+            setLastUpdate(new Date().toLocaleString());
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setIsSavingApprovals(false);
+        }
+    };
+
+    const updateRule = (idx: number, patch: Partial<PolicyRule>) => {
+        setPolicyRules(prev => prev.map((rule, i) => i === idx ? { ...rule, ...patch } : rule));
+    };
+
+    const addRule = (type: PolicyRuleType) => {
+        setPolicyRules(prev => [...prev, {
+            id: `rule_${Date.now()}`,
+            type,
+            name: POLICY_RULE_LABELS[type],
+            severity: DEFAULT_POLICY_SEVERITY[type],
+            enabled: true,
+            ...(type === 'weekend_spend' ? { weekend_days: DEFAULT_WEEKEND_DAYS } : {})
+        }]);
+    };
+
+    const toggleWeekday = (idx: number, day: number) => {
+        const current = policyRules[idx].weekend_days || DEFAULT_WEEKEND_DAYS;
+        updateRule(idx, { weekend_days: current.includes(day) ? current.filter(d => d !== day) : [...current, day] });
+    };
+
+    const handleSavePolicy = async () => {
+        const needsAmount = policyRules.find(rule => rule.enabled && ['hotel_nightly_cap', 'meal_per_person'].includes(rule.type) && !rule.amount);
+        if (needsAmount) {
+            alert(`"${needsAmount.name}" needs a limit in ${reportingCurrency}.`);
+            return;
+        }
+        setIsSavingPolicy(true);
+        try {
+            await onUpdate({ policy_rules: policyRules.map(rule => ({ ...rule, name: rule.name.trim() || POLICY_RULE_LABELS[rule.type], city: rule.city?.trim() || undefined })) });
+            setLastUpdate(new Date().toLocaleString());
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setIsSavingPolicy(false);
+        }
+    };
+
+    const updateBudget = (idx: number, patch: Partial<Budget>) => {
+        setBudgets(prev => prev.map((b, i) => i === idx ? { ...b, ...patch } : b));
+    };
+
+    const handleSaveBudgets = async () => {
+        const incomplete = budgets.find(b => !b.target.trim() || !(b.amount > 0));
+        if (incomplete) {
+            alert(`Every budget needs a target and an amount in ${reportingCurrency}.`);
+            return;
+        }
+        setIsSavingBudgets(true);
+        try {
+            await onUpdate({ budgets: budgets.map(b => ({ ...b, target: b.dimension === 'employee' ? b.target.trim().toLowerCase() : b.target.trim() })) });
+            setLastUpdate(new Date().toLocaleString());
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setIsSavingBudgets(false);
+        }
+    };
+
+    const handleSaveResidency = async () => {
+        if (!residency.home_country.trim()) {
+            alert("Set the home country the residency test is counted for.");
+            return;
+        }
+        setIsSavingResidency(true);
+        try {
+            await onUpdate({ residency: { ...residency, home_country: residency.home_country.trim(), threshold_days: residency.threshold_days || DEFAULT_RESIDENCY_THRESHOLD } });
+            setLastUpdate(new Date().toLocaleString());
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setIsSavingResidency(false);
+        }
+    };
+
+    const updatePerDiemRate = (idx: number, patch: Partial<PerDiemRate>) => {
+        setPerDiem(prev => ({ ...prev, rates: prev.rates.map((r, i) => i === idx ? { ...r, ...patch } : r) }));
+    };
+
+    const handleImportPerDiemCsv = async (file?: File) => {
+        if (!file) return;
+        try {
+            const { rates, skipped } = parsePerDiemCsv(await file.text(), reportingCurrency);
+            setPerDiem(prev => ({ ...prev, rates: mergePerDiemRates(prev.rates, rates) }));
+            alert(`Imported ${rates.length} rate${rates.length === 1 ? '' : 's'}${skipped ? `, skipped ${skipped} row${skipped === 1 ? '' : 's'} without a country or rate` : ''}. Review and save.`);
+        } catch (e: any) {
+            console.error(e);
+            alert(e.message || "Could not read the CSV.");
+        }
+    };
+
+    const handleSavePerDiem = async () => {
+        const incomplete = perDiem.rates.find(r => !r.country.trim() || !r.currency.trim() || !(r.daily_rate > 0));
+        if (incomplete) {
+            alert("Every per diem rate needs a country, a currency and a daily rate.");
+            return;
+        }
+        setIsSavingPerDiem(true);
+        try {
+            await onUpdate({
+                per_diem: {
+                    ...perDiem,
+                    rates: perDiem.rates.map(r => ({ ...r, country: r.country.trim(), city: r.city?.trim() || undefined, currency: r.currency.trim().toUpperCase() }))
+                }
+            });
+            setLastUpdate(new Date().toLocaleString());
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setIsSavingPerDiem(false);
+        }
+    };
+
+    const handleManagerChange = async (uid: string, managerEmail: string) => {
+        try {
+            await updateUserManager(uid, managerEmail);
+        } catch (e) {
+            console.error(e);
+        }
+    };
+
+    const openHomeBaseEditor = (user: AuthorizedUser) => {
+        const current = homeBaseOn(user.home_bases);
+        setEditingBaseUid(user.uid);
+        setBaseDraft({ country: current.country, cities: current.cities.join(', '), effective_from: new Date().toISOString().slice(0, 10) });
+    };
+
+    const handleSaveHomeBase = async (user: AuthorizedUser) => {
+        if (!baseDraft.country.trim() || !baseDraft.effective_from) {
+            alert("A home base needs a country and the date it applies from.");
+            return;
+        }
+        try {
+            await addUserHomeBase(user.uid, user.home_bases || [], {
+                country: baseDraft.country.trim(),
+                cities: baseDraft.cities.split(',').map(c => c.trim()).filter(Boolean),
+                effective_from: baseDraft.effective_from
+            });
+            setEditingBaseUid(null);
+        } catch (e) {
+            console.error(e);
+        }
+    };
+
     const handleApprove = async (uid: string) => {
         try {
             await updateUserRole(uid, 'employee');
@@ -154,6 +415,542 @@ const SystemSettings: React.FC<SystemSettingsProps> = ({ settings, onUpdate }) =
                 </div>
             </div>
 
+            {/* EXPENSE POLICY SECTION */}
+            <div className="bg-white dark:bg-slate-900 p-10 rounded-[3rem] border border-slate-100 dark:border-slate-800 shadow-xl">
+                <div className="flex items-center gap-4 mb-8">
+                    <div className="w-12 h-12 rounded-2xl bg-red-50 dark:bg-red-900/40 flex items-center justify-center text-red-600 dark:text-red-400">
+                        <Gavel size={24} />
+                    </div>
+                    <div>
+                        <h3 className="text-2xl font-black tracking-tighter dark:text-white uppercase">Expense Policy</h3>
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Checked On Every New Expense & Travel Log</p>
+                    </div>
+                </div>
+
+                <div className="space-y-3">
+                    {policyRules.length === 0 && (
+                        <div className="py-6 text-center text-xs font-medium text-slate-400">No policy rules yet. Add one below.</div>
+                    )}
+                    {policyRules.map((rule, idx) => (
+                        <div key={rule.id} className={`grid grid-cols-12 gap-2 items-center p-3 rounded-2xl border ${rule.enabled ? 'border-slate-100 dark:border-slate-800' : 'border-dashed border-slate-200 dark:border-slate-800 opacity-60'}`}>
+                            <input type="checkbox" className="col-span-1 justify-self-center w-4 h-4 accent-brand-600" checked={rule.enabled} onChange={(e) => updateRule(idx, { enabled: e.target.checked })} title="Enabled" />
+                            <div className="col-span-3">
+                                <input className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={rule.name} onChange={(e) => updateRule(idx, { name: e.target.value })} />
+                                <div className="text-[8px] font-black uppercase tracking-widest text-slate-400 mt-1 ml-1">{POLICY_RULE_LABELS[rule.type]}</div>
+                            </div>
+                            <select
+                                className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-[10px] font-black uppercase dark:text-white outline-none"
+                                value={rule.severity}
+                                onChange={(e) => updateRule(idx, { severity: e.target.value as PolicySeverity })}
+                            >
+                                <option value="info">Info</option>
+                                <option value="warning">Warning</option>
+                                <option value="critical">Critical</option>
+                            </select>
+                            {rule.type === 'alcohol' ? (
+                                <span className="col-span-2 text-[10px] font-bold text-slate-400">Any alcohol line</span>
+                            ) : (
+                                <input
+                                    type="number"
+                                    className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none"
+                                    value={rule.amount ?? ''}
+                                    placeholder={rule.type === 'weekend_spend' ? `Any (${reportingCurrency})` : reportingCurrency}
+                                    onChange={(e) => updateRule(idx, { amount: e.target.value ? parseFloat(e.target.value) : undefined })}
+                                />
+                            )}
+                            <div className="col-span-3">
+                                {rule.type === 'hotel_nightly_cap' && (
+                                    <input className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={rule.city || ''} placeholder="City (blank = any)" onChange={(e) => updateRule(idx, { city: e.target.value })} />
+                                )}
+                                {rule.type === 'weekend_spend' && (
+                                    <div className="flex gap-1">
+                                        {WEEKDAYS.map((label, day) => (
+                                            <button
+                                                key={label}
+                                                onClick={() => toggleWeekday(idx, day)}
+                                                className={`flex-1 py-2 rounded-lg text-[9px] font-black uppercase ${(rule.weekend_days || DEFAULT_WEEKEND_DAYS).includes(day) ? 'bg-brand-600 text-white' : 'bg-slate-50 dark:bg-slate-800 text-slate-400'}`}
+                                            >
+                                                {label.charAt(0)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {(rule.type === 'meal_per_person' || rule.type === 'receipt_required' || rule.type === 'alcohol') && (
+                                    <input className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={(rule.categories || []).join(', ')} placeholder="Heads (blank = all)" onChange={(e) => updateRule(idx, { categories: e.target.value.split(',').map(c => c.trim()).filter(Boolean) })} />
+                                )}
+                            </div>
+                            <button onClick={() => setPolicyRules(prev => prev.filter((_, i) => i !== idx))} className="col-span-1 p-2 text-slate-300 hover:text-red-500 justify-self-center">
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-4 mt-6">
+                    <div className="flex flex-wrap gap-2">
+                        {(Object.keys(POLICY_RULE_LABELS) as PolicyRuleType[]).map(type => (
+                            <button
+                                key={type}
+                                onClick={() => addRule(type)}
+                                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-600"
+                            >
+                                <Plus size={14} /> {POLICY_RULE_LABELS[type]}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={handleSavePolicy}
+                        disabled={isSavingPolicy}
+                        className={`flex items-center gap-3 px-8 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all ${isSavingPolicy
+                            ? 'bg-brand-300 text-white cursor-not-allowed'
+                            : 'bg-brand-400 hover:bg-brand-500 text-white shadow-lg shadow-brand-500/20 active:scale-95'
+                            }`}
+                    >
+                        <Save size={18} />
+                        {isSavingPolicy ? 'Saving...' : 'Save Policy'}
+                    </button>
+                </div>
+            </div>
+
+            {/* BUDGETS SECTION */}
+            <div className="bg-white dark:bg-slate-900 p-10 rounded-[3rem] border border-slate-100 dark:border-slate-800 shadow-xl">
+                <div className="flex items-center gap-4 mb-8">
+                    <div className="w-12 h-12 rounded-2xl bg-brand-50 dark:bg-brand-900/40 flex items-center justify-center text-brand-600 dark:text-brand-400">
+                        <Target size={24} />
+                    </div>
+                    <div>
+                        <h3 className="text-2xl font-black tracking-tighter dark:text-white uppercase">Budgets</h3>
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Monthly Or Quarterly Limits In {reportingCurrency}</p>
+                    </div>
+                </div>
+
+                <datalist id="budget-heads">
+                    {Array.from(new Set([...STANDARD_CATEGORIES, ...(settings.custom_expense_heads || [])])).map(head => <option key={head} value={head} />)}
+                </datalist>
+
+                <div className="space-y-3">
+                    <div className="grid grid-cols-12 gap-2 px-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                        <span className="col-span-2">Budget For</span>
+                        <span className="col-span-4">Head / Project / Employee</span>
+                        <span className="col-span-2">Period</span>
+                        <span className="col-span-2">Amount ({reportingCurrency})</span>
+                        <span className="col-span-1">Alert %</span>
+                    </div>
+                    {budgets.length === 0 && (
+                        <div className="py-6 text-center text-xs font-medium text-slate-400">No budgets yet. Add one below.</div>
+                    )}
+                    {budgets.map((b, idx) => (
+                        <div key={b.id} className="grid grid-cols-12 gap-2 items-center">
+                            <select
+                                className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-[10px] font-black uppercase dark:text-white outline-none"
+                                value={b.dimension}
+                                onChange={(e) => updateBudget(idx, { dimension: e.target.value as BudgetDimension, target: '' })}
+                            >
+                                {(Object.keys(BUDGET_DIMENSION_LABELS) as BudgetDimension[]).map(d => <option key={d} value={d}>{BUDGET_DIMENSION_LABELS[d]}</option>)}
+                            </select>
+                            <input
+                                className="col-span-4 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none"
+                                value={b.target}
+                                list={b.dimension === 'category' ? 'budget-heads' : b.dimension === 'employee' ? 'approval-users' : undefined}
+                                placeholder={b.dimension === 'project' ? 'Company project' : b.dimension === 'employee' ? 'name@company.com' : 'Expense head'}
+                                onChange={(e) => updateBudget(idx, { target: e.target.value })}
+                            />
+                            <select
+                                className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-[10px] font-black uppercase dark:text-white outline-none"
+                                value={b.period}
+                                onChange={(e) => updateBudget(idx, { period: e.target.value as BudgetPeriod })}
+                            >
+                                <option value="month">Monthly</option>
+                                <option value="quarter">Quarterly</option>
+                            </select>
+                            <input
+                                type="number"
+                                className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none"
+                                value={b.amount || ''}
+                                onChange={(e) => updateBudget(idx, { amount: parseFloat(e.target.value) || 0 })}
+                            />
+                            <input
+                                type="number"
+                                className="col-span-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none"
+                                value={b.alert_percent ?? ''}
+                                placeholder={String(DEFAULT_BUDGET_ALERT_PERCENT)}
+                                onChange={(e) => updateBudget(idx, { alert_percent: e.target.value ? parseFloat(e.target.value) : undefined })}
+                            />
+                            <button onClick={() => setBudgets(prev => prev.filter((_, i) => i !== idx))} className="col-span-1 p-2 text-slate-300 hover:text-red-500 justify-self-center">
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between mt-6">
+                    <button
+                        onClick={() => setBudgets(prev => [...prev, { id: `budget_${Date.now()}`, dimension: 'category', target: '', period: 'month', amount: 0 }])}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-600"
+                    >
+                        <Plus size={14} /> Add Budget
+                    </button>
+                    <button
+                        onClick={handleSaveBudgets}
+                        disabled={isSavingBudgets}
+                        className={`flex items-center gap-3 px-8 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all ${isSavingBudgets
+                            ? 'bg-brand-300 text-white cursor-not-allowed'
+                            : 'bg-brand-400 hover:bg-brand-500 text-white shadow-lg shadow-brand-500/20 active:scale-95'
+                            }`}
+                    >
+                        <Save size={18} />
+                        {isSavingBudgets ? 'Saving...' : 'Save Budgets'}
+                    </button>
+                </div>
+            </div>
+
+            {/* VAT JURISDICTIONS SECTION */}
+            <div className="bg-white dark:bg-slate-900 p-10 rounded-[3rem] border border-slate-100 dark:border-slate-800 shadow-xl">
+                <div className="flex items-center justify-between gap-4 mb-8">
+                    <div className="flex items-center gap-4">
+                        <div className="w-12 h-12 rounded-2xl bg-emerald-50 dark:bg-emerald-900/40 flex items-center justify-center text-emerald-600 dark:text-emerald-400">
+                            <Landmark size={24} />
+                        </div>
+                        <div>
+                            <h3 className="text-2xl font-black tracking-tighter dark:text-white uppercase">VAT Jurisdictions</h3>
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Input Tax Recovery Rules</p>
+                        </div>
+                    </div>
+                    <select
+                        value={vatHome}
+                        onChange={(e) => setVatHome(e.target.value)}
+                        className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-2 text-[10px] font-black uppercase tracking-widest dark:text-white outline-none"
+                        title="Jurisdiction the company files its VAT return in"
+                    >
+                        {vatJurisdictions.map(j => <option key={j.code} value={j.code}>Home: {j.name}</option>)}
+                    </select>
+                </div>
+
+                <div className="space-y-3">
+                    <div className="grid grid-cols-12 gap-2 px-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                        <span className="col-span-1">Code</span>
+                        <span className="col-span-2">Name</span>
+                        <span className="col-span-1">Curr.</span>
+                        <span className="col-span-1">Rate %</span>
+                        <span className="col-span-1">Label</span>
+                        <span className="col-span-2">Reg. No. Pattern</span>
+                        <span className="col-span-1">Simpl. Limit</span>
+                        <span className="col-span-2">Blocked Heads</span>
+                        <span className="col-span-1"></span>
+                    </div>
+                    {vatJurisdictions.map((j, idx) => (
+                        <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+                            <input className="col-span-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-black uppercase dark:text-white outline-none" value={j.code} onChange={(e) => updateJurisdiction(idx, { code: e.target.value })} />
+                            <input className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={j.name} onChange={(e) => updateJurisdiction(idx, { name: e.target.value })} />
+                            <input className="col-span-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-black uppercase dark:text-white outline-none" value={j.currency} onChange={(e) => updateJurisdiction(idx, { currency: e.target.value })} />
+                            <input type="number" step="any" className="col-span-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-black dark:text-white outline-none" value={j.standard_rate} onChange={(e) => updateJurisdiction(idx, { standard_rate: parseFloat(e.target.value) || 0 })} />
+                            <input className="col-span-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={j.trn_label} onChange={(e) => updateJurisdiction(idx, { trn_label: e.target.value })} />
+                            <input className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-mono dark:text-white outline-none" value={j.trn_pattern || ''} placeholder="Any" onChange={(e) => updateJurisdiction(idx, { trn_pattern: e.target.value || undefined })} />
+                            <input type="number" className="col-span-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={j.simplified_invoice_limit ?? ''} placeholder="—" onChange={(e) => updateJurisdiction(idx, { simplified_invoice_limit: e.target.value ? parseFloat(e.target.value) : undefined })} />
+                            <input className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={(j.blocked_categories || []).join(', ')} placeholder="e.g. Meals" onChange={(e) => updateJurisdiction(idx, { blocked_categories: e.target.value.split(',').map(c => c.trim()).filter(Boolean) })} />
+                            <button onClick={() => setVatJurisdictions(prev => prev.filter((_, i) => i !== idx))} className="col-span-1 p-2 text-slate-300 hover:text-red-500 justify-self-center">
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between mt-6">
+                    <button
+                        onClick={() => setVatJurisdictions(prev => [...prev, { code: '', name: '', currency: '', standard_rate: 5, trn_label: 'TRN' }])}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-600"
+                    >
+                        <Plus size={14} /> Add Jurisdiction
+                    </button>
+                    <button
+                        onClick={handleSaveVat}
+                        disabled={isSavingVat}
+                        className={`flex items-center gap-3 px-8 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all ${isSavingVat
+                            ? 'bg-brand-300 text-white cursor-not-allowed'
+                            : 'bg-brand-400 hover:bg-brand-500 text-white shadow-lg shadow-brand-500/20 active:scale-95'
+                            }`}
+                    >
+                        <Save size={18} />
+                        {isSavingVat ? 'Saving...' : 'Save VAT Rules'}
+                    </button>
+                </div>
+            </div>
+
+            {/* TAX RESIDENCY SECTION */}
+            <div className="bg-white dark:bg-slate-900 p-10 rounded-[3rem] border border-slate-100 dark:border-slate-800 shadow-xl">
+                <div className="flex items-center gap-4 mb-8">
+                    <div className="w-12 h-12 rounded-2xl bg-sky-50 dark:bg-sky-900/40 flex items-center justify-center text-sky-600 dark:text-sky-400">
+                        <Globe size={24} />
+                    </div>
+                    <div>
+                        <h3 className="text-2xl font-black tracking-tighter dark:text-white uppercase">Tax Residency</h3>
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Day Counting For Presence Certificates</p>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Default Home Country</label>
+                        <input
+                            className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-xs font-bold dark:text-white outline-none"
+                            value={residency.home_country}
+                            onChange={(e) => setResidency(prev => ({ ...prev, home_country: e.target.value }))}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Required Days</label>
+                        <input
+                            type="number"
+                            className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-xs font-bold dark:text-white outline-none"
+                            value={residency.threshold_days ?? ''}
+                            placeholder={String(DEFAULT_RESIDENCY_THRESHOLD)}
+                            onChange={(e) => setResidency(prev => ({ ...prev, threshold_days: e.target.value ? parseInt(e.target.value) : undefined }))}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Counting Window</label>
+                        <div className="flex gap-2">
+                            <select
+                                className="flex-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-[10px] font-black uppercase dark:text-white outline-none"
+                                value={residency.window}
+                                onChange={(e) => setResidency(prev => ({ ...prev, window: e.target.value as ResidencyWindowType }))}
+                            >
+                                {(Object.keys(RESIDENCY_WINDOW_LABELS) as ResidencyWindowType[]).map(w => <option key={w} value={w}>{RESIDENCY_WINDOW_LABELS[w]}</option>)}
+                            </select>
+                            {residency.window === 'fiscal' && (
+                                <select
+                                    className="flex-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-[10px] font-black uppercase dark:text-white outline-none"
+                                    value={residency.fiscal_start_month || 1}
+                                    title="Month the fiscal year starts in"
+                                    onChange={(e) => setResidency(prev => ({ ...prev, fiscal_start_month: parseInt(e.target.value) }))}
+                                >
+                                    {MONTHS.map((m, i) => <option key={m} value={i + 1}>Starts {m}</option>)}
+                                </select>
+                            )}
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Partial Days</label>
+                        <select
+                            className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-[10px] font-black uppercase dark:text-white outline-none"
+                            value={residency.partial_day_rule}
+                            onChange={(e) => setResidency(prev => ({ ...prev, partial_day_rule: e.target.value as PartialDayRule }))}
+                        >
+                            {(Object.keys(PARTIAL_DAY_RULE_LABELS) as PartialDayRule[]).map(r => <option key={r} value={r}>{PARTIAL_DAY_RULE_LABELS[r]}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                <div className="flex justify-end mt-6">
+                    <button
+                        onClick={handleSaveResidency}
+                        disabled={isSavingResidency}
+                        className={`flex items-center gap-3 px-8 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all ${isSavingResidency
+                            ? 'bg-brand-300 text-white cursor-not-allowed'
+                            : 'bg-brand-400 hover:bg-brand-500 text-white shadow-lg shadow-brand-500/20 active:scale-95'
+                            }`}
+                    >
+                        <Save size={18} />
+                        {isSavingResidency ? 'Saving...' : 'Save Residency Rules'}
+                    </button>
+                </div>
+            </div>
+
+            {/* PER DIEM SECTION */}
+            <div className="bg-white dark:bg-slate-900 p-10 rounded-[3rem] border border-slate-100 dark:border-slate-800 shadow-xl">
+                <div className="flex items-center justify-between gap-4 mb-8">
+                    <div className="flex items-center gap-4">
+                        <div className="w-12 h-12 rounded-2xl bg-amber-50 dark:bg-amber-900/40 flex items-center justify-center text-amber-600 dark:text-amber-400">
+                            <Utensils size={24} />
+                        </div>
+                        <div>
+                            <h3 className="text-2xl font-black tracking-tighter dark:text-white uppercase">Per Diems</h3>
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Daily Allowances By Destination</p>
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-600 cursor-pointer" title="Columns: Country, City, Currency, Daily Rate">
+                        <Upload size={14} /> Import CSV
+                        <input type="file" className="hidden" accept=".csv,text/csv" onChange={(e) => { handleImportPerDiemCsv(e.target.files?.[0]); e.target.value = ''; }} />
+                    </label>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+                    <div className="space-y-2">
+                        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Departure Day %</label>
+                        <input
+                            type="number"
+                            className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-xs font-bold dark:text-white outline-none"
+                            value={perDiem.departure_day_percent}
+                            onChange={(e) => setPerDiem(prev => ({ ...prev, departure_day_percent: parseFloat(e.target.value) || 0 }))}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Return Day %</label>
+                        <input
+                            type="number"
+                            className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-xs font-bold dark:text-white outline-none"
+                            value={perDiem.return_day_percent}
+                            onChange={(e) => setPerDiem(prev => ({ ...prev, return_day_percent: parseFloat(e.target.value) || 0 }))}
+                        />
+                    </div>
+                    {PER_DIEM_MEALS.map(meal => (
+                        <div key={meal} className="space-y-2">
+                            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">{meal} Deduction %</label>
+                            <input
+                                type="number"
+                                className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-xs font-bold dark:text-white outline-none"
+                                value={perDiem.meal_deductions[meal]}
+                                onChange={(e) => setPerDiem(prev => ({ ...prev, meal_deductions: { ...prev.meal_deductions, [meal]: parseFloat(e.target.value) || 0 } }))}
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <div className="space-y-3">
+                    <div className="grid grid-cols-12 gap-2 px-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                        <span className="col-span-4">Country</span>
+                        <span className="col-span-3">City (blank = rest of country)</span>
+                        <span className="col-span-2">Currency</span>
+                        <span className="col-span-2">Daily Rate</span>
+                        <span className="col-span-1"></span>
+                    </div>
+                    {perDiem.rates.length === 0 && (
+                        <div className="py-6 text-center text-xs font-medium text-slate-400">No per diem rates yet. Add one below or import a CSV.</div>
+                    )}
+                    {perDiem.rates.map((r, idx) => (
+                        <div key={r.id} className="grid grid-cols-12 gap-2 items-center">
+                            <input className="col-span-4 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={r.country} placeholder="Country" onChange={(e) => updatePerDiemRate(idx, { country: e.target.value })} />
+                            <input className="col-span-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={r.city || ''} placeholder="Any city" onChange={(e) => updatePerDiemRate(idx, { city: e.target.value })} />
+                            <input className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-black uppercase dark:text-white outline-none" value={r.currency} onChange={(e) => updatePerDiemRate(idx, { currency: e.target.value })} />
+                            <input type="number" step="any" className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={r.daily_rate || ''} onChange={(e) => updatePerDiemRate(idx, { daily_rate: parseFloat(e.target.value) || 0 })} />
+                            <button onClick={() => setPerDiem(prev => ({ ...prev, rates: prev.rates.filter((_, i) => i !== idx) }))} className="col-span-1 p-2 text-slate-300 hover:text-red-500 justify-self-center">
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between mt-6">
+                    <button
+                        onClick={() => setPerDiem(prev => ({ ...prev, rates: [...prev.rates, { id: `per_diem_${Date.now()}`, country: '', currency: reportingCurrency, daily_rate: 0 }] }))}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-600"
+                    >
+                        <Plus size={14} /> Add Rate
+                    </button>
+                    <button
+                        onClick={handleSavePerDiem}
+                        disabled={isSavingPerDiem}
+                        className={`flex items-center gap-3 px-8 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all ${isSavingPerDiem
+                            ? 'bg-brand-300 text-white cursor-not-allowed'
+                            : 'bg-brand-400 hover:bg-brand-500 text-white shadow-lg shadow-brand-500/20 active:scale-95'
+                            }`}
+                    >
+                        <Save size={18} />
+                        {isSavingPerDiem ? 'Saving...' : 'Save Per Diems'}
+                    </button>
+                </div>
+            </div>
+
+            {/* APPROVAL CHAIN SECTION */}
+            <div className="bg-white dark:bg-slate-900 p-10 rounded-[3rem] border border-slate-100 dark:border-slate-800 shadow-xl">
+                <div className="flex items-center gap-4 mb-8">
+                    <div className="w-12 h-12 rounded-2xl bg-amber-50 dark:bg-amber-900/40 flex items-center justify-center text-amber-600 dark:text-amber-400">
+                        <GitBranch size={24} />
+                    </div>
+                    <div>
+                        <h3 className="text-2xl font-black tracking-tighter dark:text-white uppercase">Approval Chain</h3>
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Who Signs Off Reimbursement Claims, In Order</p>
+                    </div>
+                </div>
+
+                <datalist id="approval-users">
+                    {users.filter(u => u.role !== 'pending').map(u => <option key={u.uid} value={u.email} />)}
+                </datalist>
+
+                <div className="space-y-3">
+                    <div className="grid grid-cols-12 gap-2 px-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                        <span className="col-span-1">Step</span>
+                        <span className="col-span-3">Label</span>
+                        <span className="col-span-4">Approver</span>
+                        <span className="col-span-2">Above ({reportingCurrency})</span>
+                        <span className="col-span-1">Travel Only</span>
+                        <span className="col-span-1"></span>
+                    </div>
+                    {approvalSteps.length === 0 && (
+                        <div className="py-6 text-center text-xs font-medium text-slate-400">No chain configured. Claims go straight to an administrator.</div>
+                    )}
+                    {approvalSteps.map((step, idx) => (
+                        <div key={step.id} className="grid grid-cols-12 gap-2 items-center">
+                            <span className="col-span-1 flex items-center gap-1 text-xs font-black text-slate-400">{idx + 1}{idx < approvalSteps.length - 1 && <ArrowRight size={12} />}</span>
+                            <input className="col-span-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={step.label} placeholder="e.g. Finance" onChange={(e) => updateStep(idx, { label: e.target.value })} />
+                            <div className="col-span-4 flex gap-2">
+                                <select
+                                    className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-[10px] font-black uppercase dark:text-white outline-none"
+                                    value={step.approver === LINE_MANAGER ? LINE_MANAGER : 'user'}
+                                    onChange={(e) => updateStep(idx, { approver: e.target.value === LINE_MANAGER ? LINE_MANAGER : '' })}
+                                >
+                                    <option value={LINE_MANAGER}>Line Manager</option>
+                                    <option value="user">Named User</option>
+                                </select>
+                                {step.approver !== LINE_MANAGER && (
+                                    <input className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" list="approval-users" value={step.approver} placeholder="approver@company.com" onChange={(e) => updateStep(idx, { approver: e.target.value })} />
+                                )}
+                            </div>
+                            <input type="number" className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={step.min_amount ?? ''} placeholder="Always" onChange={(e) => updateStep(idx, { min_amount: e.target.value ? parseFloat(e.target.value) : undefined })} />
+                            <input type="checkbox" className="col-span-1 justify-self-center w-4 h-4 accent-brand-600" checked={!!step.travel_only} onChange={(e) => updateStep(idx, { travel_only: e.target.checked || undefined })} />
+                            <button onClick={() => setApprovalSteps(prev => prev.filter((_, i) => i !== idx))} className="col-span-1 p-2 text-slate-300 hover:text-red-500 justify-self-center">
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => setApprovalSteps(prev => [...prev, { id: `step_${Date.now()}`, label: prev.length === 0 ? 'Line Manager' : '', approver: prev.length === 0 ? LINE_MANAGER : '' }])}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-600"
+                    >
+                        <Plus size={14} /> Add Step
+                    </button>
+                </div>
+
+                <div className="border-t border-slate-100 dark:border-slate-800/60 my-8 pt-8 space-y-3">
+                    <h4 className="text-sm font-black dark:text-white uppercase tracking-wider mb-2">Delegations</h4>
+                    <p className="text-xs font-medium text-slate-500 max-w-lg leading-relaxed mb-4">
+                        While an approver is away, the delegate can take their steps. Open claims are re-routed when you save.
+                    </p>
+                    {delegations.map((d, idx) => (
+                        <div key={d.id} className="grid grid-cols-12 gap-2 items-center">
+                            <input className="col-span-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" list="approval-users" value={d.from} placeholder="Approver" onChange={(e) => updateDelegation(idx, { from: e.target.value })} />
+                            <input className="col-span-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" list="approval-users" value={d.to} placeholder="Delegate" onChange={(e) => updateDelegation(idx, { to: e.target.value })} />
+                            <input type="date" className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={d.start} onChange={(e) => updateDelegation(idx, { start: e.target.value })} />
+                            <input type="date" className="col-span-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={d.end} onChange={(e) => updateDelegation(idx, { end: e.target.value })} />
+                            <input className="col-span-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none" value={d.note || ''} placeholder="Note" onChange={(e) => updateDelegation(idx, { note: e.target.value || undefined })} />
+                            <button onClick={() => setDelegations(prev => prev.filter((_, i) => i !== idx))} className="col-span-1 p-2 text-slate-300 hover:text-red-500 justify-self-center">
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => setDelegations(prev => [...prev, { id: `delegation_${Date.now()}`, from: '', to: '', start: new Date().toISOString().split('T')[0], end: new Date().toISOString().split('T')[0] }])}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-600"
+                    >
+                        <Plus size={14} /> Add Delegation
+                    </button>
+                </div>
+
+                <div className="flex justify-end">
+                    <button
+                        onClick={handleSaveApprovals}
+                        disabled={isSavingApprovals}
+                        className={`flex items-center gap-3 px-8 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all ${isSavingApprovals
+                            ? 'bg-brand-300 text-white cursor-not-allowed'
+                            : 'bg-brand-400 hover:bg-brand-500 text-white shadow-lg shadow-brand-500/20 active:scale-95'
+                            }`}
+                    >
+                        <Save size={18} />
+                        {isSavingApprovals ? 'Saving...' : 'Save Approval Rules'}
+                    </button>
+                </div>
+            </div>
+
             {/* USER MANAGEMENT SECTION */}
             <div className="bg-white dark:bg-slate-900 p-10 rounded-[3rem] border border-slate-100 dark:border-slate-800 shadow-xl">
                 <div className="flex items-center gap-4 mb-8">
@@ -171,45 +968,114 @@ const SystemSettings: React.FC<SystemSettingsProps> = ({ settings, onUpdate }) =
                         <div className="py-12 text-center text-slate-400 font-medium">No users found in database.</div>
                     ) : (
                         users.map(user => (
-                            <div key={user.uid} className="py-6 flex items-center justify-between group">
-                                <div className="flex items-center gap-4">
-                                    <div className="w-10 h-10 rounded-xl bg-slate-50 dark:bg-slate-800 flex items-center justify-center text-slate-400 font-black text-xs border border-slate-100 dark:border-slate-800">
-                                        {user.email.charAt(0).toUpperCase()}
-                                    </div>
-                                    <div>
-                                        <div className="text-sm font-black dark:text-white">{user.email}</div>
-                                        <div className="flex items-center gap-2 mt-0.5">
-                                            {user.role === 'admin' ? (
-                                                <span className="text-[9px] font-black uppercase tracking-widest text-brand-600 bg-brand-50 dark:bg-brand-900/40 px-2 py-0.5 rounded-md">Administrator</span>
-                                            ) : user.role === 'pending' ? (
-                                                <span className="text-[9px] font-black uppercase tracking-widest text-amber-600 bg-amber-50 dark:bg-amber-900/40 px-2 py-0.5 rounded-md flex items-center gap-1"><Clock size={10} /> Pending Approval</span>
-                                            ) : (
-                                                <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-md text-emerald-600 dark:text-emerald-400">Active Employee</span>
-                                            )}
+                            <div key={user.uid} className="py-6">
+                                <div className="flex items-center justify-between group">
+                                    <div className="flex items-center gap-4">
+                                        <div className="w-10 h-10 rounded-xl bg-slate-50 dark:bg-slate-800 flex items-center justify-center text-slate-400 font-black text-xs border border-slate-100 dark:border-slate-800">
+                                            {user.email.charAt(0).toUpperCase()}
+                                        </div>
+                                        <div>
+                                            <div className="text-sm font-black dark:text-white">{user.email}</div>
+                                            <div className="flex items-center gap-2 mt-0.5">
+                                                {user.role === 'admin' ? (
+                                                    <span className="text-[9px] font-black uppercase tracking-widest text-brand-600 bg-brand-50 dark:bg-brand-900/40 px-2 py-0.5 rounded-md">Administrator</span>
+                                                ) : user.role === 'pending' ? (
+                                                    <span className="text-[9px] font-black uppercase tracking-widest text-amber-600 bg-amber-50 dark:bg-amber-900/40 px-2 py-0.5 rounded-md flex items-center gap-1"><Clock size={10} /> Pending Approval</span>
+                                                ) : (
+                                                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-md text-emerald-600 dark:text-emerald-400">Active Employee</span>
+                                                )}
+                                                {user.role !== 'pending' && (
+                                                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-1">
+                                                        <MapPin size={10} />
+                                                        {user.home_bases?.length ? describeHomeBase(homeBaseOn(user.home_bases)) : 'Default Home Base'}
+                                                    </span>
+                                                )}
+                                            </div>
                                         </div>
                                     </div>
-                                </div>
 
-                                <div className="flex items-center gap-2">
-                                    {user.role === 'pending' && (
-                                        <button
-                                            onClick={() => handleApprove(user.uid)}
-                                            className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all shadow-lg shadow-emerald-500/20 active:scale-95"
-                                        >
-                                            <CheckCircle size={14} />
-                                            Approve
-                                        </button>
-                                    )}
-                                    {user.role === 'employee' && (
-                                        <button
-                                            onClick={() => handleRevoke(user.uid)}
-                                            className="p-2.5 text-slate-300 hover:text-red-500 transition-colors"
-                                            title="Revoke Access"
-                                        >
-                                            <XCircle size={20} />
-                                        </button>
-                                    )}
+                                    <div className="flex items-center gap-2">
+                                        {user.role !== 'pending' && (
+                                            <input
+                                                className="w-52 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-[11px] font-bold dark:text-white outline-none"
+                                                list="approval-users"
+                                                placeholder="Line manager"
+                                                title="Line manager (first approver of this user's claims)"
+                                                defaultValue={user.manager_email || ''}
+                                                onBlur={(e) => e.target.value.trim().toLowerCase() !== (user.manager_email || '') && handleManagerChange(user.uid, e.target.value)}
+                                            />
+                                        )}
+                                        {user.role !== 'pending' && (
+                                            <button
+                                                onClick={() => editingBaseUid === user.uid ? setEditingBaseUid(null) : openHomeBaseEditor(user)}
+                                                className={`p-2.5 transition-colors ${editingBaseUid === user.uid ? 'text-brand-600' : 'text-slate-300 hover:text-brand-600'}`}
+                                                title="Home Base"
+                                            >
+                                                <MapPin size={20} />
+                                            </button>
+                                        )}
+                                        {user.role === 'pending' && (
+                                            <button
+                                                onClick={() => handleApprove(user.uid)}
+                                                className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all shadow-lg shadow-emerald-500/20 active:scale-95"
+                                            >
+                                                <CheckCircle size={14} />
+                                                Approve
+                                            </button>
+                                        )}
+                                        {user.role === 'employee' && (
+                                            <button
+                                                onClick={() => handleRevoke(user.uid)}
+                                                className="p-2.5 text-slate-300 hover:text-red-500 transition-colors"
+                                                title="Revoke Access"
+                                            >
+                                                <XCircle size={20} />
+                                            </button>
+                                        )}
+                                    </div>
                                 </div>
+
+                                {editingBaseUid === user.uid && (
+                                    <div className="mt-4 p-5 bg-slate-50 dark:bg-slate-800/40 rounded-2xl space-y-4">
+                                        {(user.home_bases || []).length > 0 && (
+                                            <div className="space-y-1">
+                                                {(user.home_bases as HomeBase[]).map(b => (
+                                                    <div key={b.effective_from} className="text-[10px] font-bold text-slate-500 dark:text-slate-400">
+                                                        From {b.effective_from}: {describeHomeBase(b)}
+                                                        {b.set_by && <span className="text-slate-400"> (set by {b.set_by})</span>}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                        <div className="grid grid-cols-12 gap-2 items-center">
+                                            <input
+                                                className="col-span-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none"
+                                                placeholder="Home country"
+                                                value={baseDraft.country}
+                                                onChange={(e) => setBaseDraft(prev => ({ ...prev, country: e.target.value }))}
+                                            />
+                                            <input
+                                                className="col-span-4 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none"
+                                                placeholder="Home cities, comma separated"
+                                                value={baseDraft.cities}
+                                                onChange={(e) => setBaseDraft(prev => ({ ...prev, cities: e.target.value }))}
+                                            />
+                                            <input
+                                                type="date"
+                                                className="col-span-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold dark:text-white outline-none"
+                                                title="Trips from this date use the new home base; earlier trips keep the previous one"
+                                                value={baseDraft.effective_from}
+                                                onChange={(e) => setBaseDraft(prev => ({ ...prev, effective_from: e.target.value }))}
+                                            />
+                                            <button
+                                                onClick={() => handleSaveHomeBase(user)}
+                                                className="col-span-2 flex items-center justify-center gap-2 px-4 py-2 bg-brand-400 hover:bg-brand-500 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95"
+                                            >
+                                                <Save size={14} /> Save
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         ))
                     )}
@@ -1,11 +1,17 @@
 
 import React, { useMemo, useState, useEffect } from 'react';
-import { TravelLog, Expense } from '../types';
-import { isHomeLocation } from '../firebaseService';
-import { getExchangeRates, convertToUSD, ExchangeRates } from '../currencyService';
+import { TravelLog, Expense, MerchantAlias, ResidencySettings, HomeBase, Trip, PerDiemDay, PerDiemSettings } from '../types';
+import { StopDays, tripCountryDays, tripDays, tripEndDate, tripLogIds, tripRoute, tripStopDays } from '../trips';
+import { DEFAULT_RESIDENCY_SETTINGS } from '../residency';
+import { PER_DIEM_DAY_LABELS, formatPerDiemTotals, perDiemTotals, tripMealExpenses, tripPerDiemDays } from '../perDiem';
+import { getExchangeRates, ExchangeRates, convertToBaseCurrency } from '../currencyService';
+import { isAnchor, matchExpenses, matchProofIds, merchantSimilarity, scorePair, daysBetween } from '../reconciliationEngine';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import * as XLSX from 'xlsx';
+import ResidencyCounter from './ResidencyCounter';
+import TripEditor from './TripEditor';
+import PerDiemEditor from './PerDiemEditor';
 import {
   Plane,
   MapPin,
@@ -23,26 +29,49 @@ import {
   ArrowRightLeft,
   FileText,
   FileSpreadsheet,
-  Download
+  Download,
+  Pencil,
+  RefreshCw,
+  Utensils,
+  Clock,
+  XCircle
 } from 'lucide-react';
 
 interface TravelTrackerProps {
   logs: TravelLog[];
   expenses: Expense[];
   period: { month: string; year: number };
+  merchantAliases?: MerchantAlias[];
+  allLogs?: TravelLog[];          // Full history for the residency window, which spans periods
+  residencySettings?: ResidencySettings;
+  travellerEmail?: string;
+  homeBases?: HomeBase[];         // Traveller's home-base history from their profile
+  trips?: Trip[];                 // Traveller's persisted trips, all periods
+  onRebuildTrips?: () => Promise<void>;
+  perDiemSettings?: PerDiemSettings;
+  isAdmin?: boolean;              // Admins approve per diems
 }
 
 type JurisdictionSegment = {
   id: string;
+  trip: Trip;
   country: string;
   city: string;
   days: number;
+  stops: StopDays[];
+  countryDays: { country: string; days: number }[];
   startDate: string;
   endDate: string;
   flight: TravelLog | null;
   hotel: TravelLog | null;
   status: 'verified' | 'action_required';
   provider: string;
+  perDiem: {
+    days: PerDiemDay[];
+    totals: Record<string, number>;
+    mealExpenses: Expense[];
+    mealSpend: { amount: number; currency: string };
+  };
   financials?: {
     flightAmt?: number;
     flightCurr?: string;
@@ -51,9 +80,13 @@ type JurisdictionSegment = {
   };
 };
 
-const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period }) => {
+const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period, merchantAliases = [], allLogs, residencySettings, travellerEmail, homeBases, trips = [], onRebuildTrips, perDiemSettings, isAdmin }) => {
   const [filter, setFilter] = useState<'all' | 'verified' | 'action_required'>('all');
   const [exchangeData, setExchangeData] = useState<ExchangeRates | null>(null);
+  const [editingTrip, setEditingTrip] = useState<Trip | null>(null);
+  const [perDiemSegmentId, setPerDiemSegmentId] = useState<string | null>(null);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const travelLogs = allLogs || logs;
   const monthsList = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
 
   useEffect(() => {
@@ -70,6 +103,15 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
     });
   }, [logs, period]);
 
+  // Shared reconciliation output: PROOF id -> ANCHOR id
+  const engineMatches = useMemo(() => {
+    const byProof: Record<string, string> = {};
+    if (!exchangeData) return byProof;
+    matchExpenses(expenses, { rates: exchangeData.rates || {}, aliases: merchantAliases, lodgingWindowDays: 14 })
+      .matched.forEach(m => matchProofIds(m).forEach(id => { byProof[id] = m.anchorId; }));
+    return byProof;
+  }, [expenses, exchangeData, merchantAliases]);
+
   // FORENSIC MATCHING ENGINE: Robust check for financial anchors + Scoped Proof Matching
   const getFinancialMatch = (
     log: TravelLog | null,
@@ -80,28 +122,19 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
     if (!log || !exchangeData) return null;
 
     const rates = exchangeData.rates || {};
-    const anchors = expenses.filter(e => {
-      const src = String(e.source || '').toLowerCase().trim();
-      const isAnchor = src === 'bank_statement' || src === 'credit_card_statement';
-      return isAnchor && (!usedIds || !usedIds.has(e.id));
-    });
+    const anchors = expenses.filter(e => isAnchor(e) && (!usedIds || !usedIds.has(e.id)));
 
     const lDate = new Date(log.start_date || log.departure_date || "").getTime();
     if (!lDate) return null;
 
     const isHotel = type === 'accommodation';
-    const lProv = (log.provider_name || "").toLowerCase().substring(0, 4);
+    const lProv = log.provider_name || "";
 
     // 1. Find all merchant candidates within the logical window
     const candidates = anchors.filter(bankTx => {
-      const bDate = new Date(bankTx.date).getTime();
-      const diffDays = Math.abs(bDate - lDate) / (1000 * 60 * 60 * 24);
-      const bMerc = bankTx.merchant.toLowerCase();
-
+      const diffDays = daysBetween(bankTx.date, new Date(lDate).toISOString());
       const windowMatch = isHotel ? diffDays <= 14 : diffDays <= 30;
-      const mercMatch = bMerc.includes(lProv) || lProv.includes(bMerc.substring(0, 4));
-
-      return windowMatch && mercMatch;
+      return windowMatch && merchantSimilarity(bankTx.merchant, lProv, merchantAliases) > 0;
     });
 
     if (candidates.length === 0) return null;
@@ -109,27 +142,22 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
     // 2. SCOPED PROOF RANKING
     let bestProof = specificProof;
     if (!bestProof) {
-      const proofs = expenses.filter(e => {
-        const src = String(e.source || '').toLowerCase().trim();
-        const isProof = src !== 'bank_statement' && src !== 'credit_card_statement';
-        return isProof && (!usedIds || !usedIds.has(e.id));
-      });
+      const proofs = expenses.filter(e => !isAnchor(e) && (!usedIds || !usedIds.has(e.id)));
 
       bestProof = proofs.find(p => {
         const pDate = new Date(p.date).getTime();
-        const pMerc = p.merchant.toLowerCase();
         const windowMatch = type === 'flight' ? Math.abs(pDate - lDate) < (3 * 86400000) : Math.abs(pDate - lDate) < (7 * 86400000);
-        return windowMatch && (pMerc.includes(lProv) || lProv.includes(pMerc.substring(0, 4)));
+        return windowMatch && merchantSimilarity(p.merchant, lProv, merchantAliases) > 0;
       });
     }
 
     if (bestProof) {
-      const pUSD = convertToUSD(bestProof.amount, bestProof.currency, rates);
-      const winner = [...candidates].sort((a, b) => {
-        const aUSD = convertToUSD(a.amount, a.currency, rates);
-        const bUSD = convertToUSD(b.amount, b.currency, rates);
-        return Math.abs(aUSD - pUSD) - Math.abs(bUSD - pUSD);
-      })[0];
+      // Prefer the anchor the reconciliation engine already paired with this proof
+      const pairedId = engineMatches[bestProof.id];
+      const paired = candidates.find(c => c.id === pairedId);
+      const winner = paired || [...candidates]
+        .map(c => ({ c, score: scorePair(c, bestProof!, { rates, aliases: merchantAliases, dateWindowDays: 30 })?.score || 0 }))
+        .sort((a, b) => b.score - a.score)[0]?.c;
       if (winner && usedIds) usedIds.add(winner.id);
       if (bestProof && usedIds) usedIds.add(bestProof.id);
       return winner;
@@ -144,23 +172,18 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
     return winner;
   };
 
-  // CORE LOGIC: Group logs into Jurisdiction Segments (Trips)
+  // CORE LOGIC: One Jurisdiction Segment per persisted trip
   const segments = useMemo(() => {
-    // 1. FILTER: Documents for this period (Monthly Focus)
-    const monthLogs = logs.filter(log => {
-      const sDate = new Date(log.start_date);
-      const eDate = new Date(log.end_date || log.start_date);
-      const sMatch = sDate.getFullYear() === period.year && (period.month === "All Months" || monthsList[sDate.getMonth()] === period.month);
-      const eMatch = eDate.getFullYear() === period.year && (period.month === "All Months" || monthsList[eDate.getMonth()] === period.month);
-      return sMatch || eMatch;
-    });
-
-    const allFlights = monthLogs
-      .filter(l => l.travel_type === 'flight')
-      .sort((a, b) => new Date(a.departure_date || a.start_date).getTime() - new Date(b.departure_date || b.start_date).getTime());
+    // 1. FILTER: Trips touching this period (Monthly Focus)
+    const inPeriod = (dateStr: string) => {
+      const d = new Date(dateStr);
+      return d.getFullYear() === period.year && (period.month === "All Months" || monthsList[d.getMonth()] === period.month);
+    };
+    const periodTrips = trips
+      .filter(t => inPeriod(t.start_date) || inPeriod(tripEndDate(t)))
+      .sort((a, b) => a.start_date.localeCompare(b.start_date));
 
-    const processedFlightIds = new Set<string>();
-    const hotelLogs = logs.filter(l => l.travel_type === 'accommodation');
+    const logsById: Record<string, TravelLog> = Object.fromEntries(travelLogs.map(l => [l.id, l]));
     const lodgingExpenses = expenses.filter(e => {
       const cat = (e.category || "").toLowerCase();
       const mainCat = (e.main_category || "").toLowerCase();
@@ -168,72 +191,36 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
       return isProof && (cat === 'lodging' || cat === 'accommodation' || mainCat === 'lodging' || mainCat === 'accommodation');
     });
 
+    // Stop days follow the same partial-day rule as the residency counter
+    const dayRule = residencySettings?.partial_day_rule || DEFAULT_RESIDENCY_SETTINGS.partial_day_rule;
+    // Bank lines the engine paired with a receipt; the receipt stands for the meal
+    const pairedAnchorIds = new Set(Object.values(engineMatches));
+
     const result: JurisdictionSegment[] = [];
     const usedIds = new Set<string>(); // EXCLUSIVITY REGISTER (1:1 Locks)
 
-    // 2. PROCESS FLIGHTS (Primary Anchors with Pairing)
-    allFlights.forEach(flight => {
-      if (processedFlightIds.has(flight.id)) return;
+    // 2. PROCESS TRIPS (legs are the movement proof, stays the presence proof)
+    periodTrips.forEach(trip => {
+      // A lone flight home anchors nothing
+      if (trip.stops.length === 0) return;
 
-      const isHomeReturn = isHomeLocation(flight);
-
-      // We only anchor segments on movements AWAY from homebase
-      if (isHomeReturn) return;
-
-      const tripStartStr = flight.departure_date || flight.start_date;
-      const tripStart = new Date(tripStartStr);
-      const destCountry = (flight.destination_country || "").toLowerCase();
-
-      // BRIDGE LOGIC: Only for one-way departures. If the doc already has a return date, trust it.
-      const hasInternalReturn = flight.return_date && flight.return_date !== flight.start_date;
-
-      const returnLeg = !hasInternalReturn ? allFlights.find(f => {
-        if (f.id === flight.id || processedFlightIds.has(f.id)) return false;
-        if (!isHomeLocation(f)) return false;
-
-        const fDate = new Date(f.departure_date || f.start_date);
-        const fOrigin = (f.origin_country || "").toLowerCase();
-
-        // Match if countries are swapped OR fallback for older logs without origin data
-        const countryMatch = destCountry && (fOrigin.includes(destCountry) || destCountry.includes(fOrigin));
-        const dateMatch = fDate >= tripStart;
-
-        // If we have origin data, be strict. If missing (legacy), match the nearest following return.
-        return dateMatch && (fOrigin ? countryMatch : true);
-      }) : null;
-
-      const tripEndStr = returnLeg ? (returnLeg.departure_date || returnLeg.start_date) : (flight.return_date || flight.end_date || flight.start_date);
+      const flights = Array.from(new Set(trip.legs.map(l => l.log_id))).map(id => logsById[id]).filter(Boolean);
+      const hotels = trip.hotel_log_ids.map(id => logsById[id]).filter(Boolean);
+      const tripStart = new Date(trip.start_date);
+      const tripEndStr = tripEndDate(trip);
       const tripEnd = new Date(tripEndStr);
 
-      const tripDays = (returnLeg || hasInternalReturn)
-        ? Math.max(1, Math.round((tripEnd.getTime() - tripStart.getTime()) / 86400000) + 1)
-        : (Number(flight.days_spent) || 1);
-
-      processedFlightIds.add(flight.id);
-      if (returnLeg) processedFlightIds.add(returnLeg.id);
-
-      const flightDest = (flight.destination_country || "").toLowerCase();
-
-      // DUAL-SOURCE STAY PROOF + GEOGRAPHY GUARD (Ensures hotels link to the right country)
-      let linkedHotel = hotelLogs.find(h => {
-        const hDate = new Date(h.start_date);
-        const hDest = (h.destination_country || "").toLowerCase();
-        const sameCountry = hDest && (flightDest.includes(hDest) || hDest.includes(flightDest));
-        const dateMatch = (hDate >= tripStart && hDate <= new Date(tripEnd.getTime() + 86400000));
-        return (h.document_id === flight.linked_hotel_id) || (dateMatch && sameCountry);
-      });
-
-      let linkedHotelExpense = !linkedHotel ? lodgingExpenses.find(e => {
+      // DUAL-SOURCE STAY PROOF: the trip's own stay, else a lodging receipt inside its dates
+      const linkedHotel = hotels[0] || null;
+      const linkedHotelExpense = !linkedHotel ? lodgingExpenses.find(e => {
         const hDate = new Date(e.date);
         const dateMatch = (hDate >= tripStart && hDate <= new Date(tripEnd.getTime() + 86400000));
         return dateMatch && !usedIds.has(e.id);
       }) : null;
 
       // 1:1 FORENSIC MATCHING (Locks the receipt/transaction so it's not reused)
-      const fMatch = getFinancialMatch(flight, 'flight', null, usedIds);
-      const rMatch = returnLeg ? getFinancialMatch(returnLeg, 'flight', null, usedIds) : null;
-
-      const totalFlightAmt = (fMatch?.amount || 0) + (rMatch?.amount || 0);
+      const flightMatches = flights.map(f => getFinancialMatch(f, 'flight', null, usedIds));
+      const totalFlightAmt = flightMatches.reduce((acc, m) => acc + (m?.amount || 0), 0);
 
       const hMatch = getFinancialMatch(
         linkedHotel || (linkedHotelExpense ? { start_date: linkedHotelExpense.date, provider_name: linkedHotelExpense.merchant, travel_type: 'accommodation' } as any : null),
@@ -242,49 +229,33 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
         usedIds
       );
 
-      const segment: JurisdictionSegment = {
-        id: flight.id,
-        country: flight.destination_country || "Unknown",
-        city: flight.destination_city || "Various",
-        days: tripDays,
-        startDate: tripStartStr,
+      const firstStop = trip.stops[0];
+      const countryDays = tripCountryDays(trip, dayRule);
+
+      // PER DIEM: entitlement by destination next to what was actually spent on meals
+      const perDiemDays = tripPerDiemDays(trip, perDiemSettings);
+      const perDiemTotal = perDiemTotals(perDiemDays);
+      const mealExpenses = tripMealExpenses(trip, expenses, pairedAnchorIds);
+      const mealCurrency = Object.keys(perDiemTotal)[0] || perDiemSettings?.rates[0]?.currency || 'AED';
+      const mealSpend = mealExpenses.reduce((acc, e) => acc + convertToBaseCurrency(Math.abs(e.amount), e.currency || mealCurrency, mealCurrency, exchangeData?.rates, e.date), 0);
+      result.push({
+        id: trip.id,
+        trip,
+        country: countryDays.length > 1 ? countryDays.map(c => c.country).join(' / ') : (firstStop.country || "Unknown"),
+        city: trip.stops.length > 1 ? tripRoute(trip) : (firstStop.city || (flights.length > 0 ? "Various" : "Stay")),
+        days: tripDays(trip),
+        stops: tripStopDays(trip, dayRule),
+        countryDays,
+        perDiem: { days: perDiemDays, totals: perDiemTotal, mealExpenses, mealSpend: { amount: mealSpend, currency: mealCurrency } },
+        startDate: trip.start_date,
         endDate: tripEndStr,
-        flight: flight,
+        flight: flights[0] || null,
         hotel: linkedHotel || (linkedHotelExpense ? { provider_name: linkedHotelExpense.merchant } as any : null),
         status: hMatch ? 'verified' : 'action_required',
-        provider: returnLeg ? `${flight.provider_name} + ${returnLeg.provider_name}` : flight.provider_name,
+        provider: flights.length > 0 ? Array.from(new Set(flights.map(f => f.provider_name))).join(' + ') : (linkedHotel?.provider_name || ''),
         financials: {
           flightAmt: totalFlightAmt > 0 ? totalFlightAmt : undefined,
-          flightCurr: fMatch?.currency || rMatch?.currency || 'AED',
-          hotelAmt: hMatch?.amount,
-          hotelCurr: hMatch?.currency
-        }
-      };
-
-      console.log(`[TravelTracker] Segment for ${segment.country}:`, segment);
-      result.push(segment);
-    });
-
-    // 3. PROCESS STANDALONE HOTELS (Anchors without flights)
-    hotelLogs.filter(h => {
-      const sDate = new Date(h.start_date);
-      const inPeriod = sDate.getFullYear() === period.year && (period.month === "All Months" || monthsList[sDate.getMonth()] === period.month);
-      const alreadyLinked = Array.from(usedIds).some(id => id.includes(h.document_id || "NOT-FOUND"));
-      return inPeriod && !alreadyLinked;
-    }).forEach(hotel => {
-      const hMatch = getFinancialMatch(hotel, 'accommodation', null, usedIds);
-      result.push({
-        id: hotel.id,
-        country: hotel.destination_country || "International",
-        city: hotel.destination_city || "Stay",
-        days: hotel.days_spent || 1,
-        startDate: hotel.start_date,
-        endDate: hotel.end_date || hotel.start_date,
-        flight: null,
-        hotel: hotel,
-        status: hMatch ? 'verified' : 'action_required',
-        provider: hotel.provider_name,
-        financials: {
+          flightCurr: flightMatches.find(Boolean)?.currency || 'AED',
           hotelAmt: hMatch?.amount,
           hotelCurr: hMatch?.currency
         }
@@ -292,7 +263,13 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
     });
 
     return result.sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime());
-  }, [logs, expenses, exchangeData, period]);
+  }, [trips, travelLogs, expenses, exchangeData, period, engineMatches, residencySettings, perDiemSettings]);
+
+  // Documents the integration sweep has not grouped into a trip yet
+  const unplacedLogs = useMemo(() => {
+    const placed = new Set(trips.flatMap(tripLogIds));
+    return logs.filter(l => !placed.has(l.id));
+  }, [trips, logs]);
 
   const auditStats = useMemo(() => {
     const total = segments.length;
@@ -324,8 +301,9 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
     doc.text(`Verification Score: ${auditStats.score}% Verified`, 14, 52);
 
     const tableData = segments.map(s => [
-      s.country,
+      s.countryDays.map(c => `${c.country} (${c.days}d)`).join(', '),
       `${s.startDate} to ${s.endDate}`,
+      [s.trip.purpose, s.trip.project].filter(Boolean).join(' / ') || '-',
       s.days,
       s.flight?.provider_name || '-',
       s.financials?.flightAmt ? `${s.financials.flightCurr} ${s.financials.flightAmt.toLocaleString()}` : (s.flight ? 'Included' : '-'),
@@ -336,15 +314,15 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
 
     autoTable(doc, {
       startY: 60,
-      head: [['Country', 'Timeline', 'Days', 'Flight', 'F.Amt', 'Hotel', 'H.Amt', 'Status']],
+      head: [['Country', 'Timeline', 'Purpose / Project', 'Days', 'Flight', 'F.Amt', 'Hotel', 'H.Amt', 'Status']],
       body: tableData,
       theme: 'grid',
       headStyles: { fillColor: [15, 23, 42], textColor: [255, 255, 255], fontStyle: 'bold' },
       columnStyles: {
-        7: { fontStyle: 'bold' }
+        8: { fontStyle: 'bold' }
       },
       didParseCell: (data) => {
-        if (data.section === 'body' && data.column.index === 7) {
+        if (data.section === 'body' && data.column.index === 8) {
           if (data.cell.text[0] === 'VERIFIED') data.cell.styles.textColor = [16, 185, 129];
           if (data.cell.text[0] === 'ACTION REQUIRED') data.cell.styles.textColor = [239, 68, 68];
         }
@@ -368,6 +346,13 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
       Arrival: s.startDate,
       Departure: s.endDate,
       Days: s.days,
+      Stops: s.stops.map(st => `${st.city || st.country} ${st.arrival} to ${st.until} (${st.days}d)`).join('; '),
+      'Days by Country': s.countryDays.map(c => `${c.country}: ${c.days}`).join('; '),
+      'Per Diem': formatPerDiemTotals(s.perDiem.totals),
+      'Meal Spend': `${s.perDiem.mealSpend.currency} ${Math.round(s.perDiem.mealSpend.amount * 100) / 100}`,
+      'Per Diem Status': s.trip.per_diem?.status.toUpperCase() || 'PENDING',
+      Purpose: s.trip.purpose || '',
+      Project: s.trip.project || '',
       Flight: s.flight?.provider_name || 'N/A',
       'Flight Amount': s.financials?.flightAmt || 0,
       'Flight Currency': s.financials?.flightCurr || '',
@@ -383,25 +368,122 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
     XLSX.writeFile(wb, `Travel_Audit_${period.month}_${period.year}.xlsx`);
   };
 
+  // Approved per diems as reimbursable lines, one per trip day, exactly as approved
+  const downloadPerDiemLines = () => {
+    const data = segments
+      .filter(s => s.trip.per_diem?.status === 'approved')
+      .flatMap(s => s.trip.per_diem!.days.filter(d => d.amount > 0).map(d => ({
+        Employee: s.trip.user_id,
+        Trip: s.trip.title || s.city,
+        Date: d.date,
+        Category: 'Per Diem',
+        Description: `${PER_DIEM_DAY_LABELS[d.day_type]} • ${d.city || d.country}`,
+        Country: d.country,
+        'Daily Rate': d.rate || 0,
+        'Share %': d.percent,
+        'Meals Provided': d.meals_provided.join(', '),
+        Deduction: d.deduction,
+        Amount: d.amount,
+        Currency: d.currency || '',
+        Project: s.trip.project || '',
+        'Approved By': s.trip.per_diem!.decided_by,
+        'Approved At': s.trip.per_diem!.decided_at.slice(0, 10)
+      })));
+    if (data.length === 0) {
+      alert("No approved per diems in this period.");
+      return;
+    }
+
+    const ws = XLSX.utils.json_to_sheet(data);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Per Diem Lines");
+    XLSX.writeFile(wb, `Per_Diem_${period.month}_${period.year}.xlsx`);
+  };
+
   const displayedSegments = segments.filter(s => {
     if (filter === 'all') return true;
     return s.status === filter;
   });
 
+  const handleRebuildTrips = async () => {
+    if (!onRebuildTrips) return;
+    setIsRebuilding(true);
+    try {
+      await onRebuildTrips();
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
+  const residency = (
+    <ResidencyCounter trips={trips} logs={travelLogs} settings={residencySettings} period={period} travellerEmail={travellerEmail} homeBases={homeBases} />
+  );
+
+  const tripEditor = editingTrip && (
+    <TripEditor
+      trip={editingTrip}
+      trips={trips.filter(t => t.user_id === editingTrip.user_id)}
+      logs={travelLogs.filter(l => l.user_id === editingTrip.user_id)}
+      expenses={expenses}
+      homeBases={homeBases}
+      onClose={() => setEditingTrip(null)}
+    />
+  );
+
+  const perDiemSegment = perDiemSegmentId ? segments.find(s => s.id === perDiemSegmentId) : null;
+  const perDiemEditor = perDiemSegment && (
+    <PerDiemEditor
+      trip={perDiemSegment.trip}
+      settings={perDiemSettings}
+      mealExpenses={perDiemSegment.perDiem.mealExpenses}
+      mealSpend={perDiemSegment.perDiem.mealSpend}
+      isAdmin={isAdmin}
+      onClose={() => setPerDiemSegmentId(null)}
+    />
+  );
+
+  const unplacedNotice = unplacedLogs.length > 0 && (
+    <div className="flex flex-wrap items-center justify-between gap-4 p-6 rounded-[2rem] bg-orange-50 dark:bg-orange-500/10 border border-orange-100 dark:border-orange-500/20">
+      <div className="flex items-center gap-3 text-orange-600 text-[11px] font-bold">
+        <Info size={18} />
+        {unplacedLogs.length} travel document{unplacedLogs.length === 1 ? ' is' : 's are'} not on a trip yet and missing from this audit.
+      </div>
+      {onRebuildTrips && (
+        <button
+          onClick={handleRebuildTrips}
+          disabled={isRebuilding}
+          className="flex items-center gap-2 px-5 py-2.5 bg-orange-500 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-orange-600 shadow-lg disabled:opacity-50 transition-all"
+        >
+          <RefreshCw size={14} className={isRebuilding ? 'animate-spin' : ''} /> {isRebuilding ? 'Grouping...' : 'Group Into Trips'}
+        </button>
+      )}
+    </div>
+  );
+
   if (segments.length === 0) {
     return (
-      <div className="flex flex-col items-center justify-center py-48 text-center animate-in fade-in duration-700">
-        <div className="w-24 h-24 bg-slate-100 dark:bg-slate-900 rounded-[3rem] flex items-center justify-center text-slate-300 dark:text-slate-700 mb-8 border border-slate-200 dark:border-slate-800 shadow-xl">
-          <Globe size={44} strokeWidth={1} />
+      <div className="space-y-12 pb-24 animate-in fade-in duration-700">
+        {unplacedNotice}
+        <div className="flex flex-col items-center justify-center py-48 text-center">
+          <div className="w-24 h-24 bg-slate-100 dark:bg-slate-900 rounded-[3rem] flex items-center justify-center text-slate-300 dark:text-slate-700 mb-8 border border-slate-200 dark:border-slate-800 shadow-xl">
+            <Globe size={44} strokeWidth={1} />
+          </div>
+          <h3 className="text-2xl font-black tracking-tighter uppercase text-slate-800 dark:text-white">No Global Footprint</h3>
+          <p className="text-slate-500 mt-2 max-w-sm font-medium text-sm">Upload flight confirmations or hotel invoices to build your jurisdiction audit trail.</p>
         </div>
-        <h3 className="text-2xl font-black tracking-tighter uppercase text-slate-800 dark:text-white">No Global Footprint</h3>
-        <p className="text-slate-500 mt-2 max-w-sm font-medium text-sm">Upload flight confirmations or hotel invoices to build your jurisdiction audit trail.</p>
+        {residency}
       </div>
     );
   }
 
   return (
     <div className="space-y-12 pb-24 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      {tripEditor}
+      {perDiemEditor}
+      {unplacedNotice}
+
       {/* Header Stats Bar */}
       <div className="bg-white dark:bg-slate-900 p-4 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-2xl flex flex-wrap items-center justify-between gap-6 px-10">
         <div className="flex items-center gap-10">
@@ -457,6 +539,12 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
           >
             <FileSpreadsheet size={16} /> Excel
           </button>
+          <button
+            onClick={downloadPerDiemLines}
+            className="flex items-center gap-3 px-6 py-3 bg-brand-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-brand-700 shadow-xl transition-all"
+          >
+            <Utensils size={16} /> Per Diems
+          </button>
         </div>
       </div>
 
@@ -474,6 +562,9 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
                   <div>
                     <h3 className="text-3xl font-black tracking-tighter dark:text-white uppercase">{segment.country}</h3>
                     <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{segment.city}</p>
+                    {(segment.trip.purpose || segment.trip.project) && (
+                      <p className="text-[10px] font-bold text-brand-500 mt-1">{[segment.trip.purpose, segment.trip.project].filter(Boolean).join(' • ')}</p>
+                    )}
                   </div>
                 </div>
                 <div className="text-right">
@@ -498,6 +589,31 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
                 </div>
               </div>
 
+              {/* Itinerary: every stop of a multi-city trip with its days */}
+              {segment.stops.length > 1 && (
+                <div className="mb-8 space-y-3">
+                  {segment.stops.map((stop, i) => (
+                    <div key={`${stop.arrival}-${i}`} className="flex items-center justify-between px-2">
+                      <div className="flex items-center gap-3">
+                        <div className="w-6 h-6 rounded-full bg-brand-50 dark:bg-brand-500/10 text-brand-600 flex items-center justify-center text-[9px] font-black">{i + 1}</div>
+                        <div>
+                          <p className="text-[10px] font-black dark:text-white uppercase">{stop.city || stop.country}{stop.city ? <span className="text-slate-400"> • {stop.country}</span> : null}</p>
+                          <p className="text-[9px] font-bold text-slate-400">{stop.arrival} – {stop.until}{stop.flight_number ? ` • ${stop.flight_number}` : ''}</p>
+                        </div>
+                      </div>
+                      <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{stop.days > 0 ? `${stop.days}d` : 'Transit'}</span>
+                    </div>
+                  ))}
+                  {segment.countryDays.length > 1 && (
+                    <div className="flex flex-wrap gap-2 pt-2">
+                      {segment.countryDays.map(c => (
+                        <span key={c.country} className="px-3 py-1 rounded-full bg-slate-50 dark:bg-slate-800 text-[9px] font-black text-slate-500 uppercase tracking-widest">{c.country} {c.days}d</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Proof Components */}
               <div className="space-y-4">
                 <div className="flex items-center justify-between px-2">
@@ -543,6 +659,28 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
                     {segment.status === 'verified' ? <ShieldCheck size={16} className="text-emerald-500" /> : <ShieldAlert size={16} className="text-orange-500" />}
                   </div>
                 </div>
+
+                <button onClick={() => setPerDiemSegmentId(segment.id)} className="w-full flex items-center justify-between px-2 text-left">
+                  <div className="flex items-center gap-3">
+                    <div className={`p-2 rounded-lg ${segment.trip.per_diem?.status === 'approved' ? 'bg-emerald-50 text-emerald-500' : 'bg-brand-50 text-brand-500'} dark:bg-slate-800`}>
+                      <Utensils size={16} />
+                    </div>
+                    <div>
+                      <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Per Diem</p>
+                      <p className="text-[10px] font-bold dark:text-slate-300">
+                        {formatPerDiemTotals(segment.perDiem.totals)}
+                        <span className="ml-2 text-slate-400 text-[8px] font-black">
+                          MEALS {segment.perDiem.mealSpend.currency} {Math.round(segment.perDiem.mealSpend.amount).toLocaleString()}
+                        </span>
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {segment.trip.per_diem?.status === 'approved' ? <ShieldCheck size={16} className="text-emerald-500" />
+                      : segment.trip.per_diem?.status === 'rejected' ? <XCircle size={16} className="text-red-500" />
+                        : <Clock size={16} className="text-slate-300" />}
+                  </div>
+                </button>
               </div>
             </div>
 
@@ -557,14 +695,21 @@ const TravelTracker: React.FC<TravelTrackerProps> = ({ logs, expenses, period })
                   {segment.status === 'verified' ? "Audit Verified" : "Action Required"}
                 </span>
               </div>
-              {segment.status === 'verified' && (
-                <span className="text-[9px] font-black opacity-80 uppercase tracking-widest">Matched to Bank</span>
-              )}
+              <div className="flex items-center gap-4">
+                {segment.status === 'verified' && (
+                  <span className="text-[9px] font-black opacity-80 uppercase tracking-widest">Matched to Bank</span>
+                )}
+                <button onClick={() => setEditingTrip(segment.trip)} className="p-1.5 opacity-70 hover:opacity-100 transition-opacity" title="Edit Trip">
+                  <Pencil size={14} />
+                </button>
+              </div>
             </div>
           </div>
         ))}
       </div>
 
+      {residency}
+
       {/* Auditor's Guide Footer */}
       <div className="bg-white dark:bg-[#0b1120] rounded-[3.5rem] border border-slate-100 dark:border-slate-800 p-12 shadow-xl">
         <div className="flex items-center gap-5 mb-10">
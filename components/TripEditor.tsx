@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import { X, Save, Route, Plane, Hotel, Link2, Unlink, Lock } from 'lucide-react';
+import { Expense, HomeBase, TravelLog, Trip } from '../types';
+import { NEW_TRIP, moveTripLogs, tripEndDate, tripExpenses, tripLogIds, tripRoute } from '../trips';
+import { saveTripChanges, setExpenseTrip } from '../firebaseService';
+
+interface TripEditorProps {
+  trip: Trip;
+  trips: Trip[];          // The traveller's other trips, as move targets
+  logs: TravelLog[];      // The traveller's travel documents
+  expenses: Expense[];
+  homeBases?: HomeBase[];
+  onClose: () => void;
+}
+
+const NEARBY_DAYS = 45;
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const describeLog = (log: TravelLog) => log.travel_type === 'flight'
+  ? `${log.departure_date || log.start_date} • ${log.origin_city || log.origin_country || '?'} → ${log.destination_city || log.destination_country}${log.flight_number ? ` • ${log.flight_number}` : ''}`
+  : `${log.start_date}${log.end_date ? ` – ${log.end_date}` : ''} • ${log.destination_city || log.destination_country}`;
+
+const TripEditor: React.FC<TripEditorProps> = ({ trip, trips, logs, expenses, homeBases, onClose }) => {
+  const [title, setTitle] = useState(trip.title || '');
+  const [purpose, setPurpose] = useState(trip.purpose || '');
+  const [project, setProject] = useState(trip.project || '');
+  const [moves, setMoves] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const end = tripEndDate(trip);
+  const windowStart = shiftDate(trip.start_date, -NEARBY_DAYS);
+  const windowEnd = shiftDate(end, NEARBY_DAYS);
+  const memberIds = tripLogIds(trip);
+
+  const otherTrips = trips
+    .filter(t => t.id !== trip.id && t.start_date <= windowEnd && tripEndDate(t) >= windowStart)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+  const tripOf = (logId: string) => trips.find(t => tripLogIds(t).includes(logId));
+
+  const members = logs
+    .filter(l => (l.id in moves ? moves[l.id] === trip.id : memberIds.includes(l.id)))
+    .sort((a, b) => (a.departure_date || a.start_date).localeCompare(b.departure_date || b.start_date));
+  const addable = logs.filter(l => !members.includes(l) && l.start_date >= windowStart && l.start_date <= windowEnd);
+
+  const knownProjects = useMemo(
+    () => Array.from(new Set(expenses.flatMap(e => [e.company_project, ...(e.allocations || []).map(a => a.project)]).filter(Boolean))) as string[],
+    [expenses]
+  );
+  const linked = tripExpenses(trip, expenses);
+  const candidates = expenses.filter(e => !e.travel_log_id && e.date >= shiftDate(trip.start_date, -1) && e.date <= shiftDate(end, 1));
+
+  const moveLog = (logId: string, target: string) => {
+    setMoves(prev => {
+      const next = { ...prev };
+      // Back where it started: no move at all
+      if ((tripOf(logId)?.id || '') === target) delete next[logId];
+      else next[logId] = target;
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const changes = moveTripLogs(trips, moves, logs, homeBases);
+      const details = { title: title.trim() || undefined, purpose: purpose.trim() || undefined, project: project.trim() || undefined };
+      const own = changes.update.find(t => t.id === trip.id);
+      if (own) Object.assign(own, details);
+      else if (!changes.remove.includes(trip.id)) changes.update.push({ ...trip, ...details });
+      await saveTripChanges(changes);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      alert("Failed to save trip");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLink = async (expense: Expense, link: boolean) => {
+    try {
+      await setExpenseTrip(expense.id, link ? trip.id : null);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to update expense link");
+    }
+  };
+
+  const inputClass = "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-[11px] font-bold outline-none focus:ring-2 ring-brand-500/20 dark:text-white";
+  const sectionLabel = "text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-md" onClick={onClose} />
+      <div className="relative w-full max-w-4xl bg-white dark:bg-slate-900 rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-10 py-6 flex items-center justify-between border-b border-slate-100 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl bg-brand-600 flex items-center justify-center text-white">
+              <Route size={22} />
+            </div>
+            <div>
+              <h3 className="text-xl font-black uppercase tracking-tighter dark:text-white">{trip.title || tripRoute(trip)}</h3>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{trip.start_date} – {trip.end_date || 'open'} • {trip.legs.length} legs • {trip.hotel_log_ids.length} stays</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="p-10 space-y-8 max-h-[60vh] overflow-y-auto">
+          <datalist id="trip-projects">
+            {knownProjects.map(p => <option key={p} value={p} />)}
+          </datalist>
+
+          <div className="grid grid-cols-3 gap-3">
+            <input className={inputClass} placeholder="Trip title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            <input className={inputClass} placeholder="Purpose" value={purpose} onChange={(e) => setPurpose(e.target.value)} />
+            <input className={inputClass} list="trip-projects" placeholder="Project / client" value={project} onChange={(e) => setProject(e.target.value)} />
+          </div>
+
+          <div className="space-y-3">
+            <p className={sectionLabel}>Flights & Stays</p>
+            {members.length === 0 && (
+              <div className="py-4 text-center text-xs font-medium text-slate-400">Every document is moved off this trip; saving removes it.</div>
+            )}
+            {members.map(log => (
+              <div key={log.id} className="grid grid-cols-12 gap-2 items-center">
+                <div className={`col-span-1 p-2 rounded-lg justify-self-start ${log.travel_type === 'flight' ? 'bg-sky-50 text-sky-500' : 'bg-amber-50 text-amber-500'} dark:bg-slate-800`}>
+                  {log.travel_type === 'flight' ? <Plane size={14} /> : <Hotel size={14} />}
+                </div>
+                <div className="col-span-7">
+                  <p className="text-[11px] font-black dark:text-white">{log.provider_name}{log.reference_number ? ` #${log.reference_number}` : ''}</p>
+                  <p className="text-[10px] font-bold text-slate-400">{describeLog(log)}</p>
+                </div>
+                <select className={`${inputClass} col-span-4`} value={trip.id} onChange={(e) => moveLog(log.id, e.target.value)}>
+                  <option value={trip.id}>Keep on this trip</option>
+                  <option value={NEW_TRIP}>Split into a new trip</option>
+                  {otherTrips.map(t => <option key={t.id} value={t.id}>Move to {t.title || tripRoute(t)} ({t.start_date})</option>)}
+                </select>
+              </div>
+            ))}
+            {addable.length > 0 && (
+              <select className={`${inputClass} w-full`} value="" onChange={(e) => e.target.value && moveLog(e.target.value, trip.id)}>
+                <option value="">Add a flight or stay from around these dates…</option>
+                {addable.map(l => <option key={l.id} value={l.id}>{l.provider_name} • {describeLog(l)}</option>)}
+              </select>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <p className={sectionLabel}>Linked Expenses</p>
+            {linked.length === 0 && <div className="text-xs font-medium text-slate-400">No expenses linked yet.</div>}
+            {linked.map(e => (
+              <div key={e.id} className="flex items-center justify-between gap-4 text-[11px] font-bold dark:text-white">
+                <span>{e.date} • {e.merchant} • {e.currency} {Math.abs(e.amount).toLocaleString()}</span>
+                <button onClick={() => handleLink(e, false)} className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500">
+                  <Unlink size={12} /> Unlink
+                </button>
+              </div>
+            ))}
+            {candidates.length > 0 && (
+              <div className="pt-2 space-y-2 border-t border-slate-100 dark:border-slate-800">
+                {candidates.map(e => (
+                  <div key={e.id} className="flex items-center justify-between gap-4 text-[11px] font-bold text-slate-500">
+                    <span>{e.date} • {e.merchant} • {e.currency} {Math.abs(e.amount).toLocaleString()}</span>
+                    <button onClick={() => handleLink(e, true)} className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-brand-600">
+                      <Link2 size={12} /> Link
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="px-10 py-6 flex flex-wrap items-center justify-between gap-4 border-t border-slate-100 dark:border-slate-800">
+          <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <Lock size={14} />
+            {trip.locked ? 'Pairings fixed by hand' : 'Moving documents fixes these pairings against the automatic sweep'}
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-brand-600 text-white text-[10px] font-black uppercase tracking-widest shadow-lg disabled:opacity-40 active:scale-95 transition-all"
+          >
+            <Save size={14} /> {isSaving ? 'Saving...' : 'Save Trip'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TripEditor;
@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Landmark, ArrowDownToLine, FileSpreadsheet, AlertTriangle, CheckCircle2, Ban } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { Expense, AppSettings } from '../types';
+import { buildVatSchedule, resolveVatJurisdictions, vatPeriodKey, VatGranularity, VatStatus } from '../vatEngine';
+import { getRatesByMonth, ExchangeRates } from '../currencyService';
+
+interface VatReturnProps {
+  expenses: Expense[];
+  settings?: AppSettings;
+  year: number;
+}
+
+const STATUS_STYLES: Record<VatStatus, string> = {
+  recoverable: 'bg-emerald-50 dark:bg-emerald-500/10 text-emerald-600 border-emerald-100 dark:border-emerald-500/20',
+  blocked: 'bg-slate-100 dark:bg-slate-800 text-slate-500 border-slate-200 dark:border-slate-700',
+  invalid: 'bg-red-50 dark:bg-red-500/10 text-red-600 border-red-100 dark:border-red-500/20'
+};
+
+const fmt = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const VatReturn: React.FC<VatReturnProps> = ({ expenses, settings, year }) => {
+  const jurisdictions = resolveVatJurisdictions(settings);
+  const [granularity, setGranularity] = useState<VatGranularity>('quarter');
+  const [jurisdiction, setJurisdiction] = useState(settings?.vat_home_jurisdiction || jurisdictions[0]?.code || 'AE');
+  const [selectedPeriod, setSelectedPeriod] = useState<string>('');
+  const [ratesByMonth, setRatesByMonth] = useState<Record<string, ExchangeRates> | null>(null);
+
+  const yearExpenses = useMemo(() => expenses.filter(e => year === 0 || e.date.startsWith(String(year))), [expenses, year]);
+  const monthsKey = Array.from(new Set(yearExpenses.map(e => e.date.slice(0, 7)))).sort().join(',');
+
+  // Invoices convert at the organization's pinned rates of the month they were issued in
+  useEffect(() => {
+    setRatesByMonth(null);
+    getRatesByMonth(monthsKey ? monthsKey.split(',').map(m => `${m}-01`) : []).then(setRatesByMonth);
+  }, [monthsKey]);
+
+  const { rows, summaries } = useMemo(() => ratesByMonth ? buildVatSchedule(yearExpenses, {
+    jurisdictions,
+    homeJurisdiction: settings?.vat_home_jurisdiction,
+    ratesByMonth: Object.fromEntries(Object.entries(ratesByMonth).map(([m, r]) => [m, r.rates])),
+    granularity
+  }) : { rows: [], summaries: [] }, [yearExpenses, jurisdictions, settings?.vat_home_jurisdiction, ratesByMonth, granularity]);
+
+  const periods = Array.from(new Set(summaries.filter(s => s.jurisdiction === jurisdiction).map(s => s.period))).sort().reverse();
+  const activePeriod = periods.includes(selectedPeriod) ? selectedPeriod : periods[0] || vatPeriodKey(new Date().toISOString().split('T')[0], granularity);
+  const periodRows = rows.filter(r => r.jurisdiction === jurisdiction && r.period === activePeriod);
+  const summary = summaries.find(s => s.jurisdiction === jurisdiction && s.period === activePeriod);
+  const activeJurisdiction = jurisdictions.find(j => j.code === jurisdiction);
+  const currency = activeJurisdiction?.currency || 'AED';
+
+  const scheduleData = () => periodRows.map(r => ({
+    'Tax Period': r.period,
+    'Invoice Date': r.date,
+    'Supplier Name': r.supplier,
+    [`Supplier ${activeJurisdiction?.trn_label || 'TRN'}`]: r.trn,
+    'Tax Invoice No.': r.invoice_number,
+    'Expense Head': r.category,
+    'Document Currency': r.document_currency,
+    [`Taxable Amount (${currency})`]: r.taxable_amount,
+    'VAT Rate %': r.vat_rate,
+    [`VAT Amount (${currency})`]: r.vat_amount,
+    [`Recoverable VAT (${currency})`]: r.recoverable_vat,
+    'Status': r.status.toUpperCase(),
+    'Issues': r.issues.join('; ')
+  }));
+
+  // Box 9 of the UAE VAT 201 return: standard rated expenses and the input tax claimed on them
+  const summaryData = () => [{
+    'Jurisdiction': activeJurisdiction?.name || jurisdiction,
+    'Tax Period': activePeriod,
+    'Currency': currency,
+    'Standard Rated Expenses (Amount)': summary?.taxable_amount || 0,
+    'Total Input VAT': summary?.vat_amount || 0,
+    'Recoverable VAT Amount': summary?.recoverable_vat || 0,
+    'Tax Documents': summary?.invoice_count || 0,
+    'Invalid Tax Invoices': summary?.invalid_count || 0,
+    'Blocked Heads': summary?.blocked_count || 0
+  }];
+
+  const fileStem = `Input_Tax_Schedule_${jurisdiction}_${activePeriod}`;
+
+  const handleDownloadXLSX = () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summaryData()), "VAT 201 Summary");
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(scheduleData()), "Input Tax Schedule");
+    XLSX.writeFile(workbook, `${fileStem}.xlsx`);
+  };
+
+  const handleDownloadCSV = () => {
+    const csvContent = XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(scheduleData()));
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${fileStem}.csv`;
+    link.click();
+  };
+
+  return (
+    <section className="bg-white dark:bg-[#0b1120] rounded-[3.5rem] border border-slate-100 dark:border-slate-800 overflow-hidden shadow-xl mb-12">
+      <div className="px-10 py-8 flex flex-col md:flex-row md:items-center justify-between gap-6 border-b border-slate-100 dark:border-slate-800/60">
+        <div className="flex items-center gap-5">
+          <div className="p-4 bg-brand-600 rounded-2xl text-white"><Landmark size={24} /></div>
+          <div>
+            <h3 className="text-2xl font-black tracking-tighter uppercase">Input VAT Recovery</h3>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.3em] mt-1">VAT 201 Input Tax Schedule</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={jurisdiction} onChange={(e) => setJurisdiction(e.target.value)} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 px-4 py-2.5 rounded-2xl text-[10px] font-black text-slate-700 dark:text-slate-300 outline-none uppercase tracking-widest">
+            {jurisdictions.map(j => <option key={j.code} value={j.code}>{j.name} ({j.standard_rate}%)</option>)}
+          </select>
+          <select value={granularity} onChange={(e) => setGranularity(e.target.value as VatGranularity)} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 px-4 py-2.5 rounded-2xl text-[10px] font-black text-slate-700 dark:text-slate-300 outline-none uppercase tracking-widest">
+            <option value="quarter">Quarterly</option>
+            <option value="month">Monthly</option>
+          </select>
+          <select value={activePeriod} onChange={(e) => setSelectedPeriod(e.target.value)} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 px-4 py-2.5 rounded-2xl text-[10px] font-black text-slate-700 dark:text-slate-300 outline-none uppercase tracking-widest">
+            {(periods.length > 0 ? periods : [activePeriod]).map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+          <button onClick={handleDownloadXLSX} disabled={periodRows.length === 0} className="flex items-center gap-2 px-4 py-2.5 rounded-2xl bg-brand-600 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-40">
+            <FileSpreadsheet size={14} /> XLSX
+          </button>
+          <button onClick={handleDownloadCSV} disabled={periodRows.length === 0} className="flex items-center gap-2 px-4 py-2.5 rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 text-[10px] font-black uppercase tracking-widest disabled:opacity-40">
+            <ArrowDownToLine size={14} /> CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6 px-10 py-8">
+        <div>
+          <div className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Standard Rated Expenses</div>
+          <div className="text-2xl font-black tracking-tighter mt-1">{currency} {fmt(summary?.taxable_amount || 0)}</div>
+        </div>
+        <div>
+          <div className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Input VAT Charged</div>
+          <div className="text-2xl font-black tracking-tighter mt-1">{currency} {fmt(summary?.vat_amount || 0)}</div>
+        </div>
+        <div>
+          <div className="text-emerald-600 text-[10px] font-black uppercase tracking-widest">Recoverable</div>
+          <div className="text-2xl font-black tracking-tighter mt-1 text-emerald-600">{currency} {fmt(summary?.recoverable_vat || 0)}</div>
+        </div>
+        <div>
+          <div className="text-red-500 text-[10px] font-black uppercase tracking-widest">Invalid Tax Invoices</div>
+          <div className="text-2xl font-black tracking-tighter mt-1 text-red-500">{summary?.invalid_count || 0} / {summary?.invoice_count || 0}</div>
+        </div>
+      </div>
+
+      {!ratesByMonth ? (
+        <div className="px-10 pb-10 text-[10px] font-black uppercase tracking-widest text-slate-400">Loading the pinned exchange rates...</div>
+      ) : periodRows.length === 0 ? (
+        <div className="px-10 pb-10 text-[10px] font-black uppercase tracking-widest text-slate-400">No tax documents for {activeJurisdiction?.name || jurisdiction} in {activePeriod}</div>
+      ) : (
+        <table className="w-full text-left">
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-800/60">
+            {periodRows.map(r => (
+              <tr key={r.expense_id} className="hover:bg-slate-50 dark:hover:bg-slate-800/20 transition-colors">
+                <td className="px-10 py-5">
+                  <div className="font-black text-slate-900 dark:text-white uppercase text-[12px] tracking-tight">{r.supplier}</div>
+                  <div className="text-[10px] text-slate-400 font-bold uppercase mt-1">
+                    {r.date} • {r.category} • {activeJurisdiction?.trn_label || 'TRN'} {r.trn || '—'}{r.invoice_number ? ` • #${r.invoice_number}` : ''}
+                  </div>
+                  {r.issues.length > 0 && (
+                    <div className={`text-[9px] font-bold uppercase mt-1 ${r.status === 'invalid' ? 'text-red-500' : 'text-slate-400'}`}>{r.issues.join(' • ')}</div>
+                  )}
+                </td>
+                <td className="px-6 py-5 text-center">
+                  <span className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-xl text-[8px] font-black uppercase tracking-widest border ${STATUS_STYLES[r.status]}`}>
+                    {r.status === 'recoverable' ? <CheckCircle2 size={10} /> : r.status === 'blocked' ? <Ban size={10} /> : <AlertTriangle size={10} />}
+                    {r.status === 'invalid' ? 'Not a Valid Tax Invoice' : r.status}
+                  </span>
+                </td>
+                <td className="px-10 py-5 text-right">
+                  <div className="text-sm font-black text-slate-900 dark:text-white">{currency} {fmt(r.vat_amount)}</div>
+                  <div className="text-[10px] text-slate-400 font-bold uppercase mt-1">{r.vat_rate}% on {fmt(r.taxable_amount)}</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
+
+export default VatReturn;
@@ -165,6 +165,38 @@ export const convertToBaseCurrency = (
   return amountInUSD * targetRate;
 };
 
+/**
+ * Converts with the pinned rates of the reference date's month, keyed by YYYY-MM.
+ * Unlike convertToBaseCurrency, gives null when that month has no rate for either currency.
+ */
+export const convertAtMonthRate = (
+  amount: number,
+  fromCurrency: string,
+  targetCurrency: string,
+  ratesByMonth: Record<string, ExchangeRates>,
+  referenceDate?: string
+): number | null => {
+  const from = (fromCurrency || targetCurrency).toUpperCase();
+  const target = targetCurrency.toUpperCase();
+  if (from === target) return amount;
+
+  const rates = ratesByMonth[getMonthKey(referenceDate)]?.rates || {};
+  if ((from !== 'USD' && !rates[from]) || (target !== 'USD' && !rates[target])) return null;
+  const amountInUSD = from === 'USD' ? amount : amount / rates[from];
+  return target === 'USD' ? amountInUSD : amountInUSD * rates[target];
+};
+
+/**
+ * Loads the pinned rates of every month the given dates fall in; months without rates are left out.
+ */
+export const getRatesByMonth = async (dates: string[]): Promise<Record<string, ExchangeRates>> => {
+  const months = Array.from(new Set(dates.filter(Boolean).map(d => getMonthKey(d))));
+  const entries = await Promise.all(months.map(async m => [m, await getExchangeRates(`${m}-01`)] as const));
+  const map: Record<string, ExchangeRates> = {};
+  entries.forEach(([m, rates]) => { if (rates) map[m] = rates; });
+  return map;
+};
+
 /**
  * Legacy support / Wrapper for existing USD-dependent code
  */
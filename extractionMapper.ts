@@ -0,0 +1,283 @@
+import { Expense, ExpenseSource, TravelLog, FieldProvenance, ProvenanceField, HomeBase } from './types';
+import { isAnchor, isCredit } from './reconciliationEngine';
+import { normalizeLineItems, sumLineItemTax } from './lineItems';
+import { normalizePaidBy } from './claims';
+import { homeBaseOn, isAtHomeBase } from './residency';
+
+/**
+ * EXTRACTION MAPPER
+ * Turns one raw ExtractionOutputSchema result (compact AI keys: m, a, c, d, cd, ...) into
+ * Expense and TravelLog records. Shared by the browser (geminiService) and the server job
+ * queue, so it must stay free of Firebase and browser-only imports.
+ */
+
+/**
+ * True when the log lands the traveller at the home base in effect on its date. Pass the
+ * traveller's home_bases history from authorized_users; without one the default base applies.
+ */
+export const isHomeLocation = (log: any, homeBases?: HomeBase[]) => {
+  if (!log) return false;
+  const base = homeBaseOn(homeBases, log.departure_date || log.start_date);
+  return isAtHomeBase(log.destination_country, log.destination_city, base);
+};
+
+// True when the flight leaves from the home base in effect on its date, i.e. it opens a trip
+export const departsFromHome = (log: any, homeBases?: HomeBase[]) => {
+  if (!log || log.travel_type !== 'flight') return false;
+  const base = homeBaseOn(homeBases, log.departure_date || log.start_date);
+  return isAtHomeBase(log.origin_country, log.origin_city, base);
+};
+
+export const calculateDuration = (start: string, end?: string) => {
+  const startDate = new Date(start);
+  const endDate = new Date(end || start);
+  const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
+  return Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
+};
+
+/**
+ * Initial status fields for a freshly extracted travel log (before the flight/hotel sweep).
+ */
+export const prepareTravelLog = <T extends Omit<TravelLog, 'id'>>(log: T, homeBases?: HomeBase[]) => {
+  const isAccommodation = log.travel_type === 'accommodation';
+  const isHome = isHomeLocation(log, homeBases);
+
+  const documentDuration = calculateDuration(log.start_date, log.end_date);
+  // A trip is a consolidated round trip if the AI provided a return/end date, even if same day.
+  const isRoundTrip = !isAccommodation && !isHome && !!log.return_date;
+
+  return {
+    ...log,
+    uploaded_at: new Date().toISOString(),
+    days_spent: (isHome || isRoundTrip || isAccommodation) ? documentDuration : 1,
+    status: (isHome || isRoundTrip || isAccommodation) ? 'Complete' : 'Open - Awaiting return',
+    hotel_verification_status: !isAccommodation && !isHome ? 'missing' : 'not_required'
+  };
+};
+
+// Fields below this confidence are highlighted in the ledger and sent to the clarification queue
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+const PROVENANCE_KEYS: Array<[string, ProvenanceField]> = [
+  ['m', 'merchant'], ['a', 'amount'], ['c', 'currency'], ['d', 'date'], ['cd', 'card_digits']
+];
+
+export const PROVENANCE_LABELS: Record<ProvenanceField, string> = {
+  merchant: 'Merchant', amount: 'Amount', currency: 'Currency', date: 'Date', card_digits: 'Card Digits'
+};
+
+/**
+ * Converts the compact AI 'prov' block into field_provenance plus an overall confidence
+ * (the weakest field). Output without provenance is treated as unverified.
+ */
+export const mapProvenance = (prov: any) => {
+  const fieldProvenance: Partial<Record<ProvenanceField, FieldProvenance>> = {};
+  PROVENANCE_KEYS.forEach(([key, field]) => {
+    const p = prov?.[key];
+    if (!p || typeof p.conf !== 'number') return;
+    fieldProvenance[field] = {
+      confidence: Math.min(1, Math.max(0, p.conf)),
+      snippet: p.snip || undefined,
+      page: p.page || undefined,
+      region: p.region || undefined
+    };
+  });
+
+  const scores = Object.values(fieldProvenance).map(f => f!.confidence);
+  const confidence = scores.length > 0 ? Math.min(...scores) : 0.5;
+  return { fieldProvenance, confidence };
+};
+
+export const lowConfidenceFields = (exp: Pick<Expense, 'field_provenance'>) =>
+  (Object.entries(exp.field_provenance || {}) as Array<[ProvenanceField, FieldProvenance]>)
+    .filter(([, p]) => p.confidence < LOW_CONFIDENCE_THRESHOLD)
+    .map(([field]) => field);
+
+export const describeProvenance = (p: FieldProvenance) =>
+  `${Math.round(p.confidence * 100)}% confidence${p.snippet ? ` • read as "${p.snippet}"` : ''}${p.page ? ` • page ${p.page}` : ''}${p.region ? ` • ${p.region}` : ''}`;
+
+export const mapExtractionResult = (
+  batchItem: any,
+  source: ExpenseSource,
+  bankName?: string,
+  batchIdx = 0,
+  documentId?: string // Blob store id of the original upload, when it was retained
+): { expenses: Expense[], travelLogs: TravelLog[] } => {
+  const expenses = (batchItem?.expenses || []).map((item: any, index: number) => {
+    const { fieldProvenance, confidence } = mapProvenance(item.prov);
+    const lowFields = lowConfidenceFields({ field_provenance: fieldProvenance });
+    const unscored = Object.keys(fieldProvenance).length === 0;
+    const items = normalizeLineItems(item.items);
+    return {
+      id: `${source}-${Date.now()}-${batchIdx}-${index}`,
+      merchant: item.m || "Unknown",
+      amount: Math.abs(Number(item.a) || 0),
+      currency: item.c || "AED",
+      date: item.d || new Date().toISOString().split('T')[0],
+      category: item.cat || "General",
+      description: source === 'bank_statement' || source === 'credit_card_statement' ? `${bankName || 'BANK'} TRANSACTION` : "PROOF DOCUMENT",
+      bank: bankName,
+      source,
+      confidence,
+      field_provenance: fieldProvenance,
+      // Low-confidence reads go straight to the clarification queue
+      needs_clarification: lowFields.length > 0 || unscored ? true : undefined,
+      clarification_reason: lowFields.length > 0
+        ? `Low confidence: ${lowFields.map(f => `${PROVENANCE_LABELS[f]} (${Math.round(fieldProvenance[f]!.confidence * 100)}%)`).join(', ')}`
+        : unscored ? 'Extraction returned no field provenance' : undefined,
+      created_at: new Date().toISOString(),
+      items: items.length > 0 ? items : undefined,
+      tax_amount: item.tax_amount ?? (items.length > 0 && sumLineItemTax(items) > 0 ? sumLineItemTax(items) : undefined),
+      main_category: item.main_category,
+      company_project: item.company_project,
+      ...normalizePaidBy(item.paid_by),
+      payment_method: item.payment_method,
+      attendees: Number(item.pax) > 0 ? Math.round(Number(item.pax)) : undefined,
+      vat: item.trn || item.taxable !== undefined || item.vat_rate !== undefined || item.tax_inv !== undefined || item.inv_no
+        ? {
+          supplier_trn: item.trn || undefined,
+          taxable_amount: item.taxable,
+          vat_rate: item.vat_rate,
+          vat_amount: item.tax_amount,
+          is_tax_invoice: item.tax_inv,
+          invoice_number: item.inv_no || undefined
+        }
+        : undefined,
+      card_digits: item.cd || "",
+      transaction_type: item.dir === 'credit' ? (['refund', 'reversal', 'chargeback'].includes(item.kind) ? item.kind : 'credit') : 'debit',
+      transaction_reference: item.ref || undefined,
+      reversal_reference: item.rev_ref || undefined,
+      notes: item.notes,
+      document_id: documentId
+    };
+  });
+
+  const docId = documentId || `doc-${Date.now()}-${batchIdx}`;
+
+  // Every flight leg is its own log, so multi-city and open-jaw itineraries keep each stop
+  const rawLogs = (batchItem?.travel_logs || []);
+  const flightLogsRaw = rawLogs
+    .filter((l: any) => l.type === 'flight')
+    .sort((a: any, b: any) => String(a.date || '').localeCompare(String(b.date || '')));
+  const hotelLogsRaw = rawLogs.filter((l: any) => l.type === 'accommodation');
+
+  const travelLogs = [...flightLogsRaw, ...hotelLogsRaw].map((log: any, index: number) => ({
+    id: `travel-${Date.now()}-${batchIdx}-${index}`,
+    destination_city: log.dest_city || "",
+    destination_country: log.dest_country || "",
+    origin_city: log.origin_city || "",
+    origin_country: log.origin_country || "",
+    start_date: log.date,
+    end_date: log.end_date || log.date,
+    departure_date: log.date,
+    return_date: log.end_date || null,
+    provider_name: log.provider,
+    travel_type: log.type as 'flight' | 'accommodation',
+    reference_number: log.ref || "",
+    flight_number: log.type === 'flight' ? (log.flight_no || "").replace(/\s+/g, ' ').trim().toUpperCase() : "",
+    guest_name: log.guest || "",
+    status: 'Complete' as any,
+    days_spent: 0,
+    document_id: docId
+  }));
+
+  return { expenses, travelLogs };
+};
+
+// --- DEDUPLICATION ---
+
+/**
+ * Same travel document already on file. A booking reference identifies a hotel stay, but one PNR
+ * covers every leg of an itinerary, so a flight only repeats when the leg itself does.
+ */
+export const isDuplicateTravelLog = (
+  log: Pick<TravelLog, 'travel_type' | 'start_date' | 'destination_city' | 'reference_number' | 'flight_number'>,
+  existing: Partial<TravelLog>
+) => {
+  if (log.travel_type !== existing.travel_type) return false;
+  const sameDate = log.start_date === existing.start_date;
+  const sameRef = !!log.reference_number && !!existing.reference_number &&
+    log.reference_number.toUpperCase() === existing.reference_number.toUpperCase();
+  if (log.travel_type === 'accommodation') {
+    return sameRef || (sameDate && (log.destination_city || '').toLowerCase() === (existing.destination_city || '').toLowerCase());
+  }
+  if (log.flight_number && existing.flight_number) return sameDate && log.flight_number === existing.flight_number;
+  return sameDate && (log.destination_city || '').toLowerCase() === (existing.destination_city || '').toLowerCase();
+};
+
+const normalizeDescriptor = (m: string) => (m || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').replace(/\s+/g, ' ').trim();
+const lastFour = (digits?: string) => (digits || '').replace(/\D/g, '').slice(-4);
+
+const direction = (exp: Pick<Expense, 'transaction_type' | 'amount'>) => isCredit(exp) ? 'credit' : 'debit';
+
+/**
+ * Row identity used to merge overlapping statement periods: bank, card digits, date, amount, descriptor,
+ * direction. Direction keeps a same-day refund from merging into the charge it reverses.
+ */
+export const buildDedupeKey = (exp: Pick<Expense, 'bank' | 'card_digits' | 'date' | 'amount' | 'merchant' | 'transaction_type'>) => [
+  (exp.bank || '').toLowerCase().trim(),
+  lastFour(exp.card_digits),
+  exp.date || '',
+  Math.abs(Number(exp.amount) || 0).toFixed(2),
+  normalizeDescriptor(exp.merchant),
+  direction(exp)
+].join('|');
+
+/**
+ * Splits incoming rows against what the user already has:
+ * - merged: same dedupe key as an existing row of the same kind. Keys are counted, so two identical
+ *   coffees on one statement still both survive an overlapping re-import that only contained one of them.
+ *   A receipt never merges into its own bank line; the reconciler needs both.
+ * - suspected: same date, amount and direction as an existing record of the same kind (statement vs proof) with a
+ *   matching card or descriptor. These are kept, but flagged for the clarification queue.
+ */
+export const classifyIncomingExpenses = <T extends Omit<Expense, 'id'>>(
+  incoming: T[],
+  existing: Array<Partial<Expense> & { id?: string }>
+) => {
+  const existingCounts: Record<string, number> = {};
+  const countKey = (e: Partial<Expense>, key: string) => `${isAnchor(e as Expense) ? 'anchor' : 'proof'}:${key}`;
+  existing.forEach(e => {
+    const key = countKey(e, e.dedupe_key || buildDedupeKey(e as Expense));
+    existingCounts[key] = (existingCounts[key] || 0) + 1;
+  });
+
+  const seen: Record<string, number> = {};
+  const fresh: T[] = [];
+  let merged = 0;
+  let suspected = 0;
+
+  incoming.forEach(exp => {
+    const key = buildDedupeKey(exp);
+    const counted = countKey(exp, key);
+    seen[counted] = (seen[counted] || 0) + 1;
+    if (seen[counted] <= (existingCounts[counted] || 0)) {
+      merged++;
+      return;
+    }
+
+    const original = existing.find(e =>
+      isAnchor(e as Expense) === isAnchor(exp) &&
+      isCredit(e as Expense) === isCredit(exp) &&
+      e.date === exp.date &&
+      Math.abs(Math.abs(Number(e.amount) || 0) - Math.abs(exp.amount)) < 0.01 &&
+      ((lastFour(e.card_digits) && lastFour(e.card_digits) === lastFour(exp.card_digits)) ||
+        normalizeDescriptor(e.merchant || '') === normalizeDescriptor(exp.merchant))
+    );
+    if (original) {
+      suspected++;
+      fresh.push({
+        ...exp,
+        dedupe_key: key,
+        needs_clarification: true,
+        clarification_reason: `Possible duplicate of ${original.merchant} (${original.date})`,
+        duplicate_of: original.id
+      });
+      return;
+    }
+
+    fresh.push({ ...exp, dedupe_key: key });
+  });
+
+  return { fresh, merged, suspected };
+};
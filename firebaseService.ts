@@ -1,5 +1,11 @@
-import { Expense, ReconciliationReport, TravelLog, AppSettings, UsageLog } from './types';
+import { Expense, ReconciliationReport, TravelLog, AppSettings, UsageLog, MerchantAlias, ReconciliationOverride, StatementTemplate, DocumentFingerprint, ReimbursementClaim, ClaimLine, ApprovalStep, ApprovalDelegation, ApprovalDecision, Subscription, HomeBase, AuthorizedUser, Trip, TripPerDiem, PerDiemMeal } from './types';
 import { getSession } from './authService';
+import { isHomeLocation, departsFromHome, prepareTravelLog, classifyIncomingExpenses, isDuplicateTravelLog } from './extractionMapper';
+import { normalizeLineItems } from './lineItems';
+import { buildClaimLines, deriveClaimStatus, withStatusChange, lineReimbursementStatus, MAX_CLAIM_LINES } from './claims';
+import { buildApprovalChain, applyApprovalDecision, refreshApprovers } from './approvals';
+import { isMandatoryTravel } from './reconciliationEngine';
+import { buildTrips, isTripPinned, reconcileTrips, tripLogIds, TripChanges } from './trips';
 
 import { initializeApp } from 'firebase/app';
 import {
@@ -16,7 +22,10 @@ import {
   getDocs,
   where,
   Timestamp,
-  arrayUnion
+  arrayUnion,
+  writeBatch,
+  deleteField,
+  updateDoc
 } from 'firebase/firestore';
 import { getAuth } from 'firebase/auth';
 
@@ -51,12 +60,7 @@ const sanitize = (data: any, seen = new WeakSet()): any => {
   return sanitized;
 };
 
-export const isHomeLocation = (log: any) => {
-  if (!log) return false;
-  const dest = `${log.destination_country || ""} ${log.destination_city || ""}`.toLowerCase().trim();
-  // Matches AE, UAE, Dubai, United Arab Emirates, etc. regardless of position
-  return /\b(ae|uae|dubai|emirates|united arab emirates)\b/.test(dest);
-};
+export { isHomeLocation };
 
 const mapExpenseData = (data: any): Expense => {
   const sanitized = sanitize(data);
@@ -64,16 +68,32 @@ const mapExpenseData = (data: any): Expense => {
     ...sanitized,
     category: sanitized.category || sanitized.cat || 'General',
     confidence: sanitized.confidence === undefined ? 1.0 : sanitized.confidence,
+    // Rows extracted before line items were typed stored plain strings
+    items: sanitized.items ? normalizeLineItems(sanitized.items) : undefined,
     needs_clarification: sanitized.needs_clarification || false
   } as Expense;
 };
 
 
-const calculateDuration = (start: string, end?: string) => {
-  const startDate = new Date(start);
-  const endDate = new Date(end || start);
-  const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
-  return Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
+/**
+ * Home-base histories keyed by email. Admins read every profile; employees may only read their
+ * own, so the full read falls back to the session profile.
+ */
+const fetchHomeBaseDirectory = async (): Promise<Record<string, HomeBase[]>> => {
+  const directory: Record<string, HomeBase[]> = {};
+  try {
+    const snap = await getDocs(collection(db, 'authorized_users'));
+    snap.docs.forEach(d => {
+      const data = d.data();
+      if (data.email) directory[data.email] = data.home_bases || [];
+    });
+  } catch {
+    const session = getSession();
+    if (!session) return directory;
+    const profile = await getDoc(doc(db, 'authorized_users', session.uid));
+    directory[session.email] = profile.data()?.home_bases || [];
+  }
+  return directory;
 };
 
 export const addTravelLogs = async (logs: Omit<TravelLog, 'id'>[]) => {
@@ -82,60 +102,58 @@ export const addTravelLogs = async (logs: Omit<TravelLog, 'id'>[]) => {
   const initialResults: any[] = [];
   const sortedLogs = [...logs].sort((a, b) => new Date(a.start_date).getTime() - new Date(b.start_date).getTime());
 
+  const homeBases = await fetchHomeBaseDirectory();
+
   // Pre-fetch all logs to check for duplicates
   const existingLogsSnap = await getDocs(collection(db, 'travel_logs'));
   const existingLogs = existingLogsSnap.docs.map(d => ({ id: d.id, ...d.data() } as TravelLog));
 
   for (const log of sortedLogs) {
     // 1. DEDUPLICATION CHECK (Per-User)
-    const isDuplicate = existingLogs.some(existing => {
-      const sameUser = log.user_id === existing.user_id;
-      if (!sameUser) return false;
-
-      if (log.reference_number && existing.reference_number &&
-        log.reference_number.toUpperCase() === existing.reference_number.toUpperCase()) return true;
-      const sameDate = log.start_date === existing.start_date;
-      const sameDest = (log.destination_city || "").toLowerCase() === (existing.destination_city || "").toLowerCase();
-      if (sameDate && sameDest && log.travel_type === existing.travel_type) return true;
-      return false;
-    });
+    const isDuplicate = existingLogs.some(existing => log.user_id === existing.user_id && isDuplicateTravelLog(log, existing));
 
     if (isDuplicate) {
       console.log(`⚠️ Firebase: Skipping duplicate Travel Log for user ${log.user_id}: ${log.destination_city} at ${log.start_date}`);
       continue;
     }
 
-    const isAccommodation = log.travel_type === 'accommodation';
-    const isHome = isHomeLocation(log);
-
-    const documentDuration = calculateDuration(log.start_date, log.end_date);
-    // A trip is a consolidated round trip if the AI provided a return/end date, even if same day.
-    const isRoundTrip = !isAccommodation && !isHome && !!log.return_date;
-
-    const newLog = {
-      ...log,
-      uploaded_at: new Date().toISOString(),
-      days_spent: (isHome || isRoundTrip || isAccommodation) ? documentDuration : 1,
-      status: (isHome || isRoundTrip || isAccommodation) ? 'Complete' : 'Open - Awaiting return',
-      hotel_verification_status: !isAccommodation && !isHome ? 'missing' : 'not_required'
-    };
+    const newLog = prepareTravelLog(log, homeBases[log.user_id || '']);
 
     const docRef = await addDoc(collection(db, 'travel_logs'), sanitize(newLog));
     initialResults.push({ id: docRef.id, ...newLog });
   }
 
+  await runTravelIntegrationSweep();
+  return initialResults;
+};
+
+/**
+ * Links flights to hotels and outbound flights to their returns across the stored logs an admin
+ * sees, or the signed-in traveller's own. Also run after server-side extraction jobs, which write
+ * travel logs directly.
+ */
+export const runTravelIntegrationSweep = async () => {
+  const session = getSession();
+  if (!session) return;
+  const scope = session.role === 'admin' ? [] : [where('user_id', '==', session.email)];
+
   // 2. Global Integration Sweep (Forensic Check-in/Check-out window)
-  const freshLogsSnap = await getDocs(collection(db, 'travel_logs'));
+  const freshLogsSnap = await getDocs(query(collection(db, 'travel_logs'), ...scope));
   const allLogs = freshLogsSnap.docs.map(d => ({ id: d.id, ...d.data() } as TravelLog));
+  const homeBases = await fetchHomeBaseDirectory();
+  // Each traveller's own base, as it stood on the date of the log
+  const isHome = (log: TravelLog) => isHomeLocation(log, homeBases[log.user_id || '']);
 
   const flights = allLogs.filter(l => l.travel_type === 'flight');
   const hotels = allLogs.filter(l => l.travel_type === 'accommodation');
 
   // Verify Hotels
   for (const flight of flights) {
-    if (flight.hotel_verification_status === 'verified' || isHomeLocation(flight)) continue;
+    if (flight.hotel_verification_status === 'verified' || isHome(flight)) continue;
 
     const match = hotels.find(hotel => {
+      if (hotel.user_id !== flight.user_id) return false;
+
       // Forensic Match: City + Date Window (-1 to +2 days)
       const flightCity = (flight.destination_city || "").toLowerCase();
       const hotelCity = (hotel.destination_city || "").toLowerCase();
@@ -167,23 +185,24 @@ export const addTravelLogs = async (logs: Omit<TravelLog, 'id'>[]) => {
 
   // 3. Bridge Flights (Linking Outbound to Return)
   // CRITICAL: "Return-First" Strategy
-  // We process arrivals to Home (Dubai) and pair them with the NEAREST PRECEDING outbound flight.
+  // We process arrivals to the traveller's home base and pair them with the latest preceding flight out of
+  // home (else the NEAREST PRECEDING open flight). Open legs in between are the trip's onward stops.
 
   const arrivals = allLogs
-    .filter(l => l.travel_type === 'flight' && isHomeLocation(l))
+    .filter(l => l.travel_type === 'flight' && isHome(l))
     .sort((a, b) => new Date(a.start_date).getTime() - new Date(b.start_date).getTime());
 
   const openOutbounds = allLogs
-    .filter(l => l.status === 'Open - Awaiting return' && !isHomeLocation(l))
+    .filter(l => l.status === 'Open - Awaiting return' && !isHome(l))
     .sort((a, b) => new Date(a.start_date).getTime() - new Date(b.start_date).getTime());
 
   for (const arrival of arrivals) {
     if (arrival.outbound_flight_id) continue; // Already bridged
 
-    // Find the NEAREST PRECEDING outbound flight that isn't bridged yet
-    const outbound = [...openOutbounds].reverse().find(o =>
-      new Date(o.start_date) <= new Date(arrival.start_date) && !o.return_flight_id
+    const pending = openOutbounds.filter(o =>
+      o.user_id === arrival.user_id && o.status === 'Open - Awaiting return' && new Date(o.start_date) <= new Date(arrival.start_date) && !o.return_flight_id
     );
+    const outbound = [...pending].reverse().find(o => departsFromHome(o, homeBases[o.user_id || ''])) || pending[pending.length - 1];
 
     if (outbound) {
       const start = new Date(outbound.start_date);
@@ -207,10 +226,46 @@ export const addTravelLogs = async (logs: Omit<TravelLog, 'id'>[]) => {
       // Update local state to prevent double-bridging in loop
       outbound.return_flight_id = arrival.id;
       arrival.outbound_flight_id = outbound.id;
+
+      // Multi-city: each onward leg closes once the next one leaves, and counts the days at its stop
+      const onward = pending.filter(o => o !== outbound && new Date(o.start_date) >= start);
+      for (const [i, leg] of onward.entries()) {
+        const next = onward[i + 1] || arrival;
+        const stopDays = Math.max(1, Math.floor((new Date(next.start_date).getTime() - new Date(leg.start_date).getTime()) / (1000 * 60 * 60 * 24)) + 1);
+        await setDoc(doc(db, 'travel_logs', leg.id), sanitize({
+          status: 'Complete',
+          outbound_flight_id: outbound.id,
+          days_spent: stopDays,
+          updated_at: new Date().toISOString()
+        }), { merge: true });
+        leg.status = 'Complete';
+        leg.outbound_flight_id = outbound.id;
+      }
     }
   }
 
-  return initialResults;
+  // 4. Trips: regroup every swept traveller's logs, leaving hand-edited and per diem decided trips alone
+  await syncTrips(allLogs, homeBases, scope);
+};
+
+const syncTrips = async (allLogs: TravelLog[], homeBases: Record<string, HomeBase[]>, scope: ReturnType<typeof where>[]) => {
+  const tripsSnap = await getDocs(query(collection(db, 'trips'), ...scope));
+  const stored = tripsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Trip));
+  const pinnedLogIds = new Set(stored.filter(isTripPinned).flatMap(tripLogIds));
+
+  const users = Array.from(new Set(allLogs.map(l => l.user_id).filter(Boolean))) as string[];
+  const changes: TripChanges = { create: [], update: [], remove: [] };
+  users.forEach(userId => {
+    const userLogs = allLogs.filter(l => l.user_id === userId && !pinnedLogIds.has(l.id));
+    const userChanges = reconcileTrips(stored.filter(t => t.user_id === userId), buildTrips(userId, userLogs, homeBases[userId]));
+    changes.create.push(...userChanges.create);
+    changes.update.push(...userChanges.update);
+    changes.remove.push(...userChanges.remove);
+  });
+  // Travellers whose logs are all gone
+  stored.filter(t => !isTripPinned(t) && !users.includes(t.user_id)).forEach(t => changes.remove.push(t.id));
+
+  if (changes.create.length + changes.update.length + changes.remove.length > 0) await saveTripChanges(changes);
 };
 
 export const subscribeToExpenses = (callback: (expenses: Expense[]) => void) => {
@@ -260,7 +315,7 @@ export const subscribeToSettings = (callback: (settings: AppSettings) => void) =
 
 export const updateSettings = async (updates: Partial<AppSettings>) => {
   const settingsRef = doc(db, 'global_settings', 'audit_config');
-  return await setDoc(settingsRef, { ...updates, updated_at: new Date().toISOString() }, { merge: true });
+  return await setDoc(settingsRef, sanitize({ ...updates, updated_at: new Date().toISOString() }), { merge: true });
 };
 
 export const subscribeToAllTelegramReceipts = (callback: (expenses: (Expense & { owner_email?: string })[]) => void) => {
@@ -305,6 +360,64 @@ export const subscribeToTravelLogs = (callback: (logs: TravelLog[]) => void) =>
   });
 };
 
+export const subscribeToTrips = (callback: (trips: Trip[]) => void) => {
+  const session = getSession();
+  if (!session) return () => { };
+  const q = session.role === 'admin'
+    ? query(collection(db, 'trips'), orderBy('start_date', 'desc'))
+    : query(collection(db, 'trips'), where('user_id', '==', session.email));
+  return onSnapshot(q, (snapshot: any) => {
+    callback(snapshot.docs.map((doc: any) => ({ id: doc.id, ...doc.data() } as Trip)));
+  });
+};
+
+// Firestore caps a write batch at 500 operations
+const MAX_BATCH_WRITES = 500;
+
+/**
+ * Writes a regrouping in batches of at most 500 writes, so a full sweep over many travellers
+ * still commits; an editor change is small enough to land in one. Used by the sweep and by the
+ * trip editor, which sends the edited trips locked.
+ */
+export const saveTripChanges = async (changes: TripChanges) => {
+  const session = getSession();
+  const now = new Date().toISOString();
+  const writes: ((batch: ReturnType<typeof writeBatch>) => void)[] = [
+    ...changes.create.map(trip => (batch: ReturnType<typeof writeBatch>) => { batch.set(doc(collection(db, 'trips')), sanitize({ ...trip, created_at: now, updated_at: now, updated_by: session?.email })); }),
+    ...changes.update.map(({ id, ...trip }) => (batch: ReturnType<typeof writeBatch>) => { batch.set(doc(db, 'trips', id), sanitize({ ...trip, updated_at: now, updated_by: session?.email })); }),
+    ...changes.remove.map(id => (batch: ReturnType<typeof writeBatch>) => { batch.delete(doc(db, 'trips', id)); })
+  ];
+  for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + MAX_BATCH_WRITES).forEach(write => write(batch));
+    await batch.commit();
+  }
+};
+
+// Meals the company or host provided, per trip date; replaces the whole map and sends any
+// per diem decision back to review, since the entitlement changes with it
+export const setTripProvidedMeals = async (tripId: string, meals: Record<string, PerDiemMeal[]>) => {
+  const provided = Object.fromEntries(Object.entries(meals).filter(([, list]) => list.length > 0));
+  return await updateDoc(doc(db, 'trips', tripId), { provided_meals: provided, per_diem: deleteField(), updated_at: new Date().toISOString() });
+};
+
+/**
+ * Records the admin's per diem decision with the day lines it covered, or clears it so the
+ * allowance goes back to review.
+ */
+export const decideTripPerDiem = async (tripId: string, decision: Omit<TripPerDiem, 'decided_by' | 'decided_at'> | null) => {
+  const session = getSession();
+  return await updateDoc(doc(db, 'trips', tripId), {
+    per_diem: decision ? sanitize({ ...decision, decided_by: session?.email || 'admin', decided_at: new Date().toISOString() }) : deleteField(),
+    updated_at: new Date().toISOString()
+  });
+};
+
+// Links an expense to a trip (travel_log_id holds the trip id), or unlinks it
+export const setExpenseTrip = async (expenseId: string, tripId: string | null) => {
+  return await setDoc(doc(db, 'expenses', expenseId), { travel_log_id: tripId || deleteField() }, { merge: true });
+};
+
 export const logReceiptUsage = async (id: string, userEmail: string, action: string = 'Reconciled') => {
   const receiptRef = doc(db, 'expenses', id);
   const log: UsageLog = {
@@ -320,6 +433,26 @@ export const logReceiptUsage = async (id: string, userEmail: string, action: str
   }, { merge: true });
 };
 
+/**
+ * Stamps each matched anchor with the proof it was matched to, which closes its receipt-required
+ * policy finding, and clears the stamp from anchors a later audit left unmatched.
+ */
+export const markAnchorsReconciled = async (matched: Expense[], unmatched: Expense[]) => {
+  const writes = [
+    ...matched.filter(e => e.reconciledId).map(e => ({ id: e.id, reconciledId: e.reconciledId as string | ReturnType<typeof deleteField> })),
+    ...unmatched.filter(e => e.reconciledId).map(e => ({ id: e.id, reconciledId: deleteField() }))
+  ];
+  for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + MAX_BATCH_WRITES).forEach(({ id, reconciledId }) => batch.set(doc(db, 'expenses', id), { reconciledId }, { merge: true }));
+    await batch.commit();
+  }
+};
+
+export const updateTravelLog = async (id: string, updates: Partial<TravelLog>) => {
+  return await setDoc(doc(db, 'travel_logs', id), sanitize({ ...updates, updated_at: new Date().toISOString() }), { merge: true });
+};
+
 export const logTravelUsage = async (id: string, userEmail: string, action: string = 'Viewed') => {
   const logRef = doc(db, 'travel_logs', id);
   const log: UsageLog = {
@@ -335,24 +468,21 @@ export const logTravelUsage = async (id: string, userEmail: string, action: stri
 
 export const addExpenses = async (expenses: Omit<Expense, 'id'>[]) => {
 
-  // Deduplication: Pre-fetch current month's expenses for safety
+  // Deduplication: compare against the uploading user's existing rows (see classifyIncomingExpenses)
   const snap = await getDocs(collection(db, 'expenses'));
-  const existing = snap.docs.map(d => d.data() as Expense);
+  const userIds = new Set(expenses.map(e => e.user_id));
+  const existing = snap.docs
+    .map(d => ({ id: d.id, ...d.data() } as Expense))
+    .filter(e => userIds.has(e.user_id));
+
+  const { fresh, merged, suspected } = classifyIncomingExpenses(expenses, existing);
+  if (merged > 0) console.log(`⚠️ Firebase: Merged ${merged} rows already present from an earlier upload`);
+  if (suspected > 0) console.log(`⚠️ Firebase: ${suspected} suspected duplicates sent to the clarification queue`);
 
   const results = [];
-  for (const exp of expenses) {
-    const isDup = existing.some(e =>
-      e.user_id === exp.user_id && // Per-User Check
-      e.merchant.toLowerCase() === exp.merchant.toLowerCase() &&
-      Math.abs(e.amount - exp.amount) < 0.01 &&
-      e.date === exp.date
-    );
-    if (!isDup) {
-      const docRef = await addDoc(collection(db, 'expenses'), sanitize({ ...exp, created_at: new Date().toISOString() }));
-      results.push({ id: docRef.id, ...exp });
-    } else {
-      console.log(`⚠️ Firebase: Skipping duplicate Expense for user ${exp.user_id}: ${exp.merchant} - ${exp.amount} at ${exp.date}`);
-    }
+  for (const exp of fresh) {
+    const docRef = await addDoc(collection(db, 'expenses'), sanitize({ ...exp, created_at: new Date().toISOString() }));
+    results.push({ id: docRef.id, ...exp });
   }
   return results;
 };
@@ -443,7 +573,7 @@ export const subscribeToAuthorizedUsers = (callback: (users: string[]) => void)
   });
 };
 
-export const subscribeToFullUserList = (callback: (users: any[]) => void) => {
+export const subscribeToFullUserList = (callback: (users: AuthorizedUser[]) => void) => {
   const q = query(collection(db, 'authorized_users'), orderBy('createdAt', 'desc'));
   return onSnapshot(q, (snapshot: any) => {
     callback(snapshot.docs.map((doc: any) => ({
@@ -457,6 +587,42 @@ export const updateUserRole = async (uid: string, role: 'admin' | 'employee' | '
   return await setDoc(doc(db, 'authorized_users', uid), { role, updated_at: new Date().toISOString() }, { merge: true });
 };
 
+export const updateUserManager = async (uid: string, managerEmail: string) => {
+  return await setDoc(doc(db, 'authorized_users', uid), { manager_email: managerEmail.trim().toLowerCase(), updated_at: new Date().toISOString() }, { merge: true });
+};
+
+/**
+ * Records a relocation. Earlier entries stay in home_bases so trips before effective_from keep
+ * the base they were made from; an entry with the same effective date is replaced.
+ */
+export const addUserHomeBase = async (uid: string, history: HomeBase[], base: Omit<HomeBase, 'set_by' | 'set_at'>) => {
+  const session = getSession();
+  if (!session) throw new Error("No session");
+  const entry: HomeBase = { ...base, set_by: session.email, set_at: new Date().toISOString() };
+  const home_bases = [...history.filter(b => b.effective_from !== base.effective_from), entry]
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  return await setDoc(doc(db, 'authorized_users', uid), sanitize({ home_bases, updated_at: new Date().toISOString() }), { merge: true });
+};
+
+// Home-base histories by email: every profile for admins, the session profile for employees
+export const subscribeToHomeBases = (callback: (homeBases: Record<string, HomeBase[]>) => void) => {
+  const session = getSession();
+  if (!session) return () => { };
+  if (session.role === 'admin') {
+    return onSnapshot(query(collection(db, 'authorized_users')), (snapshot: any) => {
+      const directory: Record<string, HomeBase[]> = {};
+      snapshot.docs.forEach((d: any) => {
+        const data = d.data();
+        if (data.email) directory[data.email] = data.home_bases || [];
+      });
+      callback(directory);
+    });
+  }
+  return onSnapshot(doc(db, 'authorized_users', session.uid), (snapshot: any) => {
+    callback({ [session.email]: snapshot.data()?.home_bases || [] });
+  });
+};
+
 // --- BANK REGISTRY METHODS (Shared Company-Wide) ---
 export const subscribeToBankRegistry = (callback: (mappings: any[]) => void) => {
   const q = query(
@@ -482,6 +648,305 @@ export const deleteBankMapping = async (id: string) => {
   return await deleteDoc(doc(db, 'bank_registry', id));
 };
 
+// --- BANK STATEMENT TEMPLATES (CSV column layouts per bank, shared with the registry) ---
+export const subscribeToStatementTemplates = (callback: (templates: StatementTemplate[]) => void) => {
+  const q = query(
+    collection(db, 'bank_statement_templates'),
+    orderBy('created_at', 'desc')
+  );
+  return onSnapshot(q, (snapshot: any) => {
+    callback(snapshot.docs.map((doc: any) => ({ id: doc.id, ...doc.data() })));
+  });
+};
+
+export const saveStatementTemplate = async (template: Omit<StatementTemplate, 'id' | 'user_id' | 'created_at'>) => {
+  const session = getSession();
+  if (!session) throw new Error("No session");
+  return await addDoc(collection(db, 'bank_statement_templates'), {
+    ...sanitize(template),
+    user_id: session.email,
+    created_at: new Date().toISOString()
+  });
+};
+
+export const deleteStatementTemplate = async (id: string) => {
+  return await deleteDoc(doc(db, 'bank_statement_templates', id));
+};
+
+// --- DOCUMENT FINGERPRINTS (Per-User Upload History) ---
+export const getDocumentFingerprints = async (hashes: string[]): Promise<DocumentFingerprint[]> => {
+  const session = getSession();
+  if (!session || hashes.length === 0) return [];
+  const snap = await getDocs(query(collection(db, 'document_fingerprints'), where('user_id', '==', session.email)));
+  return snap.docs
+    .map(d => ({ id: d.id, ...d.data() } as DocumentFingerprint))
+    .filter(f => hashes.includes(f.hash));
+};
+
+export const saveDocumentFingerprint = async (fingerprint: Omit<DocumentFingerprint, 'id' | 'user_id' | 'created_at'>) => {
+  const session = getSession();
+  if (!session) throw new Error("No session");
+  return await addDoc(collection(db, 'document_fingerprints'), {
+    ...sanitize(fingerprint),
+    user_id: session.email,
+    created_at: new Date().toISOString()
+  });
+};
+
+// --- MERCHANT ALIAS REGISTRY (Shared Company-Wide) ---
+export const subscribeToMerchantAliases = (callback: (aliases: MerchantAlias[]) => void) => {
+  const q = query(
+    collection(db, 'merchant_aliases'),
+    orderBy('created_at', 'desc')
+  );
+  return onSnapshot(q, (snapshot: any) => {
+    callback(snapshot.docs.map((doc: any) => ({ id: doc.id, ...doc.data() })));
+  });
+};
+
+export const saveMerchantAlias = async (alias: { canonical_name: string, descriptors: string[], patterns?: string[] }) => {
+  const session = getSession();
+  if (!session) throw new Error("No session");
+  return await addDoc(collection(db, 'merchant_aliases'), {
+    ...sanitize(alias),
+    user_id: session.email,
+    created_at: new Date().toISOString()
+  });
+};
+
+export const deleteMerchantAlias = async (id: string) => {
+  return await deleteDoc(doc(db, 'merchant_aliases', id));
+};
+
+/**
+ * Teaches the registry a new descriptor: appends to an existing canonical merchant or creates one.
+ */
+export const learnMerchantAlias = async (canonicalName: string, descriptor: string, existing: MerchantAlias[]) => {
+  const target = existing.find(a => a.canonical_name.toLowerCase() === canonicalName.toLowerCase());
+  if (target) {
+    return await setDoc(doc(db, 'merchant_aliases', target.id), {
+      descriptors: arrayUnion(descriptor),
+      updated_at: new Date().toISOString()
+    }, { merge: true });
+  }
+  return await saveMerchantAlias({ canonical_name: canonicalName, descriptors: [descriptor], patterns: [] });
+};
+
+// --- RECONCILIATION OVERRIDES (Manual Match / Unmatch / No Receipt Expected) ---
+export const subscribeToReconciliationOverrides = (callback: (overrides: ReconciliationOverride[]) => void) => {
+  const q = query(
+    collection(db, 'reconciliation_overrides'),
+    orderBy('created_at', 'desc')
+  );
+  return onSnapshot(q, (snapshot: any) => {
+    callback(snapshot.docs.map((doc: any) => ({ id: doc.id, ...doc.data() })));
+  });
+};
+
+export const saveReconciliationOverride = async (override: Omit<ReconciliationOverride, 'id' | 'created_by' | 'created_at'>) => {
+  const session = getSession();
+  if (!session) throw new Error("No session");
+  return await addDoc(collection(db, 'reconciliation_overrides'), {
+    ...sanitize(override),
+    created_by: session.email,
+    created_at: new Date().toISOString()
+  });
+};
+
+export const deleteReconciliationOverride = async (id: string) => {
+  return await deleteDoc(doc(db, 'reconciliation_overrides', id));
+};
+
+// --- SUBSCRIPTIONS (Confirmed Recurring Charges, Shared Company-Wide) ---
+export const subscribeToSubscriptions = (callback: (subscriptions: Subscription[]) => void) => {
+  const q = query(
+    collection(db, 'subscriptions'),
+    orderBy('confirmed_at', 'desc')
+  );
+  return onSnapshot(q, (snapshot: any) => {
+    callback(snapshot.docs.map((doc: any) => ({ id: doc.id, ...doc.data() })));
+  });
+};
+
+export const saveSubscription = async (subscription: Omit<Subscription, 'id' | 'confirmed_by' | 'confirmed_at'>) => {
+  const session = getSession();
+  if (!session) throw new Error("No session");
+  return await addDoc(collection(db, 'subscriptions'), {
+    ...sanitize(subscription),
+    confirmed_by: session.email,
+    confirmed_at: new Date().toISOString()
+  });
+};
+
+export const updateSubscription = async (id: string, updates: Partial<Subscription>) => {
+  return await setDoc(doc(db, 'subscriptions', id), sanitize({
+    ...updates,
+    updated_at: new Date().toISOString()
+  }), { merge: true });
+};
+
+export const deleteSubscription = async (id: string) => {
+  return await deleteDoc(doc(db, 'subscriptions', id));
+};
+
+// --- REIMBURSEMENT CLAIMS ---
+export const subscribeToClaims = (callback: (claims: ReimbursementClaim[]) => void, email?: string) => {
+  const q = email
+    ? query(collection(db, 'reimbursement_claims'), where('user_id', '==', email))
+    : query(collection(db, 'reimbursement_claims'), orderBy('created_at', 'desc'));
+  return onSnapshot(q, (snapshot: any) => {
+    const claims = snapshot.docs.map((doc: any) => ({ id: doc.id, ...doc.data() } as ReimbursementClaim));
+    callback(claims.sort((a: ReimbursementClaim, b: ReimbursementClaim) => b.created_at.localeCompare(a.created_at)));
+  });
+};
+
+// Claims waiting on this person (as assigned approver or delegate)
+export const subscribeToApprovalQueue = (callback: (claims: ReimbursementClaim[]) => void, email: string) => {
+  const q = query(collection(db, 'reimbursement_claims'), where('approval.current_approvers', 'array-contains', email.toLowerCase()));
+  return onSnapshot(q, (snapshot: any) => {
+    callback(snapshot.docs.map((doc: any) => ({ id: doc.id, ...doc.data() } as ReimbursementClaim)));
+  });
+};
+
+// Claim and the expenses it covers move together, so the ledger always shows the claim state
+const stampClaimExpenses = (batch: ReturnType<typeof writeBatch>, claimId: string, lines: ClaimLine[], status: ReimbursementClaim['status']) => {
+  lines.forEach(line => {
+    batch.set(doc(db, line.collection, line.expense_id), {
+      claim_id: claimId,
+      reimbursement_status: lineReimbursementStatus(line, status)
+    }, { merge: true });
+  });
+};
+
+export const submitClaim = async (
+  title: string,
+  expenses: Expense[],
+  routing?: { steps?: ApprovalStep[]; delegations?: ApprovalDelegation[]; amount: number }
+) => {
+  const session = getSession();
+  if (!session) throw new Error("No session");
+  if (expenses.length === 0) throw new Error("A claim needs at least one expense");
+  if (expenses.length > MAX_CLAIM_LINES) throw new Error(`A claim holds at most ${MAX_CLAIM_LINES} expenses; split it into several`);
+
+  let approval;
+  if (routing?.steps?.length) {
+    const profile = await getDoc(doc(db, 'authorized_users', session.uid));
+    approval = buildApprovalChain(routing.steps, {
+      submitter: session.email,
+      amount: routing.amount,
+      travel: expenses.some(isMandatoryTravel),
+      manager: profile.data()?.manager_email
+    }, routing.delegations);
+  }
+
+  const claimRef = doc(collection(db, 'reimbursement_claims'));
+  const lines = buildClaimLines(expenses);
+  const now = new Date().toISOString();
+  const batch = writeBatch(db);
+  batch.set(claimRef, sanitize({
+    user_id: session.email,
+    title,
+    lines,
+    status: 'submitted',
+    history: withStatusChange({ history: [] }, 'submitted', session.email),
+    approval,
+    created_at: now,
+    updated_at: now
+  }));
+  stampClaimExpenses(batch, claimRef.id, lines, 'submitted');
+  await batch.commit();
+  return claimRef.id;
+};
+
+export const reviewClaim = async (claim: ReimbursementClaim, lines: ClaimLine[], note?: string) => {
+  const session = getSession();
+  if (!session) throw new Error("No session");
+  if (claim.status === 'paid') throw new Error("Paid claims cannot be reviewed");
+  if (claim.approval?.status === 'pending') throw new Error("This claim is still going through its approval chain");
+
+  const status = deriveClaimStatus(lines);
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'reimbursement_claims', claim.id), sanitize({
+    lines,
+    status,
+    history: status !== claim.status ? withStatusChange(claim, status, session.email, note) : claim.history,
+    updated_at: new Date().toISOString()
+  }), { merge: true });
+  stampClaimExpenses(batch, claim.id, lines, status);
+  await batch.commit();
+};
+
+/**
+ * One step of the approval chain. Line decisions made along the way are kept; the final
+ * approval settles any line still pending, a rejection at any step rejects what is left.
+ */
+export const decideClaimApproval = async (
+  claim: ReimbursementClaim,
+  lines: ClaimLine[],
+  decision: ApprovalDecision,
+  delegations: ApprovalDelegation[] = [],
+  comment?: string
+) => {
+  const session = getSession();
+  if (!session) throw new Error("No session");
+  if (!claim.approval) throw new Error("This claim has no approval chain");
+
+  const approval = applyApprovalDecision(claim.approval, session.email, decision, delegations, comment);
+  const now = new Date().toISOString();
+  const settledLines = approval.status === 'pending' ? lines : lines.map(line => line.status !== 'pending' ? line : {
+    ...line,
+    status: approval.status as ClaimLine['status'],
+    reviewed_by: session.email,
+    reviewed_at: now,
+    ...(decision === 'rejected' && comment ? { comment } : {})
+  });
+  const status = deriveClaimStatus(settledLines);
+
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'reimbursement_claims', claim.id), sanitize({
+    lines: settledLines,
+    status,
+    approval,
+    history: status !== claim.status ? withStatusChange(claim, status, session.email, comment) : claim.history,
+    updated_at: now
+  }), { merge: true });
+  stampClaimExpenses(batch, claim.id, settledLines, status);
+  await batch.commit();
+};
+
+// Delegations changed: open chains must let the new delegates act (and stop the old ones)
+export const refreshPendingApprovals = async (delegations: ApprovalDelegation[]) => {
+  const snapshot = await getDocs(query(collection(db, 'reimbursement_claims'), where('approval.status', '==', 'pending')));
+  for (let i = 0; i < snapshot.docs.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    snapshot.docs.slice(i, i + MAX_BATCH_WRITES).forEach((claimDoc: any) => {
+      const claim = claimDoc.data() as ReimbursementClaim;
+      // Chains frozen before the submitter was recorded take it from the claim
+      const approval = { ...claim.approval!, submitter: claim.approval!.submitter || claim.user_id };
+      batch.set(claimDoc.ref, { approval: refreshApprovers(approval, delegations) }, { merge: true });
+    });
+    await batch.commit();
+  }
+};
+
+export const markClaimPaid = async (claim: ReimbursementClaim, payoutReference: string) => {
+  const session = getSession();
+  if (!session) throw new Error("No session");
+  if (!payoutReference.trim()) throw new Error("A payout reference is required");
+
+  const now = new Date().toISOString();
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'reimbursement_claims', claim.id), {
+    status: 'paid',
+    payout_reference: payoutReference.trim(),
+    paid_at: now,
+    history: withStatusChange(claim, 'paid', session.email, `Payout ${payoutReference.trim()}`),
+    updated_at: now
+  }, { merge: true });
+  stampClaimExpenses(batch, claim.id, claim.lines, 'paid');
+  await batch.commit();
+};
+
 // --- MONTHLY CURRENCY RATES (Centralized Organization-Wide) ---
 export const getMonthlyRates = async (monthKey: string): Promise<any | null> => {
   const docRef = doc(db, 'monthly_rates', monthKey);
@@ -1,10 +1,19 @@
 
 /// <reference types="vite/client" />
-import { Expense, ExpenseSource, TravelLog } from "./types";
+import { Expense, ExpenseSource, TravelLog, ReconciliationOverride, ExtractionJob, ExtractionJobEvent } from "./types";
+import { mapExtractionResult } from "./extractionMapper";
+import { auth } from "./firebaseService";
 
 const isProd = import.meta.env.PROD;
 const API_BASE_URL = isProd ? "/api" : "http://localhost:3001/api";
 
+// Job and document routes take the user from the Firebase ID token, never from the request
+async function authHeaders(): Promise<Record<string, string>> {
+  const token = await auth.currentUser?.getIdToken();
+  if (!token) throw new Error("No session");
+  return { Authorization: `Bearer ${token}` };
+}
+
 // Helper to handle API errors
 async function handleApiResponse(response: Response) {
   if (!response.ok) {
@@ -50,72 +59,7 @@ export const batchExtractAllData = async (
 
     // result.results is the array of ExtractionOutputSchema results
     (result.results || []).forEach((batchItem: any, batchIdx: number) => {
-      const source = inputs[batchIdx].source;
-
-      const expenses = (batchItem.expenses || []).map((item: any, index: number) => ({
-        id: `${source}-${Date.now()}-${batchIdx}-${index}`,
-        merchant: item.m || "Unknown",
-        amount: Number(item.a) || 0,
-        currency: item.c || "AED",
-        date: item.d || new Date().toISOString().split('T')[0],
-        category: item.cat || "General",
-        description: source === 'bank_statement' || source === 'credit_card_statement' ? `${bankName || 'BANK'} TRANSACTION` : "PROOF DOCUMENT",
-        bank: bankName,
-        source,
-        confidence: 1.0,
-        created_at: new Date().toISOString(),
-        items: item.items,
-        tax_amount: item.tax_amount,
-        main_category: item.main_category,
-        company_project: item.company_project,
-        reimbursement_status: item.reimbursement_status,
-        paid_by: item.paid_by,
-        payment_method: item.payment_method,
-        card_digits: item.cd || "",
-        notes: item.notes
-      }));
-
-      const docId = `doc-${Date.now()}-${batchIdx}`;
-
-      // Aggressive Consolidation: Merge ALL flight logs from this document into one.
-      const rawLogs = (batchItem.travel_logs || []);
-      const flightLogsRaw = rawLogs.filter((l: any) => l.type === 'flight');
-      const hotelLogsRaw = rawLogs.filter((l: any) => l.type === 'accommodation');
-
-      const consolidatedFlights: any[] = [];
-      if (flightLogsRaw.length > 0) {
-        // Merge everything into the first record
-        const main = { ...flightLogsRaw[0] };
-        flightLogsRaw.slice(1).forEach((l: any) => {
-          if (new Date(l.date) < new Date(main.date)) main.date = l.date;
-          if (!main.end_date || (l.end_date && new Date(l.end_date) > new Date(main.end_date))) {
-            main.end_date = l.end_date || l.date;
-          }
-          if (main.dest_city === 'Dubai' || !main.dest_city) main.dest_city = l.dest_city;
-          if (main.dest_country === 'UAE' || !main.dest_country) main.dest_country = l.dest_country;
-        });
-        consolidatedFlights.push(main);
-      }
-
-      const travelLogs = [...consolidatedFlights, ...hotelLogsRaw].map((log: any, index: number) => ({
-        id: `travel-${Date.now()}-${batchIdx}-${index}`,
-        destination_city: log.dest_city || "",
-        destination_country: log.dest_country || "",
-        origin_city: log.origin_city || "",
-        origin_country: log.origin_country || "",
-        start_date: log.date,
-        end_date: log.end_date || log.date,
-        departure_date: log.date,
-        return_date: log.end_date || null,
-        provider_name: log.provider,
-        travel_type: log.type as 'flight' | 'accommodation',
-        reference_number: log.ref || "",
-        guest_name: log.guest || "",
-        status: 'Complete' as any,
-        days_spent: 0,
-        document_id: docId
-      }));
-
+      const { expenses, travelLogs } = mapExtractionResult(batchItem, inputs[batchIdx].source, bankName, batchIdx);
       allExpenses.push(...expenses);
       allTravelLogs.push(...travelLogs);
     });
@@ -142,13 +86,21 @@ export const extractAllData = async (
 
 /**
  * Calls the Genkit Agent backend to reconcile transactions.
+ * The server runs the deterministic matching engine first (using the supplied
+ * USD-bridged rates for FX parity and the merchant alias registry, which it reads from
+ * Firestore itself) and only escalates ambiguous pairs to the AI. Manual overrides are
+ * applied before any scoring.
  */
-export const reconcileData = async (expenses: Expense[]) => {
+export const reconcileData = async (
+  expenses: Expense[],
+  rates: Record<string, number> = {},
+  overrides: ReconciliationOverride[] = []
+) => {
   try {
     const result = await fetch(`${API_BASE_URL}/reconcile`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ expenses })
+      body: JSON.stringify({ expenses, rates, overrides })
     }).then(handleApiResponse);
 
     return result; // Expected: { matched: [], unmatchedReceipts: [], ... }
@@ -158,3 +110,141 @@ export const reconcileData = async (expenses: Expense[]) => {
   }
 };
 
+
+// --- EXTRACTION JOBS ---
+
+/**
+ * Queues documents for server-side extraction. Results are written to the user's ledger by the
+ * server as each document completes; poll getExtractionJob for per-document progress.
+ */
+export const createExtractionJob = async (
+  inputs: Array<{ name: string, hash?: string, document_id?: string, content: string | { data: string; mimeType: string }, source: ExpenseSource }>,
+  bankName?: string
+): Promise<ExtractionJob> => {
+  const payloadInputs = inputs.map(input => ({
+    name: input.name,
+    hash: input.hash,
+    document_id: input.document_id,
+    content: typeof input.content === 'string' ? input.content : JSON.stringify(input.content),
+    source: input.source
+  }));
+
+  return fetch(`${API_BASE_URL}/jobs`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: JSON.stringify({ bank: bankName, inputs: payloadInputs })
+  }).then(handleApiResponse);
+};
+
+export const getExtractionJob = async (jobId: string): Promise<ExtractionJob> => {
+  return fetch(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}`, { headers: await authHeaders() }).then(handleApiResponse);
+};
+
+// The signed-in user's jobs, newest first
+export const listExtractionJobs = async (): Promise<ExtractionJob[]> => {
+  return fetch(`${API_BASE_URL}/jobs`, { headers: await authHeaders() }).then(handleApiResponse);
+};
+
+const STREAM_RECONNECT_MS = 3000;
+const STREAM_MAX_RECONNECTS = 5;
+
+/**
+ * Streams per-document progress events for a job (Server-Sent Events). Read with fetch rather
+ * than EventSource, which cannot send the Authorization header; after a network blip it
+ * reconnects with Last-Event-ID so only missed events are replayed. onError fires only once
+ * the stream is given up for good.
+ */
+export const subscribeToExtractionJob = (
+  jobId: string,
+  callback: (event: ExtractionJobEvent) => void,
+  onError?: (error: Error) => void
+) => {
+  const controller = new AbortController();
+  let lastSeq = 0;
+
+  const readStream = async (response: Response) => {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+      let end;
+      while ((end = buffer.indexOf('\n\n')) >= 0) {
+        const data = buffer.slice(0, end).split('\n').filter(l => l.startsWith('data: ')).map(l => l.slice(6)).join('\n');
+        buffer = buffer.slice(end + 2);
+        if (!data) continue; // Keep-alive comment
+        try {
+          const event: ExtractionJobEvent = JSON.parse(data);
+          lastSeq = event.seq;
+          callback(event);
+        } catch (err) {
+          console.error("Malformed extraction event:", err);
+        }
+      }
+    }
+  };
+
+  (async () => {
+    for (let attempt = 0; attempt <= STREAM_MAX_RECONNECTS; attempt++) {
+      try {
+        const response = await fetch(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/events`, {
+          headers: { ...(await authHeaders()), ...(lastSeq ? { 'Last-Event-ID': String(lastSeq) } : {}) },
+          signal: controller.signal
+        });
+        if (!response.ok || !response.body) break; // Expired, restarted or not ours: reconnecting will not help
+        attempt = 0;
+        await readStream(response);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+      }
+      if (controller.signal.aborted) return;
+      await new Promise(resolve => setTimeout(resolve, STREAM_RECONNECT_MS));
+    }
+    if (!controller.signal.aborted) {
+      onError?.(new Error("Lost connection to the extraction job (it may have expired or the server restarted)"));
+    }
+  })();
+
+  return () => controller.abort();
+};
+
+/**
+ * Re-queues only the failed documents of a job.
+ */
+export const retryExtractionJob = async (jobId: string): Promise<ExtractionJob> => {
+  return fetch(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/retry`, { method: "POST", headers: await authHeaders() }).then(handleApiResponse);
+};
+
+// --- ORIGINAL DOCUMENTS ---
+
+/**
+ * Retains the original file in the server's blob store. Returns the document_id to link from
+ * extracted Expense / TravelLog rows.
+ */
+export const uploadDocument = async (file: File): Promise<string> => {
+  const params = new URLSearchParams({ name: file.name });
+  const result = await fetch(`${API_BASE_URL}/documents?${params.toString()}`, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream", ...(await authHeaders()) },
+    body: file
+  }).then(handleApiResponse);
+  return result.document_id;
+};
+
+/**
+ * Short-lived URLs for iframes and links, keyed by document_id. Documents the user may not open
+ * are missing from the result.
+ */
+export const getDocumentUrls = async (documentIds: string[]): Promise<Record<string, string>> => {
+  if (documentIds.length === 0) return {};
+  const { links } = await fetch(`${API_BASE_URL}/documents/links`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: JSON.stringify({ ids: documentIds })
+  }).then(handleApiResponse);
+  return Object.fromEntries(Object.entries(links as Record<string, { expires: number, sig: string }>).map(([id, link]) => [
+    id,
+    `${API_BASE_URL}/documents/${encodeURIComponent(id)}?${new URLSearchParams({ expires: String(link.expires), sig: link.sig })}`
+  ]));
+};
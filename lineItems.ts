@@ -0,0 +1,69 @@
+import { Expense, ExpenseLineItem } from './types';
+
+/**
+ * LINE ITEMS
+ * Typed receipt/folio lines and the category splits they drive (e.g. a hotel folio whose
+ * minibar line belongs to Meals rather than Lodging). Shared by the mapper, server and UI.
+ * unit_price is net of tax; tax_amount is per line (derived from tax_rate when missing).
+ */
+
+export const lineItemTax = (item: ExpenseLineItem) =>
+  item.tax_amount ?? (item.tax_rate ? (item.quantity * item.unit_price * item.tax_rate) / 100 : 0);
+
+export const lineItemTotal = (item: ExpenseLineItem) => item.quantity * item.unit_price + lineItemTax(item);
+
+export const sumLineItems = (items: ExpenseLineItem[] = []) => items.reduce((acc, item) => acc + lineItemTotal(item), 0);
+
+export const sumLineItemTax = (items: ExpenseLineItem[] = []) => items.reduce((acc, item) => acc + lineItemTax(item), 0);
+
+/**
+ * Accepts AI output (compact keys), legacy string arrays stored before items were typed,
+ * and already-normalised items.
+ */
+export const normalizeLineItems = (raw: any): ExpenseLineItem[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((item: any): ExpenseLineItem | null => {
+      if (typeof item === 'string') {
+        return item.trim() ? { description: item.trim(), quantity: 1, unit_price: 0 } : null;
+      }
+      if (!item || typeof item !== 'object') return null;
+      const quantity = Number(item.quantity ?? item.qty ?? 1) || 1;
+      const unitPrice = Number(item.unit_price ?? item.price ?? 0) || 0;
+      const taxRate = item.tax_rate !== undefined ? Number(item.tax_rate) : undefined;
+      const taxAmount = item.tax_amount ?? item.tax;
+      return {
+        description: String(item.description ?? item.desc ?? '').trim() || 'Item',
+        quantity,
+        unit_price: unitPrice,
+        tax_rate: taxRate !== undefined && !isNaN(taxRate) ? taxRate : undefined,
+        tax_amount: taxAmount !== undefined && !isNaN(Number(taxAmount)) ? Number(taxAmount) : undefined,
+        category: item.category ?? item.cat ?? undefined
+      };
+    })
+    .filter((item): item is ExpenseLineItem => item !== null);
+};
+
+/**
+ * Splits an expense's amount by line-item category (in the expense currency). Lines without a
+ * category, and any unitemised remainder (tips, service charge, rounding), stay in the expense
+ * category. If the lines add up to more than the charged amount (discounts), they are scaled down.
+ */
+export const categorySplits = (exp: Pick<Expense, 'amount' | 'category' | 'items'>): Array<{ category: string; amount: number }> => {
+  const total = Math.abs(exp.amount);
+  const items = (exp.items || []).filter(item => lineItemTotal(item) > 0);
+  if (items.length === 0) return [{ category: exp.category, amount: total }];
+
+  const itemized = sumLineItems(items);
+  const scale = itemized > total && itemized > 0 ? total / itemized : 1;
+  const byCategory: Record<string, number> = {};
+  items.forEach(item => {
+    const category = item.category || exp.category;
+    byCategory[category] = (byCategory[category] || 0) + lineItemTotal(item) * scale;
+  });
+
+  const remainder = total - itemized * scale;
+  if (remainder > 0.01) byCategory[exp.category] = (byCategory[exp.category] || 0) + remainder;
+
+  return Object.entries(byCategory).map(([category, amount]) => ({ category, amount }));
+};
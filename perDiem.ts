@@ -0,0 +1,172 @@
+import { Expense, PerDiemDay, PerDiemDayType, PerDiemMeal, PerDiemRate, PerDiemSettings, Trip } from './types';
+import { normalizeCountry } from './residency';
+import { tripEndDate, tripLogIds } from './trips';
+import { isAnchor } from './reconciliationEngine';
+import { parseStatementAmount, readCsv } from './statementImporters';
+
+/**
+ * PER DIEMS
+ * Daily allowances paid by destination instead of reimbursing actual meals. Every day of a trip
+ * takes the rate of the stop the traveller sleeps at (the last stop on the day back home), scaled
+ * by the departure- or return-day share and reduced for meals the company or host provided.
+ * Deductions are a share of the full daily rate and never take a day below zero.
+ */
+
+export const PER_DIEM_MEALS: PerDiemMeal[] = ['breakfast', 'lunch', 'dinner'];
+
+export const DEFAULT_PER_DIEM_SETTINGS: PerDiemSettings = {
+  rates: [],
+  departure_day_percent: 75,
+  return_day_percent: 75,
+  meal_deductions: { breakfast: 20, lunch: 30, dinner: 30 }
+};
+
+export const PER_DIEM_DAY_LABELS: Record<PerDiemDayType, string> = {
+  departure: 'Departure Day',
+  full: 'Full Day',
+  return: 'Return Day',
+  day_trip: 'Day Trip'
+};
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Rate for a place: the city's own row, else the country row without a city.
+ */
+export const perDiemRateFor = (rates: PerDiemRate[], country: string, city?: string): PerDiemRate | undefined => {
+  const target = normalizeCountry(country);
+  const inCountry = rates.filter(r => normalizeCountry(r.country) === target);
+  const place = (city || '').trim().toLowerCase();
+  return (place ? inCountry.find(r => (r.city || '').trim().toLowerCase() === place) : undefined) ||
+    inCountry.find(r => !(r.city || '').trim());
+};
+
+/**
+ * The allowance for every day of the trip, from the outbound day to the day back home (the last
+ * known date while the trip is still open).
+ */
+export const tripPerDiemDays = (trip: Trip, settings?: Partial<PerDiemSettings>): PerDiemDay[] => {
+  const config = { ...DEFAULT_PER_DIEM_SETTINGS, ...(settings || {}) };
+  const deductions = { ...DEFAULT_PER_DIEM_SETTINGS.meal_deductions, ...(config.meal_deductions || {}) };
+  const stops = [...trip.stops].sort((a, b) => a.arrival.localeCompare(b.arrival));
+  if (stops.length === 0 || !trip.start_date) return [];
+
+  const end = trip.end_date || tripEndDate(trip);
+  const days: PerDiemDay[] = [];
+  for (let date = trip.start_date; date <= end; date = shiftDate(date, 1)) {
+    // A same-day connection is passed by the stop reached later that day
+    const stop = [...stops].reverse().find(s => s.arrival <= date) || stops[0];
+    const day_type: PerDiemDayType = trip.end_date === trip.start_date ? 'day_trip'
+      : date === trip.start_date ? 'departure'
+        : date === trip.end_date ? 'return'
+          : 'full';
+    const percent = day_type === 'departure' ? config.departure_day_percent
+      : day_type === 'return' ? config.return_day_percent
+        : day_type === 'day_trip' ? Math.min(config.departure_day_percent, config.return_day_percent)
+          : 100;
+
+    const rate = perDiemRateFor(config.rates, stop.country, stop.city);
+    const meals = trip.provided_meals?.[date] || [];
+    const gross = rate ? rate.daily_rate * percent / 100 : 0;
+    const deduction = rate ? Math.min(gross, meals.reduce((acc, meal) => acc + rate.daily_rate * (deductions[meal] || 0) / 100, 0)) : 0;
+
+    days.push({
+      date,
+      country: stop.country,
+      city: stop.city,
+      day_type,
+      rate: rate?.daily_rate,
+      currency: rate?.currency,
+      percent,
+      meals_provided: meals,
+      deduction: round2(deduction),
+      amount: round2(gross - deduction)
+    });
+  }
+  return days;
+};
+
+// Entitlement per currency; rate tables may price destinations in their local currency
+export const perDiemTotals = (days: PerDiemDay[]) =>
+  days.reduce((acc, day) => {
+    if (day.currency) acc[day.currency] = round2((acc[day.currency] || 0) + day.amount);
+    return acc;
+  }, {} as Record<string, number>);
+
+export const formatPerDiemTotals = (totals: Record<string, number>) =>
+  Object.entries(totals).map(([currency, amount]) => `${currency} ${amount.toLocaleString()}`).join(' + ') || '-';
+
+const isMealExpense = (e: Expense) => (e.category || '').toLowerCase() === 'meals';
+
+/**
+ * Meals actually spent during the trip: meal expenses dated inside it that are linked to the trip
+ * or to nothing else. A bank line already paired with a receipt is left out so the spend is not
+ * counted twice.
+ */
+export const tripMealExpenses = (trip: Trip, expenses: Expense[], pairedAnchorIds: Set<string> = new Set()) => {
+  const end = trip.end_date || tripEndDate(trip);
+  const own = [trip.id, ...tripLogIds(trip)];
+  return expenses.filter(e =>
+    isMealExpense(e) &&
+    e.date >= trip.start_date && e.date <= end &&
+    (!e.travel_log_id || own.includes(e.travel_log_id)) &&
+    !(isAnchor(e) && pairedAnchorIds.has(e.id))
+  );
+};
+
+// --- CSV IMPORT ---
+
+const CSV_COLUMNS: Record<'country' | 'city' | 'currency' | 'daily_rate', RegExp> = {
+  country: /^country$|destination/i,
+  city: /^(city|location|town)$/i,
+  currency: /^(currency|ccy|curr\.?)$/i,
+  daily_rate: /rate|allowance|per ?diem|amount/i
+};
+
+/**
+ * Reads a rate table exported from a spreadsheet: Country, City (blank for the rest of the
+ * country), Currency and Daily Rate columns, in any order. Rows without a country or a positive
+ * rate are counted as skipped.
+ */
+export const parsePerDiemCsv = (text: string, defaultCurrency = 'AED') => {
+  const { header, rows } = readCsv(text);
+  const column = (key: keyof typeof CSV_COLUMNS) => header.findIndex(h => CSV_COLUMNS[key].test(h));
+  const idx = { country: column('country'), city: column('city'), currency: column('currency'), daily_rate: column('daily_rate') };
+  if (idx.country < 0 || idx.daily_rate < 0) {
+    throw new Error("The CSV needs a Country column and a Daily Rate column.");
+  }
+
+  const rates: PerDiemRate[] = [];
+  let skipped = 0;
+  rows.forEach((row, i) => {
+    const country = (row[idx.country] || '').trim();
+    const rate = parseStatementAmount(row[idx.daily_rate] || '');
+    if (!country || !rate || rate <= 0) {
+      skipped++;
+      return;
+    }
+    rates.push({
+      id: `per_diem_${Date.now()}_${i}`,
+      country,
+      city: idx.city >= 0 ? (row[idx.city] || '').trim() || undefined : undefined,
+      currency: ((idx.currency >= 0 ? row[idx.currency] : '') || defaultCurrency).trim().toUpperCase(),
+      daily_rate: rate
+    });
+  });
+  return { rates, skipped };
+};
+
+/**
+ * Imported rows replace the existing row for the same country and city; the rest are kept.
+ */
+export const mergePerDiemRates = (existing: PerDiemRate[], imported: PerDiemRate[]) => {
+  const key = (r: PerDiemRate) => `${normalizeCountry(r.country)}|${(r.city || '').trim().toLowerCase()}`;
+  const incoming = new Set(imported.map(key));
+  return [...existing.filter(r => !incoming.has(key(r))), ...imported];
+};
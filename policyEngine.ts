@@ -0,0 +1,183 @@
+import { Expense, TravelLog, PolicyRule, PolicyRuleType, PolicySeverity, PolicyViolation } from './types';
+import { isAnchor, isCredit, isLodging, daysBetween } from './reconciliationEngine';
+
+/**
+ * POLICY ENGINE
+ * Company spend rules configured in System Settings, evaluated on every new expense and travel
+ * log. Violations are stored on the record with their severity; a justification closes one.
+ * Amount limits are in the reporting currency, so callers pass the conversion they already use.
+ */
+
+export interface PolicyContext {
+  reportingCurrency: string;
+  convert: (amount: number, record: Pick<Expense, 'currency' | 'date'>) => number | null;   // null: no rate
+  travelLogs?: TravelLog[];   // City and nights of a hotel stay
+  expenses?: Expense[];       // Hotel bills belonging to a stay (travel log evaluation)
+}
+
+export const POLICY_RULE_LABELS: Record<PolicyRuleType, string> = {
+  hotel_nightly_cap: 'Hotel Nightly Cap',
+  meal_per_person: 'Meal Per-Person Limit',
+  weekend_spend: 'Weekend Spend',
+  alcohol: 'Alcohol',
+  receipt_required: 'Receipt Required Above'
+};
+
+export const DEFAULT_POLICY_SEVERITY: Record<PolicyRuleType, PolicySeverity> = {
+  hotel_nightly_cap: 'warning',
+  meal_per_person: 'warning',
+  weekend_spend: 'info',
+  alcohol: 'critical',
+  receipt_required: 'warning'
+};
+
+// GCC weekend since 2022
+export const DEFAULT_WEEKEND_DAYS = [6, 0];
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ALCOHOL = /\b(beer|wine|whisk(?:e)?y|vodka|gin|rum|tequila|champagne|prosecco|cocktails?|liquor|spirits|alcohol|lager|cider|sake|bourbon|brandy|cognac)\b/i;
+
+const isMeal = (e: Pick<Expense, 'category'>) => /meal|dining|food|restaurant/i.test(e.category || '');
+
+const matchesCategories = (rule: PolicyRule, e: Pick<Expense, 'category'>) =>
+  !rule.categories?.length || rule.categories.some(c => c.toLowerCase() === (e.category || '').toLowerCase());
+
+const sameCity = (a?: string, b?: string) => !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const money = (ctx: PolicyContext, value: number) => `${ctx.reportingCurrency} ${value.toFixed(2)}`;
+
+// Reporting-currency amount, or the document's own when it has no rate
+const spend = (ctx: PolicyContext, value: number | null, exp: Expense) =>
+  value === null ? `${exp.currency} ${Math.abs(exp.amount).toFixed(2)}` : money(ctx, value);
+
+const violation = (rule: PolicyRule, message: string): PolicyViolation => ({
+  rule_id: rule.id,
+  rule_name: rule.name || POLICY_RULE_LABELS[rule.type],
+  type: rule.type,
+  severity: rule.severity,
+  message,
+  detected_at: new Date().toISOString()
+});
+
+// An amount limit is not waived through when the spend cannot be put in the reporting currency
+const unconverted = (rule: PolicyRule, ctx: PolicyContext, record: Pick<Expense, 'currency' | 'date'>) =>
+  violation(rule, `No ${record.currency} to ${ctx.reportingCurrency} exchange rate for ${(record.date || '').slice(0, 7)}; the limit could not be checked`);
+
+const stayNights = (log: TravelLog) => {
+  if (log.end_date && log.end_date > log.start_date) return Math.round(daysBetween(log.start_date, log.end_date));
+  return log.days_spent || 0;
+};
+
+/**
+ * The stay a hotel bill belongs to: its linked travel log, else an accommodation log covering
+ * the bill date. Without a log the folio's own room nights (lodging line quantities) are used.
+ */
+const resolveStay = (exp: Expense, logs: TravelLog[] = []): { city?: string; nights: number } => {
+  const log = logs.find(l => l.id === exp.travel_log_id)
+    || logs.find(l => l.travel_type === 'accommodation' && l.start_date <= exp.date && exp.date <= (l.end_date || l.start_date));
+  if (log) return { city: log.destination_city, nights: stayNights(log) };
+  // Room charge and per-night fees share the same quantity, so the largest one is the night count
+  const roomNights = (exp.items || [])
+    .filter(i => !i.category || isLodging({ category: i.category }))
+    .reduce((acc, i) => Math.max(acc, i.quantity || 0), 0);
+  return { nights: roomNights };
+};
+
+const hotelCapViolation = (rule: PolicyRule, ctx: PolicyContext, total: number, nights: number, city?: string) => {
+  if (!rule.amount || nights <= 0) return null;
+  if (rule.city && !sameCity(rule.city, city)) return null;
+  const perNight = total / nights;
+  if (perNight <= rule.amount) return null;
+  return violation(rule, `${money(ctx, perNight)} per night over ${nights} night${nights === 1 ? '' : 's'}${city ? ` in ${city}` : ''} exceeds the ${money(ctx, rule.amount)} cap`);
+};
+
+const evaluateRule = (rule: PolicyRule, exp: Expense, ctx: PolicyContext): PolicyViolation | null => {
+  const value = ctx.convert(Math.abs(exp.amount), exp);
+
+  switch (rule.type) {
+    case 'hotel_nightly_cap': {
+      if (!isLodging(exp)) return null;
+      const stay = resolveStay(exp, ctx.travelLogs);
+      if (value === null) return rule.amount && stay.nights > 0 ? unconverted(rule, ctx, exp) : null;
+      return hotelCapViolation(rule, ctx, value, stay.nights, stay.city);
+    }
+    case 'meal_per_person': {
+      if (!rule.amount || (!rule.categories?.length && !isMeal(exp))) return null;
+      if (value === null) return unconverted(rule, ctx, exp);
+      const people = exp.attendees && exp.attendees > 0 ? exp.attendees : 1;
+      const perHead = value / people;
+      if (perHead <= rule.amount) return null;
+      return violation(rule, `${money(ctx, perHead)} per person (${people} attendee${people === 1 ? '' : 's'}) exceeds the ${money(ctx, rule.amount)} limit`);
+    }
+    case 'weekend_spend': {
+      const day = new Date(`${exp.date}T00:00:00Z`).getUTCDay();
+      if (isNaN(day) || !(rule.weekend_days || DEFAULT_WEEKEND_DAYS).includes(day)) return null;
+      if (rule.amount) {
+        if (value === null) return unconverted(rule, ctx, exp);
+        if (value <= rule.amount) return null;
+      }
+      return violation(rule, `${spend(ctx, value, exp)} spent on a ${WEEKDAY_NAMES[day]}`);
+    }
+    case 'alcohol': {
+      const lines = (exp.items || []).filter(i => ALCOHOL.test(i.description)).map(i => i.description);
+      if (lines.length === 0 && !ALCOHOL.test(`${exp.merchant} ${exp.notes || ''}`)) return null;
+      return violation(rule, lines.length > 0 ? `Alcohol on the bill: ${lines.join(', ')}` : `Merchant or notes indicate alcohol (${exp.merchant})`);
+    }
+    case 'receipt_required': {
+      if (!isAnchor(exp)) return null;
+      if (rule.amount && value === null) return unconverted(rule, ctx, exp);
+      if (value !== null && value <= (rule.amount || 0)) return null;
+      return violation(rule, `${spend(ctx, value, exp)} statement charge needs a receipt (required above ${money(ctx, rule.amount || 0)})`);
+    }
+    default:
+      return null;
+  }
+};
+
+export const evaluateExpensePolicy = (exp: Expense, rules: PolicyRule[] = [], ctx: PolicyContext): PolicyViolation[] => {
+  if (isCredit(exp)) return [];
+  return rules
+    .filter(rule => rule.enabled && matchesCategories(rule, exp))
+    .map(rule => evaluateRule(rule, exp, ctx))
+    .filter((v): v is PolicyViolation => v !== null);
+};
+
+/**
+ * A hotel stay is checked as a whole: every lodging bill linked to it (or dated inside it) is
+ * summed and spread over the nights of the stay.
+ */
+export const evaluateTravelLogPolicy = (log: TravelLog, rules: PolicyRule[] = [], ctx: PolicyContext): PolicyViolation[] => {
+  if (log.travel_type !== 'accommodation') return [];
+  const bills = (ctx.expenses || []).filter(e => !isCredit(e) && isLodging(e) && (
+    (log.id && e.travel_log_id === log.id) ||
+    (!e.travel_log_id && e.user_id === log.user_id && log.start_date <= e.date && e.date <= (log.end_date || log.start_date))
+  ));
+  if (bills.length === 0) return [];
+  const amounts = bills.map(e => ctx.convert(Math.abs(e.amount), e));
+  const missing = bills.find((_, i) => amounts[i] === null);
+  const total = amounts.reduce<number>((acc, a) => acc + (a ?? 0), 0);
+
+  return rules
+    .filter(rule => rule.enabled && rule.type === 'hotel_nightly_cap')
+    .map(rule => missing
+      ? (rule.amount && stayNights(log) > 0 && (!rule.city || sameCity(rule.city, log.destination_city)) ? unconverted(rule, ctx, missing) : null)
+      : hotelCapViolation(rule, ctx, total, stayNights(log), log.destination_city))
+    .filter((v): v is PolicyViolation => v !== null);
+};
+
+/**
+ * Violations still needing attention. Info-level findings never block; a receipt-required
+ * finding closes once the charge has been matched to proof.
+ */
+export const openViolations = (record: Pick<Expense, 'policy_violations' | 'reconciledId' | 'proof_metadata'>) =>
+  (record.policy_violations || []).filter(v =>
+    !v.justification &&
+    v.severity !== 'info' &&
+    !(v.type === 'receipt_required' && (record.reconciledId || record.proof_metadata))
+  );
+
+export const justifyViolations = (violations: PolicyViolation[] = [], justification: string, by: string): PolicyViolation[] => {
+  const at = new Date().toISOString();
+  return violations.map(v => v.justification ? v : { ...v, justification, justified_by: by, justified_at: at });
+};
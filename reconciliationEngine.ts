@@ -0,0 +1,630 @@
+import { Expense, MerchantAlias, ReconciliationOverride } from './types';
+
+/**
+ * RECONCILIATION ENGINE
+ * Deterministic ANCHOR (Bank/Card) to PROOF (Receipt/Upload) matcher shared by the
+ * server (/api/reconcile) and the UI (Reconciler, Dashboard, TravelTracker).
+ * Scores every candidate pair, then solves the assignment globally so each
+ * anchor and each proof is used at most once. Leftovers are then tried as
+ * groups (N anchors vs. 1 proof, or 1 anchor vs. N proofs) whose totals reconcile.
+ * Statement credits (refunds, reversals, chargebacks) never need a receipt: they are
+ * netted against their original charge before matching starts.
+ */
+
+export interface EngineOptions {
+  rates?: Record<string, number>; // USD-bridged rates (same shape as ExchangeRates.rates)
+  aliases?: MerchantAlias[];      // Merchant alias registry (canonical merchant <- descriptors/regex)
+  overrides?: ReconciliationOverride[]; // Manual match / unmatch / no-receipt decisions (applied first)
+  dateWindowDays?: number;
+  lodgingWindowDays?: number;
+  minScore?: number;          // Below this a pair is not a candidate at all
+  autoAcceptScore?: number;   // At or above this (and unambiguous) a pair is auto-matched
+  ambiguityMargin?: number;   // Required lead over the nearest competing candidate
+  reversalWindowDays?: number; // How long after a charge a refund may still net against it
+}
+
+export interface EngineMatch {
+  anchorId: string;
+  proofId: string;
+  score: number;
+  reasons: string[];
+  anchorIds?: string[]; // Set for group matches (e.g. hotel deposit + final charge)
+  proofIds?: string[];  // Set when one anchor is linked to several proofs
+  manual?: boolean;     // Created from a ReconciliationOverride rather than scored
+  overrideId?: string;
+}
+
+export interface EngineResult {
+  matched: EngineMatch[];
+  ambiguous: Array<{ anchorId: string; candidates: EngineMatch[] }>;
+  unmatchedAnchors: string[];
+  unmatchedProofs: string[];
+  exemptAnchors: string[]; // Marked "no receipt expected"
+  reversals: EngineReversal[];
+  reversedAnchors: string[];  // Fully reversed charges (no receipt needed)
+  unlinkedCredits: string[];  // Credits whose original charge is not in the pool
+}
+
+export interface EngineReversal {
+  creditId: string;
+  debitId: string;
+  amount: number;   // Credit value expressed in the original charge's currency
+  full: boolean;    // True once all credits on the charge cover its full amount
+  reasons: string[];
+}
+
+const DEFAULTS: Required<Omit<EngineOptions, 'rates' | 'aliases' | 'overrides'>> = {
+  dateWindowDays: 7,
+  lodgingWindowDays: 14,
+  minScore: 50,
+  autoAcceptScore: 65,
+  ambiguityMargin: 10,
+  reversalWindowDays: 120
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const GROUP_MAX_SIZE = 3;       // Largest side of a split-payment group
+const GROUP_POOL_SIZE = 8;      // Nearest candidates considered per group search
+
+// --- HELPERS ---
+export const isAnchor = (e: Pick<Expense, 'source'>) => {
+  const src = String(e.source || '').toLowerCase().trim();
+  return src === 'bank_statement' || src === 'credit_card_statement';
+};
+
+export const isLodging = (e: Pick<Expense, 'category'>) => {
+  const cat = (e.category || '').toLowerCase();
+  return cat.includes('lodging') || cat.includes('hotel') || cat.includes('accommodation');
+};
+
+const MANDATORY_TRAVEL_KEYWORDS = ['travel', 'hotel', 'flight', 'airline', 'stay', 'flydubai', 'ibis', 'accommodation'];
+
+// Travel spend always needs proof and can carry extra approval steps
+export const isMandatoryTravel = (e: Pick<Expense, 'merchant' | 'category'>) => {
+  const merc = (e.merchant || '').toLowerCase();
+  const cat = (e.category || '').toLowerCase();
+  return MANDATORY_TRAVEL_KEYWORDS.some(k => merc.includes(k) || cat.includes(k));
+};
+
+export const daysBetween = (a: string, b: string) => {
+  const diff = Math.abs(new Date(a).getTime() - new Date(b).getTime());
+  return isNaN(diff) ? Infinity : diff / DAY_MS;
+};
+
+const CREDIT_TYPES = ['credit', 'refund', 'reversal', 'chargeback'];
+
+/**
+ * True for statement lines that move money back to the card/account.
+ * Legacy imports stored credits as negative amounts, so those count too.
+ */
+export const isCredit = (e: Pick<Expense, 'transaction_type' | 'amount'>) =>
+  CREDIT_TYPES.includes(String(e.transaction_type || '').toLowerCase()) || e.amount < 0;
+
+const lastFour = (digits?: string) => (digits || '').replace(/\D/g, '').slice(-4);
+
+const toUSD = (amount: number, currency: string, rates: Record<string, number>) => {
+  const code = (currency || 'USD').toUpperCase();
+  if (code === 'USD') return amount;
+  const rate = rates[code];
+  return rate ? amount / rate : null;
+};
+
+const convertAmount = (amount: number, from: string, to: string, rates: Record<string, number>) => {
+  if ((from || '').toUpperCase() === (to || '').toUpperCase()) return amount;
+  const usd = toUSD(amount, from, rates);
+  const unit = toUSD(1, to, rates);
+  return usd === null || !unit ? null : usd / unit;
+};
+
+const normalizeMerchant = (m: string) => (m || '').toLowerCase().replace(/[^a-z0-9& ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Equivalences the auditor used to hard-code; seeded into the registry on first start
+export const DEFAULT_MERCHANT_ALIASES: Array<Pick<MerchantAlias, 'canonical_name' | 'descriptors' | 'patterns'>> = [
+  { canonical_name: 'Etisalat (e&)', descriptors: ['e&', 'etisalat'], patterns: [] },
+  { canonical_name: 'RTA (Dubai Metro / Hala Taxi)', descriptors: ['road & transport', 'dubai metro', 'rta metro', 'hala taxi', 'careem hala'], patterns: ['\\brta\\b'] },
+  { canonical_name: 'Ibis Deira', descriptors: ['hotel ibis deira city', 'ibis deira creekside'], patterns: [] }
+];
+
+export const MAX_ALIAS_PATTERN_LENGTH = 100;
+
+// Quantified group that is itself quantified, e.g. (a+)+ or (\w*)*: catastrophic backtracking
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)[+*{]/;
+
+/**
+ * Compiles an alias pattern, or null when it is too long, does not compile or nests quantifiers.
+ * Patterns are written by admins but run on every statement line, so they are kept cheap.
+ */
+export const compileAliasPattern = (pattern: string): RegExp | null => {
+  if (!pattern || pattern.length > MAX_ALIAS_PATTERN_LENGTH || NESTED_QUANTIFIER.test(pattern)) return null;
+  try { return new RegExp(pattern, 'i'); } catch { return null; }
+};
+
+/**
+ * Resolves a raw merchant or statement descriptor to its canonical name using the alias registry.
+ * Descriptors match whole words ("rta" is not found in "cartage"); patterns are case-insensitive
+ * regular expressions, skipped when compileAliasPattern rejects them.
+ */
+export const resolveMerchant = (merchant: string, aliases: MerchantAlias[] = []): string | null => {
+  const norm = normalizeMerchant(merchant);
+  if (!norm) return null;
+  const padded = ` ${norm} `;
+
+  const hit = aliases.find(alias =>
+    normalizeMerchant(alias.canonical_name) === norm ||
+    (alias.descriptors || []).some(d => {
+      const nd = normalizeMerchant(d);
+      return nd.length > 0 && padded.includes(` ${nd} `);
+    }) ||
+    (alias.patterns || []).some(p => compileAliasPattern(p)?.test(merchant) || false)
+  );
+  return hit ? hit.canonical_name : null;
+};
+
+/**
+ * Returns 0..1 describing how likely two merchant labels refer to the same business.
+ */
+export const merchantSimilarity = (a: string, b: string, aliases: MerchantAlias[] = []): number => {
+  const canonA = resolveMerchant(a, aliases);
+  const canonB = resolveMerchant(b, aliases);
+  if (canonA && canonA === canonB) return 0.9;
+
+  const na = normalizeMerchant(canonA || a);
+  const nb = normalizeMerchant(canonB || b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+  if (na.includes(nb) || nb.includes(na)) return 0.85;
+
+  const tokensA = new Set(na.split(' ').filter(t => t.length > 2));
+  const tokensB = new Set(nb.split(' ').filter(t => t.length > 2));
+  const shared = Array.from(tokensA).filter(t => tokensB.has(t)).length;
+  const union = new Set([...Array.from(tokensA), ...Array.from(tokensB)]).size;
+  const jaccard = union > 0 ? shared / union : 0;
+
+  // Legacy 4-char prefix heuristic (e.g. "FLYD" in "FLYDUBAI DXB")
+  const prefixHit = na.replace(/ /g, '').startsWith(nb.replace(/ /g, '').substring(0, 4)) ||
+    nb.replace(/ /g, '').startsWith(na.replace(/ /g, '').substring(0, 4));
+
+  return Math.max(jaccard, prefixHit ? 0.6 : 0);
+};
+
+/**
+ * Scores a single ANCHOR/PROOF pair out of 100.
+ * amount (40) + date (25) + merchant (25) + card digits (10).
+ * Returns null when the pair violates a hard constraint.
+ */
+export const scorePair = (anchor: Expense, proof: Expense, options: EngineOptions = {}): EngineMatch | null => {
+  const opts = { ...DEFAULTS, ...options };
+  if (!anchor.id || !proof.id || anchor.id === proof.id || isAnchor(proof)) return null;
+
+  const reasons: string[] = [];
+  let score = 0;
+
+  // 1. AMOUNT (same currency or FX-converted)
+  const sameCurrency = (anchor.currency || '').toUpperCase() === (proof.currency || '').toUpperCase();
+  if (sameCurrency) {
+    const diff = Math.abs(anchor.amount - proof.amount);
+    const ratio = anchor.amount ? diff / Math.abs(anchor.amount) : diff;
+    if (diff < 0.10) { score += 40; reasons.push('Exact amount'); }
+    else if (ratio <= 0.01) { score += 30; reasons.push('Amount within 1%'); }
+    else return null;
+  } else {
+    const aUSD = toUSD(anchor.amount, anchor.currency, opts.rates || {});
+    const pUSD = toUSD(proof.amount, proof.currency, opts.rates || {});
+    if (aUSD === null || pUSD === null || !aUSD) return null;
+    const ratio = Math.abs(aUSD - pUSD) / Math.abs(aUSD);
+    if (ratio <= 0.02) { score += 35; reasons.push(`FX amount within 2% (${proof.currency}→${anchor.currency})`); }
+    else if (ratio <= 0.05) { score += 25; reasons.push(`FX amount within 5% (${proof.currency}→${anchor.currency})`); }
+    else return null;
+  }
+
+  // 2. DATE WINDOW (Hotels settle later than check-in)
+  const window = isLodging(anchor) || isLodging(proof) ? opts.lodgingWindowDays : opts.dateWindowDays;
+  const diffDays = daysBetween(anchor.date, proof.date);
+  if (diffDays > window) return null;
+  score += Math.round(25 * (1 - diffDays / (window + 1)));
+  reasons.push(diffDays < 1 ? 'Same day' : `${Math.round(diffDays)}-day gap`);
+
+  // 3. MERCHANT
+  const similarity = merchantSimilarity(anchor.merchant, proof.merchant, opts.aliases);
+  score += Math.round(25 * similarity);
+  if (similarity >= 0.85) reasons.push('Merchant match');
+  else if (similarity > 0) reasons.push('Fuzzy merchant match');
+
+  // 4. CARD DIGITS (a conflict is disqualifying)
+  const aDigits = lastFour(anchor.card_digits);
+  const pDigits = lastFour(proof.card_digits);
+  if (aDigits && pDigits) {
+    if (aDigits !== pDigits) return null;
+    score += 10;
+    reasons.push(`Card •••• ${aDigits}`);
+  }
+
+  if (score < opts.minScore) return null;
+  return { anchorId: anchor.id, proofId: proof.id, score, reasons };
+};
+
+/**
+ * Scores a group of anchors against a group of proofs out of 100 (same weights as scorePair,
+ * minus a small complexity penalty). Totals must reconcile within tolerance, every item must
+ * share a merchant with the other side and all dates must fall in one window.
+ */
+export const scoreGroup = (anchors: Expense[], proofs: Expense[], options: EngineOptions = {}): EngineMatch | null => {
+  const opts = { ...DEFAULTS, ...options };
+  if (anchors.length === 0 || proofs.length === 0 || proofs.some(isAnchor)) return null;
+  const reasons: string[] = [];
+  let score = -5 * (anchors.length + proofs.length - 2);
+
+  // 1. TOTALS (in USD bridge unless everything shares one currency)
+  const currencies = new Set([...anchors, ...proofs].map(e => (e.currency || '').toUpperCase()));
+  const total = (items: Expense[]) => currencies.size === 1
+    ? items.reduce((acc, e) => acc + e.amount, 0)
+    : items.reduce((acc, e) => {
+      const usd = toUSD(e.amount, e.currency, opts.rates || {});
+      return acc === null || usd === null ? null : acc + usd;
+    }, 0 as number | null);
+  const aTotal = total(anchors);
+  const pTotal = total(proofs);
+  if (aTotal === null || pTotal === null || !aTotal) return null;
+  const diff = Math.abs(aTotal - pTotal);
+  const ratio = diff / Math.abs(aTotal);
+  if (currencies.size === 1 && diff < 0.10) { score += 40; reasons.push('Group total exact'); }
+  else if (ratio <= 0.01) { score += 30; reasons.push('Group total within 1%'); }
+  else if (currencies.size > 1 && ratio <= 0.02) { score += 30; reasons.push('FX group total within 2%'); }
+  else return null;
+
+  // 2. DATE WINDOW (whole group)
+  const all = [...anchors, ...proofs];
+  const window = all.some(isLodging) ? opts.lodgingWindowDays : opts.dateWindowDays;
+  const times = all.map(e => new Date(e.date).getTime());
+  if (times.some(isNaN)) return null;
+  const spanDays = (Math.max(...times) - Math.min(...times)) / DAY_MS;
+  if (spanDays > window) return null;
+  score += Math.round(25 * (1 - spanDays / (window + 1)));
+  reasons.push(`${Math.round(spanDays)}-day span`);
+
+  // 3. MERCHANT (every item must pair with something on the other side)
+  const best = (e: Expense, others: Expense[]) => Math.max(...others.map(o => merchantSimilarity(e.merchant, o.merchant, opts.aliases)));
+  const sims = [...anchors.map(a => best(a, proofs)), ...proofs.map(p => best(p, anchors))];
+  if (Math.min(...sims) < 0.6) return null;
+  score += Math.round(25 * (sims.reduce((acc, v) => acc + v, 0) / sims.length));
+  reasons.push('Merchant match');
+
+  // 4. CARD DIGITS (no conflicts across the group)
+  const digits = new Set(all.map(e => lastFour(e.card_digits)).filter(Boolean));
+  if (digits.size > 1) return null;
+  if (digits.size === 1) { score += 10; reasons.push(`Card •••• ${Array.from(digits)[0]}`); }
+
+  reasons.unshift(`Group ${anchors.length}↔${proofs.length}`);
+  if (score < opts.minScore) return null;
+  return {
+    anchorId: anchors[0].id,
+    proofId: proofs[0].id,
+    anchorIds: anchors.map(a => a.id),
+    proofIds: proofs.map(p => p.id),
+    score,
+    reasons
+  };
+};
+
+const combinations = <T,>(items: T[], size: number): T[][] => {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) => combinations(items.slice(i + 1), size - 1).map(rest => [item, ...rest]));
+};
+
+/**
+ * Greedy search for split payments among leftovers: first one anchor vs. several proofs
+ * (one charge, several receipts), then several anchors vs. one proof (deposit + final charge).
+ */
+const findGroups = (anchors: Expense[], proofs: Expense[], opts: EngineOptions & typeof DEFAULTS, rejected: Set<string>): EngineMatch[] => {
+  const groups: EngineMatch[] = [];
+  const usedA = new Set<string>();
+  const usedP = new Set<string>();
+
+  const nearest = (target: Expense, pool: Expense[]) => pool
+    .filter(x => merchantSimilarity(target.merchant, x.merchant, opts.aliases) >= 0.6 && daysBetween(target.date, x.date) <= opts.lodgingWindowDays)
+    .sort((x, y) => daysBetween(target.date, x.date) - daysBetween(target.date, y.date))
+    .slice(0, GROUP_POOL_SIZE);
+
+  const searchFrom = (one: Expense, pool: Expense[], oneIsAnchor: boolean) => {
+    let winner: EngineMatch | null = null;
+    for (let size = 2; size <= GROUP_MAX_SIZE; size++) {
+      combinations(pool, size).forEach(combo => {
+        if (combo.some(x => rejected.has(oneIsAnchor ? `${one.id}::${x.id}` : `${x.id}::${one.id}`))) return;
+        const match = oneIsAnchor ? scoreGroup([one], combo, opts) : scoreGroup(combo, [one], opts);
+        if (match && match.score >= opts.autoAcceptScore && (!winner || match.score > winner.score)) winner = match;
+      });
+    }
+    return winner as EngineMatch | null;
+  };
+
+  anchors.forEach(a => {
+    if (usedA.has(a.id)) return;
+    const match = searchFrom(a, nearest(a, proofs.filter(p => !usedP.has(p.id))), true);
+    if (!match) return;
+    groups.push(match);
+    usedA.add(a.id);
+    match.proofIds!.forEach(id => usedP.add(id));
+  });
+
+  proofs.forEach(p => {
+    if (usedP.has(p.id)) return;
+    const match = searchFrom(p, nearest(p, anchors.filter(a => !usedA.has(a.id))), false);
+    if (!match) return;
+    groups.push(match);
+    usedP.add(p.id);
+    match.anchorIds!.forEach(id => usedA.add(id));
+  });
+
+  return groups;
+};
+
+/**
+ * All anchor / proof ids covered by a match (single pair or group).
+ */
+export const matchAnchorIds = (m: EngineMatch) => m.anchorIds || [m.anchorId];
+export const matchProofIds = (m: EngineMatch) => m.proofIds || [m.proofId];
+
+/**
+ * Hungarian (Kuhn-Munkres) solver maximising the total score.
+ * weights[i][j] is the score for row i / column j (0 = not allowed).
+ * Returns, for each row, the assigned column or -1.
+ */
+const solveAssignment = (weights: number[][], cols: number): number[] => {
+  const n = weights.length;
+  if (n === 0) return [];
+  // Pad with one dummy column per row so every row can stay unassigned at cost 0
+  const m = cols + n;
+  const cost = (i: number, j: number) => (j < cols ? -(weights[i][j] || 0) : 0);
+
+  const INF = Number.MAX_SAFE_INTEGER;
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(m + 1).fill(0);
+  const p = new Array(m + 1).fill(0);
+  const way = new Array(m + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(m + 1).fill(INF);
+    const used = new Array(m + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = INF;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const cur = cost(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) { minv[j] = cur; way[j] = j0; }
+        if (minv[j] < delta) { delta = minv[j]; j1 = j; }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) { u[p[j]] += delta; v[j] -= delta; }
+        else minv[j] -= delta;
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+
+  const assignment = new Array(n).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    if (p[j] > 0 && weights[p[j] - 1][j - 1] > 0) assignment[p[j] - 1] = j - 1;
+  }
+  return assignment;
+};
+
+/**
+ * Splits overrides into locked manual links, exempt anchors and rejected pairs.
+ * Only overrides whose anchor (and proofs) are present in the current pools apply.
+ */
+export const resolveOverrides = (anchors: Expense[], proofs: Expense[], overrides: ReconciliationOverride[]) => {
+  const anchorIds = new Set(anchors.map(a => a.id));
+  const proofIds = new Set(proofs.map(p => p.id));
+  const manual: EngineMatch[] = [];
+  const exempt = new Set<string>();
+  const rejected = new Set<string>();
+
+  // Oldest first so that the latest decision for an anchor wins
+  [...overrides].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || '')).forEach(o => {
+    if (!anchorIds.has(o.anchor_id)) return;
+
+    if (o.type === 'unmatch') {
+      (o.proof_ids || []).forEach(pid => rejected.add(`${o.anchor_id}::${pid}`));
+    } else if (o.type === 'no_receipt') {
+      exempt.add(o.anchor_id);
+      const idx = manual.findIndex(m => m.anchorId === o.anchor_id);
+      if (idx > -1) manual.splice(idx, 1);
+    } else if (o.type === 'match') {
+      const linked = (o.proof_ids || []).filter(pid =>
+        proofIds.has(pid) && !manual.some(m => m.anchorId !== o.anchor_id && (m.proofIds || []).includes(pid))
+      );
+      if (linked.length === 0) return;
+      exempt.delete(o.anchor_id);
+      const idx = manual.findIndex(m => m.anchorId === o.anchor_id);
+      if (idx > -1) manual.splice(idx, 1);
+      manual.push({
+        anchorId: o.anchor_id,
+        proofId: linked[0],
+        proofIds: linked,
+        score: 100,
+        reasons: [`Manual match by ${o.created_by}`],
+        manual: true,
+        overrideId: o.id
+      });
+    }
+  });
+
+  return { manual, exempt, rejected };
+};
+
+/**
+ * Nets statement credits against the charges they reverse. A credit links to the charge whose
+ * reference it quotes, otherwise to the closest earlier charge from the same merchant (and card)
+ * that still has enough un-refunded value. Several partial refunds may net against one charge.
+ */
+export const findReversals = (anchors: Expense[], options: EngineOptions = {}) => {
+  const opts = { ...DEFAULTS, ...options };
+  const rates = opts.rates || {};
+  const credits = anchors.filter(isCredit).sort((x, y) => new Date(x.date).getTime() - new Date(y.date).getTime());
+  const debits = anchors.filter(a => !isCredit(a));
+  const remaining = new Map(debits.map(d => [d.id, Math.abs(d.amount)]));
+  const reversals: EngineReversal[] = [];
+  const unlinkedCredits: string[] = [];
+
+  credits.forEach(credit => {
+    const ref = (credit.reversal_reference || '').trim().toLowerCase();
+    const cDigits = lastFour(credit.card_digits);
+
+    const candidates = debits.map(debit => {
+      const left = remaining.get(debit.id) || 0;
+      const value = convertAmount(Math.abs(credit.amount), credit.currency, debit.currency, rates);
+      if (value === null || left <= 0) return null;
+      const dDigits = lastFour(debit.card_digits);
+      if (cDigits && dDigits && cDigits !== dDigits) return null;
+
+      const refHit = !!ref && (debit.transaction_reference || '').trim().toLowerCase() === ref;
+      const lag = (new Date(credit.date).getTime() - new Date(debit.date).getTime()) / DAY_MS;
+      if (!refHit && (isNaN(lag) || lag < -1 || lag > opts.reversalWindowDays)) return null;
+      if (value - left > Math.max(0.10, left * 0.01)) return null;
+
+      const similarity = merchantSimilarity(credit.merchant, debit.merchant, opts.aliases);
+      if (!refHit && similarity < 0.6) return null;
+      return { debit, value, left, refHit, lag, similarity };
+    }).filter(Boolean) as Array<{ debit: Expense; value: number; left: number; refHit: boolean; lag: number; similarity: number }>;
+
+    // Quoted reference > exact remaining amount > merchant similarity > most recent charge
+    candidates.sort((x, y) =>
+      Number(y.refHit) - Number(x.refHit) ||
+      Number(Math.abs(y.value - y.left) < 0.10) - Number(Math.abs(x.value - x.left) < 0.10) ||
+      y.similarity - x.similarity ||
+      x.lag - y.lag
+    );
+    const best = candidates[0];
+    if (!best) {
+      unlinkedCredits.push(credit.id);
+      return;
+    }
+
+    const reasons = [best.refHit ? 'Reference match' : 'Merchant match', best.lag < 1 ? 'Same day' : `${Math.round(best.lag)}-day lag`];
+    remaining.set(best.debit.id, best.left - best.value);
+    reversals.push({ creditId: credit.id, debitId: best.debit.id, amount: best.value, full: false, reasons });
+  });
+
+  const reversedAnchors = debits
+    .filter(d => reversals.some(r => r.debitId === d.id) && (remaining.get(d.id) || 0) <= Math.max(0.10, Math.abs(d.amount) * 0.01))
+    .map(d => d.id);
+  reversals.forEach(r => { r.full = reversedAnchors.includes(r.debitId); });
+
+  return { reversals, reversedAnchors, unlinkedCredits };
+};
+
+/**
+ * Runs the full engine over explicit anchor and proof pools.
+ */
+export const runMatchingEngine = (allAnchors: Expense[], allProofs: Expense[], options: EngineOptions = {}): EngineResult => {
+  const opts = { ...DEFAULTS, ...options };
+
+  // 0. Manual overrides take precedence over any scoring
+  const { manual, exempt, rejected } = resolveOverrides(allAnchors, allProofs, opts.overrides || []);
+  const lockedProofs = new Set(manual.flatMap(m => m.proofIds || [m.proofId]));
+  const openAnchors = allAnchors.filter(a => !exempt.has(a.id) && !manual.some(m => m.anchorId === a.id));
+
+  // 0b. Refunds / reversals: credits and fully reversed charges need no receipt
+  const { reversals, reversedAnchors, unlinkedCredits } = findReversals(openAnchors, opts);
+  const anchors = openAnchors.filter(a => !isCredit(a) && !reversedAnchors.includes(a.id));
+  const proofs = allProofs.filter(p => !lockedProofs.has(p.id));
+
+  // 1. Candidate generation
+  const candidates: EngineMatch[] = [];
+  anchors.forEach(a => proofs.forEach(p => {
+    if (rejected.has(`${a.id}::${p.id}`)) return;
+    const match = scorePair(a, p, opts);
+    if (match) candidates.push(match);
+  }));
+
+  // 2. Global assignment (only over items that have at least one candidate)
+  const rowIds = Array.from(new Set(candidates.map(c => c.anchorId)));
+  const colIds = Array.from(new Set(candidates.map(c => c.proofId)));
+  const rowIdx = new Map(rowIds.map((id, i) => [id, i]));
+  const colIdx = new Map(colIds.map((id, i) => [id, i]));
+  const weights = rowIds.map(() => new Array(colIds.length).fill(0));
+  candidates.forEach(c => { weights[rowIdx.get(c.anchorId)!][colIdx.get(c.proofId)!] = c.score; });
+
+  const assignment = solveAssignment(weights, colIds.length);
+
+  // 3. Confidence check: a strong pair with no close competitor on either side is auto-accepted
+  const matched: EngineMatch[] = [];
+  const ambiguous: EngineResult['ambiguous'] = [];
+  const settledAnchors = new Set<string>();
+  const settledProofs = new Set<string>();
+
+  rowIds.forEach((anchorId, i) => {
+    const anchorCandidates = candidates.filter(c => c.anchorId === anchorId).sort((x, y) => y.score - x.score);
+    const col = assignment[i];
+    if (col < 0) {
+      ambiguous.push({ anchorId, candidates: anchorCandidates });
+      return;
+    }
+    const pick = anchorCandidates.find(c => c.proofId === colIds[col])!;
+    const competitor = Math.max(
+      0,
+      ...anchorCandidates.filter(c => c !== pick).map(c => c.score),
+      ...candidates.filter(c => c.proofId === pick.proofId && c.anchorId !== anchorId).map(c => c.score)
+    );
+
+    if (pick.score >= opts.autoAcceptScore && pick.score - competitor >= opts.ambiguityMargin) {
+      matched.push(pick);
+      settledAnchors.add(anchorId);
+      settledProofs.add(pick.proofId);
+    } else {
+      ambiguous.push({ anchorId, candidates: anchorCandidates });
+    }
+  });
+
+  // Drop candidates that point at proofs already claimed by a confident match
+  const openAmbiguous = ambiguous
+    .map(a => ({ ...a, candidates: a.candidates.filter(c => !settledProofs.has(c.proofId)) }))
+    .filter(a => a.candidates.length > 0);
+  const ambiguousIds = new Set(openAmbiguous.map(a => a.anchorId));
+
+  // 4. Group pass over leftovers that are not contested by an ambiguous pair
+  const contestedProofs = new Set(openAmbiguous.flatMap(a => a.candidates.map(c => c.proofId)));
+  const groups = findGroups(
+    anchors.filter(a => !settledAnchors.has(a.id) && !ambiguousIds.has(a.id)),
+    proofs.filter(p => !settledProofs.has(p.id) && !contestedProofs.has(p.id)),
+    opts,
+    rejected
+  );
+  groups.forEach(g => {
+    matchAnchorIds(g).forEach(id => settledAnchors.add(id));
+    matchProofIds(g).forEach(id => settledProofs.add(id));
+  });
+
+  return {
+    matched: [...manual, ...matched, ...groups],
+    ambiguous: openAmbiguous,
+    unmatchedAnchors: anchors.map(a => a.id).filter(id => !settledAnchors.has(id) && !ambiguousIds.has(id)),
+    unmatchedProofs: proofs.map(p => p.id).filter(id => !settledProofs.has(id)),
+    exemptAnchors: Array.from(exempt),
+    reversals,
+    reversedAnchors,
+    unlinkedCredits
+  };
+};
+
+/**
+ * Convenience wrapper for the UI: splits a mixed ledger into anchors/proofs first.
+ */
+export const matchExpenses = (expenses: Expense[], options: EngineOptions = {}): EngineResult => {
+  return runMatchingEngine(expenses.filter(isAnchor), expenses.filter(e => !isAnchor(e)), options);
+};
+
+/**
+ * Human-readable one-liner for a scored pair (used as the match 'summary').
+ */
+export const describeMatch = (match: EngineMatch) => `${match.reasons.join(', ')} (score ${match.score})`;
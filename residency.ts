@@ -0,0 +1,254 @@
+import { TravelLog, Trip, HomeBase, PartialDayRule, ResidencySettings, ResidencyWindowType } from './types';
+
+/**
+ * TAX RESIDENCY
+ * Day-by-day location timeline for presence tests (UAE 183-day test, host-country exposure).
+ * Trip legs move the traveller between countries; hotel stays prove presence on the nights they
+ * cover. A day without any evidence is spent where the previous evidence left the traveller,
+ * which is the home country before the first movement. Border-crossing days follow the
+ * configured partial-day rule.
+ */
+
+export const DEFAULT_RESIDENCY_THRESHOLD = 183;
+
+export const DEFAULT_RESIDENCY_SETTINGS: ResidencySettings = {
+  home_country: 'United Arab Emirates',
+  window: 'calendar',
+  fiscal_start_month: 1,
+  partial_day_rule: 'any_presence',
+  threshold_days: DEFAULT_RESIDENCY_THRESHOLD
+};
+
+export const PARTIAL_DAY_RULE_LABELS: Record<PartialDayRule, string> = {
+  any_presence: 'Any presence counts (travel days count in every country touched)',
+  midnight: 'Midnight rule (travel days count where the traveller sleeps)',
+  exclude_travel_days: 'Travel days excluded (counted in no country)'
+};
+
+export const RESIDENCY_WINDOW_LABELS: Record<ResidencyWindowType, string> = {
+  calendar: 'Calendar Year',
+  fiscal: 'Fiscal Year',
+  rolling: 'Rolling 12 Months'
+};
+
+// Spellings the extractor produces for the same country
+const COUNTRY_ALIASES: Array<[RegExp, string]> = [
+  [/^(ae|uae|u\.a\.e\.?|emirates|united arab emirates|dubai|abu dhabi|sharjah)$/, 'United Arab Emirates'],
+  [/^(gb|uk|u\.k\.?|united kingdom|great britain|england|scotland|london)$/, 'United Kingdom'],
+  [/^(us|usa|u\.s\.a?\.?|united states|united states of america)$/, 'United States'],
+  [/^(sa|ksa|saudi|saudi arabia|kingdom of saudi arabia|riyadh|jeddah)$/, 'Saudi Arabia'],
+  [/^(om|oman|sultanate of oman|muscat)$/, 'Oman'],
+  [/^(qa|qatar|doha)$/, 'Qatar'],
+  [/^(bh|bahrain|manama)$/, 'Bahrain'],
+  [/^(kw|kuwait)$/, 'Kuwait'],
+  [/^(in|india)$/, 'India']
+];
+
+export const normalizeCountry = (raw?: string | null) => {
+  const value = (raw || '').trim();
+  if (!value) return '';
+  const key = value.toLowerCase();
+  const alias = COUNTRY_ALIASES.find(([pattern]) => pattern.test(key));
+  if (alias) return alias[1];
+  return value.replace(/\w\S*/g, w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase());
+};
+
+// --- HOME BASE ---
+
+// Profiles without a home base keep the original Dubai setup
+export const DEFAULT_HOME_BASE: HomeBase = {
+  country: 'United Arab Emirates',
+  cities: ['Dubai', 'Abu Dhabi', 'Sharjah'],
+  effective_from: '1970-01-01'
+};
+
+/**
+ * The base in effect on a date. A relocation only applies from its effective date, so trips
+ * made from the previous base keep it; dates before the first entry use the earliest one.
+ */
+export const homeBaseOn = (history: HomeBase[] | undefined, date?: string | null, fallback: HomeBase = DEFAULT_HOME_BASE): HomeBase => {
+  const sorted = (history || []).filter(b => b.country).sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  if (sorted.length === 0) return fallback;
+  const day = date || new Date().toISOString().slice(0, 10);
+  return [...sorted].reverse().find(b => b.effective_from <= day) || sorted[0];
+};
+
+export const isAtHomeBase = (country: string | null | undefined, city: string | null | undefined, base: HomeBase) => {
+  const home = normalizeCountry(base.country);
+  const place = (city || '').trim().toLowerCase();
+  return normalizeCountry(country) === home ||
+    normalizeCountry(city) === home ||
+    (!!place && base.cities.some(c => c.trim().toLowerCase() === place));
+};
+
+const locationOf = (country?: string | null, city?: string | null) => normalizeCountry(country) || normalizeCountry(city);
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export interface ResidencyWindow {
+  start: string;   // YYYY-MM-DD
+  end: string;     // YYYY-MM-DD, inclusive
+  label: string;
+}
+
+/**
+ * The 12-month window containing the reference date: its calendar year, the fiscal year that
+ * started in the configured month, or the 12 months ending on the reference date.
+ */
+export const residencyWindow = (type: ResidencyWindowType, reference: string, fiscalStartMonth: number = 1): ResidencyWindow => {
+  const [year, month] = reference.split('-').map(Number);
+  if (type === 'rolling') {
+    const start = new Date(Date.UTC(year - 1, month - 1, Number(reference.slice(8, 10)) + 1)).toISOString().slice(0, 10);
+    return { start, end: reference, label: `${start} – ${reference}` };
+  }
+  if (type === 'fiscal' && fiscalStartMonth > 1) {
+    const startYear = month >= fiscalStartMonth ? year : year - 1;
+    const start = `${startYear}-${pad(fiscalStartMonth)}-01`;
+    const end = shiftDate(`${startYear + 1}-${pad(fiscalStartMonth)}-01`, -1);
+    return { start, end, label: `FY ${startYear}/${String(startYear + 1).slice(2)}` };
+  }
+  return { start: `${year}-01-01`, end: `${year}-12-31`, label: `${year}` };
+};
+
+// --- TIMELINE ---
+
+interface Movement {
+  date: string;
+  from: string;
+  to: string;
+  log: TravelLog;
+}
+
+export interface ResidencyDay {
+  date: string;
+  countries: string[];        // Countries this day counts towards under the rule
+  location: string;           // Where the traveller ends the day
+  travel?: { from: string; to: string }[];
+  evidence: TravelLog[];      // Flights and stays that place the traveller on this day
+  inferred: boolean;          // No document for this day; carried over from the last evidence
+}
+
+/**
+ * Every leg of every trip is a movement; the trip carries the pairing the traveller confirmed.
+ * A completed trip made of hotel stays alone ends with the traveller going home on check-out.
+ */
+const toMovements = (trips: Trip[], logs: TravelLog[], home: string): Movement[] => {
+  const byId = new Map(logs.map(l => [l.id, l]));
+  return trips
+    .flatMap(t => {
+      const legs = t.legs.map(leg => ({ date: leg.date, from: locationOf(leg.from_country, leg.from_city), to: locationOf(leg.to_country, leg.to_city), log: byId.get(leg.log_id)! }));
+      const lastStop = t.stops[t.stops.length - 1];
+      if (t.legs.length > 0 || !t.end_date || !lastStop) return legs;
+      return [{ date: t.end_date, from: locationOf(lastStop.country, lastStop.city), to: home, log: byId.get(lastStop.hotel_log_ids[lastStop.hotel_log_ids.length - 1])! }];
+    })
+    .filter(m => m.to && m.log)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const staysOn = (logs: TravelLog[], date: string) => logs.filter(l =>
+  l.travel_type === 'accommodation' && l.start_date <= date && date < (l.end_date && l.end_date > l.start_date ? l.end_date : shiftDate(l.start_date, 1))
+);
+
+/**
+ * Reads the traveller's trips: legs move them, the trips' hotel stays place them. Logs are the
+ * documents the trips point at, used as evidence.
+ */
+export const buildResidencyTimeline = (
+  trips: Trip[],
+  logs: TravelLog[],
+  window: Pick<ResidencyWindow, 'start' | 'end'>,
+  settings: Pick<ResidencySettings, 'home_country' | 'partial_day_rule'>
+): ResidencyDay[] => {
+  const home = normalizeCountry(settings.home_country) || DEFAULT_RESIDENCY_SETTINGS.home_country;
+  const movements = toMovements(trips, logs, home);
+  const hotelIds = new Set(trips.flatMap(t => t.hotel_log_ids));
+  const hotels = logs.filter(l => hotelIds.has(l.id));
+
+  // Where the traveller stood when the window opened
+  const before = movements.filter(m => m.date < window.start);
+  const firstInside = movements.find(m => m.date >= window.start);
+  let location = before.length > 0 ? before[before.length - 1].to : (firstInside?.from || home);
+
+  const days: ResidencyDay[] = [];
+  for (let date = window.start; date <= window.end; date = shiftDate(date, 1)) {
+    const legs = movements.filter(m => m.date === date);
+    const stays = staysOn(hotels, date);
+
+    if (legs.length > 0) {
+      const start = legs[0].from || location;
+      const touched = Array.from(new Set([start, ...legs.map(l => l.to)]));
+      location = legs[legs.length - 1].to;
+      const countries = settings.partial_day_rule === 'any_presence' ? touched
+        : settings.partial_day_rule === 'midnight' ? [location]
+          : [];
+      days.push({
+        date,
+        countries,
+        location,
+        travel: legs.map((l, i) => ({ from: i === 0 ? start : legs[i - 1].to, to: l.to })),
+        evidence: [...legs.map(l => l.log), ...stays],
+        inferred: false
+      });
+      continue;
+    }
+
+    // A hotel night is direct proof of presence, even when the flight that got there is missing
+    const stayCountry = stays.map(s => locationOf(s.destination_country, s.destination_city)).find(Boolean);
+    if (stayCountry) location = stayCountry;
+    days.push({ date, countries: [location], location, evidence: stays, inferred: stays.length === 0 });
+  }
+  return days;
+};
+
+export interface CountryPresence {
+  country: string;
+  days: number;
+  travel_days: number;    // Of which border-crossing days
+  evidenced_days: number; // Backed by a flight or hotel document
+}
+
+export const countDaysByCountry = (timeline: ResidencyDay[]): CountryPresence[] => {
+  const byCountry: Record<string, CountryPresence> = {};
+  timeline.forEach(day => day.countries.forEach(country => {
+    const entry = byCountry[country] || (byCountry[country] = { country, days: 0, travel_days: 0, evidenced_days: 0 });
+    entry.days += 1;
+    if (day.travel) entry.travel_days += 1;
+    if (!day.inferred) entry.evidenced_days += 1;
+  }));
+  return Object.values(byCountry).sort((a, b) => b.days - a.days);
+};
+
+export interface PresencePeriod {
+  country: string;          // "Origin → Destination" on travel days
+  start: string;
+  end: string;
+  days: number;
+  travel: boolean;
+  evidence: TravelLog[];
+}
+
+/**
+ * Compresses the timeline into the schedule printed on the certificate: uninterrupted stays
+ * per country with every border-crossing day on its own line.
+ */
+export const presencePeriods = (timeline: ResidencyDay[]): PresencePeriod[] => {
+  const periods: PresencePeriod[] = [];
+  timeline.forEach(day => {
+    const country = day.travel ? day.travel.map(t => `${t.from || '?'} → ${t.to}`).join(', ') : day.location;
+    const last = periods[periods.length - 1];
+    if (!day.travel && last && !last.travel && last.country === country) {
+      last.end = day.date;
+      last.days += 1;
+      day.evidence.forEach(e => { if (!last.evidence.includes(e)) last.evidence.push(e); });
+      return;
+    }
+    periods.push({ country, start: day.date, end: day.date, days: 1, travel: !!day.travel, evidence: [...day.evidence] });
+  });
+  return periods;
+};
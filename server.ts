@@ -6,6 +6,15 @@ import { fileURLToPath } from 'url';
 import { genkit, z } from 'genkit';
 import { vertexAI, gemini20Flash } from '@genkit-ai/vertexai';
 import { logError } from './logger.js';
+import { runMatchingEngine, describeMatch, matchProofIds, compileAliasPattern, DEFAULT_MERCHANT_ALIASES } from './reconciliationEngine.js';
+import { mapExtractionResult, prepareTravelLog, classifyIncomingExpenses, isDuplicateTravelLog } from './extractionMapper.js';
+import type { ExtractionJob, ExtractionJobDocument, ExtractionDocumentStatus, ExtractionJobEvent, ExtractionEventType, Expense, TravelLog, BankMapping, PolicyRule, PolicyViolation } from './types.js';
+import { createBlobStore, isValidDocumentId } from './blobStore.js';
+import { evaluateExpensePolicy, evaluateTravelLogPolicy, PolicyContext } from './policyEngine.js';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { initializeApp as initializeAdminApp, cert, applicationDefault } from 'firebase-admin/app';
+import { getFirestore as getAdminFirestore, FieldValue } from 'firebase-admin/firestore';
+import { getAuth as getAdminAuth } from 'firebase-admin/auth';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -35,7 +44,9 @@ app.use((req, res, next) => {
 app.get('/', (req, res) => res.send('Genkit Vertex Server Running (Gemini 2.0 Flash)'));
 
 // --- RETRY UTILITY ---
-async function retryWithBackoff<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
+type RetryListener = (info: { attempt: number; maxRetries: number; delayMs: number; error: any }) => void;
+
+async function retryWithBackoff<T>(fn: () => Promise<T>, maxRetries = 3, onRetry?: RetryListener): Promise<T> {
     for (let i = 0; i < maxRetries; i++) {
         try {
             return await fn();
@@ -45,6 +56,7 @@ async function retryWithBackoff<T>(fn: () => Promise<T>, maxRetries = 3): Promis
                 // Wait 5s, then 20s, then 80s... (Exponential base 4)
                 const delay = Math.pow(4, i + 1) * 5000 + Math.random() * 2000;
                 console.warn(`[Retry] Quota hit. Retrying in ${Math.round(delay / 1000)}s... (Attempt ${i + 1}/${maxRetries})`);
+                onRetry?.({ attempt: i + 1, maxRetries, delayMs: delay, error });
                 await new Promise(resolve => setTimeout(resolve, delay));
                 continue;
             }
@@ -89,6 +101,45 @@ const ai = genkit({
     model: gemini20Flash,
 });
 
+// --- FIRESTORE (ADMIN) ---
+// Used by the extraction job queue to write results straight to the user's ledger
+const adminDb = getAdminFirestore(initializeAdminApp({
+    credential: credentials ? cert(credentials as any) : applicationDefault(),
+    projectId: process.env.VITE_FIREBASE_PROJECT_ID,
+    storageBucket: process.env.VITE_FIREBASE_STORAGE_BUCKET
+}));
+adminDb.settings({ ignoreUndefinedProperties: true });
+
+/**
+ * Job and document routes act for the signed-in user only. The Firebase ID token in the
+ * Authorization header names them (res.locals.userEmail); a user id in the body or query is ignored.
+ */
+async function requireUser(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const token = (req.header('Authorization') || '').match(/^Bearer (.+)$/)?.[1];
+    if (!token) return res.status(401).json({ error: 'Sign in required' });
+    try {
+        const decoded = await getAdminAuth().verifyIdToken(token);
+        if (!decoded.email) return res.status(403).json({ error: 'The session has no email address' });
+        res.locals.userEmail = decoded.email;
+        res.locals.userUid = decoded.uid;
+        next();
+    } catch (e: any) {
+        console.warn(`[Auth] Rejected ID token: ${e.code || e.message}`);
+        res.status(401).json({ error: 'Session expired, sign in again' });
+    }
+}
+
+// --- ORIGINAL DOCUMENTS ---
+const blobStore = createBlobStore();
+console.log(`[Blobs] Storing original documents in the ${blobStore.name} blob store`);
+
+// Iframes and links cannot send the ID token, so readers get a short-lived signed link instead.
+// Without DOCUMENT_LINK_SECRET the key is per process and links end with a restart.
+const DOCUMENT_LINK_TTL_MS = 15 * 60 * 1000;
+const documentLinkKey = process.env.DOCUMENT_LINK_SECRET || randomBytes(32).toString('hex');
+const signDocumentLink = (documentId: string, expires: number) =>
+    createHmac('sha256', documentLinkKey).update(`${documentId}.${expires}`).digest('hex');
+
 // --- HELPERS ---
 function toParts(content: string): any[] {
     const preview = content.substring(0, 100).replace(/\n/g, ' ');
@@ -129,28 +180,62 @@ const TravelLogSchema = z.object({
     origin_city: z.string().optional().describe("Origin City (for flights)"),
     origin_country: z.string().optional().describe("Origin Country (for flights)"),
     date: z.string().describe("Check-in or Departure Date (YYYY-MM-DD)"),
-    end_date: z.string().optional().describe("Check-out or Return Flight Date (YYYY-MM-DD)"),
+    end_date: z.string().optional().describe("Check-out Date, or Return Date of a round trip whose return is not listed as its own leg (YYYY-MM-DD)"),
+    flight_no: z.string().optional().describe("Flight Number of this leg, e.g. EK 29 (for flights)"),
     ref: z.string().optional().describe("PNR or Booking Ref"),
     guest: z.string().optional().describe("Guest Name")
 });
 
+const FieldProvenanceSchema = z.object({
+    conf: z.number().min(0).max(1).describe("Confidence 0-1 that this field was read correctly"),
+    snip: z.string().optional().describe("Exact source text the value was read from (max 60 chars)"),
+    page: z.number().optional().describe("1-based page number for multi-page documents"),
+    region: z.string().optional().describe("Where on the page, e.g. 'header', 'totals', 'line 12'")
+});
+
+const LineItemSchema = z.object({
+    desc: z.string().describe("Line description as printed"),
+    qty: z.number().default(1).describe("Quantity"),
+    price: z.number().describe("Unit price excluding tax"),
+    tax_rate: z.number().optional().describe("Tax/VAT rate in percent, if printed"),
+    tax: z.number().optional().describe("Tax/VAT amount for this line, if printed"),
+    cat: z.enum(['Transport', 'Meals', 'Lodging', 'Office', 'Utilities', 'Salary', 'Transfer', 'General']).optional()
+        .describe("Category of this line when it differs from the document (e.g. minibar on a hotel folio = Meals)")
+});
+
 const ExpenseRecordSchema = z.object({
     m: z.string().describe("Merchant Name"),
-    a: z.number().describe("Amount"),
+    a: z.number().describe("Amount (always positive, direction goes in 'dir')"),
     c: z.string().describe("Currency"),
     d: z.string().describe("Date YYYY-MM-DD"),
     cat: z.enum(['Transport', 'Meals', 'Lodging', 'Office', 'Utilities', 'Salary', 'Transfer', 'General']).describe("Category"),
     ver: z.boolean().default(false).describe("Always false for raw extraction"),
-    items: z.array(z.string()).optional().describe("Line items if visible (e.g. Room Charge, Coffee, etc.)"),
+    items: z.array(LineItemSchema).optional().describe("Line items if visible (e.g. Room Charge, Minibar, Coffee)"),
     tax_amount: z.number().optional().describe("Tax or VAT amount if visible"),
+    trn: z.string().optional().describe("Supplier VAT registration number (TRN / VATIN / VAT No.) if printed"),
+    taxable: z.number().optional().describe("Taxable amount excluding VAT if printed"),
+    vat_rate: z.number().optional().describe("VAT rate in percent if printed"),
+    tax_inv: z.boolean().optional().describe("True if the document is titled 'Tax Invoice' (or 'Simplified Tax Invoice'), false for a plain receipt"),
+    inv_no: z.string().optional().describe("Tax invoice number if printed"),
     main_category: z.string().optional().describe("Broad classification (Business vs Personal)"),
     company_project: z.string().optional().describe("Client or project name"),
-    reimbursement_status: z.string().optional().describe("Status for company payout"),
-    paid_by: z.string().optional().describe("Who paid (Employee vs Company)"),
+    paid_by: z.enum(['Employee', 'Company']).optional().describe("Who paid: Employee (personal card/cash, to be reimbursed) or Company (corporate card/account)"),
     payment_method: z.string().optional().describe("Payment type (Card, Cash)"),
+    pax: z.number().optional().describe("Number of guests / covers on a restaurant bill, if printed"),
     cd: z.string().optional().describe("Last 4 digits of the payment card if visible on the receipt"),
+    dir: z.enum(['debit', 'credit']).optional().describe("Statement direction: debit (money out) or credit (money back)"),
+    kind: z.enum(['purchase', 'refund', 'reversal', 'chargeback', 'payment']).optional().describe("Nature of the statement line"),
+    ref: z.string().optional().describe("Transaction reference / authorization code printed on the statement line"),
+    rev_ref: z.string().optional().describe("Reference of the original charge this credit reverses, if printed"),
     forwarded_from: z.string().optional().describe("Original sender's email if this is a forwarded message"),
-    notes: z.string().optional().describe("Any additional context")
+    notes: z.string().optional().describe("Any additional context"),
+    prov: z.object({
+        m: FieldProvenanceSchema,
+        a: FieldProvenanceSchema,
+        c: FieldProvenanceSchema,
+        d: FieldProvenanceSchema,
+        cd: FieldProvenanceSchema.optional()
+    }).describe("Per-field provenance for merchant, amount, currency, date and card digits")
 });
 
 const ExtractionOutputSchema = z.object({
@@ -178,7 +263,16 @@ async function runExpenseAgent(content: string, source: string) {
     - DATE INTERPRETATION: Interpret source dates as DD/MM/YYYY. (e.g., 01/12 is December 1st). 
     - DATE OUTPUT: ALWAYS return YYYY-MM-DD.
     - CARD DIGITS: If you see the last 4 digits of a payment card (e.g. **** 4477), extract them into 'cd'.
+    - STATEMENT DIRECTION: 'a' is ALWAYS positive. Set 'dir' to "credit" for money returned (CR, "-", REFUND, REVERSAL, CHARGEBACK) and "debit" otherwise.
+      Set 'kind' to refund / reversal / chargeback / payment (card bill payment) / purchase. Put the line's reference in 'ref' and any quoted original reference in 'rev_ref'.
     - FORWARDED EMAIL: If the document appears to be a forwarded email, extract the ORIGINAL SENDER's email address into 'forwarded_from'. Look for headers like "From: ...", "Forwarded message", or "Sent by".
+    - LINE ITEMS: For receipts, invoices and hotel folios list each printed line in 'items' with qty, unit 'price' (ex-tax), 'tax_rate' / 'tax' when shown,
+      and 'cat' only when the line belongs to a different category than the document (minibar/restaurant on a folio = Meals). Put total tax in 'tax_amount'.
+    - VAT: For receipts and invoices copy the supplier 'trn' exactly as printed (UAE TRN 15 digits, Oman VATIN 'OM' + 10 digits, KSA VAT No. 15 digits),
+      'taxable' (net of VAT), 'vat_rate', 'tax_amount' (VAT), 'inv_no', and set 'tax_inv' true only when the title says Tax Invoice.
+    - COVERS: For restaurant bills put the printed number of guests (Pax, Covers, Guests) in 'pax'.
+    - FIELD PROVENANCE: For every expense fill 'prov' for m, a, c, d (and cd when present). 'snip' = the exact printed text you read, 'page' / 'region' where it sits.
+      'conf' must be honest: below 0.7 when the text is blurred, cut off, handwritten, ambiguous (e.g. 01/02 dates) or the currency is inferred rather than printed.
     - If the document mentions travel (flight, hotel, visa), 'travel_logs' MUST NOT BE EMPTY.
     
     CATEGORIES: Transport, Meals, Lodging, Office, Utilities, Salary, Transfer, General.
@@ -189,6 +283,8 @@ async function runExpenseAgent(content: string, source: string) {
     - dest_country: Destination Country.
     - origin_city: Departure City (for flights).
     - origin_country: Departure Country (for flights).
+    - FLIGHT LOGS: One entry PER LEG, never merged. Dubai → London → Paris → Dubai is THREE entries, each with its own
+      origin, destination, date and 'flight_no', sharing the booking 'ref'. Leave 'end_date' empty on a leg.
     - HOTEL LOGS: type: 'accommodation', date: Check-in, end_date: Check-out.
   `;
 
@@ -219,7 +315,7 @@ async function runExpenseAgent(content: string, source: string) {
 }
 
 // --- AGENT: BATCH EXTRACTOR ---
-async function runBatchExpenseAgent(inputs: { content: string, source: string }[]) {
+async function runBatchExpenseAgent(inputs: { content: string, source: string }[], onRetry?: RetryListener) {
     const BatchSchema = z.object({
         results: z.array(ExtractionOutputSchema)
     });
@@ -248,11 +344,17 @@ async function runBatchExpenseAgent(inputs: { content: string, source: string }[
     
     TRAVEL LOG SPECIFICS:
     - HOTEL LOG RULES: type: 'accommodation', provider: Hotel Name, date: Check-in, end_date: Check-out.
-    - FLIGHT LOG RULES: type: 'flight', provider: Airline, date: Departure, end_date: Return, origin_country: Departure Country, dest_country: Arrival Country.
+    - FLIGHT LOG RULES: type: 'flight', provider: Airline, date: Departure, origin_city / origin_country: Departure, dest_city / dest_country: Arrival, 'flight_no'.
     - CARD DIGITS: If you see the last 4 digits of a payment card (e.g. Card: **** 4477), extract them into 'cd'.
+    - STATEMENT DIRECTION: 'a' is ALWAYS positive. 'dir' = "credit" for refunds, reversals, chargebacks and CR lines, else "debit".
+      'kind' = refund / reversal / chargeback / payment / purchase. 'ref' = line reference, 'rev_ref' = original reference quoted by a credit.
     - FORWARDED EMAIL: If any document is a forwarded email, extract the ORIGINAL SENDER's email into 'forwarded_from'.
-    - CONSOLIDATION: One document = ONE record. Merge all flight legs.
-    - DATES: 'date' = departure, 'end_date' = return.
+    - LINE ITEMS: 'items' = printed lines (desc, qty, ex-tax 'price', 'tax_rate'/'tax', 'cat' only if different, e.g. minibar = Meals). 'tax_amount' = total tax.
+    - VAT: 'trn' exactly as printed, 'taxable' (net), 'vat_rate', 'inv_no', 'tax_inv' true only if titled Tax Invoice.
+    - COVERS: 'pax' = guests / covers printed on a restaurant bill.
+    - FIELD PROVENANCE: 'prov' per expense for m, a, c, d (and cd): 'conf' 0-1 (below 0.7 if blurred, cut off, ambiguous or inferred), 'snip' = exact printed text, 'page' / 'region' where found.
+    - FLIGHT LEGS: One travel log PER LEG. NEVER merge legs: Dubai → London → Paris → Dubai is THREE logs sharing the booking 'ref'.
+    - DATES: 'date' = departure of the leg. 'end_date' only for a round trip whose return is not printed as its own leg.
   `;
 
     // Build multimodal prompt parts
@@ -282,7 +384,7 @@ async function runBatchExpenseAgent(inputs: { content: string, source: string }[
             });
 
             return output;
-        });
+        }, 3, onRetry);
     } catch (e: any) {
         console.error("DEBUG: Batch Agent error:", e);
         logError(e);
@@ -291,7 +393,7 @@ async function runBatchExpenseAgent(inputs: { content: string, source: string }[
 }
 
 // --- AGENT: RECONCILIATION ---
-async function runReconciliationAgent(expenses: any[]) {
+async function runReconciliationAgent(expenses: any[], rates: Record<string, number> = {}, aliases: any[] = [], overrides: any[] = []) {
     const ReconciliationSchema = z.object({
         matched: z.array(z.object({
             bankId: z.string(),
@@ -303,29 +405,32 @@ async function runReconciliationAgent(expenses: any[]) {
         unmatchedBankTransactions: z.array(z.string()).optional().default([])
     });
 
+    const aliasRules = aliases.map(a => {
+        const keys = [...(a.descriptors || []).map((d: string) => `"${d}"`), ...(a.patterns || []).filter((p: string) => compileAliasPattern(p)).map((p: string) => `/${p}/i`)];
+        return `       - ${keys.join(' | ')} => "${a.canonical_name}"`;
+    }).join('\n');
+
     const systemInstruction = `
     ROLE: HIGH-PRECISION FORENSIC AUDITOR.
-    GOAL: Match "ANCHOR" transactions (Bank/Credit Card) to "PROOF" documents (Receipts/Uploads).
+    GOAL: Resolve AMBIGUOUS "ANCHOR" transactions (Bank/Credit Card) against "PROOF" documents (Receipts/Uploads).
 
     MATCHING ENTITIES:
     - You will receive a list of expenses where each item has a "role" field: "ANCHOR" or "PROOF".
-    - You MUST ONLY match an "ANCHOR" to a "PROOF". 
-    - NEVER match an "ANCHOR" to another "ANCHOR".
-    - NEVER match a "PROOF" to another "PROOF".
-    - UNIQUE MATCHING: Each bankId (ANCHOR) can be matched to at most one receiptId (PROOF).
+    - Every ANCHOR carries "candidateIds": the only PROOF ids that passed the deterministic amount/date/card checks.
+    - You MUST ONLY match an "ANCHOR" to a "PROOF" listed in its "candidateIds".
+    - UNIQUE MATCHING: Each bankId (ANCHOR) can be matched to at most one receiptId (PROOF), and each PROOF to at most one ANCHOR.
+      (Split payments and deposits are already grouped deterministically before you are called.)
     - NO REPETITION: Do not list the same match more than once. If you run out of matches, stop.
 
     FORENSIC RULES:
     1. SOURCE INTEGRITY: Anchors are ground truth. Proofs are verification documents.
-    2. AMOUNT & CURRENCY: Match even if amounts differ slightly (< 1%) or if currencies differ (e.g., 1 OMR ≈ 9.53 AED). 
-    3. DATE: +/- 7 days post/pre window. For "Lodging" or "Hotel" categories, allow up to +/- 14 days (due to stay duration).
-    4. MERCHANT: Fuzzy match (e.g. "FLYDUBAI" == "FLYDUBAI DXB").
-       - SPECIAL CASE: "ROAD & TRANSPORT AUTHO" matches with "DUBAI METRO" or "RTA Metro".
-       - SPECIAL CASE: "CAREEM HALA" matches with "Hala Taxi".
-       - SPECIAL CASE: "HOTEL IBIS DEIRA CITY" matches "Ibis Deira Creekside Dubai".
+    2. TIE-BREAKING: Amount and date already agree. Decide using merchant identity (statement descriptors vs. brand names), category and context.
+    3. MERCHANT: Fuzzy match (e.g. "FLYDUBAI" == "FLYDUBAI DXB").
+       - MERCHANT ALIAS REGISTRY (company-approved equivalences, descriptor/pattern => canonical merchant):
+${aliasRules || '       (none registered)'}
 
     ANTI-HALLUCINATION:
-    - If you cannot find a match for an ANCHOR, do not invent one.
+    - If none of the candidates is convincing, leave the ANCHOR unmatched.
     - If you find yourself repeating data or getting stuck in a loop, TERMINATE the JSON immediately.
     - Keep 'summary' extremely concise (max 10 words).
 
@@ -337,18 +442,39 @@ async function runReconciliationAgent(expenses: any[]) {
 
     if (anchors.length === 0) return { matched: [], unmatchedReceipts: proofs.map(p => p.id), unmatchedBankTransactions: [] };
 
-    // BATCH CONFIGURATION
+    // 1. DETERMINISTIC PASS (Manual overrides first, then shared engine with global 1:1 assignment)
+    const engine = runMatchingEngine(anchors, proofs, { rates, aliases, overrides });
+    const proofMap = new Map(proofs.map(p => [p.id, p]));
+
+    const allMatches: any[] = engine.matched.map(m => ({
+        bankId: m.anchorId,
+        receiptId: m.proofId,
+        bankIds: m.anchorIds,
+        receiptIds: m.proofIds,
+        proofLabel: proofMap.get(m.proofId)?.merchant || 'Receipt',
+        summary: describeMatch(m),
+        score: m.score,
+        method: m.manual ? 'manual' : 'engine'
+    }));
+
+    console.log(`[Reconcile] Engine matched ${engine.matched.length} (groups: ${engine.matched.filter(m => (m.anchorIds?.length || 1) > 1 || (m.proofIds?.length || 1) > 1).length}) of ${anchors.length} anchors. Reversed: ${engine.reversedAnchors.length}, Ambiguous: ${engine.ambiguous.length}, No candidates: ${engine.unmatchedAnchors.length}`);
+
+    // 2. AI PASS (Ambiguous leftovers only)
     const BATCH_SIZE = 15;
-    const allMatches: any[] = [];
-    const unmatchedBankIds: string[] = [];
+    const anchorMap = new Map(anchors.map(a => [a.id, a]));
+    const claimedReceipts = new Set<string>(engine.matched.flatMap(matchProofIds));
 
-    console.log(`[Reconcile] Starting batched audit. Total Anchors: ${anchors.length}, Total Proofs: ${proofs.map(p => p.id).length}`);
+    for (let i = 0; i < engine.ambiguous.length; i += BATCH_SIZE) {
+        const currentBatch = engine.ambiguous.slice(i, i + BATCH_SIZE)
+            .map(a => ({ ...a, candidates: a.candidates.filter(c => !claimedReceipts.has(c.proofId)) }))
+            .filter(a => a.candidates.length > 0);
+        if (currentBatch.length === 0) continue;
 
-    for (let i = 0; i < anchors.length; i += BATCH_SIZE) {
-        const currentBatch = anchors.slice(i, i + BATCH_SIZE);
-        const batchPool = [...currentBatch, ...proofs];
+        const batchAnchors = currentBatch.map(a => ({ ...anchorMap.get(a.anchorId), candidateIds: a.candidates.map(c => c.proofId) }));
+        const batchProofIds = Array.from(new Set(currentBatch.flatMap(a => a.candidates.map(c => c.proofId))));
+        const batchPool = [...batchAnchors, ...batchProofIds.map(id => proofMap.get(id))];
 
-        console.log(`[Reconcile] Processing batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(anchors.length / BATCH_SIZE)} (${currentBatch.length} anchors)`);
+        console.log(`[Reconcile] AI tie-break batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(engine.ambiguous.length / BATCH_SIZE)} (${currentBatch.length} anchors)`);
 
         try {
             const batchResult = await retryWithBackoff(async () => {
@@ -363,32 +489,291 @@ async function runReconciliationAgent(expenses: any[]) {
                 return output;
             });
 
-            if (batchResult.matched) {
-                // Deduplication guard: ensure we don't add the same bankId twice across batches (though internal to batch should be unique)
-                batchResult.matched.forEach((match: any) => {
-                    if (!allMatches.some(m => m.bankId === match.bankId)) {
-                        allMatches.push(match);
-                    }
-                });
-            }
+            // Guardrail: the AI may only pick from the engine's candidate list, never reusing an item
+            (batchResult?.matched || []).forEach((match: any) => {
+                const entry = currentBatch.find(a => a.anchorId === match.bankId);
+                const candidate = entry?.candidates.find(c => c.proofId === match.receiptId);
+                if (!candidate || claimedReceipts.has(candidate.proofId) || allMatches.some(m => m.bankId === match.bankId)) return;
+
+                claimedReceipts.add(candidate.proofId);
+                allMatches.push({ ...match, score: candidate.score, method: 'ai' });
+            });
         } catch (e: any) {
             console.error(`[Reconcile] Batch ${i / BATCH_SIZE} failed:`, e.message);
-            // If a batch fails, we record the IDs as unmatched rather than failing the whole process
-            unmatchedBankIds.push(...currentBatch.map(a => a.id));
+            // If a batch fails, the ambiguous anchors simply remain unmatched
         }
     }
 
-    const matchedBankIds = new Set(allMatches.map(m => m.bankId));
-    const matchedReceiptIds = new Set(allMatches.map(m => m.receiptId));
+    const matchedBankIds = new Set([
+        ...allMatches.flatMap(m => m.bankIds || [m.bankId]),
+        ...engine.exemptAnchors,
+        ...engine.reversedAnchors,
+        ...engine.reversals.map(r => r.creditId),
+        ...engine.unlinkedCredits
+    ]);
 
     return {
         matched: allMatches,
-        unmatchedReceipts: proofs.filter(p => !matchedReceiptIds.has(p.id)).map(p => p.id),
-        unmatchedBankTransactions: [
-            ...anchors.filter(a => !matchedBankIds.has(a.id)).map(a => a.id),
-            ...unmatchedBankIds
-        ]
+        reversals: engine.reversals.map(({ creditId, debitId, amount, full }) => ({ creditId, debitId, amount, full })),
+        unmatchedReceipts: proofs.filter(p => !claimedReceipts.has(p.id)).map(p => p.id),
+        unmatchedBankTransactions: anchors.filter(a => !matchedBankIds.has(a.id)).map(a => a.id)
+    };
+}
+
+// --- EXTRACTION JOB QUEUE ---
+// Jobs live in memory (document content is too large for Firestore); results are written to
+// Firestore as each document finishes, so a closed tab only loses the live progress view.
+const EXTRACTION_CONCURRENCY = Number(process.env.EXTRACTION_CONCURRENCY || 1);
+const MIN_MODEL_CALL_INTERVAL_MS = 3000; // Spacing between Vertex calls across all workers
+const JOB_TTL_MS = 1000 * 60 * 60 * 24;
+
+const extractionJobs = new Map<string, ExtractionJob>();
+const jobContents = new Map<string, string>(); // "<jobId>:<docId>" -> raw content (kept for retries)
+const jobQueue: Array<{ jobId: string, docId: string }> = [];
+const jobEvents = new Map<string, ExtractionJobEvent[]>(); // Replayed to reconnecting streams
+const jobListeners = new Map<string, Set<(event: ExtractionJobEvent) => void>>();
+let activeWorkers = 0;
+let quotaPausedUntil = 0;
+let lastModelCallAt = 0;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function refreshJobStatus(job: ExtractionJob) {
+    const statuses = job.documents.map(d => d.status);
+    if (statuses.every(s => s === 'done')) job.status = 'done';
+    else if (statuses.some(s => s === 'running' || s === 'retrying')) job.status = 'running';
+    else if (statuses.some(s => s === 'queued')) job.status = statuses.some(s => s !== 'queued') ? 'running' : 'queued';
+    else job.status = statuses.some(s => s === 'done') ? 'partial' : 'failed';
+    job.updated_at = new Date().toISOString();
+}
+
+function updateJobDocument(job: ExtractionJob, doc: ExtractionJobDocument, patch: Partial<ExtractionJobDocument>) {
+    Object.assign(doc, patch, { updated_at: new Date().toISOString() });
+    refreshJobStatus(job);
+}
+
+function emitJobEvent(
+    job: ExtractionJob,
+    doc: ExtractionJobDocument,
+    type: ExtractionEventType,
+    detail: Partial<ExtractionJobEvent> = {}
+) {
+    const events = jobEvents.get(job.id) || [];
+    const event: ExtractionJobEvent = {
+        seq: events.length + 1,
+        job_id: job.id,
+        doc_id: doc.id,
+        doc_name: doc.name,
+        type,
+        at: new Date().toISOString(),
+        attempt: doc.attempts,
+        ...detail,
+        job_status: job.status,
+        document: { ...doc }
+    };
+    events.push(event);
+    jobEvents.set(job.id, events);
+    jobListeners.get(job.id)?.forEach(listener => listener(event));
+}
+
+/**
+ * Company policy rules plus the organisation's pinned monthly rates for the months involved.
+ * Conversion bridges through USD like currencyService.convertToBaseCurrency, and gives null
+ * when a month has no rate for either currency.
+ */
+async function loadPolicyContext(dates: string[]): Promise<{ rules: PolicyRule[], convert: PolicyContext['convert'], reportingCurrency: string }> {
+    const settingsSnap = await adminDb.collection('global_settings').doc('audit_config').get();
+    const settings = settingsSnap.data() || {};
+    const reportingCurrency = String(settings.reporting_currency || 'USD').toUpperCase();
+    const months = Array.from(new Set(dates.map(d => (d || '').slice(0, 7)).filter(Boolean)));
+    const rateDocs = await Promise.all(months.map(m => adminDb.collection('monthly_rates').doc(m).get()));
+    const ratesByMonth: Record<string, Record<string, number>> = {};
+    rateDocs.forEach((snap, i) => { ratesByMonth[months[i]] = snap.data()?.rates || {}; });
+
+    const convert: PolicyContext['convert'] = (amount, record) => {
+        const from = String(record.currency || reportingCurrency).toUpperCase();
+        if (from === reportingCurrency) return amount;
+        const rates = ratesByMonth[(record.date || '').slice(0, 7)] || {};
+        // No pinned rate: the policy engine reports the limit as unchecked rather than guess 1:1
+        if ((from !== 'USD' && !rates[from]) || (reportingCurrency !== 'USD' && !rates[reportingCurrency])) return null;
+        const usd = from === 'USD' ? amount : amount / rates[from];
+        return reportingCurrency === 'USD' ? usd : usd * rates[reportingCurrency];
     };
+    return { rules: settings.policy_rules || [], convert, reportingCurrency };
+}
+
+/**
+ * Writes mapped results for one document, merging rows the user already has and flagging suspected
+ * duplicates for clarification (same rules as the client-side addExpenses / addTravelLogs).
+ */
+async function persistExtraction(userId: string, mapped: ReturnType<typeof mapExtractionResult>, documentHash?: string) {
+    const [expSnap, travelSnap, registrySnap, profileSnap] = await Promise.all([
+        adminDb.collection('expenses').where('user_id', '==', userId).get(),
+        adminDb.collection('travel_logs').where('user_id', '==', userId).get(),
+        adminDb.collection('bank_registry').get(),
+        adminDb.collection('authorized_users').where('email', '==', userId).limit(1).get()
+    ]);
+    const existingExpenses = expSnap.docs.map(d => ({ id: d.id, ...d.data() }) as Expense);
+    const bankMappings = registrySnap.docs.map(d => d.data() as BankMapping);
+    const existingLogs = travelSnap.docs.map(d => ({ id: d.id, ...d.data() }) as TravelLog);
+    const homeBases = profileSnap.docs[0]?.data().home_bases || [];
+    let travelCount = 0;
+    let duplicateCount = 0;
+
+    const incoming = mapped.expenses.map(({ id, ...raw }) => {
+        // Auto-pilot: card digits found in the bank registry decide the issuing bank
+        const exp: Omit<Expense, 'id'> = { ...raw, user_id: userId, document_hash: documentHash };
+        if (exp.card_digits) {
+            const cleanDigits = exp.card_digits.replace(/\D/g, '').slice(-4);
+            const match = bankMappings.find(m => String(m.card_digits || '').replace(/\D/g, '').slice(-4) === cleanDigits);
+            if (match) Object.assign(exp, { bank: match.bank_name, card_digits: cleanDigits });
+        }
+        return exp;
+    });
+
+    const { fresh, merged, suspected } = classifyIncomingExpenses(incoming, existingExpenses);
+    duplicateCount += merged;
+
+    // Document ids are allocated up front so policy checks see the rows as they will be stored
+    const freshExpenses: Expense[] = fresh.map(exp => ({ ...exp, id: adminDb.collection('expenses').doc().id }));
+    const freshLogs: TravelLog[] = [];
+    for (const { id, ...log } of mapped.travelLogs) {
+        if ([...existingLogs, ...freshLogs].some(existing => isDuplicateTravelLog(log, existing))) { duplicateCount++; continue; }
+        freshLogs.push({ ...log, id: adminDb.collection('travel_logs').doc().id, user_id: userId });
+    }
+
+    // Policy violations are recorded on the row as it is written
+    const policy = await loadPolicyContext([...freshExpenses.map(e => e.date), ...freshLogs.map(l => l.start_date)]);
+    const policyContext: PolicyContext = {
+        reportingCurrency: policy.reportingCurrency,
+        convert: policy.convert,
+        travelLogs: [...existingLogs, ...freshLogs],
+        expenses: [...existingExpenses, ...freshExpenses]
+    };
+    const violationsFor = (violations: PolicyViolation[]) => violations.length > 0 ? { policy_violations: violations } : {};
+
+    for (const { id, ...exp } of freshExpenses) {
+        const violations = policy.rules.length > 0 ? evaluateExpensePolicy({ id, ...exp }, policy.rules, policyContext) : [];
+        await adminDb.collection('expenses').doc(id).set({ ...exp, ...violationsFor(violations), created_at: new Date().toISOString() });
+    }
+
+    for (const { id, ...log } of freshLogs) {
+        const violations = policy.rules.length > 0 ? evaluateTravelLogPolicy({ id, ...log }, policy.rules, policyContext) : [];
+        await adminDb.collection('travel_logs').doc(id).set(prepareTravelLog({ ...log, ...violationsFor(violations) }, homeBases));
+        travelCount++;
+    }
+
+    return { expenseCount: freshExpenses.length, travelCount, duplicateCount, suspectedCount: suspected };
+}
+
+async function processJobDocument(jobId: string, docId: string) {
+    const job = extractionJobs.get(jobId);
+    const doc = job?.documents.find(d => d.id === docId);
+    const content = jobContents.get(`${jobId}:${docId}`);
+    if (!job || !doc) return;
+    if (content === undefined) {
+        updateJobDocument(job, doc, { status: 'failed', error: 'Document content no longer available. Please re-upload.' });
+        emitJobEvent(job, doc, 'failed', { error: doc.error });
+        return;
+    }
+
+    // Content-hash dedup: a file this user already processed never reaches the model
+    const hash = doc.hash || createHash('sha256').update(content).digest('hex');
+    const priorSnap = await adminDb.collection('document_fingerprints')
+        .where('user_id', '==', job.user_id)
+        .where('hash', '==', hash)
+        .limit(1)
+        .get();
+    if (!priorSnap.empty) {
+        const prior = priorSnap.docs[0].data();
+        jobContents.delete(`${jobId}:${docId}`);
+        updateJobDocument(job, doc, {
+            status: 'done',
+            expense_count: 0,
+            travel_count: 0,
+            duplicate_of_document: `${prior.file_name} (${String(prior.created_at || '').split('T')[0]})`
+        });
+        emitJobEvent(job, doc, 'skipped_duplicate');
+        console.log(`[Jobs] ${jobId} • ${doc.name}: already processed as ${prior.file_name}, skipping AI`);
+        return;
+    }
+
+    // Quota-aware pacing: honour any backoff another worker hit, and space out calls. The slot is
+    // reserved before sleeping so workers waking together do not all take the same one.
+    const wait = Math.max(quotaPausedUntil - Date.now(), lastModelCallAt + MIN_MODEL_CALL_INTERVAL_MS - Date.now(), 0);
+    lastModelCallAt = Date.now() + wait;
+    if (wait > 0) await sleep(wait);
+
+    updateJobDocument(job, doc, { status: 'running', attempts: doc.attempts + 1, error: undefined, next_attempt_at: undefined });
+    console.log(`[Jobs] ${jobId} • ${doc.name}: extraction attempt ${doc.attempts}`);
+    emitJobEvent(job, doc, 'model_call_started');
+
+    try {
+        const output = await runBatchExpenseAgent([{ content, source: doc.source }], ({ delayMs }) => {
+            quotaPausedUntil = Math.max(quotaPausedUntil, Date.now() + delayMs);
+            updateJobDocument(job, doc, { status: 'retrying', next_attempt_at: new Date(Date.now() + delayMs).toISOString() });
+            emitJobEvent(job, doc, 'retry_scheduled', { delay_ms: delayMs });
+        });
+        updateJobDocument(job, doc, { status: 'running', next_attempt_at: undefined });
+
+        const mapped = mapExtractionResult(output?.results?.[0], doc.source, job.bank, 0, doc.document_id);
+        const counts = await persistExtraction(job.user_id, mapped, hash);
+        await adminDb.collection('document_fingerprints').add({
+            hash,
+            user_id: job.user_id,
+            file_name: doc.name,
+            source: doc.source,
+            expense_count: counts.expenseCount,
+            travel_count: counts.travelCount,
+            job_id: job.id,
+            created_at: new Date().toISOString()
+        });
+        jobContents.delete(`${jobId}:${docId}`);
+        updateJobDocument(job, doc, {
+            status: 'done',
+            expense_count: counts.expenseCount,
+            travel_count: counts.travelCount,
+            duplicate_count: counts.duplicateCount,
+            suspected_count: counts.suspectedCount
+        });
+        emitJobEvent(job, doc, 'parsed', {
+            expense_count: counts.expenseCount,
+            travel_count: counts.travelCount,
+            duplicate_count: counts.duplicateCount,
+            suspected_count: counts.suspectedCount
+        });
+        console.log(`[Jobs] ${jobId} • ${doc.name}: done (${counts.expenseCount} expenses, ${counts.travelCount} travel, ${counts.duplicateCount} duplicates)`);
+    } catch (e: any) {
+        logError(e);
+        const isQuota = e.message?.includes('429') || e.message?.includes('RESOURCE_EXHAUSTED');
+        updateJobDocument(job, doc, {
+            status: 'failed',
+            error: isQuota ? 'AI quota limit reached after retries.' : (e.message || 'Extraction failed'),
+            next_attempt_at: undefined
+        });
+        emitJobEvent(job, doc, 'failed', { error: doc.error });
+        console.error(`[Jobs] ${jobId} • ${doc.name}: failed -`, e.message);
+    }
+}
+
+function pumpJobQueue() {
+    while (activeWorkers < EXTRACTION_CONCURRENCY && jobQueue.length > 0) {
+        const task = jobQueue.shift()!;
+        activeWorkers++;
+        processJobDocument(task.jobId, task.docId).finally(() => {
+            activeWorkers--;
+            pumpJobQueue();
+        });
+    }
+}
+
+function enqueueDocuments(job: ExtractionJob, docs: ExtractionJobDocument[]) {
+    docs.forEach(d => {
+        updateJobDocument(job, d, { status: 'queued' as ExtractionDocumentStatus });
+        emitJobEvent(job, d, 'received');
+        jobQueue.push({ jobId: job.id, docId: d.id });
+    });
+    pumpJobQueue();
 }
 
 // --- ROUTES ---
@@ -427,11 +812,210 @@ app.post('/api/generate-batch', async (req, res) => {
     }
 });
 
+// Another user's job answers like a missing one
+function ownJob(req: express.Request, res: express.Response): ExtractionJob | null {
+    const job = extractionJobs.get(req.params.id);
+    if (!job || job.user_id !== res.locals.userEmail) {
+        res.status(404).json({ error: 'Job not found (it may have expired or the server restarted)' });
+        return null;
+    }
+    return job;
+}
+
+app.post('/api/jobs', requireUser, (req, res) => {
+    const { bank, inputs } = req.body;
+    const user_id: string = res.locals.userEmail;
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+        return res.status(400).json({ error: "At least one document is required" });
+    }
+
+    const now = new Date().toISOString();
+    const jobId = `job-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+    const job: ExtractionJob = {
+        id: jobId,
+        user_id,
+        bank: bank || undefined,
+        status: 'queued',
+        created_at: now,
+        updated_at: now,
+        documents: inputs.map((inp: any, idx: number) => {
+            const docId = `d${idx}`;
+            jobContents.set(`${jobId}:${docId}`, inp.content);
+            return { id: docId, name: inp.name || `Document ${idx + 1}`, source: inp.source, hash: inp.hash || undefined, document_id: inp.document_id || undefined, status: 'queued', attempts: 0, updated_at: now };
+        })
+    };
+    extractionJobs.set(jobId, job);
+    console.log(`[API] POST /api/jobs - ${jobId}: ${job.documents.length} documents for ${user_id}`);
+
+    enqueueDocuments(job, job.documents);
+    res.status(202).json(job);
+});
+
+app.get('/api/jobs', requireUser, (req, res) => {
+    const userId: string = res.locals.userEmail;
+    const jobs = Array.from(extractionJobs.values())
+        .filter(j => j.user_id === userId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    res.json(jobs);
+});
+
+app.get('/api/jobs/:id', requireUser, (req, res) => {
+    const job = ownJob(req, res);
+    if (!job) return;
+    res.json(job);
+});
+
+// Server-Sent Events: per-document progress. EventSource reconnects with Last-Event-ID, so only missed events are replayed.
+app.get('/api/jobs/:id/events', requireUser, (req, res) => {
+    const job = ownJob(req, res);
+    if (!job) return;
+
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const send = (event: ExtractionJobEvent) => res.write(`id: ${event.seq}\ndata: ${JSON.stringify(event)}\n\n`);
+    const lastSeq = Number(req.header('Last-Event-ID') || 0);
+    (jobEvents.get(job.id) || []).filter(e => e.seq > lastSeq).forEach(send);
+
+    const listeners = jobListeners.get(job.id) || new Set();
+    listeners.add(send);
+    jobListeners.set(job.id, listeners);
+    const keepAlive = setInterval(() => res.write(': ping\n\n'), 25000);
+
+    req.on('close', () => {
+        clearInterval(keepAlive);
+        listeners.delete(send);
+    });
+});
+
+app.post('/api/jobs/:id/retry', requireUser, (req, res) => {
+    const job = ownJob(req, res);
+    if (!job) return;
+
+    const failed = job.documents.filter(d => d.status === 'failed');
+    console.log(`[API] POST /api/jobs/${job.id}/retry - ${failed.length} failed documents`);
+    enqueueDocuments(job, failed);
+    res.json(job);
+});
+
+// Original uploads: raw bytes in, stored once per content hash
+app.post('/api/documents', requireUser, express.raw({ type: () => true, limit: '50mb' }), async (req, res) => {
+    try {
+        const userId: string = res.locals.userEmail;
+        const fileName = String(req.query.name || 'document');
+        const contentType = req.header('Content-Type') || 'application/octet-stream';
+        const data = req.body as Buffer;
+        if (!Buffer.isBuffer(data) || data.length === 0) {
+            return res.status(400).json({ error: "A non-empty document body is required" });
+        }
+
+        const documentId = createHash('sha256').update(data).digest('hex');
+        if (!(await blobStore.exists(documentId))) {
+            await blobStore.put(documentId, data, contentType);
+        }
+        // The same file uploaded by several users is stored once and owned by each of them
+        await adminDb.collection('documents').doc(documentId).set({
+            file_name: fileName,
+            content_type: contentType,
+            size: data.length,
+            store: blobStore.name,
+            owners: FieldValue.arrayUnion(userId),
+            created_at: new Date().toISOString()
+        }, { merge: true });
+
+        console.log(`[API] POST /api/documents - ${fileName} (${data.length} bytes) -> ${documentId}`);
+        res.json({ document_id: documentId });
+    } catch (e: any) {
+        logError(e);
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Documents the user uploaded (admins may open any) answer with signed links; others are left out
+app.post('/api/documents/links', requireUser, async (req, res) => {
+    try {
+        const ids: string[] = Array.isArray(req.body?.ids) ? Array.from(new Set<string>(req.body.ids.filter(isValidDocumentId))) : [];
+        if (ids.length === 0) return res.json({ links: {} });
+        const [profile, ...records] = await Promise.all([
+            adminDb.collection('authorized_users').doc(res.locals.userUid).get(),
+            ...ids.map(id => adminDb.collection('documents').doc(id).get())
+        ]);
+        const isAdmin = profile.data()?.role === 'admin';
+        const expires = Date.now() + DOCUMENT_LINK_TTL_MS;
+        const links: Record<string, { expires: number, sig: string }> = {};
+        records.forEach((record, i) => {
+            const data = record.data();
+            // Records written before owners were kept name their single uploader in user_id
+            const owners: string[] = data?.owners || (data?.user_id ? [data.user_id] : []);
+            if (!data || !(isAdmin || owners.includes(res.locals.userEmail))) return;
+            links[ids[i]] = { expires, sig: signDocumentLink(ids[i], expires) };
+        });
+        res.json({ links });
+    } catch (e: any) {
+        logError(e);
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Opened through a signed link from POST /api/documents/links; an expired or forged link answers 403
+app.get('/api/documents/:id', async (req, res) => {
+    try {
+        if (!isValidDocumentId(req.params.id)) return res.status(400).json({ error: 'Invalid document id' });
+        const expires = Number(req.query.expires);
+        const sig = Buffer.from(String(req.query.sig || ''), 'hex');
+        const expected = Buffer.from(signDocumentLink(req.params.id, expires), 'hex');
+        if (!(expires > Date.now()) || sig.length !== expected.length || !timingSafeEqual(sig, expected)) {
+            return res.status(403).json({ error: 'Document link expired, open it again' });
+        }
+        const blob = await blobStore.get(req.params.id);
+        if (!blob) return res.status(404).json({ error: 'Document not found' });
+
+        // Images and PDFs render inline; anything else (emails, statements) is shown as text
+        const inline = blob.contentType.startsWith('image/') || blob.contentType === 'application/pdf';
+        res.set('Content-Type', inline ? blob.contentType : 'text/plain; charset=utf-8');
+        res.set('Cache-Control', `private, max-age=${Math.floor(DOCUMENT_LINK_TTL_MS / 1000)}`);
+        res.send(blob.data);
+    } catch (e: any) {
+        logError(e);
+        res.status(500).json({ error: e.message });
+    }
+});
+
+/**
+ * The alias registry is read here rather than taken from the request: its patterns become regular
+ * expressions run on every statement line, so only admin-written entries are trusted.
+ */
+async function loadMerchantAliases() {
+    const snap = await adminDb.collection('merchant_aliases').get();
+    return snap.docs.map(d => ({ id: d.id, ...d.data() } as any));
+}
+
+// Writes the built-in equivalences once; a marker keeps aliases the admins deleted from coming back
+async function seedMerchantAliases() {
+    const marker = adminDb.collection('global_settings').doc('merchant_alias_seed');
+    if ((await marker.get()).exists) return;
+    const existing = await adminDb.collection('merchant_aliases').limit(1).get();
+    const batch = adminDb.batch();
+    if (existing.empty) {
+        const now = new Date().toISOString();
+        DEFAULT_MERCHANT_ALIASES.forEach(alias => batch.set(adminDb.collection('merchant_aliases').doc(), { ...alias, user_id: 'system', created_at: now }));
+    }
+    batch.set(marker, { seeded_at: new Date().toISOString(), count: existing.empty ? DEFAULT_MERCHANT_ALIASES.length : 0 });
+    await batch.commit();
+    console.log(`[Aliases] ${existing.empty ? `Seeded ${DEFAULT_MERCHANT_ALIASES.length} built-in merchant aliases` : 'Registry already populated; built-in aliases not seeded'}`);
+}
+
 app.post('/api/reconcile', async (req, res) => {
     try {
-        const { expenses } = req.body;
-        console.log(`[API] POST /api/reconcile - Items: ${expenses?.length}`);
-        const result = await runReconciliationAgent(expenses);
+        const { expenses, rates, overrides } = req.body;
+        const aliases = await loadMerchantAliases();
+        console.log(`[API] POST /api/reconcile - Items: ${expenses?.length}, Aliases: ${aliases?.length || 0}, Overrides: ${overrides?.length || 0}`);
+        const result = await runReconciliationAgent(expenses, rates, aliases, overrides);
         res.json(result);
     } catch (error: any) {
         console.error("Reconciliation Error:", error);
@@ -453,9 +1037,21 @@ const server = app.listen(PORT, () => {
     console.log(`================================================`);
     console.log(`🚀 GENKIT BATCH SERVER v2.0 - PORT: ${PORT}`);
     console.log(`================================================`);
+    seedMerchantAliases().catch(e => console.error("[Aliases] Seeding failed:", e.message));
 });
 
 // Explicit keep-alive and heartbeat
 setInterval(() => {
     console.log(`[Heartbeat] Server is alive and listening...`);
+
+    // Expire finished extraction jobs
+    const cutoff = Date.now() - JOB_TTL_MS;
+    extractionJobs.forEach((job, id) => {
+        if (job.status !== 'running' && job.status !== 'queued' && new Date(job.updated_at).getTime() < cutoff) {
+            job.documents.forEach(d => jobContents.delete(`${id}:${d.id}`));
+            extractionJobs.delete(id);
+            jobEvents.delete(id);
+            jobListeners.delete(id);
+        }
+    });
 }, 60000);
@@ -0,0 +1,363 @@
+import { Expense, StatementFormat, StatementTemplate } from './types';
+
+/**
+ * NATIVE STATEMENT IMPORTERS
+ * Deterministic parsers for structured bank exports (OFX/QFX, SWIFT MT940, ISO 20022 CAMT.053
+ * and CSV with per-bank column templates). Rows become 'bank_statement' Expenses without any
+ * AI call; only PDFs and scans are sent to Gemini.
+ */
+
+export interface StatementRow {
+  date: string;          // YYYY-MM-DD
+  description: string;
+  amount: number;        // Unsigned
+  direction: 'debit' | 'credit';
+  reversal?: boolean;    // Bank flagged the line as a reversal (MT940 RC/RD, CAMT RvslInd)
+  currency: string;
+  reference?: string;
+  card_digits?: string;
+}
+
+export interface StatementImport {
+  format: StatementFormat;
+  rows: StatementRow[];
+  template?: StatementTemplate;
+}
+
+const STRUCTURED_EXTENSIONS = ['.ofx', '.qfx', '.sta', '.mt940', '.940', '.xml'];
+
+export const isStructuredStatementFile = (fileName: string) =>
+  STRUCTURED_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+
+export const detectStatementFormat = (text: string, fileName = ''): StatementFormat | null => {
+  const head = text.slice(0, 4000);
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+  if (/camt\.053|<BkToCstmrStmt>/i.test(head)) return 'camt053';
+  if (/^:20:/m.test(head) && /^:61:/m.test(text)) return 'mt940';
+  if (fileName.toLowerCase().endsWith('.csv')) return 'csv';
+  return null;
+};
+
+// --- VALUE PARSERS ---
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const fullYear = (y: number) => (y < 100 ? 2000 + y : y);
+
+/**
+ * Parses statement dates. Numeric day/month order follows the template (DD/MM by default,
+ * matching what the AI extractor assumes); ISO and "01-Jan-2024" forms are unambiguous.
+ */
+export const parseStatementDate = (raw: string, format: StatementTemplate['date_format'] = 'DD/MM/YYYY'): string | null => {
+  const value = (raw || '').trim();
+  let m = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (m) return `${m[1]}-${pad(+m[2])}-${pad(+m[3])}`;
+
+  m = value.match(/^(\d{1,2})[-/. ]([A-Za-z]{3})[A-Za-z]*[-/. ,]+(\d{2,4})/);
+  if (m) {
+    const month = MONTHS.indexOf(m[2].toLowerCase());
+    return month < 0 ? null : `${fullYear(+m[3])}-${pad(month + 1)}-${pad(+m[1])}`;
+  }
+
+  m = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (m) {
+    const [day, month] = format === 'MM/DD/YYYY' ? [+m[2], +m[1]] : [+m[1], +m[2]];
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return `${fullYear(+m[3])}-${pad(month)}-${pad(day)}`;
+  }
+
+  m = value.match(/^(\d{4})(\d{2})(\d{2})/); // OFX / compact
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  return null;
+};
+
+// CR/DR may be glued to the number ("120.00DR"), so only a letter next to it rules it out
+const DR_MARKER = /(?<![a-z])DR(?![a-z])/i;
+const CR_DR_MARKER = /(?<![a-z])(CR|DR)(?![a-z])/i;
+
+/**
+ * Parses a printed amount into a signed number. Handles thousands separators, "1.234,56"
+ * style decimals, parentheses, trailing minus and CR/DR suffixes.
+ */
+export const parseStatementAmount = (raw: string, decimalSeparator: '.' | ',' = '.'): number | null => {
+  let value = (raw || '').trim();
+  if (!value) return null;
+  let sign = 1;
+  if (/^\(.*\)$/.test(value) || /-$/.test(value) || DR_MARKER.test(value)) sign = -1;
+  if (/^-/.test(value)) sign = -1;
+
+  value = value.replace(/[^\d.,]/g, '');
+  value = decimalSeparator === ',' ? value.replace(/\./g, '').replace(',', '.') : value.replace(/,/g, '');
+  const num = parseFloat(value);
+  return isNaN(num) ? null : sign * num;
+};
+
+// --- OFX / QFX ---
+const ofxField = (block: string, tag: string) => {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return m ? m[1].trim() : '';
+};
+
+export const parseOFX = (text: string): StatementRow[] => {
+  const currency = ofxField(text, 'CURDEF') || 'USD';
+  const account = ofxField(text, 'ACCTID').replace(/\D/g, '').slice(-4);
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  return blocks.map(block => {
+    const amount = parseFloat(ofxField(block, 'TRNAMT').replace(',', '.'));
+    const date = parseStatementDate(ofxField(block, 'DTPOSTED'));
+    if (isNaN(amount) || !date) return null;
+    const type = ofxField(block, 'TRNTYPE').toUpperCase();
+    const name = ofxField(block, 'NAME');
+    const memo = ofxField(block, 'MEMO');
+    return {
+      date,
+      description: name || memo || type,
+      amount: Math.abs(amount),
+      direction: amount < 0 || type === 'DEBIT' ? 'debit' : 'credit',
+      currency: ofxField(block, 'CURRENCY') || currency,
+      reference: ofxField(block, 'FITID') || undefined,
+      card_digits: account || undefined
+    } as StatementRow;
+  }).filter(Boolean) as StatementRow[];
+};
+
+// --- SWIFT MT940 ---
+export const parseMT940 = (text: string): StatementRow[] => {
+  // Re-join continuation lines so every ":tag:" starts a field
+  const fields: Array<{ tag: string; value: string }> = [];
+  text.replace(/\r/g, '').split('\n').forEach(line => {
+    const m = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (m) fields.push({ tag: m[1], value: m[2] });
+    else if (fields.length > 0 && line.trim() && line.trim() !== '-') fields[fields.length - 1].value += ` ${line.trim()}`;
+  });
+
+  let currency = 'USD';
+  let account = '';
+  const rows: StatementRow[] = [];
+
+  fields.forEach(({ tag, value }) => {
+    if (tag === '25') account = value.replace(/\D/g, '').slice(-4);
+    if (tag === '60F' || tag === '60M') currency = value.slice(7, 10) || currency;
+    if (tag === '61') {
+      const m = value.match(/^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])[A-Z]?([\d,]+)[A-Z]\w{3}([^/]*)(?:\/\/(\S+))?\s*(.*)$/);
+      if (!m) return;
+      const mark = m[5];
+      rows.push({
+        date: `${fullYear(+m[1])}-${m[2]}-${m[3]}`,
+        description: m[9].trim(),
+        amount: parseFloat(m[6].replace(',', '.')),
+        // RD = reversal of a debit (money back), RC = reversal of a credit (money out)
+        direction: mark === 'C' || mark === 'RD' ? 'credit' : 'debit',
+        reversal: mark.startsWith('R'),
+        currency,
+        reference: (m[8] || m[7] || '').trim() || undefined,
+        card_digits: account || undefined
+      });
+    }
+    if (tag === '86' && rows.length > 0) {
+      const info = value.replace(/\?\d{2}/g, ' ').replace(/\s+/g, ' ').trim();
+      const last = rows[rows.length - 1];
+      last.description = info || last.description;
+    }
+  });
+
+  return rows.filter(r => r.description || r.reference);
+};
+
+// --- ISO 20022 CAMT.053 ---
+const xmlValue = (xml: string, path: string[]): string => {
+  let scope = xml;
+  for (const tag of path) {
+    const m = scope.match(new RegExp(`<(?:\\w+:)?${tag}(\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+    if (!m) return '';
+    scope = m[2];
+  }
+  return scope.trim();
+};
+
+export const parseCAMT053 = (text: string): StatementRow[] => {
+  const account = (xmlValue(text, ['Acct', 'Id', 'IBAN']) || xmlValue(text, ['Acct', 'Id', 'Othr', 'Id'])).replace(/\D/g, '').slice(-4);
+  const entries = text.match(/<(?:\w+:)?Ntry>[\s\S]*?<\/(?:\w+:)?Ntry>/g) || [];
+
+  return entries.map(entry => {
+    const amt = entry.match(/<(?:\w+:)?Amt\s+Ccy="([A-Z]{3})"\s*>([\d.]+)</);
+    const date = parseStatementDate(xmlValue(entry, ['BookgDt', 'Dt']) || xmlValue(entry, ['BookgDt', 'DtTm']) || xmlValue(entry, ['ValDt', 'Dt']));
+    if (!amt || !date) return null;
+    const description =
+      xmlValue(entry, ['RmtInf', 'Ustrd']) ||
+      xmlValue(entry, ['RltdPties', 'Cdtr', 'Nm']) ||
+      xmlValue(entry, ['RltdPties', 'Dbtr', 'Nm']) ||
+      xmlValue(entry, ['AddtlNtryInf']);
+    return {
+      date,
+      description,
+      amount: parseFloat(amt[2]),
+      direction: xmlValue(entry, ['CdtDbtInd']) === 'CRDT' ? 'credit' : 'debit',
+      reversal: xmlValue(entry, ['RvslInd']) === 'true',
+      currency: amt[1],
+      reference: xmlValue(entry, ['AcctSvcrRef']) || xmlValue(entry, ['NtryRef']) || undefined,
+      card_digits: account || undefined
+    } as StatementRow;
+  }).filter(Boolean) as StatementRow[];
+};
+
+// --- CSV ---
+export const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') { cell += '"'; i++; }
+      else quoted = !quoted;
+    } else if (ch === delimiter && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+export const detectDelimiter = (line: string) =>
+  [',', ';', '\t', '|'].sort((a, b) => line.split(b).length - line.split(a).length)[0];
+
+export const readCsv = (text: string, template?: Pick<StatementTemplate, 'delimiter' | 'skip_rows'>) => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim()).slice(template?.skip_rows || 0);
+  const delimiter = template?.delimiter || detectDelimiter(lines[0] || '');
+  const [header = [], ...rows] = lines.map(l => splitCsvLine(l, delimiter));
+  return { header, rows, delimiter };
+};
+
+const HEADER_GUESSES: Record<keyof StatementTemplate['columns'], RegExp> = {
+  date: /^(transaction |posting |value |txn )?date$/i,
+  description: /description|narrative|details|merchant|payee|particulars/i,
+  amount: /^(transaction )?amount( \(.*\))?$/i,
+  // "Credit Card" / "Debit Card" columns hold card numbers, not amounts
+  debit: /debit(?! ?card)|withdrawal|money out|paid out/i,
+  credit: /credit(?! ?card)|deposit|money in|paid in/i,
+  currency: /^(currency|ccy)$/i,
+  card: /card/i,
+  reference: /reference|ref\.?$/i
+};
+
+/**
+ * A single amount column that never prints a negative (or DR) value lists spend as positive
+ * numbers; one with negatives lists spend as negatives, which is also the default without rows.
+ */
+const detectDebitSign = (values: string[]): NonNullable<StatementTemplate['debit_sign']> => {
+  const parsed = values.map(v => parseStatementAmount(v)).filter((v): v is number => v !== null && v !== 0);
+  return parsed.length > 0 && parsed.every(v => v > 0) ? 'positive' : 'negative';
+};
+
+/**
+ * Builds a template from common header names so plain exports import without setup, reading the
+ * data rows (when given) to tell how a single amount column prints spend.
+ * Returns null when the date, description and amount columns cannot all be identified.
+ */
+export const guessCsvTemplate = (header: string[], bankName = '', rows: string[][] = []): StatementTemplate | null => {
+  const pick = (key: keyof StatementTemplate['columns']) => header.find(h => HEADER_GUESSES[key].test(h));
+  const columns = {
+    date: pick('date') || '',
+    description: pick('description') || '',
+    amount: pick('amount'),
+    debit: pick('debit'),
+    credit: pick('credit'),
+    currency: pick('currency'),
+    card: pick('card'),
+    reference: pick('reference')
+  };
+  if (!columns.date || !columns.description || (!columns.amount && !columns.debit)) return null;
+  const amountIdx = columns.amount ? header.indexOf(columns.amount) : -1;
+  const debit_sign = detectDebitSign(amountIdx >= 0 ? rows.map(cells => cells[amountIdx] || '') : []);
+  return { id: 'auto', bank_name: bankName, columns, debit_sign };
+};
+
+export const parseCSV = (text: string, template: StatementTemplate): StatementRow[] => {
+  const { header, rows } = readCsv(text, template);
+  const col = (name?: string) => (name ? header.findIndex(h => h.toLowerCase() === name.toLowerCase()) : -1);
+  const idx = {
+    date: col(template.columns.date),
+    description: col(template.columns.description),
+    amount: col(template.columns.amount),
+    debit: col(template.columns.debit),
+    credit: col(template.columns.credit),
+    currency: col(template.columns.currency),
+    card: col(template.columns.card),
+    reference: col(template.columns.reference)
+  };
+  if (idx.date < 0 || idx.description < 0 || (idx.amount < 0 && idx.debit < 0)) return [];
+  const decimal = template.decimal_separator || '.';
+
+  return rows.map(cells => {
+    const date = parseStatementDate(cells[idx.date], template.date_format);
+    if (!date) return null; // Totals, balances and footer lines
+
+    let signed: number | null;
+    if (idx.amount >= 0) {
+      const value = parseStatementAmount(cells[idx.amount], decimal);
+      // A CR/DR marker states the direction outright, whatever the column's convention
+      signed = value !== null && template.debit_sign === 'positive' && !CR_DR_MARKER.test(cells[idx.amount] || '') ? -value : value;
+    } else {
+      const debit = parseStatementAmount(cells[idx.debit], decimal);
+      const credit = idx.credit >= 0 ? parseStatementAmount(cells[idx.credit], decimal) : null;
+      signed = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+    }
+    if (signed === null || signed === 0) return null;
+
+    return {
+      date,
+      description: cells[idx.description] || '',
+      // Normalised so that negative = money out, positive = money back
+      amount: Math.abs(signed),
+      direction: signed < 0 ? 'debit' : 'credit',
+      currency: (idx.currency >= 0 && cells[idx.currency]) || template.default_currency || 'AED',
+      reference: idx.reference >= 0 ? cells[idx.reference] || undefined : undefined,
+      card_digits: idx.card >= 0 ? cells[idx.card]?.replace(/\D/g, '').slice(-4) || undefined : undefined
+    } as StatementRow;
+  }).filter(Boolean) as StatementRow[];
+};
+
+// --- ENTRY POINT ---
+/**
+ * Parses a text statement natively. Returns null when the format is not recognised
+ * (or a CSV has no usable template) so the caller can fall back to the AI extractor.
+ */
+export const importStatement = (text: string, fileName: string, bankName = '', templates: StatementTemplate[] = []): StatementImport | null => {
+  const format = detectStatementFormat(text, fileName);
+  if (format === 'ofx') return { format, rows: parseOFX(text) };
+  if (format === 'mt940') return { format, rows: parseMT940(text) };
+  if (format === 'camt053') return { format, rows: parseCAMT053(text) };
+  if (format === 'csv') {
+    const csv = readCsv(text);
+    const template = templates.find(t => t.bank_name.toLowerCase() === bankName.toLowerCase()) || guessCsvTemplate(csv.header, bankName, csv.rows);
+    if (!template) return null;
+    const rows = parseCSV(text, template);
+    return rows.length > 0 ? { format, rows, template } : null;
+  }
+  return null;
+};
+
+export const statementRowsToExpenses = (rows: StatementRow[], bankName?: string): Expense[] => {
+  const stamp = Date.now();
+  return rows.map((row, index) => ({
+    id: `bank_statement-${stamp}-native-${index}`,
+    merchant: row.description || 'Unknown',
+    amount: row.amount,
+    currency: row.currency.toUpperCase(),
+    date: row.date,
+    category: 'General',
+    description: `${bankName || 'BANK'} TRANSACTION`,
+    bank: bankName,
+    source: 'bank_statement',
+    confidence: 1.0,
+    created_at: new Date().toISOString(),
+    card_digits: row.card_digits || '',
+    transaction_type: row.direction === 'credit' ? (row.reversal ? 'reversal' : 'credit') : 'debit',
+    transaction_reference: row.reference
+  }));
+};
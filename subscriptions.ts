@@ -0,0 +1,247 @@
+import { Expense, MerchantAlias, Subscription, SubscriptionCadence } from './types';
+import { isAnchor, isCredit, resolveMerchant, merchantSimilarity, daysBetween } from './reconciliationEngine';
+
+/**
+ * SUBSCRIPTIONS
+ * Telecom, SaaS and parking charges land on the same card every period. The detector finds
+ * merchant/amount patterns across statements; once an admin confirms one (expected amount,
+ * cadence, optionally a standing contract) each regular charge is covered and no longer needs
+ * a receipt. Missed, duplicated and price-changed occurrences are flagged instead.
+ */
+
+export const DEFAULT_SUBSCRIPTION_TOLERANCE = 5;
+
+const AMOUNT_SPREAD = 0.1;        // Detection: charges within 10% of the typical amount
+const MISSED_GRACE_DAYS = 7;      // Card posting lag before a due charge counts as missed
+
+export const CADENCE_LABELS: Record<SubscriptionCadence, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annual: 'Annual'
+};
+
+// Nominal period and the gap range (days) that still reads as that cadence
+const CADENCES: Record<SubscriptionCadence, { days: number; min: number; max: number; occurrences: number }> = {
+  weekly: { days: 7, min: 5, max: 9, occurrences: 4 },
+  monthly: { days: 30, min: 26, max: 35, occurrences: 3 },
+  quarterly: { days: 91, min: 80, max: 100, occurrences: 3 },
+  annual: { days: 365, min: 350, max: 380, occurrences: 2 }
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const lastFour = (digits?: string) => (digits || '').replace(/\D/g, '').slice(-4);
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+// Calendar-aware: a subscription billed on the 31st falls on the last day of shorter months
+const addCadence = (start: string, cadence: SubscriptionCadence, n: number) => {
+  if (cadence === 'weekly') return shiftDate(start, 7 * n);
+  const months = n * (cadence === 'monthly' ? 1 : cadence === 'quarterly' ? 3 : 12);
+  const [y, m, d] = start.split('-').map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().slice(0, 10);
+};
+
+/**
+ * Grouping key for statement descriptors: the canonical merchant when the alias registry knows
+ * it, otherwise the leading words with store numbers and references stripped.
+ */
+export const recurringKey = (merchant: string, aliases: MerchantAlias[] = []) => {
+  const canonical = resolveMerchant(merchant, aliases);
+  if (canonical) return canonical.toLowerCase();
+  return (merchant || '').toLowerCase().replace(/[^a-z& ]+/g, ' ').replace(/\s+/g, ' ').trim().split(' ').slice(0, 2).join(' ');
+};
+
+export const subscriptionMatches = (sub: Subscription, exp: Expense, aliases: MerchantAlias[] = []) =>
+  isAnchor(exp) &&
+  !isCredit(exp) &&
+  (exp.currency || '').toUpperCase() === sub.currency.toUpperCase() &&
+  (!sub.card_digits || lastFour(exp.card_digits || exp.card_last_4) === lastFour(sub.card_digits)) &&
+  (recurringKey(exp.merchant, aliases) === recurringKey(sub.merchant, aliases) || merchantSimilarity(exp.merchant, sub.merchant, aliases) >= 0.85);
+
+const withinTolerance = (sub: Subscription, amount: number) =>
+  Math.abs(Math.abs(amount) - sub.amount) <= sub.amount * (sub.tolerance_percent ?? DEFAULT_SUBSCRIPTION_TOLERANCE) / 100;
+
+// --- DETECTION ---
+
+export interface RecurringCandidate {
+  key: string;
+  merchant: string;          // Canonical merchant, else the most frequent descriptor
+  currency: string;
+  amount: number;            // Typical (median) charge
+  cadence: SubscriptionCadence;
+  occurrences: Expense[];
+  first_date: string;
+  last_date: string;
+  card_digits?: string;      // Set when every occurrence used the same card
+  category?: string;
+  variable: boolean;         // Amounts drift beyond the default tolerance (metered bills)
+}
+
+/**
+ * Scans statement debits for charges that repeat at a regular cadence with a stable amount.
+ * Merchants already covered by a confirmed subscription are not offered again.
+ */
+export const detectRecurring = (
+  expenses: Expense[],
+  subscriptions: Subscription[] = [],
+  aliases: MerchantAlias[] = []
+): RecurringCandidate[] => {
+  const groups = new Map<string, Expense[]>();
+  expenses.filter(e => isAnchor(e) && !isCredit(e)).forEach(e => {
+    const key = `${recurringKey(e.merchant, aliases)}|${(e.currency || '').toUpperCase()}`;
+    groups.set(key, [...(groups.get(key) || []), e]);
+  });
+
+  const candidates: RecurringCandidate[] = [];
+  groups.forEach((rows, key) => {
+    if (rows.length < 2) return;
+    if (subscriptions.some(s => rows.some(r => subscriptionMatches(s, r, aliases)))) return;
+
+    const typical = median(rows.map(r => Math.abs(r.amount)));
+    const similar = rows
+      .filter(r => Math.abs(Math.abs(r.amount) - typical) <= typical * AMOUNT_SPREAD)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    // Same-day repeats are duplicates, not a cadence
+    const dates = Array.from(new Set(similar.map(r => r.date)));
+    if (dates.length < 2) return;
+
+    const gaps = dates.slice(1).map((d, i) => daysBetween(dates[i], d));
+    const gap = median(gaps);
+    const cadence = (Object.keys(CADENCES) as SubscriptionCadence[]).find(c => gap >= CADENCES[c].min && gap <= CADENCES[c].max);
+    if (!cadence || dates.length < CADENCES[cadence].occurrences) return;
+
+    // Most gaps must fit the cadence. Skipped periods (two or three times the gap) are tolerated;
+    // a repeat inside one period is a duplicate charge, not evidence against the pattern.
+    const { min, max } = CADENCES[cadence];
+    const spacings = gaps.filter(g => g >= min / 2);
+    const regular = spacings.filter(g => [1, 2, 3].some(k => g >= k * min && g <= k * max)).length;
+    if (regular < spacings.length * 0.75) return;
+
+    const descriptorCounts = similar.reduce((acc: Record<string, number>, r) => {
+      acc[r.merchant] = (acc[r.merchant] || 0) + 1;
+      return acc;
+    }, {});
+    const cards = Array.from(new Set(similar.map(r => lastFour(r.card_digits || r.card_last_4)).filter(Boolean)));
+    const amount = median(similar.map(r => Math.abs(r.amount)));
+
+    candidates.push({
+      key,
+      merchant: resolveMerchant(similar[0].merchant, aliases) || Object.entries(descriptorCounts).sort((a, b) => b[1] - a[1])[0][0],
+      currency: (similar[0].currency || '').toUpperCase(),
+      amount,
+      cadence,
+      occurrences: similar,
+      first_date: dates[0],
+      last_date: dates[dates.length - 1],
+      card_digits: cards.length === 1 ? cards[0] : undefined,
+      category: similar[similar.length - 1].category,
+      variable: similar.some(r => Math.abs(Math.abs(r.amount) - amount) > amount * DEFAULT_SUBSCRIPTION_TOLERANCE / 100)
+    });
+  });
+
+  return candidates.sort((a, b) => b.occurrences.length - a.occurrences.length);
+};
+
+// --- MONITORING ---
+
+export type OccurrenceStatus = 'ok' | 'missed' | 'duplicated' | 'price_changed' | 'upcoming';
+
+export interface SubscriptionOccurrence {
+  due_date: string;
+  status: OccurrenceStatus;
+  charges: Expense[];
+  message?: string;
+}
+
+export const expectedDates = (sub: Subscription, from: string, to: string) => {
+  const dates: string[] = [];
+  for (let n = 0; n < 2000; n++) {
+    const due = addCadence(sub.start_date, sub.cadence, n);
+    if (due > to || (sub.end_date && due > sub.end_date)) break;
+    if (due >= from) dates.push(due);
+  }
+  return dates;
+};
+
+/**
+ * Lays each charge against its nearest due date (within half a period) and grades every
+ * occurrence due between from and to.
+ */
+export const auditSubscription = (
+  sub: Subscription,
+  expenses: Expense[],
+  aliases: MerchantAlias[] = [],
+  from: string,
+  to: string,
+  asOf: string = new Date().toISOString().slice(0, 10)
+): SubscriptionOccurrence[] => {
+  const half = CADENCES[sub.cadence].days / 2;
+  const dues = expectedDates(sub, from, to);
+  const charges = expenses.filter(e => subscriptionMatches(sub, e, aliases) && e.date >= shiftDate(from, -half) && e.date <= shiftDate(to, half));
+
+  const assigned = new Map<string, Expense[]>(dues.map(d => [d, []]));
+  charges.forEach(c => {
+    const nearest = dues.reduce<string | null>((best, d) => (best === null || daysBetween(c.date, d) < daysBetween(c.date, best) ? d : best), null);
+    if (nearest && daysBetween(c.date, nearest) <= half) assigned.get(nearest)!.push(c);
+  });
+
+  const money = (amount: number) => `${sub.currency} ${amount.toFixed(2)}`;
+  return dues.map(due => {
+    const found = assigned.get(due)!.sort((a, b) => a.date.localeCompare(b.date));
+    if (found.length === 0) {
+      const overdue = shiftDate(due, Math.min(MISSED_GRACE_DAYS, half)) < asOf;
+      return overdue
+        ? { due_date: due, status: 'missed' as const, charges: found, message: `No ${money(sub.amount)} charge around ${due}` }
+        : { due_date: due, status: 'upcoming' as const, charges: found };
+    }
+    if (found.length > 1) {
+      return { due_date: due, status: 'duplicated' as const, charges: found, message: `${found.length} charges in one ${sub.cadence} period (${found.map(c => money(Math.abs(c.amount))).join(' + ')})` };
+    }
+    if (!withinTolerance(sub, found[0].amount)) {
+      return { due_date: due, status: 'price_changed' as const, charges: found, message: `Charged ${money(Math.abs(found[0].amount))}, expected ${money(sub.amount)}` };
+    }
+    return { due_date: due, status: 'ok' as const, charges: found };
+  });
+};
+
+export const isFlagged = (o: SubscriptionOccurrence) => o.status === 'missed' || o.status === 'duplicated' || o.status === 'price_changed';
+
+/**
+ * Statement lines that a confirmed subscription stands in for, keyed by anchor id. Only a
+ * regular charge is covered: the first in-tolerance charge of a duplicated period is, the
+ * repeat and any price-changed charge still need a receipt. A contract with a valid_until
+ * date covers nothing charged after it.
+ */
+export const subscriptionCoverage = (
+  subscriptions: Subscription[],
+  expenses: Expense[],
+  aliases: MerchantAlias[] = [],
+  from: string,
+  to: string
+): Map<string, Subscription> => {
+  const covered = new Map<string, Subscription>();
+  subscriptions.forEach(sub => {
+    // Widen by a period so charges at the edges still meet their own due date
+    const pad = CADENCES[sub.cadence].days;
+    auditSubscription(sub, expenses, aliases, shiftDate(from, -pad), shiftDate(to, pad)).forEach(o => {
+      const regular = o.status === 'ok' || o.status === 'duplicated' ? o.charges.find(c => withinTolerance(sub, c.amount)) : undefined;
+      if (!regular || covered.has(regular.id)) return;
+      if (sub.contract?.valid_until && regular.date > sub.contract.valid_until) return;
+      covered.set(regular.id, sub);
+    });
+  });
+  return covered;
+};
@@ -0,0 +1,305 @@
+import { Expense, HomeBase, PartialDayRule, TravelLog, Trip, TripLeg, TripStop } from './types';
+import { homeBaseOn, isAtHomeBase, normalizeCountry } from './residency';
+
+/**
+ * TRIPS
+ * A trip opens with the first flight away from the traveller's home base, takes every onward
+ * flight as another leg and stop, and closes on the flight back home. Hotel stays join the trip
+ * and stop they fall in; stays with no flight around them chain into trips of their own.
+ * The integration sweep persists trips; one the traveller has edited is locked so the sweep
+ * keeps its pairings, and expenses join a trip through Expense.travel_log_id.
+ */
+
+// Hand-edited trips and trips with a per diem decision keep their pairings through the sweep
+export const isTripPinned = (trip: Trip) => !!trip.locked || !!trip.per_diem;
+
+export type TripDraft = Omit<Trip, 'id'>;
+
+const legDate = (log: TravelLog) => log.departure_date || log.start_date;
+
+const stayEnd = (log: TravelLog) => (log.end_date && log.end_date > log.start_date ? log.end_date : log.start_date);
+
+const legAtHome = (leg: TripLeg, homeBases?: HomeBase[]) =>
+  isAtHomeBase(leg.to_country, leg.to_city, homeBaseOn(homeBases, leg.date));
+
+/**
+ * Flights as legs in travel order. A round trip captured in one document yields its return leg
+ * too, unless the sweep already bridged it to the separate return flight.
+ */
+export const flightLegs = (logs: TravelLog[], homeBases?: HomeBase[]): TripLeg[] => logs
+  .filter(l => l.travel_type === 'flight' && legDate(l))
+  .flatMap(l => {
+    const date = legDate(l);
+    const legs: TripLeg[] = [{
+      log_id: l.id,
+      date,
+      from_country: l.origin_country || undefined,
+      from_city: l.origin_city || undefined,
+      to_country: l.destination_country,
+      to_city: l.destination_city || undefined,
+      flight_number: l.flight_number || undefined
+    }];
+    if (l.return_date && l.return_date > date && !l.return_flight_id) {
+      legs.push({
+        log_id: l.id,
+        date: l.return_date,
+        from_country: l.destination_country,
+        from_city: l.destination_city || undefined,
+        to_country: l.origin_country || homeBaseOn(homeBases, l.return_date).country,
+        to_city: l.origin_city || undefined,
+        return_leg: true
+      });
+    }
+    return legs;
+  })
+  .sort((a, b) => a.date.localeCompare(b.date) || Number(!!a.return_leg) - Number(!!b.return_leg));
+
+/**
+ * Lays out one set of logs as a single trip, whatever the pairing: legs in order, a stop after
+ * every leg that does not land at home, and each stay under the stop it falls in.
+ */
+export const assembleTrip = (userId: string, logs: TravelLog[], homeBases?: HomeBase[]): TripDraft => {
+  const legs = flightLegs(logs, homeBases);
+  const hotels = logs.filter(l => l.travel_type === 'accommodation').sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+  const stops: TripStop[] = [];
+  legs.forEach(leg => {
+    const last = stops[stops.length - 1];
+    if (last && !last.departure) last.departure = leg.date;
+    if (!legAtHome(leg, homeBases)) stops.push({ country: leg.to_country, city: leg.to_city, arrival: leg.date, hotel_log_ids: [] });
+  });
+
+  hotels.forEach(h => {
+    const country = normalizeCountry(h.destination_country || h.destination_city);
+    const during = stops.filter(s => s.arrival <= h.start_date && (!s.departure || h.start_date <= s.departure));
+    const stop = during.find(s => normalizeCountry(s.country) === country) || during[0];
+    if (stop) {
+      stop.hotel_log_ids.push(h.id);
+      return;
+    }
+    // No flight took the traveller there: the stay is a stop of its own
+    const chained = stops.find(s => s.departure && h.start_date <= s.departure && normalizeCountry(s.country) === country && s.hotel_log_ids.length > 0);
+    if (chained) {
+      chained.hotel_log_ids.push(h.id);
+      if (stayEnd(h) > chained.departure!) chained.departure = stayEnd(h);
+      return;
+    }
+    stops.push({ country: h.destination_country, city: h.destination_city || undefined, arrival: h.start_date, departure: stayEnd(h), hotel_log_ids: [h.id] });
+  });
+  stops.sort((a, b) => a.arrival.localeCompare(b.arrival));
+
+  const starts = [legs[0]?.date, hotels[0]?.start_date].filter(Boolean) as string[];
+  const lastLeg = legs[legs.length - 1];
+  const end_date = legs.length === 0
+    ? hotels.map(stayEnd).sort().pop()
+    : lastLeg && legAtHome(lastLeg, homeBases) ? lastLeg.date : undefined;
+
+  return {
+    user_id: userId,
+    start_date: starts.sort()[0] || '',
+    end_date,
+    legs,
+    stops,
+    hotel_log_ids: hotels.map(h => h.id),
+    status: end_date ? 'complete' : 'open'
+  };
+};
+
+/**
+ * Partitions one traveller's logs into trips. Flights are grouped from departure to the next
+ * landing at home; each stay joins the trip whose dates cover its check-in.
+ */
+export const buildTrips = (userId: string, logs: TravelLog[], homeBases?: HomeBase[]): TripDraft[] => {
+  const byId = new Map(logs.map(l => [l.id, l]));
+  const groups: { logs: TravelLog[]; start: string; end?: string }[] = [];
+  const assigned = new Set<string>();
+  let open: (typeof groups)[number] | null = null;
+
+  for (const leg of flightLegs(logs, homeBases)) {
+    const log = byId.get(leg.log_id)!;
+    // The return half of a round trip stays with its outbound
+    if (assigned.has(log.id) && !open?.logs.includes(log)) continue;
+    if (!open) {
+      open = { logs: [], start: leg.date };
+      groups.push(open);
+    }
+    if (!assigned.has(log.id)) {
+      open.logs.push(log);
+      assigned.add(log.id);
+    }
+    if (legAtHome(leg, homeBases)) {
+      open.end = leg.date;
+      open = null;
+    }
+  }
+
+  const chains: { logs: TravelLog[]; end: string }[] = [];
+  logs
+    .filter(l => l.travel_type === 'accommodation')
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))
+    .forEach(h => {
+      const group = groups.find(g => g.start <= h.start_date && (!g.end || h.start_date <= g.end));
+      if (group) {
+        group.logs.push(h);
+        return;
+      }
+      const chain = chains[chains.length - 1];
+      if (chain && h.start_date <= chain.end) {
+        chain.logs.push(h);
+        if (stayEnd(h) > chain.end) chain.end = stayEnd(h);
+        return;
+      }
+      chains.push({ logs: [h], end: stayEnd(h) });
+    });
+
+  return [...groups, ...chains]
+    .map(g => assembleTrip(userId, g.logs, homeBases))
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+};
+
+export const tripLogIds = (trip: Pick<Trip, 'legs' | 'hotel_log_ids'>) =>
+  Array.from(new Set([...trip.legs.map(l => l.log_id), ...trip.hotel_log_ids]));
+
+export const tripLogs = (trip: Pick<Trip, 'legs' | 'hotel_log_ids'>, logs: TravelLog[]) => {
+  const ids = tripLogIds(trip);
+  return logs.filter(l => ids.includes(l.id));
+};
+
+// Expenses linked to the trip itself or to one of its flights or stays
+export const tripExpenses = (trip: Trip, expenses: Expense[]) => {
+  const ids = tripLogIds(trip);
+  return expenses.filter(e => e.travel_log_id && (e.travel_log_id === trip.id || ids.includes(e.travel_log_id)));
+};
+
+// Last date the trip is known to cover: its return, else the latest leg or check-out
+export const tripEndDate = (trip: Trip) =>
+  trip.end_date || [trip.start_date, ...trip.legs.map(l => l.date), ...trip.stops.map(s => s.departure || s.arrival)].sort().pop()!;
+
+export const tripDays = (trip: Trip) =>
+  Math.max(1, Math.round((new Date(tripEndDate(trip)).getTime() - new Date(trip.start_date).getTime()) / 86400000) + 1);
+
+const daysBetween = (from: string, to: string) =>
+  Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86400000));
+
+export interface StopDays extends TripStop {
+  until: string;        // Departure, or the last date the open trip covers
+  days: number;
+  flight_number?: string; // Of the leg that arrived there
+}
+
+/**
+ * Days spent at each stop under the residency partial-day rule: with 'midnight' the arrival day
+ * counts and the departure day goes to wherever the traveller sleeps next; 'any_presence' counts
+ * both; 'exclude_travel_days' drops both border-crossing days. A same-day connection scores zero
+ * under the last two.
+ */
+export const tripStopDays = (trip: Trip, rule: PartialDayRule = 'midnight'): StopDays[] => {
+  const end = tripEndDate(trip);
+  return trip.stops.map(stop => {
+    const until = stop.departure || end;
+    const leg = trip.legs.find(l => l.date === stop.arrival && normalizeCountry(l.to_country) === normalizeCountry(stop.country));
+    const nights = daysBetween(stop.arrival, until);
+    // Still there at the end of an open trip: that night is spent at the stop
+    const stillThere = !stop.departure;
+    const travelDates = new Set([...(leg ? [stop.arrival] : []), ...(stillThere ? [] : [until])]);
+    const days = rule === 'any_presence' ? nights + 1
+      : rule === 'midnight' ? nights + (stillThere ? 1 : 0)
+        : Math.max(0, nights + 1 - travelDates.size);
+    return { ...stop, until, days, flight_number: leg?.flight_number };
+  });
+};
+
+// Stop days summed per country, in the order the trip first reached each one
+export const tripCountryDays = (trip: Trip, rule: PartialDayRule = 'midnight') => {
+  const byCountry: Record<string, { country: string; days: number; stops: number }> = {};
+  tripStopDays(trip, rule).forEach(stop => {
+    const country = normalizeCountry(stop.country) || stop.country;
+    const entry = byCountry[country] || (byCountry[country] = { country, days: 0, stops: 0 });
+    entry.days += stop.days;
+    entry.stops += 1;
+  });
+  return Object.values(byCountry);
+};
+
+export const tripRoute = (trip: Trip) =>
+  Array.from(new Set(trip.stops.map(s => s.city || s.country))).join(' → ') || 'Unplaced trip';
+
+// --- PERSISTENCE ---
+
+export interface TripChanges {
+  create: TripDraft[];
+  update: Trip[];
+  remove: string[];
+}
+
+const structureKey = (trip: TripDraft) => JSON.stringify([
+  trip.start_date,
+  trip.end_date || null,
+  trip.status,
+  trip.legs.map(l => [l.log_id, l.date, !!l.return_leg, l.to_country]),
+  trip.stops.map(s => [s.country, s.arrival, s.departure || null, s.hotel_log_ids]),
+  trip.hotel_log_ids
+]);
+
+/**
+ * Lines freshly built trips up with the stored unlocked ones (greatest shared log count wins),
+ * so a regrouping keeps each trip's id, title, purpose and project. Pinned trips are never
+ * touched; their logs should be left out of the build.
+ */
+export const reconcileTrips = (existing: Trip[], built: TripDraft[]): TripChanges => {
+  const pool = existing.filter(t => !isTripPinned(t));
+  const taken = new Set<string>();
+  const changes: TripChanges = { create: [], update: [], remove: [] };
+
+  built.forEach(draft => {
+    const ids = tripLogIds(draft);
+    const match = pool
+      .filter(t => !taken.has(t.id))
+      .map(t => ({ trip: t, shared: tripLogIds(t).filter(id => ids.includes(id)).length }))
+      .filter(m => m.shared > 0)
+      .sort((a, b) => b.shared - a.shared)[0]?.trip;
+
+    if (!match) {
+      changes.create.push(draft);
+      return;
+    }
+    taken.add(match.id);
+    if (structureKey(match) !== structureKey(draft)) {
+      changes.update.push({ ...match, ...draft, id: match.id, title: match.title, purpose: match.purpose, project: match.project });
+    }
+  });
+
+  pool.filter(t => !taken.has(t.id)).forEach(t => changes.remove.push(t.id));
+  return changes;
+};
+
+export const NEW_TRIP = 'new';
+
+/**
+ * Applies hand-made pairings: each log id in moves goes to the named trip, or to one new trip
+ * for NEW_TRIP. Every trip that gains or loses a log is laid out again and locked; a trip left
+ * without logs is removed.
+ */
+export const moveTripLogs = (
+  trips: Trip[],
+  moves: Record<string, string>,
+  logs: TravelLog[],
+  homeBases?: HomeBase[]
+): TripChanges => {
+  const changes: TripChanges = { create: [], update: [], remove: [] };
+  const affected = new Set(Object.values(moves));
+  trips.forEach(t => { if (tripLogIds(t).some(id => id in moves)) affected.add(t.id); });
+
+  trips.filter(t => affected.has(t.id)).forEach(t => {
+    const own = logs.filter(l => (l.id in moves ? moves[l.id] === t.id : tripLogIds(t).includes(l.id)));
+    if (own.length === 0) {
+      changes.remove.push(t.id);
+      return;
+    }
+    changes.update.push({ ...t, ...assembleTrip(t.user_id, own, homeBases), locked: true });
+  });
+
+  const split = logs.filter(l => moves[l.id] === NEW_TRIP);
+  if (split.length > 0) changes.create.push({ ...assembleTrip(split[0].user_id || trips[0]?.user_id || '', split, homeBases), locked: true });
+  return changes;
+};
@@ -38,6 +38,7 @@ export interface TravelLog {
   provider_name: string; // Airline or Hotel
   travel_type: 'flight' | 'accommodation';
   reference_number?: string;
+  flight_number?: string; // One leg per flight log
   guest_name?: string; // For hotels
   notes?: string;
 
@@ -53,12 +54,313 @@ export interface TravelLog {
   uploaded_at?: string;
   updated_at?: string;
 
+  policy_violations?: PolicyViolation[];
+
   // Shared Pool Audit
   usage_history?: UsageLog[];
   reconciled_by?: string;
   reconciled_at?: string;
 }
 
+// Where and how confidently a single extracted field was read
+export interface FieldProvenance {
+  confidence: number; // 0-1
+  snippet?: string;   // Printed text the value came from
+  page?: number;
+  region?: string;
+}
+
+export interface ExpenseLineItem {
+  description: string;
+  quantity: number;
+  unit_price: number;   // Net of tax
+  tax_rate?: number;    // Percent, e.g. 5 for UAE VAT
+  tax_amount?: number;  // Line tax; derived from tax_rate when missing
+  category?: string;    // Overrides the expense category for this line (drives category splits)
+}
+
+export type ReimbursementStatus = 'Pending' | 'Not Needed' | 'Claimed' | 'Approved' | 'Rejected' | 'Paid';
+
+export type ClaimStatus = 'submitted' | 'approved' | 'partially_approved' | 'rejected' | 'paid';
+
+export type ClaimLineStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ClaimLine {
+  expense_id: string;
+  collection: 'expenses' | 'telegram_receipts';
+  merchant: string;
+  date: string;
+  amount: number;
+  currency: string;
+  category: string;
+  status: ClaimLineStatus;
+  comment?: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+}
+
+export interface ClaimStatusChange {
+  status: ClaimStatus;
+  at: string;
+  by: string;
+  note?: string;
+}
+
+export interface ReimbursementClaim {
+  id: string;
+  user_id: string;            // Employee the claim is owed to
+  title: string;
+  lines: ClaimLine[];
+  status: ClaimStatus;
+  history: ClaimStatusChange[];
+  approval?: ApprovalState;   // Absent when no approval chain was configured at submission
+  payout_reference?: string;
+  paid_at?: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+// One flight of a trip, in travel order
+export interface TripLeg {
+  log_id: string;
+  date: string;
+  from_country?: string;
+  from_city?: string;
+  to_country: string;
+  to_city?: string;
+  flight_number?: string;
+  return_leg?: boolean;      // Return half of a round-trip document
+}
+
+// Where the traveller stayed between two legs
+export interface TripStop {
+  country: string;
+  city?: string;
+  arrival: string;
+  departure?: string;        // Date of the next leg; unset while still there
+  hotel_log_ids: string[];
+}
+
+export type TripStatus = 'open' | 'complete';
+
+export interface Trip {
+  id: string;
+  user_id: string;
+  title?: string;
+  purpose?: string;
+  project?: string;          // Company project, as on expense allocations
+  start_date: string;
+  end_date?: string;         // Back at home base
+  legs: TripLeg[];
+  stops: TripStop[];
+  hotel_log_ids: string[];   // Every stay on the trip, whether or not a stop claims it
+  status: TripStatus;
+  locked?: boolean;          // Edited by hand; the integration sweep keeps its pairings
+  provided_meals?: Record<string, PerDiemMeal[]>; // YYYY-MM-DD -> meals paid by the company or host
+  per_diem?: TripPerDiem;    // Admin decision; absent while the allowance awaits review
+  created_at?: string;
+  updated_at?: string;
+  updated_by?: string;
+}
+
+// One entry in an employee's home-base history (authorized_users.home_bases)
+export interface HomeBase {
+  country: string;
+  cities: string[];
+  effective_from: string;           // YYYY-MM-DD; applies to trips from this date until the next entry
+  set_by?: string;
+  set_at?: string;
+}
+
+// Profile document in authorized_users, keyed by auth uid
+export interface AuthorizedUser {
+  uid: string;
+  email: string;
+  role: 'admin' | 'employee' | 'pending';
+  manager_email?: string;
+  home_bases?: HomeBase[];
+  createdAt?: string;
+  updated_at?: string;
+}
+
+export type PerDiemMeal = 'breakfast' | 'lunch' | 'dinner';
+
+export type PerDiemDayType = 'departure' | 'full' | 'return' | 'day_trip';
+
+// One day of a trip's allowance
+export interface PerDiemDay {
+  date: string;
+  country: string;
+  city?: string;
+  day_type: PerDiemDayType;
+  rate?: number;             // Full daily rate; unset when the table has no row for the place
+  currency?: string;
+  percent: number;           // Share of the rate paid for this kind of day
+  meals_provided: PerDiemMeal[];
+  deduction: number;
+  amount: number;
+}
+
+export type PerDiemStatus = 'approved' | 'rejected';
+
+export interface TripPerDiem {
+  status: PerDiemStatus;
+  days: PerDiemDay[];        // Entitlement as it stood when decided
+  decided_by: string;
+  decided_at: string;
+  note?: string;
+}
+
+// Daily allowance for a destination; a row without a city covers the rest of the country
+export interface PerDiemRate {
+  id: string;
+  country: string;
+  city?: string;
+  currency: string;
+  daily_rate: number;
+}
+
+export interface PerDiemSettings {
+  rates: PerDiemRate[];
+  departure_day_percent: number;                  // Share of the rate paid on the outbound day
+  return_day_percent: number;                     // And on the day back at the home base
+  meal_deductions: Record<PerDiemMeal, number>;   // Percent of the full rate per provided meal
+}
+
+// How a day with a border crossing is counted: in every country touched, only where the
+// traveller is at midnight, or in neither
+export type PartialDayRule = 'any_presence' | 'midnight' | 'exclude_travel_days';
+export type ResidencyWindowType = 'calendar' | 'fiscal' | 'rolling';
+
+export interface ResidencySettings {
+  home_country: string;             // Default for employees without a home base on their profile
+  window: ResidencyWindowType;
+  fiscal_start_month?: number;      // 1-12, for 'fiscal' windows
+  partial_day_rule: PartialDayRule;
+  threshold_days?: number;          // Presence test (default 183)
+}
+
+export type BudgetPeriod = 'month' | 'quarter';
+
+export type BudgetDimension = 'category' | 'project' | 'employee';
+
+export interface Budget {
+  id: string;
+  dimension: BudgetDimension;
+  target: string;           // Expense head, company_project or employee email
+  period: BudgetPeriod;
+  amount: number;           // Reporting currency, per period
+  alert_percent?: number;   // Alert once actuals cross this share of the budget (default 80)
+}
+
+export type PolicySeverity = 'info' | 'warning' | 'critical';
+
+export type PolicyRuleType = 'hotel_nightly_cap' | 'meal_per_person' | 'weekend_spend' | 'alcohol' | 'receipt_required';
+
+export interface PolicyRule {
+  id: string;
+  type: PolicyRuleType;
+  name: string;
+  severity: PolicySeverity;
+  enabled: boolean;
+  amount?: number;          // Cap / threshold in the reporting currency
+  city?: string;            // hotel_nightly_cap: only stays in this city (blank = any city)
+  weekend_days?: number[];  // weekend_spend: 0 = Sunday ... 6 = Saturday
+  categories?: string[];    // Restrict the rule to these expense heads (blank = rule default)
+}
+
+export interface PolicyViolation {
+  rule_id: string;
+  rule_name: string;
+  type: PolicyRuleType;
+  severity: PolicySeverity;
+  message: string;
+  detected_at: string;
+  justification?: string;   // Employee / reviewer explanation, closes the violation
+  justified_by?: string;
+  justified_at?: string;
+}
+
+// One configurable step of the company approval chain
+export interface ApprovalStep {
+  id: string;
+  label: string;                        // e.g. "Line Manager", "Finance", "CFO"
+  approver: 'line_manager' | string;    // 'line_manager' resolves per submitter; anything else is an email
+  min_amount?: number;                  // Reporting currency; step is skipped below this
+  travel_only?: boolean;                // Only when the submission contains mandatory travel spend
+}
+
+// Approver away: decisions may be taken by the delegate between start and end (inclusive)
+export interface ApprovalDelegation {
+  id: string;
+  from: string;
+  to: string;
+  start: string;   // YYYY-MM-DD
+  end: string;     // YYYY-MM-DD
+  note?: string;
+}
+
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export interface ApprovalChainStep {
+  step_id: string;
+  label: string;
+  approver: string;
+  status: 'waiting' | 'pending' | ApprovalDecision;
+}
+
+export interface ApprovalEvent {
+  step_id: string;
+  label: string;
+  decision: ApprovalDecision;
+  by: string;
+  on_behalf_of?: string;   // Set when a delegate acted for the assigned approver
+  at: string;
+  comment?: string;
+}
+
+export interface ApprovalState {
+  status: 'pending' | ApprovalDecision;
+  submitter: string;             // Never an approver or delegate on any step of their own claim
+  steps: ApprovalChainStep[];
+  current_step: number;          // Index into steps, -1 once settled
+  current_approvers: string[];   // Assigned approver plus active delegates; enforced by Firestore rules
+  history: ApprovalEvent[];
+}
+
+// One share of an expense. Either percent (of the gross amount) or a fixed amount in the expense currency.
+export interface ExpenseAllocation {
+  project?: string;      // Client / company project
+  cost_center?: string;
+  category?: string;     // Falls back to the expense category
+  percent?: number;
+  amount?: number;
+  note?: string;
+}
+
+export interface VatDetails {
+  supplier_trn?: string;       // Supplier tax registration number as printed
+  taxable_amount?: number;     // Net amount subject to VAT
+  vat_rate?: number;           // Percent
+  vat_amount?: number;
+  jurisdiction?: string;       // VatJurisdiction.code; inferred from currency/TRN when missing
+  is_tax_invoice?: boolean;    // Document is titled "Tax Invoice" (vs. a plain receipt)
+  invoice_number?: string;
+}
+
+export interface VatJurisdiction {
+  code: string;                        // 'AE', 'OM', 'SA'
+  name: string;
+  currency: string;                    // Currency the return is filed in
+  standard_rate: number;               // Percent
+  trn_label: string;                   // 'TRN', 'VATIN', 'VAT No.'
+  trn_pattern?: string;                // RegExp source a valid registration number must match
+  simplified_invoice_limit?: number;   // Below this a simplified tax invoice (no recipient details) is accepted
+  blocked_categories?: string[];       // Expense heads whose input VAT is not recoverable (e.g. entertainment)
+}
+
+export type ProvenanceField = 'merchant' | 'amount' | 'currency' | 'date' | 'card_digits';
+
 export interface Expense {
   id: string;
   merchant: string;
@@ -70,10 +372,13 @@ export interface Expense {
   source: ExpenseSource;
   description: string;
   reconciledId?: string;
-  confidence: number;
+  confidence: number; // Lowest field confidence for AI extractions; 1.0 for native statement imports
+  field_provenance?: Partial<Record<ProvenanceField, FieldProvenance>>;
   gmail_message_id?: string;
   card_last_4?: string;
-  transaction_type?: string;
+  transaction_type?: string; // 'debit' | 'credit' | 'refund' | 'reversal' | 'chargeback'
+  transaction_reference?: string; // Statement reference / auth code of this line
+  reversal_reference?: string; // Reference of the original charge a credit reverses
   bank?: string;
   account_holder?: string;
   email_subject?: string;
@@ -89,9 +394,17 @@ export interface Expense {
   expense_type?: string;
   notes?: string;
   main_category?: string;
-  reimbursement_status?: string;
-  paid_by?: string;
-  travel_log_id?: string; // Link to related travel log
+  reimbursement_status?: ReimbursementStatus;
+  paid_by?: string;         // 'Employee' (out of pocket) or 'Company'
+  claim_id?: string;        // ReimbursementClaim this expense was submitted in
+  items?: ExpenseLineItem[];
+  tax_amount?: number;      // Total tax on the document (sum of line taxes when itemised)
+  payment_method?: string;  // Card, Cash, Bank Transfer...
+  attendees?: number;       // Covers / guests on a meal bill
+  policy_violations?: PolicyViolation[];
+  vat?: VatDetails;
+  allocations?: ExpenseAllocation[]; // Overrides category/company_project for reporting when present
+  travel_log_id?: string; // Link to related travel log, or to a trip by its id
   proof_metadata?: {
     type?: 'email' | 'receipt' | 'bank' | 'cross_verified';
     label?: string;
@@ -110,6 +423,25 @@ export interface Expense {
   reconciled_at?: string;
   card_digits?: string; // Extracted last 4 digits
   forwarded_from?: string; // Original sender of a forwarded email
+
+  // Deduplication
+  dedupe_key?: string;    // bank|card|date|amount|descriptor|direction (see buildDedupeKey)
+  document_hash?: string; // SHA-256 of the uploaded file this row came from
+  document_id?: string;   // Original document in the blob store (GET /api/documents/:id)
+  duplicate_of?: string;  // Id of the existing record this row is suspected to duplicate
+}
+
+// One record per uploaded file, so re-uploads are recognised before any AI call
+export interface DocumentFingerprint {
+  id: string;
+  hash: string; // SHA-256 of the file bytes
+  user_id: string;
+  file_name: string;
+  source: ExpenseSource;
+  expense_count?: number;
+  travel_count?: number;
+  job_id?: string;
+  created_at: string;
 }
 
 export interface ReconciliationResult {
@@ -119,10 +451,15 @@ export interface ReconciliationResult {
     emailId?: string;
     proofLabel?: string;
     summary?: string;
+    bankIds?: string[];    // All anchors in a group match (e.g. deposit + final charge)
+    receiptIds?: string[]; // All linked proofs (split bills, manual one-to-many links)
+    score?: number; // Engine score (0-100)
+    method?: 'engine' | 'ai' | 'manual';
   }>;
   unmatchedReceipts: string[];
   unmatchedBankTransactions: string[];
   unmatchedEmails: string[];
+  reversals?: Array<{ creditId: string; debitId: string; amount: number; full: boolean }>;
   mismatches: Array<{
     receiptId?: string;
     bankId?: string;
@@ -131,6 +468,17 @@ export interface ReconciliationResult {
   }>;
 }
 
+export interface ReconciliationOverride {
+  id: string;
+  reconciliation_key: string;  // "<year>-<month>" the override was made in (audit trail)
+  type: 'match' | 'unmatch' | 'no_receipt';
+  anchor_id: string;           // Bank/Card line
+  proof_ids?: string[];        // 'match': one or more receipts; 'unmatch': the rejected receipt
+  reason?: string;             // Required for 'no_receipt'
+  created_by: string;
+  created_at: string;
+}
+
 export interface ReconciliationReport {
   id?: string;
   month: string;
@@ -140,6 +488,13 @@ export interface ReconciliationReport {
   mandatory_missing: Expense[];
   optional_missing: Expense[];
   standard_missing: Expense[];
+  manual_matches?: Array<{ anchor_id: string; proof_ids: string[]; created_by: string; created_at: string }>;
+  no_receipt_expected?: Array<{ anchor_id: string; reason: string; created_by: string; created_at: string }>;
+  exempt_transactions?: Expense[];
+  subscription_covered?: Array<{ anchor_id: string; subscription_id: string; merchant: string }>;
+  match_groups?: Array<{ anchor_ids: string[]; proof_ids: string[]; summary?: string }>;
+  reversed_pairs?: Array<{ debit_id: string; credit_ids: string[]; amount_reversed: number; full: boolean }>;
+  credit_transactions?: Expense[];
   summary: {
     total_matched: number;
     total_unmatched: number;
@@ -149,6 +504,9 @@ export interface ReconciliationReport {
     mandatory_error_count: number;
     warning_count: number;
     optional_count: number;
+    manual_count?: number;
+    reversed_count?: number; // Fully reversed charges left out of compliance_score
+    credit_count?: number;
   };
   created_at?: string;
   is_local?: boolean;
@@ -159,6 +517,54 @@ export interface AppSettings {
   audit_threshold: number;
   reporting_currency?: string; // e.g. 'USD', 'AED', 'OMR'
   custom_expense_heads: string[];
+  vat_jurisdictions?: VatJurisdiction[];   // Falls back to DEFAULT_VAT_JURISDICTIONS when empty
+  vat_home_jurisdiction?: string;          // Jurisdiction the company files in (e.g. 'AE')
+  approval_steps?: ApprovalStep[];         // Empty: claims go straight to admin review
+  approval_delegations?: ApprovalDelegation[];
+  policy_rules?: PolicyRule[];
+  budgets?: Budget[];
+  residency?: ResidencySettings;
+  per_diem?: PerDiemSettings;
+  updated_at?: string;
+}
+
+export interface MerchantAlias {
+  id: string;
+  canonical_name: string;   // e.g. "RTA (Dubai Metro / Hala Taxi)"
+  descriptors: string[];    // Statement descriptors / brand names (case-insensitive, whole words)
+  patterns?: string[];      // Optional regular expressions tested against the raw merchant
+  user_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type SubscriptionCadence = 'weekly' | 'monthly' | 'quarterly' | 'annual';
+
+// Standing contract kept in the document store; stands in for a receipt on every charge
+export interface SubscriptionContract {
+  document_id: string;
+  file_name: string;
+  uploaded_by: string;
+  uploaded_at: string;
+  valid_until?: string;
+}
+
+// Recurring charge confirmed by an admin (telecom, SaaS, parking)
+export interface Subscription {
+  id: string;
+  merchant: string;            // Canonical merchant (alias registry aware)
+  amount: number;              // Expected charge per occurrence
+  currency: string;
+  cadence: SubscriptionCadence;
+  start_date: string;          // First expected charge
+  end_date?: string;           // Cancelled; no charges expected after this date
+  tolerance_percent?: number;  // Price drift allowed before a charge is flagged (default 5)
+  card_digits?: string;
+  category?: string;
+  contract?: SubscriptionContract;
+  notes?: string;
+  confirmed_by: string;
+  confirmed_at: string;
   updated_at?: string;
 }
 
@@ -170,6 +576,82 @@ export interface BankMapping {
   created_at?: string;
 }
 
+export type StatementFormat = 'ofx' | 'mt940' | 'camt053' | 'csv';
+
+export interface StatementTemplate {
+  id: string;
+  bank_name: string;           // Matches BankMapping.bank_name / Expense.bank
+  delimiter?: string;          // ',', ';' or '\t' (auto-detected when empty)
+  skip_rows?: number;          // Preamble lines before the header row
+  columns: {                   // Header names as printed in the export
+    date: string;
+    description: string;
+    amount?: string;           // Single signed amount column...
+    debit?: string;            // ...or separate debit/credit columns
+    credit?: string;
+    currency?: string;
+    card?: string;
+    reference?: string;
+  };
+  debit_sign?: 'negative' | 'positive'; // How a single amount column prints spend (default negative)
+  date_format?: 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+  decimal_separator?: '.' | ',';
+  default_currency?: string;
+  user_id?: string;
+  created_at?: string;
+}
+
+export type ExtractionDocumentStatus = 'queued' | 'running' | 'done' | 'failed' | 'retrying';
+
+export interface ExtractionJobDocument {
+  id: string;
+  name: string;
+  source: ExpenseSource;
+  status: ExtractionDocumentStatus;
+  attempts: number;
+  error?: string;
+  next_attempt_at?: string;   // Set while 'retrying' (quota backoff)
+  expense_count?: number;     // Rows written to expenses (duplicates skipped)
+  travel_count?: number;
+  duplicate_count?: number;
+  suspected_count?: number;   // Saved but sent to the clarification queue as possible duplicates
+  hash?: string;              // File fingerprint supplied by the client
+  document_id?: string;       // Retained original, copied onto the extracted rows
+  duplicate_of_document?: string; // Set when the file was already processed (no AI call made)
+  updated_at: string;
+}
+
+export interface ExtractionJob {
+  id: string;
+  user_id: string;
+  bank?: string;
+  status: 'queued' | 'running' | 'done' | 'partial' | 'failed';
+  documents: ExtractionJobDocument[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type ExtractionEventType = 'received' | 'model_call_started' | 'retry_scheduled' | 'parsed' | 'failed' | 'skipped_duplicate';
+
+// One entry of a job's progress stream (GET /api/jobs/:id/events)
+export interface ExtractionJobEvent {
+  seq: number;
+  job_id: string;
+  doc_id: string;
+  doc_name: string;
+  type: ExtractionEventType;
+  at: string;
+  attempt?: number;
+  delay_ms?: number;          // retry_scheduled: backoff chosen by retryWithBackoff
+  expense_count?: number;     // parsed
+  travel_count?: number;
+  duplicate_count?: number;
+  suspected_count?: number;
+  error?: string;             // failed
+  job_status: ExtractionJob['status'];
+  document: ExtractionJobDocument; // Snapshot after the event
+}
+
 export enum AppTab {
   DASHBOARD = 'dashboard',
   EXTRACT = 'extract',
@@ -179,7 +661,10 @@ export enum AppTab {
   RESOLVE = 'resolve',
   ACCOUNT_MASTER = 'account_master',
   SYSTEM_SETTINGS = 'system_settings',
-  BANK_REGISTRY = 'bank_registry'
+  BANK_REGISTRY = 'bank_registry',
+  MERCHANT_REGISTRY = 'merchant_registry',
+  CLAIMS = 'claims',
+  SUBSCRIPTIONS = 'subscriptions'
 }
 
 export interface UsageLog {
@@ -0,0 +1,235 @@
+import { Expense, VatJurisdiction, AppSettings } from './types';
+import { isAnchor, isCredit } from './reconciliationEngine';
+import { sumLineItemTax } from './lineItems';
+
+/**
+ * VAT ENGINE
+ * Input-VAT recovery for GCC jurisdictions. Rules (rate, registration number format,
+ * simplified invoice limit, blocked heads) live in AppSettings.vat_jurisdictions so a rate
+ * change or a new country is a settings edit, not a release.
+ * Only proofs (receipts, invoices) carry VAT evidence; statement lines never do.
+ */
+
+export const DEFAULT_VAT_JURISDICTIONS: VatJurisdiction[] = [
+  { code: 'AE', name: 'United Arab Emirates', currency: 'AED', standard_rate: 5, trn_label: 'TRN', trn_pattern: '^100\\d{12}$', simplified_invoice_limit: 10000, blocked_categories: [] },
+  { code: 'OM', name: 'Oman', currency: 'OMR', standard_rate: 5, trn_label: 'VATIN', trn_pattern: '^OM\\d{10}$', blocked_categories: [] },
+  { code: 'SA', name: 'Saudi Arabia', currency: 'SAR', standard_rate: 15, trn_label: 'VAT No.', trn_pattern: '^3\\d{13}3$', simplified_invoice_limit: 1000, blocked_categories: [] }
+];
+
+// Payroll and internal transfers are not taxable supplies
+const NON_SUPPLY_CATEGORIES = ['Salary', 'Transfer'];
+
+export type VatGranularity = 'month' | 'quarter';
+
+export type VatStatus = 'recoverable' | 'blocked' | 'invalid';
+
+export interface VatScheduleRow {
+  expense_id: string;
+  date: string;
+  period: string;
+  supplier: string;
+  trn: string;
+  invoice_number: string;
+  category: string;
+  jurisdiction: string;
+  document_currency: string;
+  taxable_amount: number;   // Filing currency, negative for credit notes
+  vat_rate: number;
+  vat_amount: number;       // Filing currency, negative for credit notes
+  recoverable_vat: number;  // Filing currency
+  status: VatStatus;
+  issues: string[];
+}
+
+export interface VatPeriodSummary {
+  period: string;
+  jurisdiction: string;
+  currency: string;
+  taxable_amount: number;
+  vat_amount: number;
+  recoverable_vat: number;
+  invoice_count: number;
+  invalid_count: number;
+  blocked_count: number;
+}
+
+export interface VatScheduleOptions {
+  jurisdictions: VatJurisdiction[];
+  homeJurisdiction?: string;
+  ratesByMonth?: Record<string, Record<string, number>>; // YYYY-MM => pinned USD-bridged rates (ExchangeRates.rates)
+  granularity?: VatGranularity;
+}
+
+export const resolveVatJurisdictions = (settings?: Pick<AppSettings, 'vat_jurisdictions'>) =>
+  settings?.vat_jurisdictions?.length ? settings.vat_jurisdictions : DEFAULT_VAT_JURISDICTIONS;
+
+export const normalizeTrn = (trn?: string) => (trn || '').toUpperCase().replace(/[\s-]/g, '');
+
+export const isValidTrn = (trn: string | undefined, j: VatJurisdiction) => {
+  const value = normalizeTrn(trn);
+  if (!value) return false;
+  if (!j.trn_pattern) return true;
+  try {
+    return new RegExp(j.trn_pattern).test(value);
+  } catch {
+    return true; // A broken pattern in settings should not invalidate every invoice
+  }
+};
+
+export const vatPeriodKey = (date: string, granularity: VatGranularity = 'quarter') => {
+  const [year, month] = date.split('-');
+  if (granularity === 'month') return `${year}-${month}`;
+  return `${year}-Q${Math.ceil(parseInt(month, 10) / 3)}`;
+};
+
+/**
+ * Explicit jurisdiction first, then a registration number that only one jurisdiction accepts,
+ * then the document currency, then the home jurisdiction for documents in a foreign currency
+ * that still carry a home-format TRN.
+ */
+export const findJurisdiction = (exp: Pick<Expense, 'vat' | 'currency'>, jurisdictions: VatJurisdiction[], homeJurisdiction?: string) => {
+  if (exp.vat?.jurisdiction) {
+    const explicit = jurisdictions.find(j => j.code === exp.vat!.jurisdiction);
+    if (explicit) return explicit;
+  }
+  if (exp.vat?.supplier_trn) {
+    const byTrn = jurisdictions.filter(j => j.trn_pattern && isValidTrn(exp.vat!.supplier_trn, j));
+    if (byTrn.length === 1) return byTrn[0];
+  }
+  const byCurrency = jurisdictions.find(j => j.currency === (exp.currency || '').toUpperCase());
+  if (byCurrency) return byCurrency;
+  return exp.vat?.supplier_trn ? jurisdictions.find(j => j.code === homeJurisdiction) : undefined;
+};
+
+export const hasVatEvidence = (exp: Expense) =>
+  !!exp.vat?.vat_amount || !!exp.vat?.supplier_trn || !!exp.vat?.is_tax_invoice ||
+  (exp.tax_amount || 0) > 0 || sumLineItemTax(exp.items) > 0;
+
+/**
+ * Taxable / rate / VAT in the document currency. Missing figures are derived from the gross
+ * amount (UAE receipts often print only the total and the VAT).
+ */
+export const resolveVatAmounts = (exp: Expense) => {
+  const gross = Math.abs(exp.amount);
+  const itemTax = sumLineItemTax(exp.items);
+  const vat = exp.vat?.vat_amount ?? exp.tax_amount ?? (itemTax > 0 ? itemTax : 0);
+  const taxable = exp.vat?.taxable_amount ?? Math.max(0, gross - vat);
+  const rate = exp.vat?.vat_rate ?? (taxable > 0 ? Math.round((vat / taxable) * 10000) / 100 : 0);
+  return { gross, taxable, rate, vat };
+};
+
+/**
+ * Reasons a document cannot support an input-VAT claim. Empty means a valid tax invoice.
+ * grossInFilingCurrency is used for the simplified-invoice limit.
+ */
+export const validateTaxInvoice = (exp: Expense, j: VatJurisdiction, grossInFilingCurrency: number): string[] => {
+  const issues: string[] = [];
+  const { taxable, rate, vat } = resolveVatAmounts(exp);
+
+  if (!vat) issues.push('No VAT amount shown');
+  if (!normalizeTrn(exp.vat?.supplier_trn)) {
+    issues.push(`Missing supplier ${j.trn_label}`);
+  } else if (!isValidTrn(exp.vat?.supplier_trn, j)) {
+    issues.push(`${j.trn_label} ${exp.vat!.supplier_trn} is not a valid ${j.name} format`);
+  }
+  if (vat && Math.abs(rate - j.standard_rate) > 0.5) {
+    issues.push(`VAT rate ${rate}% differs from the ${j.standard_rate}% standard rate`);
+  }
+  if (vat && taxable > 0 && exp.vat?.vat_rate !== undefined) {
+    const expected = (taxable * exp.vat.vat_rate) / 100;
+    if (Math.abs(expected - vat) > Math.max(0.05, expected * 0.01)) issues.push('VAT amount does not equal taxable amount × rate');
+  }
+  if (exp.vat?.is_tax_invoice === false) {
+    issues.push('Document is a receipt, not a tax invoice');
+  } else if (j.simplified_invoice_limit && grossInFilingCurrency > j.simplified_invoice_limit && !exp.vat?.is_tax_invoice) {
+    issues.push(`Full tax invoice required above ${j.currency} ${j.simplified_invoice_limit.toLocaleString()}`);
+  }
+  return issues;
+};
+
+// Null when either currency has no rate; a 1:1 guess would file the wrong amount
+const toUSD = (amount: number, currency: string, rates: Record<string, number>): number | null => {
+  const code = (currency || 'USD').toUpperCase();
+  if (code === 'USD') return amount;
+  const rate = rates[code];
+  return rate ? amount / rate : null;
+};
+
+const convertAmount = (amount: number, from: string, to: string, rates: Record<string, number>): number | null => {
+  if ((from || '').toUpperCase() === to.toUpperCase()) return amount;
+  const usd = toUSD(amount, from, rates);
+  const unit = toUSD(1, to, rates);
+  return usd === null || unit === null ? null : usd / unit;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Builds the input tax schedule (one row per tax document) and per-period, per-jurisdiction
+ * totals in each jurisdiction's filing currency. Credit notes carry negative amounts.
+ */
+export const buildVatSchedule = (expenses: Expense[], opts: VatScheduleOptions) => {
+  const rows: VatScheduleRow[] = [];
+
+  expenses.forEach(exp => {
+    if (isAnchor(exp) || NON_SUPPLY_CATEGORIES.includes(exp.category) || !hasVatEvidence(exp)) return;
+    const j = findJurisdiction(exp, opts.jurisdictions, opts.homeJurisdiction);
+    if (!j) return;
+
+    const { gross, taxable, rate, vat } = resolveVatAmounts(exp);
+    const sign = isCredit(exp) ? -1 : 1;
+    // Each invoice converts at the pinned rate of its own month
+    const rates = opts.ratesByMonth?.[(exp.date || '').slice(0, 7)] || {};
+    // Without a rate the row stays on the schedule as invalid, with nothing in the filing currency
+    const convertible = convertAmount(1, exp.currency, j.currency, rates) !== null;
+    const toFiling = (n: number) => round2(convertAmount(n, exp.currency, j.currency, rates) ?? 0);
+    const issues = validateTaxInvoice(exp, j, toFiling(gross));
+    if (!convertible) issues.unshift(`No exchange rate from ${(exp.currency || 'USD').toUpperCase()} to ${j.currency}`);
+    const status: VatStatus = issues.length > 0 ? 'invalid' : (j.blocked_categories || []).includes(exp.category) ? 'blocked' : 'recoverable';
+
+    rows.push({
+      expense_id: exp.id,
+      date: exp.date,
+      period: vatPeriodKey(exp.date, opts.granularity),
+      supplier: exp.merchant,
+      trn: normalizeTrn(exp.vat?.supplier_trn),
+      invoice_number: exp.vat?.invoice_number || exp.transaction_reference || '',
+      category: exp.category,
+      jurisdiction: j.code,
+      document_currency: exp.currency,
+      taxable_amount: sign * toFiling(taxable),
+      vat_rate: rate,
+      vat_amount: sign * toFiling(vat),
+      recoverable_vat: status === 'recoverable' ? sign * toFiling(vat) : 0,
+      status,
+      issues: status === 'blocked' ? [`${exp.category} is a blocked input-tax head`] : issues
+    });
+  });
+
+  rows.sort((a, b) => a.date.localeCompare(b.date));
+
+  const byKey: Record<string, VatPeriodSummary> = {};
+  rows.forEach(row => {
+    const key = `${row.period}|${row.jurisdiction}`;
+    const summary = byKey[key] || (byKey[key] = {
+      period: row.period,
+      jurisdiction: row.jurisdiction,
+      currency: opts.jurisdictions.find(j => j.code === row.jurisdiction)!.currency,
+      taxable_amount: 0,
+      vat_amount: 0,
+      recoverable_vat: 0,
+      invoice_count: 0,
+      invalid_count: 0,
+      blocked_count: 0
+    });
+    summary.taxable_amount = round2(summary.taxable_amount + row.taxable_amount);
+    summary.vat_amount = round2(summary.vat_amount + row.vat_amount);
+    summary.recoverable_vat = round2(summary.recoverable_vat + row.recoverable_vat);
+    summary.invoice_count++;
+    if (row.status === 'invalid') summary.invalid_count++;
+    if (row.status === 'blocked') summary.blocked_count++;
+  });
+
+  const summaries = Object.values(byKey).sort((a, b) => a.period.localeCompare(b.period) || a.jurisdiction.localeCompare(b.jurisdiction));
+  return { rows, summaries };
+};